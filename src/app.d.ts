@@ -3,11 +3,21 @@
 declare global {
 	namespace App {
 		// interface Error {}
-		// interface Locals {}
+		interface Locals {
+			/** Delegated Microsoft refresh token, set by the Auth.js jwt callback when auth() runs */
+			microsoftRefreshToken?: string;
+		}
 		// interface PageData {}
 		// interface PageState {}
 		// interface Platform {}
 	}
 }
 
+declare module '@auth/core/types' {
+	interface User {
+		/** Entra sign-in name, used when the account has no mail address */
+		userPrincipalName?: string;
+	}
+}
+
 export {};
@@ -2,7 +2,7 @@ import { PUBLIC_N8N_CHAT_WH_URL } from '$env/static/public';
 import { fetchWithRetry } from '$lib/utils/retry';
 
 export interface ToolResultData {
-	type: 'availability' | 'booking' | 'time_entry';
+	type: 'availability' | 'booking' | 'time_entry' | 'common_slots';
 	data: Record<string, any>;
 }
 
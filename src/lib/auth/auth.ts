@@ -1,8 +1,73 @@
 import {SvelteKitAuth} from '@auth/sveltekit';
 import MicrosoftEntraID from '@auth/core/providers/microsoft-entra-id';
+import type { JWT } from '@auth/core/jwt';
+import type { Account } from '@auth/core/types';
 import { AUTH_MICROSOFT_ENTRA_ID_ID, AUTH_MICROSOFT_ENTRA_ID_SECRET, AUTH_MICROSOFT_ENTRA_ID_ISSUER, AUTH_MICROSOFT_ENTRA_ID_TENANT_ID } from '$env/static/private';
+import { ACCESS_TOKEN_REFRESH_ERROR } from '$lib/utils/auth';
+import { DELEGATED_SCOPES, refreshDelegatedToken } from '$lib/services/microsoft-graph-auth';
 
-export const {handle} = SvelteKitAuth({
+// Refresh a little before Entra's expiry so in-flight Graph calls don't race it
+const REFRESH_BUFFER_MS = 60 * 1000;
+
+function getTenantId(): string {
+    return AUTH_MICROSOFT_ENTRA_ID_TENANT_ID || AUTH_MICROSOFT_ENTRA_ID_ISSUER.split('/')[3] || 'common';
+}
+
+/**
+ * Exchange the stored refresh token for a new delegated access token.
+ * Entra rotates refresh tokens, so the new one replaces the old when returned.
+ * On failure the token is flagged with ACCESS_TOKEN_REFRESH_ERROR and the user must sign in again.
+ */
+async function refreshAccessToken(token: JWT): Promise<JWT> {
+    try {
+        if (!token.refreshToken) {
+            throw new Error('No refresh token stored');
+        }
+
+        const refreshed = await refreshDelegatedToken({
+            tenantId: getTenantId(),
+            clientId: AUTH_MICROSOFT_ENTRA_ID_ID,
+            clientSecret: AUTH_MICROSOFT_ENTRA_ID_SECRET,
+            refreshToken: token.refreshToken as string,
+        });
+
+        return {
+            ...token,
+            accessToken: refreshed.accessToken,
+            refreshToken: refreshed.refreshToken,
+            accessTokenExpires: refreshed.expiresAt,
+            error: undefined,
+        };
+    } catch (error) {
+        console.error('[Auth] Failed to refresh Microsoft access token:', error instanceof Error ? error.message : error);
+        return { ...token, error: ACCESS_TOKEN_REFRESH_ERROR };
+    }
+}
+
+/**
+ * Token after sign-in, or the stored one refreshed when it is about to expire
+ */
+async function rotateToken(token: JWT, account: Account | null | undefined): Promise<JWT> {
+    // Persist the OAuth access_token to the token right after signin
+    if (account) {
+        token.accessToken = account.access_token;
+        token.refreshToken = account.refresh_token;
+        token.accessTokenExpires = account.expires_at;
+        token.error = undefined;
+        return token;
+    }
+
+    // accessTokenExpires is in seconds (Entra's expires_at)
+    const expiresAt = typeof token.accessTokenExpires === 'number' ? token.accessTokenExpires * 1000 : 0;
+    if (Date.now() < expiresAt - REFRESH_BUFFER_MS) {
+        return token;
+    }
+
+    return refreshAccessToken(token);
+}
+
+// Config per request so the jwt callback can put the refresh token on event.locals
+export const {handle} = SvelteKitAuth(async (event) => ({
     providers: [
         MicrosoftEntraID({
             clientId: AUTH_MICROSOFT_ENTRA_ID_ID,
@@ -10,26 +75,25 @@ export const {handle} = SvelteKitAuth({
             issuer: AUTH_MICROSOFT_ENTRA_ID_ISSUER,
             authorization: {
                 params: {
-                    scope: 'openid profile email offline_access Calendars.ReadWrite User.Read.All',
+                    scope: DELEGATED_SCOPES,
                 },
             },
         }),
     ],
     callbacks: {
         async jwt({ token, account }) {
-            // Persist the OAuth access_token to the token right after signin
-            if (account) {
-                token.accessToken = account.access_token;
-                token.refreshToken = account.refresh_token;
-                token.accessTokenExpires = account.expires_at;
-            }
-            return token;
+            const next = await rotateToken(token, account);
+            // Server-side only (never on the session sent to the browser): lets a request retry
+            // Graph with a fresh delegated token after the response has started, without auth()
+            event.locals.microsoftRefreshToken = next.error ? undefined : (next.refreshToken as string | undefined);
+            return next;
         },
         async session({ session, token }) {
             // Send properties to the client
             (session as any).accessToken = token.accessToken;
+            (session as { error?: unknown }).error = token.error;
             return session;
         },
     },
     trustHost: true,
-});
\ No newline at end of file
+}));
@@ -3,22 +3,24 @@
  * Each section is focused and only included when relevant to the tool scope.
  */
 
-import { getTodayEastern, formatDateEastern } from '$lib/utils/datetime';
+import { DEFAULT_TIME_ZONE, getTodayInZone, formatCalendarDate, getTimeZoneLabel } from '$lib/utils/datetime';
+import type { LoggedInUser } from '$lib/types/user';
 
 // ==================== IDENTITY ====================
 
 export function buildIdentityPrompt(
-	user: { name: string; email: string } | null,
+	user: LoggedInUser | null,
 	date: Date
 ): string {
-	const todayStr = getTodayEastern();
-	const dayOfWeek = date.toLocaleDateString('en-US', { weekday: 'long', timeZone: 'America/New_York' });
-	const formattedDate = date.toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric', timeZone: 'America/New_York' });
+	const timeZone = user?.timeZone || DEFAULT_TIME_ZONE;
+	const todayStr = getTodayInZone(timeZone);
+	const dayOfWeek = date.toLocaleDateString('en-US', { weekday: 'long', timeZone });
+	const formattedDate = date.toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric', timeZone });
 	const yesterdayStr = (() => {
 		const p = todayStr.split('-').map(Number);
 		const y = new Date(p[0], p[1] - 1, p[2]);
 		y.setDate(y.getDate() - 1);
-		return formatDateEastern(y);
+		return formatCalendarDate(y);
 	})();
 
 	const currentYear = todayStr.split('-')[0];
@@ -37,11 +39,13 @@ CURRENT DATE CONTEXT (CRITICAL - USE THIS FOR ALL DATE CALCULATIONS)
 LOGGED-IN USER
 - Name: ${user?.name || 'Unknown'}
 - Email: ${user?.email || 'no email'}
+- Time zone: ${timeZone} (${getTimeZoneLabel(timeZone, date)})
 - The logged-in user IS the meeting organizer. Never ask them for their own name or email.
 
 WHAT YOU CAN DO (tell users this):
-- Check calendar availability for team members.
+- Check calendar availability for team members, and find times when several people are free.
 - Book meetings with Teams links.
+- Reschedule, cancel or change the attendees of existing meetings.
 - Log time entries for employees against customers.`;
 }
 
@@ -59,7 +63,8 @@ NAME HANDLING
 - Only treat a name as "not found" if there is truly no plausible match, or there are several equally likely matches and you have already asked the user to choose.
 
 TIME & TIMEZONE
-- All scheduling and availability are in Eastern Time (EST/EDT).
+- All scheduling and availability are in the logged-in user's time zone (see LOGGED-IN USER). Tool results say which zone their times are in.
+- When a booking result includes recipient_time, the other person is in a different zone: mention both local times.
 - When the user mentions "today" or "tomorrow", map those to real dates in YYYY-MM-DD format using the current date above.
 - When the user provides a time without AM/PM (e.g., "11" or "930"), infer a reasonable AM/PM based on normal working hours (prefer 9-5 daytime) unless the user clearly indicates otherwise.
 
@@ -82,15 +87,23 @@ export const CALENDAR_RULES = `CALENDAR & MEETINGS
 - When the user says "I want a meeting with [name] on <date> at <time>":
   - Assume the logged-in user is the organizer.
   - Use the same date from the request (or the most recent date used for availability if the user gives only a time).
-  - Convert natural language time like "11", "11am", "11:30", "930" into a concrete start and end time using Eastern Time.
+  - Convert natural language time like "11", "11am", "11:30", "930" into a concrete start and end time in the user's time zone.
   - Book the meeting if there is no explicit conflict returned by the tools.
+- When the user wants a time that works for several people ("find 30 minutes with Todd and Ashlee this week"), call find_common_slot with all of them and the date range. To book a returned slot, pass its book_meeting_args to book_meeting with a subject.
+- For a repeating meeting ("every other Tuesday until March", "weekly for 6 weeks"), pass the user's repeat phrase as recurrence on book_meeting, with start/end for the first occurrence. If it returns conflicts, list the clashing dates and who is busy, and only retry with ignore_conflicts: true if the user says to book anyway.
 - You MUST NOT say "I need their email address" if you can pass a display name and let the backend resolve it.
-- After booking a meeting, always confirm: who the meeting is with, date and time range in Eastern Time, and that an invite has been created (with Teams link if present).`;
+- After booking a meeting, always confirm: who the meeting is with, date and time range in the user's time zone, and that an invite has been created (with Teams link if present).
+- When the user wants to move, cancel or change attendees on an existing meeting ("move my 3pm with Todd tomorrow to 4"):
+  1) Call reschedule_meeting / cancel_meeting / update_meeting_attendees with the meeting description (meeting_date, meeting_time, meeting_with, meeting_subject) and WITHOUT confirmation_token.
+  2) If the tool returns candidates, ask the user which meeting they mean and use its event_id.
+  3) The tool returns a confirmation card. Ask the user to confirm in one short sentence.
+  4) Only after the user says yes, call the same tool again with the event_id, the same change and the confirmation_token it returned.
+- NEVER make up a confirmation_token or reuse one from a different change, and never claim a meeting was changed unless the tool returned success=true.`;
 
 // ==================== TIME ENTRY / BILLING RULES ====================
 
-export function buildTimeEntryRules(user: { name: string; email: string } | null): string {
-	const todayStr = getTodayEastern();
+export function buildTimeEntryRules(user: LoggedInUser | null): string {
+	const todayStr = getTodayInZone(user?.timeZone || DEFAULT_TIME_ZONE);
 	return `TIME ENTRY / BILLING
 - You can look up employees, look up customers, and submit time entries.
 - The logged-in user (${user?.name || 'Unknown'}) IS the employee. NEVER ask who they are.
@@ -111,7 +124,7 @@ export function buildTimeEntryRules(user: { name: string; email: string } | null
 
 export function buildSystemPrompt(
 	toolScope: 'calendar' | 'billing' | 'all',
-	user: { name: string; email: string } | null,
+	user: LoggedInUser | null,
 	date: Date
 ): string {
 	const sections: string[] = [
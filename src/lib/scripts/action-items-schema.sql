@@ -0,0 +1,22 @@
+-- Action item approvals schema for Supabase
+-- Tables: action_item_approvals
+
+-- ============================================================
+-- 1. action_item_approvals – approval requests sent out by the n8n action-items workflow
+-- ============================================================
+CREATE TABLE IF NOT EXISTS action_item_approvals (
+    workflow_execution_id TEXT PRIMARY KEY,
+    goal TEXT,
+    action_items JSONB NOT NULL DEFAULT '[]',  -- [{title, owner, goal, decision, decided_by, decided_at}]
+    status TEXT NOT NULL DEFAULT 'pending',    -- pending, partially_approved, submitting, submitted, expired
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    expires_at TIMESTAMPTZ NOT NULL,
+    submitted_at TIMESTAMPTZ,
+    submitted_by TEXT,                         -- email of the reviewer who submitted the decisions
+    webhook_status INTEGER,                    -- HTTP status returned by the approval webhook
+    webhook_response TEXT                      -- response body from the approval webhook (truncated)
+);
+
+CREATE INDEX IF NOT EXISTS idx_action_item_approvals_created ON action_item_approvals (created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_action_item_approvals_status ON action_item_approvals (status);
@@ -0,0 +1,235 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { execSync } from 'child_process';
+import pg from 'pg';
+import { DEFAULT_RAG_CONFIG, type RagConfig } from '$lib/services/rag-config';
+import { isFusionStrategy } from '$lib/services/rag-fusion';
+import { isQueryExpansion } from '$lib/services/rag-query';
+import { closeRagPool } from '$lib/services/rag-retrieval';
+import { loadStoredGoldenSet } from '$lib/services/rag-feedback';
+import {
+	DEFAULT_EVAL_KS,
+	evaluateConfig,
+	expandConfigGrid,
+	parseGoldenSet,
+	type ConfigResult,
+	type RagConfigGrid
+} from '$lib/services/rag-eval';
+
+/*
+ * Usage:
+ *   bun run src/lib/scripts/eval-rag.ts --questions=golden.jsonl|db
+ *     [--grid='{"kDense":[40,60],"fusionStrategy":["weighted","rrf"]}' | --grid=grid.json]
+ *     [--ks=1,3,5,10] [--label=my-change] [--compare=latest|<run id>] [--out=results.json] [--no-store]
+ *
+ * Golden set: JSON array or JSONL of
+ *   { "id": "q1", "question": "...", "expected_doc_ids": ["..."], "expected_chunk_ids": ["..."], "filters": {},
+ *     "history": [{ "role": "user", "content": "..." }, { "role": "assistant", "content": "..." }] }
+ * --questions=db reads the questions ops promoted from answer feedback (rag_golden_questions).
+ */
+
+const parseArgs = (argv: string[]): Record<string, string> => {
+	const args: Record<string, string> = {};
+	for (const arg of argv) {
+		if (arg.startsWith('--')) {
+			const [key, ...rest] = arg.slice(2).split('=');
+			if (key) {
+				args[key] = rest.length > 0 ? rest.join('=') : 'true';
+			}
+		}
+	}
+	return args;
+};
+
+const readGoldenSet = async (filePath: string) => {
+	const raw = (await fs.readFile(path.resolve(filePath), 'utf-8')).trim();
+	const entries = raw.startsWith('[')
+		? (JSON.parse(raw) as unknown[])
+		: raw
+				.split('\n')
+				.filter((line) => line.trim())
+				.map((line) => JSON.parse(line));
+	return parseGoldenSet(entries);
+};
+
+const isValidGridValue = (key: keyof RagConfig, value: unknown) => {
+	if (key === 'fusionStrategy') return isFusionStrategy(value);
+	if (key === 'queryExpansion') return isQueryExpansion(value);
+	return typeof value === typeof DEFAULT_RAG_CONFIG[key];
+};
+
+const readGrid = async (value: string | undefined): Promise<RagConfigGrid> => {
+	if (!value) return {};
+	const raw = value.trim().startsWith('{')
+		? value
+		: await fs.readFile(path.resolve(value), 'utf-8');
+	const grid = JSON.parse(raw) as Record<string, unknown>;
+
+	for (const [key, values] of Object.entries(grid)) {
+		if (!(key in DEFAULT_RAG_CONFIG)) {
+			throw new Error(`Unknown RagConfig key in grid: ${key}`);
+		}
+		if (!Array.isArray(values)) {
+			throw new Error(`Grid values for ${key} must be an array`);
+		}
+		const invalid = values.find((v) => !isValidGridValue(key as keyof RagConfig, v));
+		if (invalid !== undefined) {
+			throw new Error(`Invalid grid value for ${key}: ${JSON.stringify(invalid)}`);
+		}
+	}
+	return grid as RagConfigGrid;
+};
+
+const getGitCommit = () => {
+	try {
+		return execSync('git rev-parse --short HEAD', { stdio: ['ignore', 'pipe', 'ignore'] })
+			.toString()
+			.trim();
+	} catch {
+		return null;
+	}
+};
+
+// Key a config by the values that differ from the defaults, for display and run comparison
+const configLabel = (config: RagConfig) => {
+	const changed = (Object.keys(config) as Array<keyof RagConfig>)
+		.filter((key) => config[key] !== DEFAULT_RAG_CONFIG[key])
+		.map((key) => `${key}=${config[key]}`);
+	return changed.length > 0 ? changed.join(' ') : 'defaults';
+};
+
+const formatRow = (result: ConfigResult, ks: number[], baseline?: ConfigResult) => {
+	const delta = (value: number, previous?: number) =>
+		previous === undefined
+			? ''
+			: ` (${value - previous >= 0 ? '+' : ''}${(value - previous).toFixed(3)})`;
+
+	const parts = [
+		...ks.map(
+			(k) => `R@${k} ${result.recall[k].toFixed(3)}${delta(result.recall[k], baseline?.recall[k])}`
+		),
+		`MRR ${result.mrr.toFixed(3)}${delta(result.mrr, baseline?.mrr)}`,
+		...ks.map(
+			(k) => `nDCG@${k} ${result.ndcg[k].toFixed(3)}${delta(result.ndcg[k], baseline?.ndcg[k])}`
+		),
+		`total ${result.latency_mean.total_ms}ms (p95 ${result.latency_p95.total_ms}ms)`
+	];
+	return parts.join(' | ');
+};
+
+const loadPreviousRun = async (pool: pg.Pool, compare: string) => {
+	const result =
+		compare === 'latest'
+			? await pool.query(
+					`SELECT id, label, results FROM rag_eval_runs ORDER BY created_at DESC LIMIT 1`
+				)
+			: await pool.query(`SELECT id, label, results FROM rag_eval_runs WHERE id = $1`, [compare]);
+	return (result.rows[0] as { id: string; label: string | null; results: ConfigResult[] }) ?? null;
+};
+
+const main = async () => {
+	const args = parseArgs(process.argv.slice(2));
+	if (!args.questions) {
+		console.error(
+			'Usage: bun run src/lib/scripts/eval-rag.ts --questions=golden.jsonl|db [--grid=...] [--ks=1,3,5,10] [--label=...] [--compare=latest] [--out=results.json] [--no-store]'
+		);
+		process.exit(1);
+	}
+
+	const databaseUrl = process.env.VECTOR_DATABASE_URL;
+	const cohereApiKey = process.env.COHERE_API_KEY;
+
+	if (!databaseUrl || !cohereApiKey) {
+		console.error('Missing required environment variables:');
+		if (!databaseUrl) console.error('  - VECTOR_DATABASE_URL');
+		if (!cohereApiKey) console.error('  - COHERE_API_KEY');
+		process.exit(1);
+	}
+
+	const pool = new pg.Pool({
+		connectionString: databaseUrl,
+		ssl: { rejectUnauthorized: false }
+	});
+
+	try {
+		const questions =
+			args.questions === 'db'
+				? parseGoldenSet(await loadStoredGoldenSet(pool))
+				: await readGoldenSet(args.questions);
+		const grid = await readGrid(args.grid);
+		const ks = args.ks
+			? args.ks
+					.split(',')
+					.map(Number)
+					.filter((k) => k > 0)
+			: DEFAULT_EVAL_KS;
+		const configs = expandConfigGrid(grid);
+
+		// Read the baseline before storing this run, so --compare=latest means the previous run
+		const previous = args.compare ? await loadPreviousRun(pool, args.compare) : null;
+		if (args.compare && !previous) {
+			console.warn(`No previous run found for --compare=${args.compare}`);
+		}
+		const previousByConfig = new Map(
+			(previous?.results ?? []).map((r) => [configLabel(r.config), r])
+		);
+
+		console.log(`Evaluating ${questions.length} questions across ${configs.length} config(s)...`);
+		if (previous) {
+			console.log(
+				`Comparing against run ${previous.id}${previous.label ? ` (${previous.label})` : ''}`
+			);
+		}
+
+		const results: ConfigResult[] = [];
+		for (const config of configs) {
+			const result = await evaluateConfig(databaseUrl, cohereApiKey, config, questions, ks);
+			results.push(result);
+
+			const label = configLabel(config);
+			console.log(`\n[${label}]${result.failed > 0 ? ` ${result.failed} failed` : ''}`);
+			console.log(`  ${formatRow(result, ks, previousByConfig.get(label))}`);
+			console.log(
+				`  stages (mean ms): ${Object.entries(result.latency_mean)
+					.map(([stage, ms]) => `${stage.replace('_ms', '')} ${ms}`)
+					.join(', ')}`
+			);
+		}
+
+		const best = [...results].sort((a, b) => b.mrr - a.mrr)[0];
+		console.log(`\nBest MRR: [${configLabel(best.config)}] ${best.mrr.toFixed(3)}`);
+
+		if (args.out) {
+			await fs.writeFile(path.resolve(args.out), JSON.stringify(results, null, 2));
+			console.log(`Wrote results to ${args.out}`);
+		}
+
+		if (args['no-store'] !== 'true') {
+			const stored = await pool.query(
+				`INSERT INTO rag_eval_runs (label, git_commit, golden_set, question_count, ks, results)
+				 VALUES ($1, $2, $3, $4, $5, $6)
+				 RETURNING id`,
+				[
+					args.label || null,
+					getGitCommit(),
+					args.questions,
+					questions.length,
+					ks,
+					JSON.stringify(results)
+				]
+			);
+			console.log(
+				`Stored run ${stored.rows[0].id} (compare later with --compare=${stored.rows[0].id})`
+			);
+		}
+	} catch (error: unknown) {
+		console.error('Evaluation failed:', error instanceof Error ? error.message : error);
+		process.exitCode = 1;
+	} finally {
+		await pool.end();
+		await closeRagPool();
+	}
+};
+
+// The Cohere client can keep timers alive after failed requests; don't wait on them
+main().finally(() => process.exit());
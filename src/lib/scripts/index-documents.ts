@@ -1,283 +1,281 @@
 import fs from 'fs/promises';
 import path from 'path';
-import crypto from 'crypto';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
 import pg from 'pg';
 import { CohereClientV2 } from 'cohere-ai';
-
-type InputDoc = {
-	id: string;
-	title?: string;
-	source_type?: string;
-	external_url?: string;
-	version?: string;
-	product?: string;
-	language?: string;
-	tenant_id?: string;
-	content: string;
-	metadata?: Record<string, unknown>;
-};
-
-type ChunkRecord = {
-	id: string;
-	doc_id: string;
-	section: string;
-	order_index: number;
-	content: string;
-	language?: string;
-	version?: string;
-	product?: string;
-	tenant_id?: string;
-	metadata?: Record<string, unknown>;
-};
-
-type IndexConfig = {
-	chunkSizeTokens: number;
-	overlapTokens: number;
-	embedBatchSize: number;
-};
-
-const DEFAULT_CONFIG: IndexConfig = {
-	chunkSizeTokens: 300,
-	overlapTokens: 40,
-	embedBatchSize: 48,
+import {
+	formatForFile,
+	isDocumentFormat,
+	isOpenApiSpec,
+	loadDocument,
+	loadOpenApi,
+	RAG_DOCUMENT_FORMATS,
+	type LoadedDocument,
+	type RagDocumentFormat,
+} from '$lib/services/rag-loaders';
+import {
+	DEFAULT_INDEX_CONFIG,
+	indexDocument,
+	sha256,
+	stableStringify,
+	type RagIndexConfig,
+	type RagInputDocument,
+} from '$lib/services/rag-indexer';
+import { invalidateCachedAnswers } from '$lib/services/rag-answer-cache';
+
+const execFileAsync = promisify(execFile);
+
+// Document fields that can be set for every loaded file from the command line
+const DOC_DEFAULT_FIELDS = ['product', 'version', 'language', 'tenant_id', 'source_type'] as const;
+
+type Checkpoint = {
+	input_hash: string;
+	completed: string[];
 };
 
-const estimateTokens = (text: string): number => {
-	const words = text.trim().split(/\s+/).filter(Boolean);
-	return words.length;
-};
-
-const normalizeWhitespace = (text: string): string => text.replace(/\s+/g, ' ').trim();
-
-const splitByHeadings = (content: string): Array<{ section: string; text: string }> => {
-	const lines = content.split('\n');
-	const sections: Array<{ section: string; text: string }> = [];
-	let currentSection = 'General';
-	let buffer: string[] = [];
-
-	const flush = () => {
-		const text = normalizeWhitespace(buffer.join('\n'));
-		if (text.length > 0) {
-			sections.push({ section: currentSection, text });
+const parseArgs = (argv: string[]): Record<string, string> => {
+	const args: Record<string, string> = {};
+	for (const arg of argv) {
+		if (arg.startsWith('--')) {
+			const [key, ...rest] = arg.slice(2).split('=');
+			if (key) {
+				args[key] = rest.length > 0 ? rest.join('=') : 'true';
+			}
 		}
-		buffer = [];
-	};
+	}
+	return args;
+};
 
-	for (const line of lines) {
-		const headingMatch = line.match(/^\s{0,3}#{1,6}\s+(.*)$/);
-		if (headingMatch) {
-			flush();
-			currentSection = headingMatch[1].trim();
-		} else {
-			buffer.push(line);
+const listFiles = async (dir: string): Promise<string[]> => {
+	const entries = await fs.readdir(dir, { withFileTypes: true });
+	const files: string[] = [];
+	for (const entry of entries) {
+		// Skip dotfiles and our own checkpoints
+		if (entry.name.startsWith('.') || entry.name.endsWith('.checkpoint.json')) continue;
+		const fullPath = path.join(dir, entry.name);
+		if (entry.isDirectory()) {
+			files.push(...(await listFiles(fullPath)));
+		} else if (entry.isFile()) {
+			files.push(fullPath);
 		}
 	}
-
-	flush();
-	return sections.length > 0 ? sections : [{ section: 'General', text: normalizeWhitespace(content) }];
+	return files.sort();
 };
 
-const splitIntoChunks = (section: string, text: string, config: IndexConfig): string[] => {
-	const paragraphs = text.split(/\n{2,}/).map((p) => normalizeWhitespace(p)).filter(Boolean);
-	const chunks: string[] = [];
-	let current: string[] = [];
-	let currentTokens = 0;
-
-	const pushChunk = () => {
-		const chunkText = normalizeWhitespace(current.join('\n'));
-		if (chunkText.length > 0) {
-			chunks.push(chunkText);
+const pdfToText = async (filePath: string): Promise<string> => {
+	try {
+		const { stdout } = await execFileAsync('pdftotext', ['-enc', 'UTF-8', filePath, '-'], {
+			maxBuffer: 64 * 1024 * 1024,
+		});
+		return stdout;
+	} catch (error) {
+		if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+			throw new Error('pdftotext (poppler-utils) is required to index PDF files');
 		}
-	};
-
-	for (const paragraph of paragraphs) {
-		const paragraphTokens = estimateTokens(paragraph);
+		throw error;
+	}
+};
 
-		if (currentTokens + paragraphTokens > config.chunkSizeTokens && current.length > 0) {
-			pushChunk();
-			const overlapWords = current.join(' ').split(/\s+/).slice(-config.overlapTokens);
-			current = overlapWords.length > 0 ? [overlapWords.join(' ')] : [];
-			currentTokens = estimateTokens(current.join(' '));
+const fromLoaded = (id: string, filePath: string, relativePath: string, loaded: LoadedDocument): RagInputDocument => ({
+	id,
+	title: loaded.title || path.basename(filePath, path.extname(filePath)),
+	source_type: loaded.source_type,
+	content: loaded.content,
+	sections: loaded.sections,
+	metadata: { ...loaded.metadata, source_file: relativePath },
+});
+
+/**
+ * Documents in one input file: a JSON array of RagInputDocuments, an OpenAPI/Swagger JSON spec, or any
+ * file with a loader (HTML, text, CSV, PDF, markdown)
+ */
+const loadFile = async (
+	filePath: string,
+	relativePath: string,
+	id: string,
+	formatOverride?: RagDocumentFormat
+): Promise<RagInputDocument[]> => {
+	if (!formatOverride && path.extname(filePath).toLowerCase() === '.json') {
+		const parsed = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+		if (Array.isArray(parsed)) return parsed as RagInputDocument[];
+		if (!isOpenApiSpec(parsed)) {
+			throw new Error(`${relativePath}: expected an array of documents or an OpenAPI/Swagger spec`);
 		}
-
-		current.push(paragraph);
-		currentTokens += paragraphTokens;
+		return [fromLoaded(id, filePath, relativePath, loadOpenApi(parsed))];
 	}
 
-	if (current.length > 0) {
-		pushChunk();
+	const format = formatOverride ?? formatForFile(filePath);
+	if (!format) {
+		console.warn(`Skipping ${relativePath}: unsupported file type`);
+		return [];
 	}
-
-	return chunks;
+	const text =
+		path.extname(filePath).toLowerCase() === '.pdf'
+			? await pdfToText(filePath)
+			: await fs.readFile(filePath, 'utf-8');
+	return [fromLoaded(id, filePath, relativePath, loadDocument(format, text))];
 };
 
-const chunkDocument = (doc: InputDoc, config: IndexConfig): ChunkRecord[] => {
-	const sections = splitByHeadings(doc.content);
-	const records: ChunkRecord[] = [];
-
-	for (const section of sections) {
-		const chunkTexts = splitIntoChunks(section.section, section.text, config);
-		for (let i = 0; i < chunkTexts.length; i += 1) {
-			const chunkText = chunkTexts[i];
-			const chunkId = crypto
-				.createHash('sha256')
-				.update(`${doc.id}:${section.section}:${i}:${chunkText.slice(0, 50)}`)
-				.digest('hex');
+/**
+ * Load a file or every file under a directory. File documents are identified by their path
+ * relative to the input (plus --idPrefix), so re-indexing the same tree updates them in place.
+ */
+const loadInputDocs = async (inputPath: string, args: Record<string, string>): Promise<RagInputDocument[]> => {
+	if (args.format && !isDocumentFormat(args.format)) {
+		throw new Error(`Unknown --format=${args.format} (expected one of: ${RAG_DOCUMENT_FORMATS.join(', ')})`);
+	}
+	const formatOverride = args.format as RagDocumentFormat | undefined;
+	const stat = await fs.stat(inputPath);
+	const files = stat.isDirectory() ? await listFiles(inputPath) : [inputPath];
+
+	const docs: RagInputDocument[] = [];
+	for (const filePath of files) {
+		const relativePath = stat.isDirectory()
+			? path.relative(inputPath, filePath).split(path.sep).join('/')
+			: path.basename(filePath);
+		docs.push(...(await loadFile(filePath, relativePath, `${args.idPrefix || ''}${relativePath}`, formatOverride)));
+	}
 
-			records.push({
-				id: chunkId,
-				doc_id: doc.id,
-				section: section.section,
-				order_index: i,
-				content: chunkText,
-				language: doc.language,
-				version: doc.version,
-				product: doc.product,
-				tenant_id: doc.tenant_id,
-				metadata: doc.metadata || {},
-			});
+	for (const doc of docs) {
+		for (const field of DOC_DEFAULT_FIELDS) {
+			if (args[field] && !doc[field]) {
+				doc[field] = args[field];
+			}
 		}
 	}
-
-	return records;
+	return docs;
 };
 
-const parseArgs = (argv: string[]): Record<string, string> => {
-	const args: Record<string, string> = {};
-	for (const arg of argv) {
-		if (arg.startsWith('--')) {
-			const [key, value] = arg.slice(2).split('=');
-			if (key && value !== undefined) {
-				args[key] = value;
-			}
-		}
+const readCheckpoint = async (checkpointPath: string, inputHash: string): Promise<Set<string>> => {
+	try {
+		const checkpoint = JSON.parse(await fs.readFile(checkpointPath, 'utf-8')) as Checkpoint;
+		// A checkpoint from a different input or config is stale; document hashes still skip unchanged docs
+		return checkpoint.input_hash === inputHash ? new Set(checkpoint.completed) : new Set();
+	} catch {
+		return new Set();
 	}
-	return args;
+};
+
+const writeCheckpoint = async (checkpointPath: string, checkpoint: Checkpoint) => {
+	// Write-then-rename so a crash mid-write can't leave a truncated checkpoint
+	await fs.writeFile(`${checkpointPath}.tmp`, JSON.stringify(checkpoint));
+	await fs.rename(`${checkpointPath}.tmp`, checkpointPath);
 };
 
 const main = async () => {
 	const args = parseArgs(process.argv.slice(2));
 	const inputPath = args.input;
 	if (!inputPath) {
-		console.error('Usage: bun run src/lib/scripts/index-documents.ts --input=path/to/docs.json');
+		console.error(
+			'Usage: bun run src/lib/scripts/index-documents.ts --input=path/to/docs.json|file|directory [--format=html|text|csv|openapi|pdf|markdown] [--idPrefix=taleo/] [--product=...] [--version=...] [--language=...] [--tenant_id=...] [--source_type=...] [--dry-run] [--checkpoint=path] [--fresh]'
+		);
 		process.exit(1);
 	}
 
 	const databaseUrl = process.env.VECTOR_DATABASE_URL;
 	const cohereApiKey = process.env.COHERE_API_KEY;
+	const dryRun = args['dry-run'] === 'true';
 
-	if (!databaseUrl || !cohereApiKey) {
+	if (!databaseUrl || (!cohereApiKey && !dryRun)) {
 		console.error('Missing required environment variables:');
 		if (!databaseUrl) console.error('  - VECTOR_DATABASE_URL');
-		if (!cohereApiKey) console.error('  - COHERE_API_KEY');
+		if (!cohereApiKey && !dryRun) console.error('  - COHERE_API_KEY');
 		process.exit(1);
 	}
 
-	const config: IndexConfig = {
-		chunkSizeTokens: Number(args.chunkSizeTokens || DEFAULT_CONFIG.chunkSizeTokens),
-		overlapTokens: Number(args.overlapTokens || DEFAULT_CONFIG.overlapTokens),
-		embedBatchSize: Number(args.embedBatchSize || DEFAULT_CONFIG.embedBatchSize),
+	const config: RagIndexConfig = {
+		chunkSizeTokens: Number(args.chunkSizeTokens || DEFAULT_INDEX_CONFIG.chunkSizeTokens),
+		overlapTokens: Number(args.overlapTokens || DEFAULT_INDEX_CONFIG.overlapTokens),
+		embedBatchSize: Number(args.embedBatchSize || DEFAULT_INDEX_CONFIG.embedBatchSize),
 	};
 
 	const absolutePath = path.resolve(inputPath);
-	const raw = await fs.readFile(absolutePath, 'utf-8');
-	const docs = JSON.parse(raw) as InputDoc[];
+	let docs: RagInputDocument[];
+	try {
+		docs = await loadInputDocs(absolutePath, args);
+	} catch (error: unknown) {
+		console.error('Loading input failed:', error instanceof Error ? error.message : error);
+		process.exit(1);
+	}
+	console.log(`Loaded ${docs.length} document(s) from ${inputPath}`);
+
+	// Progress survives a crash; rerunning the same input and config skips completed documents
+	const checkpointPath = path.resolve(args.checkpoint || `${absolutePath}.checkpoint.json`);
+	const inputHash = sha256(`${stableStringify(docs)}:${config.chunkSizeTokens}:${config.overlapTokens}`);
+	const completed =
+		dryRun || args.fresh === 'true' ? new Set<string>() : await readCheckpoint(checkpointPath, inputHash);
+	if (completed.size > 0) {
+		console.log(`Resuming from checkpoint: ${completed.size} document(s) already indexed.`);
+	}
 
 	const pool = new pg.Pool({
 		connectionString: databaseUrl,
 		ssl: { rejectUnauthorized: false },
 	});
 
-	const cohere = new CohereClientV2({ token: cohereApiKey });
+	const cohere = cohereApiKey ? new CohereClientV2({ token: cohereApiKey }) : null;
+
+	const totals = {
+		documentsChanged: 0,
+		documentsUnchanged: 0,
+		inserts: 0,
+		updates: 0,
+		deletes: 0,
+		unchanged: 0,
+		embedded: 0,
+		reused: 0,
+	};
 
 	try {
 		for (const doc of docs) {
 			if (!doc.id || !doc.content) continue;
+			if (completed.has(doc.id)) {
+				totals.documentsUnchanged += 1;
+				continue;
+			}
 
-			await pool.query(
-				`INSERT INTO documents (id, title, source_type, external_url, version, product, updated_at, metadata)
-				 VALUES ($1, $2, $3, $4, $5, $6, NOW(), $7)
-				 ON CONFLICT (id) DO UPDATE SET
-				 title = EXCLUDED.title,
-				 source_type = EXCLUDED.source_type,
-				 external_url = EXCLUDED.external_url,
-				 version = EXCLUDED.version,
-				 product = EXCLUDED.product,
-				 updated_at = NOW(),
-				 metadata = EXCLUDED.metadata`,
-				[
-					doc.id,
-					doc.title || null,
-					doc.source_type || null,
-					doc.external_url || null,
-					doc.version || null,
-					doc.product || null,
-					doc.metadata || {},
-				]
-			);
-
-			const chunkRecords = chunkDocument(doc, config);
-
-			for (let i = 0; i < chunkRecords.length; i += config.embedBatchSize) {
-				const batch = chunkRecords.slice(i, i + config.embedBatchSize);
-				const texts = batch.map((c) => c.content);
-				const embedResponse = await cohere.embed({
-					texts,
-					model: 'embed-english-v3.0',
-					inputType: 'search_document',
-					embeddingTypes: ['float'],
-				});
-
-				const embeddings =
-					embedResponse.embeddings && 'float' in embedResponse.embeddings
-						? embedResponse.embeddings.float
-						: [];
+			const result = await indexDocument(pool, cohere, doc, config, { dryRun });
+			if (result.status === 'indexed') {
+				await invalidateCachedAnswers(pool, [doc.id]);
+			}
 
-				for (let j = 0; j < batch.length; j += 1) {
-					const chunk = batch[j];
-					const embedding = embeddings[j] || [];
+			if (result.status === 'unchanged') {
+				totals.documentsUnchanged += 1;
+			} else {
+				totals.documentsChanged += 1;
+				totals.inserts += result.inserts;
+				totals.updates += result.updates;
+				totals.deletes += result.deletes;
+				totals.unchanged += result.unchanged;
+				totals.embedded += result.embedded;
+				totals.reused += result.reused;
+
+				const summary = `${doc.id}: +${result.inserts} ~${result.updates} -${result.deletes} (${result.embedded} to embed, ${result.unchanged} unchanged)`;
+				console.log(dryRun ? `[dry-run] ${summary}` : summary);
+			}
 
-					await pool.query(
-						`INSERT INTO chunks (
-							id, doc_id, section, order_index, content, embedding,
-							language, version, product, tenant_id, updated_at, metadata
-						) VALUES (
-							$1, $2, $3, $4, $5, $6,
-							$7, $8, $9, $10, NOW(), $11
-						)
-						ON CONFLICT (id) DO UPDATE SET
-							section = EXCLUDED.section,
-							order_index = EXCLUDED.order_index,
-							content = EXCLUDED.content,
-							embedding = EXCLUDED.embedding,
-							language = EXCLUDED.language,
-							version = EXCLUDED.version,
-							product = EXCLUDED.product,
-							tenant_id = EXCLUDED.tenant_id,
-							updated_at = NOW(),
-							metadata = EXCLUDED.metadata`,
-						[
-							chunk.id,
-							chunk.doc_id,
-							chunk.section,
-							chunk.order_index,
-							chunk.content,
-							`[${embedding.join(',')}]`,
-							chunk.language || null,
-							chunk.version || null,
-							chunk.product || null,
-							chunk.tenant_id || null,
-							chunk.metadata || {},
-						]
-					);
-				}
+			if (!dryRun) {
+				completed.add(doc.id);
+				await writeCheckpoint(checkpointPath, { input_hash: inputHash, completed: [...completed] });
 			}
 		}
 
-		console.log('Indexing complete.');
+		console.log(
+			`${dryRun ? 'Dry run' : 'Indexing'} complete: ${totals.documentsChanged} changed / ${totals.documentsUnchanged} unchanged document(s); ` +
+				`chunks +${totals.inserts} ~${totals.updates} -${totals.deletes} (${totals.unchanged} unchanged); ` +
+				`${totals.embedded} embedded, ${totals.reused} reused.`
+		);
+
+		if (!dryRun) {
+			await fs.rm(checkpointPath, { force: true });
+		}
 	} catch (error: any) {
 		console.error('Indexing failed:', error.message);
-		process.exit(1);
+		if (!dryRun) {
+			console.error(`Progress saved to ${checkpointPath}; rerun the same command to resume.`);
+		}
+		process.exitCode = 1;
 	} finally {
 		await pool.end();
 	}
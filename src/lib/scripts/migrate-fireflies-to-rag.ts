@@ -0,0 +1,240 @@
+import pg from 'pg';
+import { createFirefliesService, type FirefliesTranscript } from '$lib/services/fireflies';
+import { createVectorDBService } from '$lib/services/vector-db';
+
+/*
+ * One-off migration of the legacy fireflies_transcripts/fireflies_chunks tables into the RAG
+ * documents/chunks tables, through the same VectorDBService.upsertTranscript path new transcripts take.
+ *
+ * Usage:
+ *   bun run src/lib/scripts/migrate-fireflies-to-rag.ts [--refetch] [--limit=N] [--drop-legacy]
+ *
+ *   --refetch      re-download each transcript from Fireflies (needs FF_API_KEY) for sentence-level
+ *                  speakers and timestamps; falls back to the stored rows when a download fails
+ *   --drop-legacy  drop the legacy tables once every transcript migrated
+ *
+ * Every chunk is re-embedded, since transcripts are chunked differently from the legacy tables.
+ */
+
+type LegacyTranscript = {
+	id: string;
+	title: string | null;
+	transcript_date: Date | null;
+	duration_seconds: number | null;
+	host_email: string | null;
+	organizer_email: string | null;
+	participants: string[] | null;
+	fireflies_users: string[] | null;
+	calendar_type: string | null;
+	meeting_link: string | null;
+	transcript_url: string | null;
+	audio_url: string | null;
+	video_url: string | null;
+	summary_keywords: string[] | null;
+	summary_action_items: string | null;
+	summary_overview: string | null;
+	summary_short_summary: string | null;
+	summary_gist: string | null;
+	summary_meeting_type: string | null;
+	summary_topics_discussed: string[] | null;
+	sentiment_negative_pct: number | null;
+	sentiment_neutral_pct: number | null;
+	sentiment_positive_pct: number | null;
+	speakers: FirefliesTranscript['speakers'] | null;
+	meeting_attendees: FirefliesTranscript['meeting_attendees'] | null;
+	full_transcript_text: string | null;
+};
+
+type LegacyChunk = {
+	chunk_text: string | null;
+	start_time: number | null;
+	end_time: number | null;
+};
+
+const parseArgs = (argv: string[]): Record<string, string> => {
+	const args: Record<string, string> = {};
+	for (const arg of argv) {
+		if (arg.startsWith('--')) {
+			const [key, ...rest] = arg.slice(2).split('=');
+			if (key) {
+				args[key] = rest.length > 0 ? rest.join('=') : 'true';
+			}
+		}
+	}
+	return args;
+};
+
+/**
+ * "Speaker: text" turns of a stored block, with times spread by word count between the block's
+ * start and end (legacy chunks only kept times per chunk)
+ */
+const toSentences = (
+	text: string,
+	startTime: number,
+	endTime: number
+): FirefliesTranscript['sentences'] => {
+	const turns = text
+		.split(/\n{2,}/)
+		.map((line) => line.trim())
+		.filter(Boolean)
+		.map((line) => {
+			const match = line.match(/^([^:\n]{1,80}):\s+([\s\S]*)$/);
+			return match
+				? { speaker_name: match[1].trim(), text: match[2].trim() }
+				: { speaker_name: 'Unknown', text: line };
+		});
+	const totalWords = turns.reduce((sum, turn) => sum + turn.text.split(/\s+/).length, 0) || 1;
+	let elapsedWords = 0;
+
+	return turns.map((turn, index) => {
+		const words = turn.text.split(/\s+/).length;
+		const from = startTime + ((endTime - startTime) * elapsedWords) / totalWords;
+		elapsedWords += words;
+		return {
+			index,
+			speaker_name: turn.speaker_name,
+			speaker_id: 0,
+			text: turn.text,
+			start_time: from,
+			end_time: startTime + ((endTime - startTime) * elapsedWords) / totalWords
+		};
+	});
+};
+
+/**
+ * Rebuild a Fireflies API transcript from the legacy rows
+ */
+const fromLegacyRows = (row: LegacyTranscript, chunks: LegacyChunk[]): FirefliesTranscript => {
+	const sentences =
+		chunks.length > 0
+			? chunks.flatMap((chunk) =>
+					toSentences(chunk.chunk_text || '', chunk.start_time || 0, chunk.end_time || 0)
+				)
+			: toSentences(row.full_transcript_text || '', 0, 0);
+
+	return {
+		id: row.id,
+		title: row.title || '',
+		date: String(row.transcript_date ? new Date(row.transcript_date).getTime() : Date.now()),
+		duration: (row.duration_seconds || 0) / 60,
+		host_email: row.host_email || '',
+		organizer_email: row.organizer_email || '',
+		participants: row.participants || [],
+		fireflies_users: row.fireflies_users || [],
+		calendar_type: row.calendar_type || '',
+		meeting_link: row.meeting_link || '',
+		transcript_url: row.transcript_url || '',
+		audio_url: row.audio_url || '',
+		video_url: row.video_url || '',
+		summary: {
+			keywords: row.summary_keywords || [],
+			action_items: row.summary_action_items ? [row.summary_action_items] : [],
+			overview: row.summary_overview || '',
+			shorthand_bullet: '',
+			gist: row.summary_gist || '',
+			short_summary: row.summary_short_summary || '',
+			meeting_type: row.summary_meeting_type || '',
+			topics_discussed: row.summary_topics_discussed || [],
+			transcript_chapters: []
+		},
+		analytics: {
+			sentiments: {
+				negative_pct: row.sentiment_negative_pct || 0,
+				neutral_pct: row.sentiment_neutral_pct || 0,
+				positive_pct: row.sentiment_positive_pct || 0
+			}
+		},
+		speakers: row.speakers || [],
+		meeting_attendees: row.meeting_attendees || [],
+		sentences: sentences.map((sentence, index) => ({ ...sentence, index }))
+	};
+};
+
+const main = async () => {
+	const args = parseArgs(process.argv.slice(2));
+	const limit = args.limit ? Number(args.limit) : undefined;
+
+	const databaseUrl = process.env.VECTOR_DATABASE_URL;
+	const cohereApiKey = process.env.COHERE_API_KEY;
+	const firefliesApiKey = process.env.FF_API_KEY;
+
+	if (!databaseUrl || !cohereApiKey || (args.refetch && !firefliesApiKey)) {
+		console.error('Missing required environment variables:');
+		if (!databaseUrl) console.error('  - VECTOR_DATABASE_URL');
+		if (!cohereApiKey) console.error('  - COHERE_API_KEY');
+		if (args.refetch && !firefliesApiKey) console.error('  - FF_API_KEY (for --refetch)');
+		process.exit(1);
+	}
+
+	const pool = new pg.Pool({
+		connectionString: databaseUrl,
+		ssl: { rejectUnauthorized: false }
+	});
+	const vectorDB = createVectorDBService(databaseUrl, cohereApiKey);
+	const fireflies = args.refetch ? createFirefliesService({ apiKey: firefliesApiKey }) : null;
+
+	let failed = 0;
+	try {
+		await vectorDB.initialize();
+
+		const transcripts = await pool.query(
+			`SELECT * FROM fireflies_transcripts ORDER BY transcript_date ${limit ? 'LIMIT $1' : ''}`,
+			limit ? [limit] : []
+		);
+		console.log(`Migrating ${transcripts.rows.length} transcripts...`);
+
+		for (const [index, row] of (transcripts.rows as LegacyTranscript[]).entries()) {
+			try {
+				let transcript: FirefliesTranscript | null = null;
+				if (fireflies) {
+					try {
+						transcript = await fireflies.fetchTranscript(row.id);
+					} catch (error: unknown) {
+						console.warn(
+							`  ${row.id}: refetch failed, using stored rows (${error instanceof Error ? error.message : error})`
+						);
+					}
+				}
+				if (!transcript) {
+					const chunks = await pool.query(
+						`SELECT chunk_text, start_time, end_time FROM fireflies_chunks
+						 WHERE transcript_id = $1 ORDER BY chunk_index`,
+						[row.id]
+					);
+					transcript = fromLegacyRows(row, chunks.rows as LegacyChunk[]);
+				}
+
+				const result = await vectorDB.upsertTranscript(transcript);
+				console.log(
+					`[${index + 1}/${transcripts.rows.length}] ${row.id}: ${result.status}, ${result.inserts + result.updates} chunks`
+				);
+			} catch (error: unknown) {
+				failed += 1;
+				console.error(`  ${row.id}: ${error instanceof Error ? error.message : error}`);
+			}
+		}
+
+		if (args['drop-legacy']) {
+			if (failed > 0 || limit) {
+				console.warn('Keeping the legacy tables: not every transcript was migrated.');
+			} else {
+				await pool.query('DROP TABLE IF EXISTS fireflies_chunks');
+				await pool.query('DROP TABLE IF EXISTS fireflies_transcripts');
+				console.log('Dropped fireflies_chunks and fireflies_transcripts.');
+			}
+		}
+
+		console.log(
+			failed > 0 ? `✗ ${failed} transcript(s) failed` : '✓ Fireflies transcripts migrated'
+		);
+	} catch (error: unknown) {
+		console.error('✗ Migration failed:', error instanceof Error ? error.message : error);
+		failed += 1;
+	} finally {
+		await vectorDB.close();
+		await pool.end();
+	}
+	process.exit(failed > 0 ? 1 : 0);
+};
+
+main();
@@ -47,6 +47,7 @@ CREATE TABLE IF NOT EXISTS ops_rag_metrics (
     embed_ms INTEGER,
     dense_ms INTEGER,
     sparse_ms INTEGER,
+    fusion_ms INTEGER,
     rerank_ms INTEGER,
     total_ms INTEGER,
     -- Candidate counts at each stage
@@ -54,6 +55,11 @@ CREATE TABLE IF NOT EXISTS ops_rag_metrics (
     sparse_count INTEGER,
     fused_count INTEGER,
     reranked_count INTEGER,
+    -- Fusion strategy and how much sparse search contributed
+    fusion_strategy TEXT,
+    fusion_overlap_count INTEGER,
+    fusion_sparse_only_count INTEGER,
+    fusion_sparse_in_top_count INTEGER,
     final_count INTEGER,
     -- Rerank score stats
     avg_rerank_score REAL,
@@ -61,8 +67,38 @@ CREATE TABLE IF NOT EXISTS ops_rag_metrics (
     min_rerank_score REAL,
     -- Context
     context_token_estimate INTEGER,
+    -- Answer cache outcome (NULL when the cache was disabled or bypassed)
+    cache_hit BOOLEAN,
     metadata JSONB DEFAULT '{}'
 );
 
 CREATE INDEX IF NOT EXISTS idx_ops_rag_metrics_timestamp ON ops_rag_metrics (timestamp DESC);
 CREATE INDEX IF NOT EXISTS idx_ops_rag_metrics_user ON ops_rag_metrics (user_email);
+
+-- Fusion columns for tables created before pluggable fusion strategies
+ALTER TABLE ops_rag_metrics ADD COLUMN IF NOT EXISTS fusion_ms INTEGER;
+ALTER TABLE ops_rag_metrics ADD COLUMN IF NOT EXISTS fusion_strategy TEXT;
+ALTER TABLE ops_rag_metrics ADD COLUMN IF NOT EXISTS fusion_overlap_count INTEGER;
+ALTER TABLE ops_rag_metrics ADD COLUMN IF NOT EXISTS fusion_sparse_only_count INTEGER;
+ALTER TABLE ops_rag_metrics ADD COLUMN IF NOT EXISTS fusion_sparse_in_top_count INTEGER;
+CREATE INDEX IF NOT EXISTS idx_ops_rag_metrics_fusion_strategy ON ops_rag_metrics (fusion_strategy, timestamp DESC);
+
+-- Answer cache outcome for tables created before the semantic answer cache
+ALTER TABLE ops_rag_metrics ADD COLUMN IF NOT EXISTS cache_hit BOOLEAN;
+
+-- ============================================================
+-- 4. ops_tool_rejection_counts – tool calls rejected by argument validation, per tool
+-- ============================================================
+-- Counted in the database so the dashboard isn't limited by the API's row cap
+CREATE OR REPLACE FUNCTION ops_tool_rejection_counts(from_ts TIMESTAMPTZ DEFAULT NULL, to_ts TIMESTAMPTZ DEFAULT NULL)
+RETURNS TABLE (tool TEXT, count BIGINT)
+LANGUAGE sql STABLE
+AS $$
+    SELECT COALESCE(e.event_action, 'unknown') AS tool, COUNT(*) AS count
+    FROM ops_events e
+    WHERE e.event_type = 'tool_rejected'
+      AND (from_ts IS NULL OR e.timestamp >= from_ts)
+      AND (to_ts IS NULL OR e.timestamp <= to_ts)
+    GROUP BY 1
+    ORDER BY 2 DESC;
+$$;
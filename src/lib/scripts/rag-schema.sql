@@ -11,9 +11,16 @@ CREATE TABLE IF NOT EXISTS documents (
     external_url TEXT,
     version TEXT,
     product TEXT,
+    language TEXT,
+    tenant_id TEXT,
     created_at TIMESTAMP DEFAULT NOW(),
     updated_at TIMESTAMP DEFAULT NOW(),
-    metadata JSONB
+    metadata JSONB,
+    content_hash TEXT,          -- hash of the input document + chunking config (rag-indexer.ts)
+    source_content TEXT,        -- document as indexed, so it can be re-indexed without the source file
+    source_sections JSONB,      -- loader sections (LoadedSection[]), when the format had them
+    indexed_at TIMESTAMP,
+    occurred_at TIMESTAMP       -- when the content happened, e.g. the meeting date of a transcript
 );
 
 CREATE TABLE IF NOT EXISTS chunks (
@@ -29,7 +36,8 @@ CREATE TABLE IF NOT EXISTS chunks (
     product TEXT,
     tenant_id TEXT,
     updated_at TIMESTAMP DEFAULT NOW(),
-    metadata JSONB
+    metadata JSONB,
+    content_hash TEXT           -- sha256 of content; chunks with the same hash reuse the embedding
 );
 
 -- Indexes
@@ -44,3 +52,171 @@ CREATE INDEX IF NOT EXISTS idx_chunks_tenant_id ON chunks (tenant_id);
 CREATE INDEX IF NOT EXISTS idx_chunks_product ON chunks (product);
 CREATE INDEX IF NOT EXISTS idx_chunks_version ON chunks (version);
 CREATE INDEX IF NOT EXISTS idx_chunks_updated_at ON chunks (updated_at);
+
+-- Incremental re-indexing: hashes for tables created before they existed.
+-- Existing chunks are backfilled so their embeddings are reused on the next run.
+ALTER TABLE documents ADD COLUMN IF NOT EXISTS content_hash TEXT;
+ALTER TABLE chunks ADD COLUMN IF NOT EXISTS content_hash TEXT;
+UPDATE chunks
+SET content_hash = encode(sha256(convert_to(COALESCE(content, ''), 'UTF8')), 'hex')
+WHERE content_hash IS NULL;
+CREATE INDEX IF NOT EXISTS idx_chunks_doc_hash ON chunks (doc_id, content_hash);
+
+-- Offline retrieval evaluation runs (src/lib/scripts/eval-rag.ts)
+CREATE TABLE IF NOT EXISTS rag_eval_runs (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    created_at TIMESTAMP DEFAULT NOW(),
+    label TEXT,                 -- free-form name, e.g. branch or change being evaluated
+    git_commit TEXT,
+    golden_set TEXT,            -- path of the question file
+    question_count INTEGER,
+    ks INTEGER[],
+    results JSONB NOT NULL      -- ConfigResult[] from rag-eval.ts
+);
+
+CREATE INDEX IF NOT EXISTS idx_rag_eval_runs_created_at ON rag_eval_runs (created_at DESC);
+
+-- Document management: source kept for server-side re-indexing, filter columns and last index time
+ALTER TABLE documents ADD COLUMN IF NOT EXISTS language TEXT;
+ALTER TABLE documents ADD COLUMN IF NOT EXISTS tenant_id TEXT;
+ALTER TABLE documents ADD COLUMN IF NOT EXISTS source_content TEXT;
+ALTER TABLE documents ADD COLUMN IF NOT EXISTS source_sections JSONB;
+ALTER TABLE documents ADD COLUMN IF NOT EXISTS indexed_at TIMESTAMP;
+UPDATE documents d
+SET language = c.language, tenant_id = c.tenant_id
+FROM (SELECT DISTINCT ON (doc_id) doc_id, language, tenant_id FROM chunks ORDER BY doc_id) c
+WHERE d.id = c.doc_id AND d.tenant_id IS NULL AND d.language IS NULL;
+CREATE INDEX IF NOT EXISTS idx_documents_product ON documents (product);
+CREATE INDEX IF NOT EXISTS idx_documents_version ON documents (version);
+CREATE INDEX IF NOT EXISTS idx_documents_tenant_id ON documents (tenant_id);
+CREATE INDEX IF NOT EXISTS idx_documents_source_type ON documents (source_type);
+
+-- Retrieval access control (src/lib/services/rag-access.ts).
+-- Chunks with no tenant_id are shared with every signed-in user; tenant content needs a grant.
+CREATE TABLE IF NOT EXISTS rag_access_grants (
+    id BIGSERIAL PRIMARY KEY,
+    principal TEXT NOT NULL,    -- lower-case email, or '@domain' for everyone in an Entra domain
+    tenant_id TEXT NOT NULL,
+    product TEXT,               -- NULL grants every product of the tenant
+    created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_rag_access_grants_principal ON rag_access_grants (principal);
+
+-- Per-document ACL on top of tenant/product grants; NULL means anyone who can see the tenant
+ALTER TABLE documents ADD COLUMN IF NOT EXISTS allowed_principals TEXT[];
+CREATE INDEX IF NOT EXISTS idx_documents_allowed_principals ON documents USING GIN (allowed_principals);
+
+-- Semantic answer cache (src/lib/services/rag-answer-cache.ts)
+CREATE TABLE IF NOT EXISTS rag_answer_cache (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    namespace TEXT NOT NULL,    -- 'rag_ask' or 'fireflies'; answers come from different prompts
+    question TEXT NOT NULL,
+    query_embedding vector(1024) NOT NULL,
+    filters_key TEXT NOT NULL,  -- request filters as sorted JSON
+    scope_key TEXT NOT NULL,    -- hash of the asker's tenant/product grants
+    corpus_version TEXT NOT NULL,
+    answer TEXT NOT NULL,
+    payload JSONB DEFAULT '{}', -- sources and other caller-specific fields
+    doc_ids TEXT[] NOT NULL,    -- documents the answer cites; re-indexing any of them drops the entry
+    hit_count INTEGER DEFAULT 0,
+    last_hit_at TIMESTAMP,
+    created_at TIMESTAMP DEFAULT NOW(),
+    expires_at TIMESTAMP NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_rag_answer_cache_key
+    ON rag_answer_cache (namespace, filters_key, scope_key, corpus_version);
+CREATE INDEX IF NOT EXISTS idx_rag_answer_cache_doc_ids ON rag_answer_cache USING GIN (doc_ids);
+CREATE INDEX IF NOT EXISTS idx_rag_answer_cache_expires_at ON rag_answer_cache (expires_at);
+
+-- Answers as served, with the chunks they were built from, and users' ratings of them
+-- (src/lib/services/rag-feedback.ts)
+CREATE TABLE IF NOT EXISTS rag_answers (
+    id UUID PRIMARY KEY,
+    created_at TIMESTAMP DEFAULT NOW(),
+    source TEXT NOT NULL,           -- 'rag_ask' or 'fireflies'
+    user_email TEXT,
+    question TEXT NOT NULL,
+    answer TEXT NOT NULL,
+    filters JSONB DEFAULT '{}',
+    chunks JSONB DEFAULT '[]',      -- [{ id, doc_id, score_rerank }] in retrieval order
+    cached BOOLEAN DEFAULT FALSE,   -- served from the answer cache
+    rating SMALLINT CHECK (rating IN (-1, 1)),
+    comment TEXT,
+    rated_at TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_rag_answers_rated_at ON rag_answers (rated_at DESC) WHERE rating IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_rag_answers_question ON rag_answers (lower(btrim(question)));
+
+-- Golden questions kept in the database, promoted from rated answers; eval-rag.ts --questions=db
+CREATE TABLE IF NOT EXISTS rag_golden_questions (
+    id TEXT PRIMARY KEY,
+    question TEXT NOT NULL,
+    filters JSONB DEFAULT '{}',
+    expected_chunk_ids TEXT[] DEFAULT '{}',
+    expected_doc_ids TEXT[] DEFAULT '{}',
+    source_answer_id UUID REFERENCES rag_answers(id) ON DELETE SET NULL,
+    created_by TEXT,
+    created_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Fireflies webhook ingestion (src/lib/services/fireflies-ingest.ts).
+-- One row per transcript: repeated notifications are no-ops, failed rows are the retry queue.
+CREATE TABLE IF NOT EXISTS fireflies_ingestions (
+    transcript_id TEXT PRIMARY KEY,
+    status TEXT NOT NULL DEFAULT 'pending', -- pending | processing | done | failed | dead
+    source TEXT,                -- webhook | retry | manual
+    attempts INTEGER NOT NULL DEFAULT 0,
+    last_error TEXT,
+    next_attempt_at TIMESTAMP,  -- when a failed ingestion is retried
+    chunk_count INTEGER,        -- RAG chunks written by the last successful ingestion
+    received_at TIMESTAMP DEFAULT NOW(),
+    started_at TIMESTAMP,
+    completed_at TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_fireflies_ingestions_retry
+    ON fireflies_ingestions (status, next_attempt_at);
+CREATE INDEX IF NOT EXISTS idx_fireflies_ingestions_received_at
+    ON fireflies_ingestions (received_at DESC);
+
+-- Fireflies transcripts are documents (source_type 'fireflies', written by VectorDBService).
+-- Date filters use occurred_at, falling back to chunks.updated_at for documents without one.
+-- Existing fireflies_transcripts/fireflies_chunks rows: src/lib/scripts/migrate-fireflies-to-rag.ts
+ALTER TABLE documents ADD COLUMN IF NOT EXISTS occurred_at TIMESTAMP;
+CREATE INDEX IF NOT EXISTS idx_documents_occurred_at ON documents (occurred_at);
+
+-- Action items extracted from Fireflies meetings (src/lib/services/meeting-action-items.ts).
+-- Owners are resolved to AZero employees and meetings to customers when the names match.
+CREATE TABLE IF NOT EXISTS meeting_action_items (
+    id UUID PRIMARY KEY,
+    doc_id TEXT NOT NULL REFERENCES documents(id) ON DELETE CASCADE, -- meeting it was agreed in
+    item_key TEXT NOT NULL,         -- hash of the normalized description, so re-extraction is idempotent
+    description TEXT NOT NULL,
+    owner_name TEXT,                -- as named in the meeting
+    owner_email TEXT,               -- resolved AZero employee
+    owner_employee_id INTEGER,
+    customer_name TEXT,             -- resolved AZero customer, else as named in the meeting
+    customer_qbo_id TEXT,
+    due_date DATE,
+    status TEXT NOT NULL DEFAULT 'open', -- open | done | cancelled
+    status_doc_id TEXT REFERENCES documents(id) ON DELETE SET NULL, -- later meeting that reported it
+    status_note TEXT,               -- evidence from that meeting, or who changed it by hand
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW(),
+    UNIQUE (doc_id, item_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_meeting_action_items_owner ON meeting_action_items (lower(owner_email), status);
+CREATE INDEX IF NOT EXISTS idx_meeting_action_items_customer ON meeting_action_items (customer_qbo_id, status);
+
+-- Meetings whose action items were extracted; re-extracted when the transcript is re-indexed
+CREATE TABLE IF NOT EXISTS meeting_action_item_runs (
+    doc_id TEXT PRIMARY KEY REFERENCES documents(id) ON DELETE CASCADE,
+    item_count INTEGER NOT NULL DEFAULT 0,
+    status_updates INTEGER NOT NULL DEFAULT 0, -- earlier items this meeting marked done or cancelled
+    processed_at TIMESTAMP DEFAULT NOW()
+);
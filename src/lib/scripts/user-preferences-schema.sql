@@ -0,0 +1,11 @@
+-- User preferences schema for Supabase
+-- Tables: user_preferences
+
+-- ============================================================
+-- 1. user_preferences – per-user settings that override Microsoft 365 defaults
+-- ============================================================
+CREATE TABLE IF NOT EXISTS user_preferences (
+    user_email TEXT PRIMARY KEY,    -- lower-cased sign-in email
+    time_zone TEXT,                 -- IANA zone, e.g. America/Chicago (null = use the Outlook mailbox zone)
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
@@ -1,4 +1,10 @@
-import { setApproval } from './action-items-approval-store';
+import {
+	ACTION_ITEM_PRIORITIES,
+	setApproval,
+	type ActionItem,
+	type ReviewedActionItem,
+} from './action-items-approval-store';
+import { AppError } from '$lib/utils/errors';
 
 export type ApprovalPayload = {
 	action_items?: unknown;
@@ -42,12 +48,95 @@ export const validateApprovalPayload = (
 	};
 };
 
-export const createApproval = (payload: ApprovalPayload | null) => {
+export const createApproval = async (
+	payload: ApprovalPayload | null
+): Promise<ApprovalValidationResult> => {
 	const validation = validateApprovalPayload(payload);
 	if (!validation.ok) {
 		return validation;
 	}
 
-	setApproval(validation.workflowExecutionId, validation.actionItems, validation.goal);
+	try {
+		await setApproval(
+			validation.workflowExecutionId,
+			validation.actionItems as Array<Record<string, unknown> | string>,
+			validation.goal
+		);
+	} catch (error) {
+		if (error instanceof AppError && error.statusCode === 409) {
+			return { ok: false, status: 409, error: error.message };
+		}
+		console.error('[ActionItemsApproval] Failed to create approval:', error);
+		return { ok: false, status: 500, error: 'Failed to store approval request' };
+	}
 	return validation;
 };
+
+type ReviewValidationResult =
+	| { ok: true; items: ReviewedActionItem[] }
+	| { ok: false; status: number; error: string };
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Validate the reviewer's edited item list from the approval form.
+ * Owners must come from the employee list, unless they are the owner the workflow sent.
+ */
+export const validateReviewedItems = (
+	raw: unknown,
+	employees: Array<{ name: string; email: string }>,
+	previousItems: ActionItem[]
+): ReviewValidationResult => {
+	if (!Array.isArray(raw) || raw.length === 0) {
+		return { ok: false, status: 400, error: 'At least one action item is required.' };
+	}
+
+	const employeesByName = new Map(employees.map((e) => [e.name.toLowerCase(), e]));
+	const previousOwners = new Set(
+		previousItems.map((item) => item.owner?.toLowerCase()).filter(Boolean)
+	);
+	const items: ReviewedActionItem[] = [];
+
+	for (const [index, entry] of raw.entries()) {
+		const item = (entry ?? {}) as Record<string, unknown>;
+		const label = `Item ${index + 1}`;
+
+		const title = typeof item.title === 'string' ? item.title.trim() : '';
+		if (!title) {
+			return { ok: false, status: 400, error: `${label}: title is required.` };
+		}
+
+		const ownerName = typeof item.owner === 'string' ? item.owner.trim() : '';
+		const employee = ownerName ? employeesByName.get(ownerName.toLowerCase()) : undefined;
+		if (ownerName && !employee && !previousOwners.has(ownerName.toLowerCase())) {
+			return { ok: false, status: 400, error: `${label}: unknown owner "${ownerName}".` };
+		}
+
+		const dueDate = typeof item.dueDate === 'string' ? item.dueDate.trim() : '';
+		if (dueDate && (!DATE_PATTERN.test(dueDate) || isNaN(new Date(dueDate).getTime()))) {
+			return { ok: false, status: 400, error: `${label}: due date must be YYYY-MM-DD.` };
+		}
+
+		const priority = ACTION_ITEM_PRIORITIES.find((p) => p === item.priority);
+		if (item.priority && !priority) {
+			return { ok: false, status: 400, error: `${label}: unknown priority "${item.priority}".` };
+		}
+
+		const decision =
+			item.decision === 'approved' || item.decision === 'rejected' ? item.decision : undefined;
+		const goal = typeof item.goal === 'string' && item.goal.trim() ? item.goal.trim() : undefined;
+
+		items.push({
+			id: typeof item.id === 'string' ? item.id : undefined,
+			title,
+			owner: employee?.name ?? (ownerName || undefined),
+			ownerEmail: employee?.email,
+			goal,
+			dueDate: dueDate || undefined,
+			priority,
+			decision,
+		});
+	}
+
+	return { ok: true, items };
+};
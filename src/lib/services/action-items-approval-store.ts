@@ -1,27 +1,95 @@
+import { randomUUID } from 'node:crypto';
+import { getSupabaseClient } from './supabase';
+import { AppError, ErrorCode } from '$lib/utils/errors';
+
 type RawActionItem = Record<string, unknown> | string;
 
+export type ActionItemDecision = 'approved' | 'rejected';
+
+// submitting: claimed by one reviewer while the approval webhook is called
+export type ApprovalStatus = 'pending' | 'partially_approved' | 'submitting' | 'submitted' | 'expired';
+
+export const ACTION_ITEM_PRIORITIES = ['low', 'medium', 'high', 'critical'] as const;
+
+export type ActionItemPriority = (typeof ACTION_ITEM_PRIORITIES)[number];
+
 export type ActionItem = {
+	id: string;
 	title: string;
 	owner?: string;
+	ownerEmail?: string;
 	goal?: string;
+	dueDate?: string; // YYYY-MM-DD
+	priority?: ActionItemPriority;
+	decision?: ActionItemDecision;
+	decidedBy?: string;
+	decidedAt?: string;
+	editedBy?: string;
+	editedAt?: string;
 };
 
+/**
+ * An item as submitted by a reviewer. Items without an id (or with an unknown one) are new.
+ */
+export type ReviewedActionItem = Pick<
+	ActionItem,
+	'title' | 'owner' | 'ownerEmail' | 'goal' | 'dueDate' | 'priority' | 'decision'
+> & { id?: string };
+
 export type ActionItemsApproval = {
 	workflowExecutionId: string;
 	actionItems: ActionItem[];
 	goal?: string;
-	createdAt: number;
+	status: ApprovalStatus;
+	createdAt: string;
+	updatedAt: string;
+	expiresAt: string;
+	submittedAt?: string;
+	submittedBy?: string;
+	webhookStatus?: number;
+	webhookResponse?: string;
 };
 
-const approvals = new Map<string, ActionItemsApproval>();
+type ApprovalRow = {
+	workflow_execution_id: string;
+	goal: string | null;
+	action_items: Array<{
+		id?: string;
+		title: string;
+		owner?: string | null;
+		owner_email?: string | null;
+		goal?: string | null;
+		due_date?: string | null;
+		priority?: ActionItemPriority | null;
+		decision?: ActionItemDecision | null;
+		decided_by?: string | null;
+		decided_at?: string | null;
+		edited_by?: string | null;
+		edited_at?: string | null;
+	}>;
+	status: ApprovalStatus;
+	created_at: string;
+	updated_at: string;
+	expires_at: string;
+	submitted_at: string | null;
+	submitted_by: string | null;
+	webhook_status: number | null;
+	webhook_response: string | null;
+};
+
+const TABLE = 'action_item_approvals';
 const MAX_AGE_MS = 24 * 60 * 60 * 1000;
+const MAX_WEBHOOK_RESPONSE_LENGTH = 10_000;
+// A claim older than this is from a submit that never finished, and can be taken over
+const SUBMITTING_TIMEOUT_MS = 5 * 60 * 1000;
+const OPEN_STATUSES: ApprovalStatus[] = ['pending', 'partially_approved'];
 
 const toStringOrEmpty = (value: unknown) =>
 	typeof value === 'string' && value.trim() ? value.trim() : undefined;
 
 const normalizeActionItem = (item: RawActionItem): ActionItem => {
 	if (typeof item === 'string') {
-		return { title: item };
+		return { id: randomUUID(), title: item };
 	}
 
 	const title =
@@ -41,40 +109,306 @@ const normalizeActionItem = (item: RawActionItem): ActionItem => {
 		toStringOrEmpty(item.objective) ??
 		toStringOrEmpty(item.outcome);
 
-	return { title, owner, goal };
+	const dueDate = toStringOrEmpty(item.due_date) ?? toStringOrEmpty(item.dueDate);
+	const priority = toStringOrEmpty(item.priority)?.toLowerCase();
+
+	return {
+		id: randomUUID(),
+		title,
+		owner,
+		goal,
+		dueDate: dueDate && /^\d{4}-\d{2}-\d{2}$/.test(dueDate) ? dueDate : undefined,
+		priority: ACTION_ITEM_PRIORITIES.find((p) => p === priority),
+	};
 };
 
-const pruneExpired = () => {
-	const now = Date.now();
-	for (const [id, approval] of approvals.entries()) {
-		if (now - approval.createdAt > MAX_AGE_MS) {
-			approvals.delete(id);
-		}
+const fromRow = (row: ApprovalRow): ActionItemsApproval => ({
+	workflowExecutionId: row.workflow_execution_id,
+	actionItems: (row.action_items ?? []).map((item, index) => ({
+		// Approvals stored before items had ids fall back to their position
+		id: item.id ?? `item-${index}`,
+		title: item.title,
+		owner: item.owner ?? undefined,
+		ownerEmail: item.owner_email ?? undefined,
+		goal: item.goal ?? undefined,
+		dueDate: item.due_date ?? undefined,
+		priority: item.priority ?? undefined,
+		decision: item.decision ?? undefined,
+		decidedBy: item.decided_by ?? undefined,
+		decidedAt: item.decided_at ?? undefined,
+		editedBy: item.edited_by ?? undefined,
+		editedAt: item.edited_at ?? undefined,
+	})),
+	goal: row.goal ?? undefined,
+	status: row.status,
+	createdAt: row.created_at,
+	updatedAt: row.updated_at,
+	expiresAt: row.expires_at,
+	submittedAt: row.submitted_at ?? undefined,
+	submittedBy: row.submitted_by ?? undefined,
+	webhookStatus: row.webhook_status ?? undefined,
+	webhookResponse: row.webhook_response ?? undefined,
+});
+
+const toRowItems = (items: ActionItem[]): ApprovalRow['action_items'] =>
+	items.map((item) => ({
+		id: item.id,
+		title: item.title,
+		owner: item.owner ?? null,
+		owner_email: item.ownerEmail ?? null,
+		goal: item.goal ?? null,
+		due_date: item.dueDate ?? null,
+		priority: item.priority ?? null,
+		decision: item.decision ?? null,
+		decided_by: item.decidedBy ?? null,
+		decided_at: item.decidedAt ?? null,
+		edited_by: item.editedBy ?? null,
+		edited_at: item.editedAt ?? null,
+	}));
+
+const isEdited = (item: ReviewedActionItem, previous: ActionItem) =>
+	item.title !== previous.title ||
+	(item.owner ?? '') !== (previous.owner ?? '') ||
+	(item.goal ?? '') !== (previous.goal ?? '') ||
+	(item.dueDate ?? '') !== (previous.dueDate ?? '') ||
+	(item.priority ?? '') !== (previous.priority ?? '');
+
+const isOpen = (status: ApprovalStatus) => OPEN_STATUSES.includes(status);
+
+const conflict = (workflowExecutionId: string) =>
+	new AppError(
+		`Approval request ${workflowExecutionId} is already being submitted or was submitted.`,
+		ErrorCode.VALIDATION_ERROR,
+		{ statusCode: 409 }
+	);
+
+/**
+ * Mark open approvals past their expiry as expired, so the history shows what was never acted on
+ */
+const expireStale = async () => {
+	const supabase = getSupabaseClient();
+	const { error } = await supabase
+		.from(TABLE)
+		.update({ status: 'expired', updated_at: new Date().toISOString() })
+		.in('status', OPEN_STATUSES)
+		.lt('expires_at', new Date().toISOString());
+
+	if (error) {
+		console.error('[ActionItemsApproval] Error expiring approvals:', error);
 	}
 };
 
-export const setApproval = (
+/**
+ * Store (or re-send) an approval request. Re-sending resets decisions and the expiry of an open
+ * or expired request; a submitting or submitted one keeps its audit trail and is refused with a
+ * 409 AppError.
+ */
+export const setApproval = async (
 	workflowExecutionId: string,
 	rawItems: RawActionItem[],
 	goal?: string
-): ActionItemsApproval => {
-	pruneExpired();
-	const actionItems = rawItems.map(normalizeActionItem);
-	const approval: ActionItemsApproval = {
-		workflowExecutionId,
-		actionItems,
-		goal,
-		createdAt: Date.now(),
+): Promise<ActionItemsApproval> => {
+	const now = new Date();
+	const supabase = getSupabaseClient();
+	const fields = {
+		goal: goal ?? null,
+		action_items: toRowItems(rawItems.map(normalizeActionItem)),
+		status: 'pending',
+		created_at: now.toISOString(),
+		updated_at: now.toISOString(),
+		expires_at: new Date(now.getTime() + MAX_AGE_MS).toISOString(),
+		submitted_at: null,
+		submitted_by: null,
+		webhook_status: null,
+		webhook_response: null,
 	};
-	approvals.set(workflowExecutionId, approval);
+
+	const { data: resent, error: resendError } = await supabase
+		.from(TABLE)
+		.update(fields)
+		.eq('workflow_execution_id', workflowExecutionId)
+		.not('status', 'in', '(submitting,submitted)')
+		.select()
+		.maybeSingle();
+
+	if (resendError) {
+		throw new Error(`Failed to store approval request: ${resendError.message}`);
+	}
+	if (resent) {
+		return fromRow(resent as ApprovalRow);
+	}
+
+	const { data, error } = await supabase
+		.from(TABLE)
+		.insert({ workflow_execution_id: workflowExecutionId, ...fields })
+		.select()
+		.single();
+
+	if (error) {
+		// Unique violation: the row exists, so the update above skipped it as submitting or submitted
+		if (error.code === '23505') {
+			throw conflict(workflowExecutionId);
+		}
+		throw new Error(`Failed to store approval request: ${error.message}`);
+	}
+	return fromRow(data as ApprovalRow);
+};
+
+export const getApproval = async (
+	workflowExecutionId: string
+): Promise<ActionItemsApproval | null> => {
+	const supabase = getSupabaseClient();
+	const { data, error } = await supabase
+		.from(TABLE)
+		.select('*')
+		.eq('workflow_execution_id', workflowExecutionId)
+		.maybeSingle();
+
+	if (error) {
+		console.error('[ActionItemsApproval] Error fetching approval:', error);
+		return null;
+	}
+	if (!data) {
+		return null;
+	}
+
+	const approval = fromRow(data as ApprovalRow);
+	if (isOpen(approval.status) && new Date(approval.expiresAt).getTime() < Date.now()) {
+		await expireStale();
+		return { ...approval, status: 'expired' };
+	}
 	return approval;
 };
 
-export const getApproval = (workflowExecutionId: string) => {
-	pruneExpired();
-	return approvals.get(workflowExecutionId) ?? null;
+/**
+ * Replace the items with the reviewer's edited list (edits, splits, merges and additions)
+ * and record decisions. Unchanged items and decisions keep their original reviewer and time.
+ * With `submit`, the approval is also claimed as submitting, so only one reviewer calls the
+ * webhook. Throws a 409 AppError if the approval was submitted or claimed in the meantime.
+ */
+export const saveReview = async (
+	workflowExecutionId: string,
+	items: ReviewedActionItem[],
+	reviewer: string,
+	options: { submit?: boolean } = {}
+): Promise<ActionItemsApproval> => {
+	const approval = await getApproval(workflowExecutionId);
+	if (!approval || !isOpen(approval.status)) {
+		throw new Error('Approval request not found or expired.');
+	}
+
+	const decidedAt = new Date().toISOString();
+	const previousById = new Map(approval.actionItems.map((item) => [item.id, item]));
+	const seen = new Set<string>();
+	const actionItems = items.map((item): ActionItem => {
+		// A split copies its source id on the client; only the first keeps it
+		const previous = item.id && !seen.has(item.id) ? previousById.get(item.id) : undefined;
+		const id = previous ? previous.id : randomUUID();
+		seen.add(id);
+
+		const edited = !previous || isEdited(item, previous);
+		const decisionChanged = item.decision !== previous?.decision;
+		return {
+			id,
+			title: item.title,
+			owner: item.owner,
+			ownerEmail: item.ownerEmail,
+			goal: item.goal,
+			dueDate: item.dueDate,
+			priority: item.priority,
+			decision: item.decision,
+			decidedBy: !item.decision ? undefined : decisionChanged ? reviewer : previous?.decidedBy,
+			decidedAt: !item.decision ? undefined : decisionChanged ? decidedAt : previous?.decidedAt,
+			editedBy: edited ? reviewer : previous?.editedBy,
+			editedAt: edited ? decidedAt : previous?.editedAt,
+		};
+	});
+	const anyDecided = actionItems.some((item) => item.decision);
+
+	const staleClaim = new Date(Date.now() - SUBMITTING_TIMEOUT_MS).toISOString();
+	const supabase = getSupabaseClient();
+	const { data, error } = await supabase
+		.from(TABLE)
+		.update({
+			action_items: toRowItems(actionItems),
+			status: options.submit ? 'submitting' : anyDecided ? 'partially_approved' : 'pending',
+			updated_at: decidedAt,
+		})
+		.eq('workflow_execution_id', workflowExecutionId)
+		.or(`status.in.(${OPEN_STATUSES.join(',')}),and(status.eq.submitting,updated_at.lt.${staleClaim})`)
+		.select()
+		.maybeSingle();
+
+	if (error) {
+		throw new Error(`Failed to save review: ${error.message}`);
+	}
+	if (!data) {
+		throw conflict(workflowExecutionId);
+	}
+	return fromRow(data as ApprovalRow);
+};
+
+/**
+ * Record the webhook call for an approval claimed by saveReview (pass the approval it returned).
+ * Only a successful call moves it to submitted; a failed one (webhookStatus null when n8n never
+ * answered) reopens it, so the delivery can be retried from the approval page.
+ * Throws a 409 AppError if the claim timed out and was taken over.
+ */
+export const recordSubmission = async (
+	claim: ActionItemsApproval,
+	submittedBy: string,
+	webhookStatus: number | null,
+	webhookResponse: string,
+	succeeded: boolean
+): Promise<void> => {
+	const now = new Date().toISOString();
+	const supabase = getSupabaseClient();
+	const { data, error } = await supabase
+		.from(TABLE)
+		.update({
+			webhook_status: webhookStatus,
+			webhook_response: webhookResponse.slice(0, MAX_WEBHOOK_RESPONSE_LENGTH),
+			updated_at: now,
+			...(succeeded
+				? { status: 'submitted', submitted_at: now, submitted_by: submittedBy }
+				: { status: 'partially_approved' }),
+		})
+		.eq('workflow_execution_id', claim.workflowExecutionId)
+		.eq('status', 'submitting')
+		.eq('updated_at', claim.updatedAt)
+		.select('workflow_execution_id')
+		.maybeSingle();
+
+	if (error) {
+		throw new Error(`Failed to record submission: ${error.message}`);
+	}
+	if (!data) {
+		throw conflict(claim.workflowExecutionId);
+	}
 };
 
-export const deleteApproval = (workflowExecutionId: string) => {
-	approvals.delete(workflowExecutionId);
+/**
+ * List approvals, newest first
+ */
+export const listApprovals = async (
+	options: { status?: ApprovalStatus; limit?: number } = {}
+): Promise<ActionItemsApproval[]> => {
+	await expireStale();
+
+	const supabase = getSupabaseClient();
+	let query = supabase
+		.from(TABLE)
+		.select('*')
+		.order('created_at', { ascending: false })
+		.limit(options.limit ?? 100);
+	if (options.status) {
+		query = query.eq('status', options.status);
+	}
+
+	const { data, error } = await query;
+	if (error) {
+		console.error('[ActionItemsApproval] Error listing approvals:', error);
+		return [];
+	}
+	return (data as ApprovalRow[]).map(fromRow);
 };
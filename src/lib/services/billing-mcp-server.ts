@@ -3,17 +3,14 @@
 
 import { OpenAIService } from './openai-service';
 import type { GenericChatMessage } from '$lib/utils/tokens';
-import {
-	getEmployeeByName,
-	getCustomerByName,
-	getAllEmployees,
-	getAllCustomers,
-	type Employee,
-	type Customer,
-} from './azero-db';
+import { MicrosoftGraphService } from './microsoft-graph';
+import { ToolExecutor } from './tool-executor';
+import { toolErrorResult } from './tool-validation';
+import { getRegisteredTool, getToolResultCard, getToolStatusLabel } from './tool-registry';
 import { getChatHistoryAsync, setChatHistoryAsync } from './chat-history-store';
 import { prepareChatHistory } from '$lib/utils/tokens';
-import { getTodayEastern, formatDateEastern } from '$lib/utils/datetime';
+import { getTodayInZone, formatCalendarDate } from '$lib/utils/datetime';
+import type { LoggedInUser } from '$lib/types/user';
 import { BILLI_DEV_WEBHOOK_URL } from '$env/static/private';
 
 // Extended message type with timestamp for storage
@@ -28,25 +25,32 @@ export class BillingMCPServer {
 	private openaiService: OpenAIService;
 	private sessionId: string;
 	private chatHistory: StoredChatMessage[] = [];
-	private loggedInUser: { name: string; email: string } | null = null;
+	private loggedInUser: LoggedInUser | null = null;
 	private lastTimestamp: number = 0;
 	private historyLoaded: boolean = false;
 	private webhookUrl: string;
 
-	// Cache for employees and customers
-	private cachedEmployees: Employee[] | null = null;
-	private cachedCustomers: Customer[] | null = null;
+	private toolExecutor: ToolExecutor;
 
 	constructor(
 		openaiApiKey: string,
 		sessionId: string,
-		loggedInUser?: { name: string; email: string },
+		loggedInUser?: LoggedInUser,
 		webhookUrl?: string
 	) {
 		this.openaiService = new OpenAIService(openaiApiKey);
 		this.sessionId = sessionId;
 		this.loggedInUser = loggedInUser || null;
 		this.webhookUrl = webhookUrl || BILLI_DEV_WEBHOOK_URL;
+		// Billing tools never touch Microsoft Graph, so no Graph credentials are needed
+		this.toolExecutor = new ToolExecutor(new MicrosoftGraphService(), null, this.loggedInUser, this.webhookUrl);
+	}
+
+	/**
+	 * The logged-in user's time zone, used for "today"/"yesterday" entry dates
+	 */
+	private get timeZone(): string {
+		return this.toolExecutor.timeZone;
 	}
 
 	/**
@@ -82,26 +86,6 @@ export class BillingMCPServer {
 		}
 	}
 
-	/**
-	 * Get cached employees
-	 */
-	private async getCachedEmployees(): Promise<Employee[]> {
-		if (this.cachedEmployees === null) {
-			this.cachedEmployees = await getAllEmployees();
-		}
-		return this.cachedEmployees;
-	}
-
-	/**
-	 * Get cached customers
-	 */
-	private async getCachedCustomers(): Promise<Customer[]> {
-		if (this.cachedCustomers === null) {
-			this.cachedCustomers = await getAllCustomers();
-		}
-		return this.cachedCustomers;
-	}
-
 	// ==================== TIME ENTRY DETECTION ====================
 
 	/**
@@ -210,18 +194,18 @@ export class BillingMCPServer {
 					const match = lowerContent.match(pattern);
 					if (match && !info.entry_date) {
 						if (match[0].toLowerCase() === 'today') {
-							info.entry_date = getTodayEastern();
+							info.entry_date = getTodayInZone(this.timeZone);
 						} else if (match[0].toLowerCase() === 'yesterday') {
-							const todayParts = getTodayEastern().split('-').map(Number);
+							const todayParts = getTodayInZone(this.timeZone).split('-').map(Number);
 							const yesterday = new Date(todayParts[0], todayParts[1] - 1, todayParts[2]);
 							yesterday.setDate(yesterday.getDate() - 1);
-							info.entry_date = formatDateEastern(yesterday);
+							info.entry_date = formatCalendarDate(yesterday);
 						} else if (match[1]) {
 							// Parse date string
 							const dateStr = match[1];
 							if (dateStr.match(/^\d{1,2}\/\d{1,2}\/\d{4}$/)) {
 								const [month, day, year] = dateStr.split('/').map(Number);
-								info.entry_date = formatDateEastern(new Date(year, month - 1, day));
+								info.entry_date = formatCalendarDate(new Date(year, month - 1, day));
 							} else if (dateStr.match(/^\d{4}-\d{2}-\d{2}$/)) {
 								info.entry_date = dateStr;
 							}
@@ -272,205 +256,10 @@ export class BillingMCPServer {
 	 * Execute a billing tool
 	 */
 	async callTool(name: string, args: Record<string, any>): Promise<any> {
-		try {
-			switch (name) {
-				case 'lookup_employee': {
-					const { name: employeeName } = args;
-					if (!employeeName) {
-						throw new Error('Employee name is required');
-					}
-
-					const employee = await getEmployeeByName(employeeName);
-					if (!employee) {
-						const allEmployees = await this.getCachedEmployees();
-						const suggestions = allEmployees.slice(0, 5).map((e) => e.name);
-						return {
-							found: false,
-							error: `Employee "${employeeName}" not found`,
-							suggestions: suggestions,
-							hint: 'Try using list_employees to see all available employees',
-						};
-					}
-
-					return {
-						found: true,
-						employee: {
-							name: employee.name,
-							email: employee.email,
-							qbo_id: employee.qbo_id,
-						},
-					};
-				}
-
-				case 'lookup_customer': {
-					const { name: customerName } = args;
-					if (!customerName) {
-						throw new Error('Customer name is required');
-					}
-
-					const customer = await getCustomerByName(customerName);
-					if (!customer) {
-						const allCustomers = await this.getCachedCustomers();
-						const suggestions = allCustomers.slice(0, 5).map((c) => c.name);
-						return {
-							found: false,
-							error: `Customer "${customerName}" not found`,
-							suggestions: suggestions,
-							hint: 'Try using list_customers to see all available customers',
-						};
-					}
-
-					return {
-						found: true,
-						customer: {
-							name: customer.name,
-							qbo_id: customer.qbo_id,
-						},
-					};
-				}
-
-				case 'list_employees': {
-					const employees = await this.getCachedEmployees();
-					return {
-						employees: employees.map((e) => ({
-							name: e.name,
-							email: e.email,
-							qbo_id: e.qbo_id,
-						})),
-						total: employees.length,
-					};
-				}
-
-				case 'list_customers': {
-					const customers = await this.getCachedCustomers();
-					return {
-						customers: customers.map((c) => ({
-							name: c.name,
-							qbo_id: c.qbo_id,
-						})),
-						total: customers.length,
-					};
-				}
-
-				case 'submit_time_entry': {
-					const {
-						employee_name,
-						employee_qbo_id,
-						customer_name,
-						customer_qbo_id,
-						tasks_completed,
-						hours,
-						billable = true,
-						entry_date,
-					} = args;
-
-					// Validate required fields
-					if (!employee_name || !employee_qbo_id) {
-						throw new Error('STOP. You must call lookup_employee first to get the real QBO ID.');
-					}
-					if (!customer_name || !customer_qbo_id) {
-						throw new Error('STOP. You must call lookup_customer first to get the real QBO ID.');
-					}
-
-					// REJECT FAKE/PLACEHOLDER IDs - must be real from database lookups
-					// Note: QBO IDs can be single digits (e.g., "3" for Arvaya Administrative), so we only check patterns
-					const fakeIdPatterns = /^(EMP|CUST|ID|QBO|TEST|PLACEHOLDER|XXX|000)/i;
-					const placeholderNamePatterns = /^(unknown|placeholder|test|employee|user|n\/?a)\b/i;
-					if (placeholderNamePatterns.test(String(employee_name).trim())) {
-						throw new Error(`INVALID employee_name "${employee_name}". Resolve the real employee from prod_employees first.`);
-					}
-					if (fakeIdPatterns.test(String(employee_qbo_id))) {
-						throw new Error(`INVALID employee_qbo_id "${employee_qbo_id}". Call lookup_employee("${employee_name}") to get the real ID.`);
-					}
-					if (fakeIdPatterns.test(String(customer_qbo_id))) {
-						throw new Error(`INVALID customer_qbo_id "${customer_qbo_id}". Call lookup_customer("${customer_name}") to get the real ID.`);
-					}
-
-					if (!tasks_completed) {
-						throw new Error('Tasks completed description is required');
-					}
-					if (hours === undefined || hours <= 0) {
-						throw new Error('Hours must be a positive number');
-					}
-
-					// Build time entry payload
-					const timeEntry = {
-						employee_name,
-						employee_qbo_id,
-						customer_name,
-						customer_qbo_id,
-						tasks_completed,
-						hours: parseFloat(hours),
-						billable: billable !== false,
-						entry_date: entry_date || getTodayEastern(),
-						submitted_by: this.loggedInUser?.name || 'Unknown User',
-						submitted_at: new Date().toISOString(),
-					};
-
-					// Send to n8n webhook
-					const response = await fetch(this.webhookUrl, {
-						method: 'POST',
-						headers: { 'Content-Type': 'application/json' },
-						body: JSON.stringify({ timeEntry }),
-					});
-
-					if (!response.ok) {
-						let errorBody = '';
-						try {
-							errorBody = await response.text();
-						} catch {
-							// Body read can fail if connection closed early
-						}
-						throw new Error(`Failed to submit time entry: ${response.statusText}. ${errorBody}`);
-					}
-
-					// Don't read response body — n8n webhooks can close the stream
-					// after sending headers, causing response.text() to throw and
-					// making a successful submission look like a failure.
-					const sanitizedTimeEntry = {
-						employee_name,
-						customer_name,
-						tasks_completed,
-						hours: parseFloat(hours),
-						billable: billable !== false,
-						entry_date: entry_date || getTodayEastern(),
-						submitted_by: this.loggedInUser?.name || 'Unknown User',
-					};
-
-					return {
-						success: true,
-						message: 'Time entry submitted successfully',
-						timeEntry: sanitizedTimeEntry,
-					};
-				}
-
-				default:
-					throw new Error(`Unknown billing tool: ${name}`);
-			}
-		} catch (error: any) {
-			console.error(`[BillingMCP] Tool execution error for ${name}:`, error);
-			throw new Error(`Tool execution error: ${error.message}`);
-		}
-	}
-
-	/**
-	 * Get human-readable status label for a tool
-	 */
-	private getToolStatusLabel(toolName: string): string {
-		switch (toolName) {
-			case 'lookup_employee':
-				return 'Looking up employee...';
-			case 'lookup_customer':
-				return 'Looking up customer...';
-			case 'list_employees':
-				return 'Loading employees...';
-			case 'list_customers':
-				return 'Loading customers...';
-			case 'submit_time_entry':
-				return 'Submitting time entry...';
-			default:
-				return 'Processing...';
+		if (getRegisteredTool(name)?.scope !== 'billing') {
+			throw new Error(`Tool execution error: Unknown billing tool: ${name}`);
 		}
+		return this.toolExecutor.execute(name, args);
 	}
 
 	/**
@@ -492,9 +281,9 @@ export class BillingMCPServer {
 
 			// Get current date info for the AI
 			const now = new Date();
-			const todayStr = getTodayEastern();
-			const dayOfWeek = now.toLocaleDateString('en-US', { weekday: 'long', timeZone: 'America/New_York' });
-			const formattedDate = now.toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric', timeZone: 'America/New_York' });
+			const todayStr = getTodayInZone(this.timeZone);
+			const dayOfWeek = now.toLocaleDateString('en-US', { weekday: 'long', timeZone: this.timeZone });
+			const formattedDate = now.toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric', timeZone: this.timeZone });
 
 			// Add system context for billing
 			const systemMessage: GenericChatMessage = {
@@ -503,7 +292,7 @@ export class BillingMCPServer {
 
 **CURRENT DATE: ${dayOfWeek}, ${formattedDate} (${todayStr})**
 - "today" = ${todayStr}
-- "yesterday" = ${(() => { const p = todayStr.split('-').map(Number); const y = new Date(p[0], p[1]-1, p[2]); y.setDate(y.getDate()-1); return formatDateEastern(y); })()}
+- "yesterday" = ${(() => { const p = todayStr.split('-').map(Number); const y = new Date(p[0], p[1]-1, p[2]); y.setDate(y.getDate()-1); return formatCalendarDate(y); })()}
 
 **LOGGED-IN USER: ${this.loggedInUser?.name || 'Unknown'} (${this.loggedInUser?.email || 'no email'})**
 
@@ -602,7 +391,7 @@ When user provides multiple tasks in one message (e.g., "ICE - Task A - 1 hour.
 								customer_qbo_id: timeEntryInfo.customer_qbo_id,
 								tasks_completed: timeEntryInfo.tasks_completed,
 								hours: timeEntryInfo.hours,
-								entry_date: timeEntryInfo.entry_date || getTodayEastern(),
+								entry_date: timeEntryInfo.entry_date || getTodayInZone(this.timeZone),
 								billable: true,
 							},
 						});
@@ -636,8 +425,7 @@ When user provides multiple tasks in one message (e.g., "ICE - Task A - 1 hour.
 				const toolResults: GenericChatMessage[] = [];
 				for (const toolCall of toolCalls) {
 					try {
-						const statusLabels: Record<string, string> = { lookup_employee: "Looking up employee...", lookup_customer: "Looking up customer...", list_employees: "Loading employees...", list_customers: "Loading customers...", submit_time_entry: "Submitting time entry..." };
-						yield `[TOOL_STATUS:${JSON.stringify({ tool: toolCall.name, status: "executing", label: statusLabels[toolCall.name] || "Processing..." })}]`;
+						yield `[TOOL_STATUS:${JSON.stringify({ tool: toolCall.name, status: "executing", label: getToolStatusLabel(toolCall.name) })}]`;
 						console.log(`[BillingMCP] Executing tool: ${toolCall.name}`, toolCall.parameters);
 						const result = await this.callTool(toolCall.name, toolCall.parameters);
 
@@ -646,8 +434,9 @@ When user provides multiple tasks in one message (e.g., "ICE - Task A - 1 hour.
 							console.log(`[BillingMCP] TIME ENTRY SUBMITTED SUCCESSFULLY`);
 						}
 
-						if (toolCall.name === "submit_time_entry" && result.success === true) {
-							yield `[TOOL_RESULT:${JSON.stringify({ type: "time_entry", data: result.timeEntry })}]`;
+						const card = getToolResultCard(toolCall.name, result);
+						if (card) {
+							yield `[TOOL_RESULT:${JSON.stringify(card)}]`;
 						}
 						toolResults.push({ role: 'tool', content: JSON.stringify(result), toolCallId: toolCall.id });
 					} catch (error: any) {
@@ -657,7 +446,7 @@ When user provides multiple tasks in one message (e.g., "ICE - Task A - 1 hour.
 						}
 						toolResults.push({
 							role: 'tool',
-							content: JSON.stringify({ success: false, error: error.message, tool: toolCall.name }),
+							content: JSON.stringify(toolErrorResult(toolCall.name, error)),
 							toolCallId: toolCall.id,
 						});
 					}
@@ -1,6 +1,7 @@
 
 import { CohereClientV2 } from 'cohere-ai';
 import type { ChatMessageV2, ToolV2 } from 'cohere-ai/api';
+import { getRegisteredTools, toCohereTool } from './tool-registry';
 
 export interface ChatResponse {
 	text: string;
@@ -232,249 +233,20 @@ export class CohereService {
 	 * Used by the billing expert in MoE
 	 */
 	static createTimeEntryTools(): ToolV2[] {
-		return [
-			{
-				type: 'function',
-				function: {
-					name: 'lookup_employee',
-					description:
-						'Look up an employee by name to get their QuickBooks ID. Use this before submitting time entries. Supports fuzzy matching.',
-					parameters: {
-						type: 'object',
-						properties: {
-							name: {
-								type: 'string',
-								description: 'The employee name to look up (partial matches supported)',
-							},
-						},
-						required: ['name'],
-					},
-				},
-			},
-			{
-				type: 'function',
-				function: {
-					name: 'lookup_customer',
-					description:
-						'Look up a customer/client by name to get their QuickBooks ID. Aliases like "ICE" for "Infrastructure Consulting & Engineering" are supported. Use this before submitting time entries.',
-					parameters: {
-						type: 'object',
-						properties: {
-							name: {
-								type: 'string',
-								description: 'The customer/client name to look up (partial matches and aliases supported)',
-							},
-						},
-						required: ['name'],
-					},
-				},
-			},
-			{
-				type: 'function',
-				function: {
-					name: 'list_employees',
-					description:
-						'Get a list of all employees with their names and QuickBooks IDs. Use this when the employee name is ambiguous or to see all available employees.',
-					parameters: {
-						type: 'object',
-						properties: {},
-						required: [],
-					},
-				},
-			},
-			{
-				type: 'function',
-				function: {
-					name: 'list_customers',
-					description:
-						'Get a list of all customers/clients with their names and QuickBooks IDs. Use this when the customer name is ambiguous or to see all available customers.',
-					parameters: {
-						type: 'object',
-						properties: {},
-						required: [],
-					},
-				},
-			},
-			{
-				type: 'function',
-				function: {
-					name: 'submit_time_entry',
-					description:
-						'Submit a time entry to QuickBooks and Monday.com. IMPORTANT: You must first use lookup_employee and lookup_customer to get the QBO IDs before submitting. All required fields must be filled.',
-					parameters: {
-						type: 'object',
-						properties: {
-							employee_name: {
-								type: 'string',
-								description: 'The display name of the employee',
-							},
-							employee_qbo_id: {
-								type: 'string',
-								description: 'The QuickBooks Online ID of the employee (from lookup_employee)',
-							},
-							customer_name: {
-								type: 'string',
-								description: 'The display name of the customer/client',
-							},
-							customer_qbo_id: {
-								type: 'string',
-								description: 'The QuickBooks Online ID of the customer (from lookup_customer)',
-							},
-							tasks_completed: {
-								type: 'string',
-								description: 'Description of the work/tasks completed',
-							},
-							hours: {
-								type: 'number',
-								description: 'Number of hours worked (decimal allowed, e.g., 1.5 for 1 hour 30 minutes)',
-							},
-							billable: {
-								type: 'boolean',
-								description: 'Whether the time is billable (default: true)',
-							},
-							entry_date: {
-								type: 'string',
-								description: 'Date of the time entry in YYYY-MM-DD format. Defaults to today if not provided.',
-							},
-						},
-						required: [
-							'employee_name',
-							'employee_qbo_id',
-							'customer_name',
-							'customer_qbo_id',
-							'tasks_completed',
-							'hours',
-						],
-					},
-				},
-			},
-		];
+		return getRegisteredTools('billing').map(toCohereTool);
 	}
 
 	/**
 	 * Create all tools (calendar + time entry) for unified expert
 	 */
 	static createAllTools(): ToolV2[] {
-		return [...this.createCalendarTools(), ...this.createTimeEntryTools()];
+		return getRegisteredTools('all').map(toCohereTool);
 	}
 
 	/**
 	 * Create tool definitions for Microsoft Graph calendar operations
-	 * Based on the Python FastMCP implementation
 	 */
 	static createCalendarTools(): ToolV2[] {
-		return [
-			{
-				type: 'function',
-				function: {
-					name: 'get_users_with_name_and_email',
-					description:
-						'Get a list of all users with their display names and email addresses. Use this first to find the correct email address before checking availability or booking meetings.',
-					parameters: {
-						type: 'object',
-						properties: {},
-						required: [],
-					},
-				},
-			},
-			{
-				type: 'function',
-				function: {
-					name: 'check_availability',
-					description:
-						'Check calendar availability for a user on a specific date. IMPORTANT: For best results, first call get_users_with_name_and_email to get the correct email address, then pass that email here. Returns busy times and free slots for the day. Free slots are derived from Microsoft Graph schedule data (getSchedule/freeBusy). All times are displayed in Eastern Time (EST/EDT).',
-					parameters: {
-						type: 'object',
-						properties: {
-							user_email: {
-								type: 'string',
-								description:
-									'The email address or display name of the user to check availability for. If a name is provided, it will be matched against users from get_users_with_name_and_email.',
-							},
-							date: {
-								type: 'string',
-								description:
-									'The date to check. Supports natural language like "next monday", "tomorrow", "this friday", or date formats like "1/12/2026" or "2026-01-12". Defaults to today if not provided.',
-							},
-						},
-						required: ['user_email'],
-					},
-				},
-			},
-			{
-				type: 'function',
-				function: {
-					name: 'get_free_slots',
-					description:
-						'Get free time slots for a user on a specific date using Microsoft Graph schedule data. Use this when the user asks "what times are free/available?" All times are displayed in Eastern Time (EST/EDT).',
-					parameters: {
-						type: 'object',
-						properties: {
-							user_email: {
-								type: 'string',
-								description:
-									'The email address or display name of the user to check. If a name is provided, it will be matched against users from get_users_with_name_and_email.',
-							},
-							date: {
-								type: 'string',
-								description:
-									'The date to check. Supports natural language like "next monday", "tomorrow", "this friday", or date formats like "1/12/2026" or "2026-01-12". Defaults to today if not provided.',
-							},
-							duration_minutes: {
-								type: 'number',
-								description: 'Optional slot size in minutes (default: 30).',
-							},
-						},
-						required: ['user_email'],
-					},
-				},
-			},
-			{
-				type: 'function',
-				function: {
-					name: 'book_meeting',
-					description:
-						"Book a meeting on a user's calendar. Use this tool when the user asks to book, schedule, or create a meeting. The sender (person booking) is automatically set to the logged-in user. IMPORTANT: If the user does not provide a subject, you MUST ask them \"What is the subject/title of this meeting?\" before calling this tool. If they want to invite additional attendees, ask for their email addresses. Creates a Teams meeting automatically. The recipient will receive a calendar invitation they can accept.",
-					parameters: {
-						type: 'object',
-						properties: {
-							user_email: {
-								type: 'string',
-								description:
-									'The email address or display name of the user whose calendar to book on (the recipient). If a name is provided, it will be matched against users from get_users_with_name_and_email.',
-							},
-							subject: {
-								type: 'string',
-								description:
-									'REQUIRED - The subject/title of the meeting. If the user has not provided this, you MUST ask them for it before calling this tool.',
-							},
-							start_datetime: {
-								type: 'string',
-								description:
-									'Start time. Can be full datetime (YYYY-MM-DDTHH:MM:SS) or time only (e.g., "9:00 AM", "9 AM", "930"). If only time is provided, the date from the most recent availability check will be used, or today if no availability was checked.',
-							},
-							end_datetime: {
-								type: 'string',
-								description:
-									'End time. Can be full datetime (YYYY-MM-DDTHH:MM:SS) or time only (e.g., "9:30 AM", "930 AM"). If only time is provided, the date from the most recent availability check will be used, or today if no availability was checked.',
-							},
-							attendees: {
-								type: 'array',
-								description:
-									'Optional list of additional attendee email addresses to invite. If the user mentions other people to invite, ask for their email addresses.',
-								items: {
-									type: 'string',
-								},
-							},
-							body: {
-								type: 'string',
-								description: 'Optional meeting body/description',
-							},
-						},
-						required: ['user_email', 'subject', 'start_datetime', 'end_datetime'],
-					},
-				},
-			},
-		];
+		return getRegisteredTools('calendar').map(toCohereTool);
 	}
 }
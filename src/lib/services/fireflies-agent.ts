@@ -1,17 +1,33 @@
 // Fireflies Agent Service - RAG-powered meeting transcript Q&A
-// Uses VectorDBService for semantic search and Cohere for response generation
+// Searches the Fireflies transcripts in the RAG corpus and uses Cohere for response generation
 
 import { CohereClientV2 } from 'cohere-ai';
-import type { ChatMessageV2 } from 'cohere-ai/api';
-import { VectorDBService, type SearchResult } from './vector-db';
+import type { ChatMessageV2, ToolCallV2, ToolV2 } from 'cohere-ai/api';
+import {
+	FIREFLIES_SOURCE_TYPE,
+	VectorDBService,
+	parseTranscriptTurns,
+	type SearchResult,
+} from './vector-db';
+import { formatTranscriptTime, transcriptDeepLink } from './fireflies';
 import {
 	getChatHistoryAsync,
 	addMessagesToChatHistoryAsync,
 	getPreparedChatHistoryAsync,
 } from './chat-history-store';
-import { RagRetrievalService } from './rag-retrieval';
+import { RagRetrievalService, getRagPool, type RagFilters } from './rag-retrieval';
+import { extractTranscriptFilters, type RagHistoryMessage } from './rag-query';
+import { SHARED_RAG_ACCESS, type RagAccessScope } from './rag-access';
+import { RagAnswerCache } from './rag-answer-cache';
+import { recordAnswer, type RagAnswerChunk } from './rag-feedback';
+import type { RagMetrics } from './ops-logger';
 import { getRagConfig } from './rag-config';
-import { RAG_SYSTEM_PROMPT } from './rag-prompts';
+import { RAG_SYSTEM_PROMPT, RAG_TRANSCRIPT_QUOTE_PROMPT } from './rag-prompts';
+import {
+	ACTION_ITEM_STATUSES,
+	MeetingActionItemService,
+	type ActionItemQuery,
+} from './meeting-action-items';
 
 // ============================================================================
 // Types
@@ -21,6 +37,8 @@ export interface FirefliesAgentConfig {
 	cohereApiKey: string;
 	databaseUrl: string;
 	sessionId: string;
+	access?: RagAccessScope; // what the signed-in user may retrieve; shared content only if omitted
+	userEmail?: string;
 }
 
 export interface StreamChunk {
@@ -29,8 +47,53 @@ export interface StreamChunk {
 	sources?: SearchResult[];
 	suggestions?: string[];
 	error?: string;
+	answerId?: string; // on 'done': the recorded answer, for feedback
 }
 
+// What a cached answer needs to be replayed: sources and suggestions as first sent
+interface CachedFirefliesAnswer {
+	sources: SearchResult[];
+	suggestions: string[];
+}
+
+// The agent answers from meeting transcripts only; /rag/ask reaches them with the same filter
+const TRANSCRIPT_FILTERS: RagFilters = { source_type: FIREFLIES_SOURCE_TYPE };
+
+// Tracked action items across meetings (meeting-action-items.ts), for questions like
+// "open action items for ICE" or "what am I on the hook for"
+const ACTION_ITEMS_TOOL_NAME = 'query_action_items';
+const ACTION_ITEMS_TOOL: ToolV2 = {
+	type: 'function',
+	function: {
+		name: ACTION_ITEMS_TOOL_NAME,
+		description:
+			'Look up action items tracked across past meetings, with owner, due date, customer, source meeting and status. Use it for questions about who owes what, open or completed follow-ups for a customer, or what the user is on the hook for.',
+		parameters: {
+			type: 'object',
+			properties: {
+				owner: {
+					type: 'string',
+					description: 'Whose items: "me" for the signed-in user, or an employee name or email.',
+				},
+				customer: {
+					type: 'string',
+					description: 'Customer name or alias, e.g. "ICE".',
+				},
+				status: {
+					type: 'string',
+					enum: [...ACTION_ITEM_STATUSES, 'all'],
+					description: 'Defaults to open.',
+				},
+			},
+			required: [],
+		},
+	},
+};
+
+// Tool calls answered before the model has to reply in text
+const MAX_TOOL_ROUNDS = 2;
+const ACTION_ITEMS_TOOL_LIMIT = 25;
+
 interface TranscriptDetails {
 	id: string;
 	title: string;
@@ -49,54 +112,138 @@ export class FirefliesAgent {
 	private cohere: CohereClientV2;
 	private vectorDB: VectorDBService;
 	private rag: RagRetrievalService;
+	private answerCache: RagAnswerCache;
+	private actionItems: MeetingActionItemService;
+	private access: RagAccessScope;
 	private sessionId: string;
+	private userEmail?: string;
+	private databaseUrl: string;
 	private model: string = 'command-a-03-2025';
 
 	constructor(config: FirefliesAgentConfig) {
 		this.cohere = new CohereClientV2({ token: config.cohereApiKey });
 		this.vectorDB = new VectorDBService(config.databaseUrl, config.cohereApiKey);
-		this.rag = new RagRetrievalService(config.databaseUrl, config.cohereApiKey, getRagConfig());
+		this.rag = new RagRetrievalService(
+			config.databaseUrl,
+			config.cohereApiKey,
+			getRagConfig(),
+			config.access,
+		);
+		this.answerCache = new RagAnswerCache(
+			config.databaseUrl,
+			config.cohereApiKey,
+			'fireflies',
+			config.access ?? SHARED_RAG_ACCESS,
+		);
+		this.actionItems = new MeetingActionItemService(
+			config.databaseUrl,
+			config.cohereApiKey,
+			config.access ?? SHARED_RAG_ACCESS,
+		);
+		this.access = config.access ?? SHARED_RAG_ACCESS;
 		this.sessionId = config.sessionId;
+		this.userEmail = config.userEmail;
+		this.databaseUrl = config.databaseUrl;
+	}
+
+	/**
+	 * Speakers, attendees and dates the question asks about, as filters on top of TRANSCRIPT_FILTERS
+	 */
+	private async understandQuery(
+		query: string,
+		history: RagHistoryMessage[] = []
+	): Promise<RagFilters> {
+		const extracted = await extractTranscriptFilters(this.cohere, query, history);
+		if (Object.keys(extracted).length > 0) {
+			console.log('[FirefliesAgent] Query filters:', JSON.stringify(extracted));
+		}
+		return { ...TRANSCRIPT_FILTERS, ...extracted };
 	}
 
 	/**
-	 * Search transcripts and format results as context
+	 * Search transcripts and format results as context.
+	 * Chat history lets the retrieval stage rewrite follow-ups ("what about the second one?").
+	 * When nothing matches the speaker or attendee filters (names are matched loosely, but can still
+	 * be misspelled or missing from the metadata) the search is repeated without them.
 	 */
-	private async searchTranscripts(query: string, limit: number = 5): Promise<SearchResult[]> {
+	private async searchTranscripts(
+		query: string,
+		filters: RagFilters = TRANSCRIPT_FILTERS,
+		history: RagHistoryMessage[] = [],
+		extraMetrics: Partial<RagMetrics> = {}
+	): Promise<{ results: SearchResult[]; filters: RagFilters }> {
 		try {
-			const ragContext = await this.rag.retrieve(query);
-			return ragContext.chunks.map((chunk) => ({
-				id: `${chunk.doc_id}_chunk_${chunk.order_index ?? 0}`,
+			let applied = filters;
+			let ragContext = await this.rag.retrieve(
+				query,
+				applied,
+				this.userEmail,
+				history,
+				extraMetrics,
+			);
+			if (ragContext.chunks.length === 0 && (filters.speakers || filters.participants)) {
+				applied = { ...filters, speakers: undefined, participants: undefined };
+				ragContext = await this.rag.retrieve(query, applied, this.userEmail, history, extraMetrics);
+			}
+
+			const results: SearchResult[] = ragContext.chunks.map((chunk) => ({
+				...this.chunkLinks(chunk.external_url || '', chunk.content, chunk.start_time),
+				id: chunk.id,
 				title: chunk.title || 'Untitled',
-				transcript_date: chunk.updated_at ? new Date(chunk.updated_at) : new Date(),
+				transcript_date: new Date(chunk.occurred_at ?? chunk.updated_at ?? Date.now()),
 				similarity: chunk.score_rerank ?? chunk.score_fused ?? 0,
 				excerpt: chunk.content,
 				transcript_url: chunk.external_url || '',
 				source: 'chunk',
 				chunk_topic: chunk.section || undefined,
+				chunk_id: chunk.id,
+				doc_id: chunk.doc_id,
+				speakers: chunk.speakers ?? undefined,
+				start_time: chunk.start_time ?? undefined,
+				end_time: chunk.end_time ?? undefined,
 			}));
+			return { results, filters: applied };
 		} catch (error: any) {
 			console.error('[FirefliesAgent] Search error:', error.message);
-			return [];
+			return { results: [], filters };
 		}
 	}
 
+	/**
+	 * Deep links into the Fireflies player for a chunk and each of its speaker turns
+	 */
+	private chunkLinks(
+		transcriptUrl: string,
+		content: string,
+		startTime?: number | null
+	): Pick<SearchResult, 'deep_link' | 'quotes'> {
+		const link = (seconds: number) =>
+			transcriptUrl ? transcriptDeepLink(transcriptUrl, seconds) : undefined;
+		return {
+			deep_link: startTime != null ? link(startTime) : undefined,
+			quotes: parseTranscriptTurns(content).map((turn) => ({
+				...turn,
+				deep_link: link(turn.start_time),
+			})),
+		};
+	}
+
 	/**
 	 * Get transcript details for action items
 	 */
 	private async getTranscriptDetails(transcriptId: string): Promise<TranscriptDetails | null> {
 		try {
-			const transcript = await this.vectorDB.getTranscript(transcriptId);
+			const transcript = await this.vectorDB.getTranscript(transcriptId, this.access);
 			if (!transcript) return null;
 
 			return {
 				id: transcript.id,
-				title: transcript.title,
-				date: new Date(transcript.transcript_date),
-				summary_overview: transcript.summary_overview,
-				summary_action_items: transcript.summary_action_items,
+				title: transcript.title || 'Untitled meeting',
+				date: new Date(transcript.transcript_date ?? Date.now()),
+				summary_overview: transcript.summary_overview ?? undefined,
+				summary_action_items: transcript.summary_action_items ?? undefined,
 				summary_keywords: transcript.summary_keywords,
-				transcript_url: transcript.transcript_url,
+				transcript_url: transcript.transcript_url ?? undefined,
 			};
 		} catch (error: any) {
 			console.error('[FirefliesAgent] Get transcript error:', error.message);
@@ -113,9 +260,7 @@ export class FirefliesAgent {
 
 		for (const result of results.slice(0, 3)) {
 			// Get top 3 transcripts
-			const baseId = result.id.includes('_chunk_')
-				? result.id.split('_chunk_')[0]
-				: result.id;
+			const baseId = result.doc_id ?? result.id;
 
 			if (seenIds.has(baseId)) continue;
 			seenIds.add(baseId);
@@ -137,15 +282,46 @@ export class FirefliesAgent {
 		return actionItems.slice(0, 5); // Return max 5 action items
 	}
 
+	/**
+	 * Describe the filters a search used, so the answer can say what it was limited to
+	 */
+	private describeFilters(requested: RagFilters, applied: RagFilters): string[] {
+		const notes: string[] = [];
+		if (applied.speakers?.length) {
+			notes.push(`Only turns where ${applied.speakers.join(' or ')} speaks.`);
+		}
+		if (applied.participants?.length) {
+			notes.push(`Only meetings attended by ${applied.participants.join(' and ')}.`);
+		}
+		if (applied.fromDate || applied.toDate) {
+			notes.push(
+				`Only meetings from ${applied.fromDate?.slice(0, 10) ?? 'the start'} to ${applied.toDate?.slice(0, 10) ?? 'today'}.`,
+			);
+		}
+		const unmatched = [
+			...(!applied.speakers ? (requested.speakers ?? []) : []),
+			...(!applied.participants ? (requested.participants ?? []) : []),
+		];
+		if (unmatched.length > 0) {
+			notes.push(
+				`No transcripts matched ${unmatched.join(', ')} by name; these results are not filtered by person.`,
+			);
+		}
+		return notes;
+	}
+
 	/**
 	 * Format search results as context for the LLM
 	 */
-	private formatContext(results: SearchResult[]): string {
+	private formatContext(results: SearchResult[], filterNotes: string[] = []): string {
 		if (results.length === 0) {
-			return 'No relevant meeting transcripts found for this query.';
+			return ['No relevant meeting transcripts found for this query.', ...filterNotes].join('\n');
 		}
 
 		const contextParts: string[] = ['## Relevant Meeting Context\n'];
+		if (filterNotes.length > 0) {
+			contextParts.push(`${filterNotes.join('\n')}\n`);
+		}
 
 		for (let i = 0; i < results.length; i += 1) {
 			const result = results[i];
@@ -163,8 +339,20 @@ export class FirefliesAgent {
 			if (result.chunk_topic) {
 				contextParts.push(`**Section:** ${result.chunk_topic}`);
 			}
+			if (result.speakers?.length) {
+				contextParts.push(`**Speakers:** ${result.speakers.join(', ')}`);
+			}
+			if (result.start_time !== undefined) {
+				contextParts.push(
+					`**Time:** ${formatTranscriptTime(result.start_time)}-${formatTranscriptTime(result.end_time ?? result.start_time)}`,
+				);
+			}
 			contextParts.push(`\n> ${result.excerpt.substring(0, 500)}${result.excerpt.length > 500 ? '...' : ''}`);
-			if (result.transcript_url) {
+			if (result.deep_link && result.start_time !== undefined) {
+				contextParts.push(
+					`[Open recording at ${formatTranscriptTime(result.start_time)}](${result.deep_link})`,
+				);
+			} else if (result.transcript_url) {
 				contextParts.push(`[View Full Transcript](${result.transcript_url})`);
 			}
 			contextParts.push('\n---\n');
@@ -194,7 +382,7 @@ export class FirefliesAgent {
 		// Add context as a system message before user message
 		messages.push({
 			role: 'system',
-			content: `The following context was retrieved from the meeting transcript database:\n\n${context}`,
+			content: `The following context was retrieved from the meeting transcript database:\n\n${context}\n\n${RAG_TRANSCRIPT_QUOTE_PROMPT}`,
 		});
 
 		// Add user message
@@ -207,16 +395,40 @@ export class FirefliesAgent {
 	}
 
 	/**
-	 * Handle a user request with streaming response
+	 * Handle a user request with streaming response.
+	 * Opening questions (no chat history) go through the answer cache unless `cache` is false;
+	 * follow-ups depend on the conversation, so they are always answered fresh.
 	 */
-	async *handleRequestStream(request: { message: string }): AsyncGenerator<StreamChunk> {
+	async *handleRequestStream(request: {
+		message: string;
+		cache?: boolean;
+	}): AsyncGenerator<StreamChunk> {
 		const { message } = request;
 
 		try {
 			console.log(`[FirefliesAgent] Processing: "${message.substring(0, 50)}..."`);
 
-			// Step 1: Search for relevant transcripts
-			const searchResults = await this.searchTranscripts(message, 5);
+			// Step 1: Get chat history, read speakers/attendees/dates from the question and search
+			const chatHistory = await getPreparedChatHistoryAsync(this.sessionId, this.model);
+			const filters = await this.understandQuery(message, chatHistory);
+
+			const useCache =
+				this.answerCache.enabled && request.cache !== false && chatHistory.length === 0;
+			const cached = useCache
+				? await this.answerCache.lookup<CachedFirefliesAnswer>(message, filters)
+				: null;
+			if (cached?.hit) {
+				this.answerCache.logHit(message, cached, this.userEmail);
+				yield* this.replayCachedAnswer(message, cached.hit.answer, cached.hit.payload);
+				return;
+			}
+
+			const { results: searchResults, filters: appliedFilters } = await this.searchTranscripts(
+				message,
+				filters,
+				chatHistory,
+				useCache ? { cache_hit: false } : {},
+			);
 			console.log(`[FirefliesAgent] Found ${searchResults.length} relevant results`);
 
 			// Yield sources early so UI can show them
@@ -236,41 +448,90 @@ export class FirefliesAgent {
 				};
 			}
 
-			// Step 3: Format context and get chat history
-			const context = this.formatContext(searchResults);
-			const chatHistory = await getPreparedChatHistoryAsync(this.sessionId, this.model);
+			// Step 3: Format context
+			const context = this.formatContext(
+				searchResults,
+				this.describeFilters(filters, appliedFilters),
+			);
 
 			// Step 4: Build messages and stream response
 			const messages = await this.buildMessages(message, context, chatHistory);
 
-			const stream = await this.cohere.chatStream({
-				model: this.model,
-				messages,
-			});
-
 			let fullResponse = '';
-
-			for await (const event of stream) {
-				if (event.type === 'content-delta') {
-					const delta = event.delta as any;
-					if (delta?.message?.content?.text) {
-						const text = delta.message.content.text;
-						fullResponse += text;
-						yield {
-							type: 'text',
-							content: text,
-						};
+			let toolRounds = 0;
+
+			// The model may call query_action_items first; its results go back in before it answers
+			while (true) {
+				const stream = await this.cohere.chatStream({
+					model: this.model,
+					messages,
+					tools: toolRounds < MAX_TOOL_ROUNDS ? [ACTION_ITEMS_TOOL] : undefined,
+				});
+
+				const toolCalls: ToolCallV2[] = [];
+				let toolPlan = '';
+
+				for await (const event of stream) {
+					if (event.type === 'content-delta') {
+						const text = event.delta?.message?.content?.text;
+						if (text) {
+							fullResponse += text;
+							yield {
+								type: 'text',
+								content: text,
+							};
+						}
+					} else if (event.type === 'tool-plan-delta') {
+						toolPlan += event.delta?.message?.toolPlan ?? '';
+					} else if (event.type === 'tool-call-start' && event.delta?.message?.toolCalls) {
+						const toolCall = event.delta.message.toolCalls;
+						toolCalls.push({
+							id: toolCall.id,
+							type: 'function',
+							function: { name: toolCall.function?.name, arguments: '' },
+						});
+					} else if (event.type === 'tool-call-delta' && toolCalls.length > 0) {
+						toolCalls[toolCalls.length - 1].function!.arguments +=
+							event.delta?.message?.toolCalls?.function?.arguments ?? '';
 					}
-				} else if (event.type === 'message-end') {
-					// Save to chat history
-					await addMessagesToChatHistoryAsync(this.sessionId, [
-						{ role: 'user', content: message },
-						{ role: 'assistant', content: fullResponse },
-					]);
+				}
+
+				if (toolCalls.length === 0) break;
+				toolRounds += 1;
+
+				messages.push({ role: 'assistant', toolPlan: toolPlan || undefined, toolCalls });
+				for (const toolCall of toolCalls) {
+					messages.push({
+						role: 'tool',
+						toolCallId: toolCall.id ?? '',
+						content: JSON.stringify(await this.runTool(toolCall)),
+					});
 				}
 			}
 
-			yield { type: 'done' };
+			// Save to chat history
+			await addMessagesToChatHistoryAsync(this.sessionId, [
+				{ role: 'user', content: message },
+				{ role: 'assistant', content: fullResponse },
+			]);
+
+			// Tool results can be about the user ("me"), so those answers are not shared
+			if (useCache && toolRounds === 0 && fullResponse.trim() && searchResults.length > 0) {
+				void this.answerCache.store<CachedFirefliesAnswer>(
+					message,
+					cached?.embedding ?? null,
+					filters,
+					{
+						answer: fullResponse,
+						payload: { sources: searchResults, suggestions: actionItems },
+						docIds: searchResults.map((result) => result.doc_id ?? result.id.split('_chunk_')[0]),
+					},
+				);
+			}
+
+			const answerId = crypto.randomUUID();
+			this.recordAnswer(answerId, message, fullResponse, searchResults);
+			yield { type: 'done', answerId };
 		} catch (error: any) {
 			console.error('[FirefliesAgent] Error:', error);
 			yield {
@@ -280,6 +541,112 @@ export class FirefliesAgent {
 		}
 	}
 
+	/**
+	 * Run a tool call from the model. Failures are returned to the model rather than thrown.
+	 */
+	private async runTool(toolCall: ToolCallV2): Promise<Record<string, unknown>> {
+		const name = toolCall.function?.name;
+		try {
+			if (name !== ACTION_ITEMS_TOOL_NAME) {
+				return { success: false, error: `Unknown tool: ${name}` };
+			}
+
+			const args = JSON.parse(toolCall.function?.arguments || '{}') as Record<string, unknown>;
+			const ownerArg = typeof args.owner === 'string' ? args.owner.trim() : '';
+			const isMe = /^(me|my|myself|i)$/i.test(ownerArg);
+			if (isMe && !this.userEmail) {
+				return { success: false, error: 'The signed-in user is unknown, so "me" cannot be resolved.' };
+			}
+			const status = [...ACTION_ITEM_STATUSES, 'all'].find((s) => s === args.status);
+
+			const items = await this.actionItems.listItems({
+				owner: isMe ? this.userEmail : ownerArg || undefined,
+				customer: typeof args.customer === 'string' ? args.customer : undefined,
+				status: status as ActionItemQuery['status'],
+				limit: ACTION_ITEMS_TOOL_LIMIT,
+			});
+			return {
+				success: true,
+				count: items.length,
+				items: items.map((item) => ({
+					description: item.description,
+					owner: item.owner_name ?? item.owner_email,
+					due_date: item.due_date,
+					status: item.status,
+					customer: item.customer_name,
+					meeting: item.meeting_title,
+					meeting_date: item.meeting_date,
+					meeting_url: item.meeting_url,
+					closed_in: item.status_meeting_title,
+					status_note: item.status_note,
+				})),
+			};
+		} catch (error) {
+			const message = error instanceof Error ? error.message : String(error);
+			console.error(`[FirefliesAgent] Tool ${name} failed:`, message);
+			return { success: false, error: message };
+		}
+	}
+
+	/**
+	 * Send a cached answer the way a fresh one streams, and record it in the chat history
+	 */
+	private async *replayCachedAnswer(
+		message: string,
+		answer: string,
+		payload: CachedFirefliesAnswer
+	): AsyncGenerator<StreamChunk> {
+		// Dates come back from the JSON payload as strings
+		const sources = payload.sources.map((source) => ({
+			...source,
+			transcript_date: new Date(source.transcript_date),
+		}));
+		if (sources.length > 0) {
+			yield { type: 'sources', sources };
+		}
+		if (payload.suggestions.length > 0) {
+			yield { type: 'suggestions', suggestions: payload.suggestions };
+		}
+		yield { type: 'text', content: answer };
+
+		await addMessagesToChatHistoryAsync(this.sessionId, [
+			{ role: 'user', content: message },
+			{ role: 'assistant', content: answer },
+		]);
+
+		const answerId = crypto.randomUUID();
+		this.recordAnswer(answerId, message, answer, sources, true);
+		yield { type: 'done', answerId };
+	}
+
+	/**
+	 * Record an answer so the user can rate it (best-effort, not awaited)
+	 */
+	private recordAnswer(
+		answerId: string,
+		question: string,
+		answer: string,
+		sources: SearchResult[],
+		cached = false,
+	) {
+		const chunks: RagAnswerChunk[] = sources
+			.filter((source) => source.chunk_id)
+			.map((source) => ({
+				id: source.chunk_id!,
+				doc_id: source.doc_id ?? source.id.split('_chunk_')[0],
+				score_rerank: cached ? null : source.similarity,
+			}));
+		void recordAnswer(getRagPool(this.databaseUrl), {
+			id: answerId,
+			source: 'fireflies',
+			user_email: this.userEmail,
+			question,
+			answer,
+			chunks,
+			cached,
+		});
+	}
+
 	/**
 	 * Non-streaming version for simple queries
 	 */
@@ -0,0 +1,273 @@
+/**
+ * Fireflies ingestion: "Transcription completed" webhooks pull the transcript from the
+ * Fireflies API and store it as a RAG document (VectorDBService.upsertTranscript), then extract its
+ * action items. Each transcript has one row in fireflies_ingestions, which makes repeated
+ * notifications idempotent and doubles as the retry queue for failed ingestions.
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import { createFirefliesService } from './fireflies';
+import { createVectorDBService } from './vector-db';
+import { MeetingActionItemService } from './meeting-action-items';
+import { getRagPool } from './rag-retrieval';
+
+export type FirefliesIngestSource = 'webhook' | 'retry' | 'manual';
+
+export type FirefliesIngestStatus = 'pending' | 'processing' | 'done' | 'failed' | 'dead';
+
+export type FirefliesIngestResult = {
+	transcript_id: string;
+	status: 'ingested' | 'duplicate' | 'failed' | 'dead';
+	attempts?: number;
+	chunk_count?: number;
+	error?: string;
+	next_attempt_at?: string;
+};
+
+export type FirefliesIngestion = {
+	transcript_id: string;
+	status: FirefliesIngestStatus;
+	source: FirefliesIngestSource;
+	attempts: number;
+	last_error: string | null;
+	next_attempt_at: string | null;
+	received_at: string;
+	completed_at: string | null;
+	chunk_count: number | null;
+};
+
+const FIREFLIES_COMPLETED_EVENT = 'transcription completed';
+const MAX_ATTEMPTS = 5;
+const RETRY_BASE_SECONDS = 60;
+const RETRY_MAX_SECONDS = 6 * 60 * 60;
+// A 'processing' row older than this belongs to a request that died mid-ingestion
+const STALE_PROCESSING_MINUTES = 15;
+
+/**
+ * Check the x-hub-signature header: hex HMAC-SHA256 of the raw body with the webhook secret,
+ * optionally prefixed with "sha256="
+ */
+export const verifyFirefliesSignature = (
+	rawBody: string,
+	signature: string | null,
+	secret: string
+): boolean => {
+	if (!signature || !secret) return false;
+	const received = Buffer.from(signature.trim().replace(/^sha256=/i, ''), 'hex');
+	const expected = createHmac('sha256', secret).update(rawBody, 'utf8').digest();
+	return received.length === expected.length && timingSafeEqual(received, expected);
+};
+
+/**
+ * The transcript id of a "Transcription completed" notification, or null for other events
+ */
+export const parseFirefliesWebhook = (body: unknown): string | null => {
+	const payload = (body ?? {}) as Record<string, unknown>;
+	const eventType = typeof payload.eventType === 'string' ? payload.eventType : '';
+	const meetingId = typeof payload.meetingId === 'string' ? payload.meetingId.trim() : '';
+	if (eventType.trim().toLowerCase() !== FIREFLIES_COMPLETED_EVENT || !meetingId) return null;
+	return meetingId;
+};
+
+const retryDelaySeconds = (attempts: number) =>
+	Math.min(RETRY_BASE_SECONDS * 2 ** Math.max(attempts - 1, 0), RETRY_MAX_SECONDS);
+
+export class FirefliesIngestService {
+	private dbUrl: string;
+	private cohereApiKey: string;
+	private firefliesApiKey: string;
+
+	constructor(databaseUrl: string, cohereApiKey: string, firefliesApiKey: string) {
+		this.dbUrl = databaseUrl;
+		this.cohereApiKey = cohereApiKey;
+		this.firefliesApiKey = firefliesApiKey;
+	}
+
+	private get pool() {
+		return getRagPool(this.dbUrl);
+	}
+
+	/**
+	 * Queue a transcript. Returns false when it is already ingested or being ingested, so repeated
+	 * notifications are no-ops; a failed or dead transcript is queued again.
+	 */
+	async enqueue(transcriptId: string, source: FirefliesIngestSource): Promise<boolean> {
+		const result = await this.pool.query(
+			`INSERT INTO fireflies_ingestions (transcript_id, status, source, next_attempt_at)
+			 VALUES ($1, 'pending', $2, NOW())
+			 ON CONFLICT (transcript_id) DO UPDATE SET
+				status = 'pending',
+				source = EXCLUDED.source,
+				attempts = CASE WHEN fireflies_ingestions.status = 'dead' THEN 0 ELSE fireflies_ingestions.attempts END,
+				next_attempt_at = NOW(),
+				updated_at = NOW()
+			 WHERE fireflies_ingestions.status IN ('failed', 'dead')`,
+			[transcriptId, source]
+		);
+		return (result.rowCount ?? 0) > 0;
+	}
+
+	/**
+	 * Queue and ingest a notified transcript
+	 */
+	async handleNotification(transcriptId: string): Promise<FirefliesIngestResult> {
+		const queued = await this.enqueue(transcriptId, 'webhook');
+		if (!queued) {
+			await this.log('duplicate', { transcript_id: transcriptId, source: 'webhook' });
+			return { transcript_id: transcriptId, status: 'duplicate' };
+		}
+		return this.ingest(transcriptId, 'webhook');
+	}
+
+	/**
+	 * Fetch, store and index one queued transcript. Failures are recorded with a backoff for
+	 * retryDue; after MAX_ATTEMPTS the transcript is marked dead until it is notified again.
+	 */
+	async ingest(
+		transcriptId: string,
+		source: FirefliesIngestSource
+	): Promise<FirefliesIngestResult> {
+		const claimed = await this.pool.query(
+			`UPDATE fireflies_ingestions
+			 SET status = 'processing', attempts = attempts + 1, started_at = NOW(), updated_at = NOW()
+			 WHERE transcript_id = $1
+				AND (status IN ('pending', 'failed')
+					OR (status = 'processing' AND started_at < NOW() - ($2 || ' minutes')::interval))
+			 RETURNING attempts`,
+			[transcriptId, STALE_PROCESSING_MINUTES]
+		);
+		const attempts = (claimed.rows[0] as { attempts: number } | undefined)?.attempts;
+		if (attempts === undefined) {
+			return { transcript_id: transcriptId, status: 'duplicate' };
+		}
+
+		const started = Date.now();
+		try {
+			const transcript = await createFirefliesService({
+				apiKey: this.firefliesApiKey
+			}).fetchTranscript(transcriptId);
+			const indexed = await createVectorDBService(this.dbUrl, this.cohereApiKey).upsertTranscript(
+				transcript
+			);
+			const chunkCount = indexed.inserts + indexed.updates;
+
+			await this.pool.query(
+				`UPDATE fireflies_ingestions
+				 SET status = 'done', last_error = NULL, next_attempt_at = NULL, chunk_count = $2,
+					completed_at = NOW(), updated_at = NOW()
+				 WHERE transcript_id = $1`,
+				[transcriptId, chunkCount]
+			);
+			await this.log(
+				'ingested',
+				{
+					transcript_id: transcriptId,
+					source,
+					attempts,
+					chunk_count: chunkCount,
+					title: transcript.title
+				},
+				Date.now() - started
+			);
+			if (indexed.status === 'indexed') {
+				// Not awaited: meetings it misses are picked up by MeetingActionItemService.processPending
+				void new MeetingActionItemService(this.dbUrl, this.cohereApiKey)
+					.processMeeting(transcriptId)
+					.catch((error: unknown) =>
+						console.error(
+							`[FirefliesIngest] Action items for ${transcriptId} failed:`,
+							error instanceof Error ? error.message : error
+						)
+					);
+			}
+			return { transcript_id: transcriptId, status: 'ingested', attempts, chunk_count: chunkCount };
+		} catch (error: unknown) {
+			const message = error instanceof Error ? error.message : String(error);
+			const dead = attempts >= MAX_ATTEMPTS;
+			const failed = await this.pool.query(
+				`UPDATE fireflies_ingestions
+				 SET status = $2, last_error = $3,
+					next_attempt_at = CASE WHEN $2 = 'dead' THEN NULL
+						ELSE NOW() + ($4 || ' seconds')::interval END,
+					updated_at = NOW()
+				 WHERE transcript_id = $1
+				 RETURNING next_attempt_at`,
+				[transcriptId, dead ? 'dead' : 'failed', message, retryDelaySeconds(attempts)]
+			);
+			const nextAttempt = (failed.rows[0] as { next_attempt_at: Date | null } | undefined)
+				?.next_attempt_at;
+			console.error(`[FirefliesIngest] ${transcriptId} failed (attempt ${attempts}):`, message);
+			await this.log(
+				dead ? 'dead' : 'failed',
+				{
+					transcript_id: transcriptId,
+					source,
+					attempts,
+					error: message
+				},
+				Date.now() - started
+			);
+			return {
+				transcript_id: transcriptId,
+				status: dead ? 'dead' : 'failed',
+				attempts,
+				error: message,
+				next_attempt_at: nextAttempt ? new Date(nextAttempt).toISOString() : undefined
+			};
+		}
+	}
+
+	/**
+	 * Retry failed ingestions whose backoff has passed, and ones never picked up or stuck in
+	 * 'processing', oldest first
+	 */
+	async retryDue(limit = 5): Promise<FirefliesIngestResult[]> {
+		const due = await this.pool.query(
+			`SELECT transcript_id FROM fireflies_ingestions
+			 WHERE (status IN ('pending', 'failed') AND next_attempt_at <= NOW())
+				OR (status = 'processing' AND started_at < NOW() - ($2 || ' minutes')::interval)
+			 ORDER BY next_attempt_at NULLS FIRST
+			 LIMIT $1`,
+			[Math.max(Math.floor(limit), 1), STALE_PROCESSING_MINUTES]
+		);
+		const results: FirefliesIngestResult[] = [];
+		for (const row of due.rows as Array<{ transcript_id: string }>) {
+			results.push(await this.ingest(row.transcript_id, 'retry'));
+		}
+		return results;
+	}
+
+	/**
+	 * Recent ingestions, most recently received first
+	 */
+	async listIngestions(
+		options: { status?: FirefliesIngestStatus; limit?: number } = {}
+	): Promise<FirefliesIngestion[]> {
+		const params: unknown[] = [Math.min(Math.max(Math.floor(options.limit || 50), 1), 200)];
+		let statusClause = '';
+		if (options.status) {
+			params.push(options.status);
+			statusClause = `WHERE status = $${params.length}`;
+		}
+		const result = await this.pool.query(
+			`SELECT transcript_id, status, source, attempts, last_error, next_attempt_at, received_at,
+				completed_at, chunk_count
+			 FROM fireflies_ingestions ${statusClause}
+			 ORDER BY received_at DESC
+			 LIMIT $1`,
+			params
+		);
+		return result.rows as FirefliesIngestion[];
+	}
+
+	private async log(action: string, metadata: Record<string, unknown>, durationMs?: number) {
+		const { logEvent } = await import('./ops-logger');
+		logEvent({
+			event_type: 'fireflies_ingest',
+			event_action: action,
+			route: '/fireflies/webhook',
+			metadata,
+			duration_ms: durationMs
+		});
+	}
+}
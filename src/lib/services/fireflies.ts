@@ -102,6 +102,36 @@ interface TranscriptQueryResponse {
 	transcript: FirefliesTranscript;
 }
 
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Format a sentence time (seconds from the start of the recording) as m:ss, or h:mm:ss
+ */
+export function formatTranscriptTime(seconds: number): string {
+	const total = Math.max(Math.floor(seconds || 0), 0);
+	const hours = Math.floor(total / 3600);
+	const minutes = Math.floor((total % 3600) / 60);
+	const secs = String(total % 60).padStart(2, '0');
+	return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${secs}` : `${minutes}:${secs}`;
+}
+
+/**
+ * Link to a moment of a recording: the transcript URL with the Fireflies player's `t` parameter
+ * (whole seconds). Returns the URL unchanged when it can't be parsed.
+ */
+export function transcriptDeepLink(transcriptUrl: string, seconds: number): string {
+	if (!transcriptUrl) return '';
+	try {
+		const url = new URL(transcriptUrl);
+		url.searchParams.set('t', String(Math.max(Math.floor(seconds || 0), 0)));
+		return url.toString();
+	} catch {
+		return transcriptUrl;
+	}
+}
+
 // ============================================================================
 // GraphQL Queries
 // ============================================================================
@@ -55,6 +55,7 @@ export function detectAvailabilityIntent(
 	parseDate: (d: string) => string
 ): { name: string; date: string } | null {
 	const lower = message.toLowerCase();
+	if (detectMeetingChangeIntent(message)) return null;
 	const availabilityKeywords = /\b(availability|available|free|schedule|booking|book|meet(?:ing)?)\b/i;
 	if (!availabilityKeywords.test(lower)) return null;
 
@@ -65,6 +66,19 @@ export function detectAvailabilityIntent(
 	return { name, date };
 }
 
+// ==================== MEETING CHANGE INTENT ====================
+
+/**
+ * "Move my 3pm with Todd", "cancel tomorrow's standup" - changes to an existing meeting.
+ * These must reach the agent loop, never the availability fast path.
+ */
+export function detectMeetingChangeIntent(message: string): boolean {
+	const lower = message.toLowerCase();
+	return /\b(reschedul\w*|cancel\w*|postpone|push\s+(?:back|out)|move|decline|(?:add|remove|drop|invite)\b.*\b(?:to|from)\s+(?:my|the|our))\b.*\b(meetings?|calls?|appointments?|invites?|syncs?|standups?|\d{1,2}(?::\d{2})?\s*(?:am|pm))\b/.test(
+		lower
+	);
+}
+
 // ==================== TIME ENTRY INTENT ====================
 
 export function detectTimeEntryIntent(message: string): boolean {
@@ -85,7 +99,7 @@ export function determineToolScope(
 	const hasAvailabilityIntentFlag = !!detectAvailabilityIntent(message, parseDate);
 
 	if (hasTimeEntryIntentFlag) return 'billing';
-	if (hasAvailabilityIntentFlag) return 'calendar';
+	if (hasAvailabilityIntentFlag || detectMeetingChangeIntent(message)) return 'calendar';
 	return 'all';
 }
 
@@ -1,219 +1,147 @@
 // MCP Server Implementation for Microsoft Graph Calendar Operations
 
-import type {
-	MCPRequest,
-	MCPResponse,
-	MCPTool,
-	MCPToolsCallRequest,
-	MCPToolsCallResponse,
+import {
+	MCP_ERROR_CODES,
+	type MCPRequest,
+	type MCPResponse,
+	type MCPTool,
+	type MCPToolsCallRequest,
+	type MCPToolsCallResponse,
+	type MCPInitializeRequest,
+	type MCPServerCapabilities,
+	type MCPResource,
+	type MCPResourceContents,
+	type MCPResourcesReadRequest,
+	type MCPPrompt,
+	type MCPPromptMessage,
+	type MCPPromptsGetRequest,
 } from '$lib/types/mcp';
 import { MicrosoftGraphService } from './microsoft-graph';
-import { MicrosoftGraphAuth } from './microsoft-graph-auth';
+import { MicrosoftGraphAuth, type DelegatedTokenRefresh } from './microsoft-graph-auth';
 import { OpenAIService } from './openai-service';
 import { CalendarAIHelper } from './ai-calendar-helpers';
 import { getChatHistoryAsync, setChatHistoryAsync } from './chat-history-store';
 import { prepareChatHistory, type GenericChatMessage } from '$lib/utils/tokens';
-import { getTodayEastern, formatDateEastern } from '$lib/utils/datetime';
+import {
+	getTodayInZone,
+	formatDateInZone,
+	formatCalendarDate,
+	getTimeZoneLabel,
+} from '$lib/utils/datetime';
+import { buildSystemPrompt } from '$lib/prompts/billi-prompts';
+import { getAllEmployees, getAllCustomers } from './azero-db';
+import { ToolExecutor } from './tool-executor';
+import { ToolValidationError, toolErrorResult, validateToolArguments } from './tool-validation';
+import {
+	getRegisteredTool,
+	getRegisteredTools,
+	getToolResultCard,
+	getToolStatusLabel,
+	toMCPTool,
+} from './tool-registry';
+import type { RagRetrievalService } from './rag-retrieval';
+import { SHARED_RAG_ACCESS, type RagAccessScope } from './rag-access';
+import { isOpsAllowed } from './ops-access';
+import type { VectorDBService } from './vector-db';
+import type { LoggedInUser } from '$lib/types/user';
 
 // Extended message type with timestamp for storage
 type StoredChatMessage = GenericChatMessage;
 
+// Protocol versions this server can speak, newest first
+const SUPPORTED_PROTOCOL_VERSIONS = ['2025-06-18', '2025-03-26', '2024-11-05'];
+
+const SERVER_INFO = { name: 'spectra-mcp', version: '1.0.0' };
+
+const TRANSCRIPT_URI_PREFIX = 'fireflies://transcripts/';
+
+/**
+ * Optional services that extend the calendar tools when exposed over MCP.
+ * Billing tools need the time entry webhook, Fireflies tools the RAG corpus.
+ */
+export interface MCPServerIntegrations {
+	billingWebhookUrl?: string;
+	rag?: RagRetrievalService;
+	vectorDB?: VectorDBService;
+	/** What the caller may read from the RAG corpus; shared content only if omitted */
+	access?: RagAccessScope;
+	/** Refresh token for a new delegated token when Graph rejects the current one */
+	delegatedRefresh?: DelegatedTokenRefresh;
+}
+
+/**
+ * search_meeting_transcripts result: the top reranked chunks for the query
+ */
+interface TranscriptSearchResult {
+	query: string;
+	results: Array<{
+		id: string;
+		title: string;
+		section: string | null;
+		url: string | null;
+		date: string | null;
+		score: number | null;
+		excerpt: string;
+	}>;
+}
+
+/**
+ * Error carrying a JSON-RPC error code (e.g. unknown method, invalid params)
+ */
+class MCPProtocolError extends Error {
+	constructor(
+		public readonly code: number,
+		message: string
+	) {
+		super(message);
+		this.name = 'MCPProtocolError';
+	}
+}
+
 export class MCPServer {
-	private graphService: MicrosoftGraphService;
 	private openaiService: OpenAIService;
-	private aiHelper: CalendarAIHelper | null;
+	private toolExecutor: ToolExecutor;
 	private sessionId: string;
 	private chatHistory: StoredChatMessage[] = [];
-	private loggedInUser: { name: string; email: string } | null = null;
-	private lastAvailabilityDate: string | null = null;
+	private loggedInUser: LoggedInUser | null = null;
 	private lastTimestamp: number = 0; // Track last used timestamp to ensure uniqueness
 
-	private cachedUsers: Array<{ name: string; email: string }> | null = null;
-
-	private async getCachedUsers(): Promise<Array<{ name: string; email: string }>> {
-		if (this.cachedUsers === null) {
-			const users = await this.graphService.listUsers();
-			this.cachedUsers = users.value.map((user) => ({
-				name: user.displayName,
-				email: user.mail || user.userPrincipalName,
-			}));
-		}
-		return this.cachedUsers;
-	}
-
-	private clearUserCache(): void {
-		this.cachedUsers = null;
-	}
-
-	private parseDate(dateString: string | undefined | null): string {
-		if (!dateString || dateString.trim() === '') {
-			return getTodayEastern();
-		}
-
-		const lower = dateString.toLowerCase().trim();
-		const todayStr = getTodayEastern();
-		const [ty, tm, td] = todayStr.split('-').map(Number);
-		const today = new Date(ty, tm - 1, td);
-
-		if (lower === 'today') return todayStr;
-
-		if (lower === 'tomorrow') {
-			const tomorrow = new Date(today);
-			tomorrow.setDate(tomorrow.getDate() + 1);
-			return formatDateEastern(tomorrow);
-		}
-
-		if (lower === 'yesterday') {
-			const yesterday = new Date(today);
-			yesterday.setDate(yesterday.getDate() - 1);
-			return formatDateEastern(yesterday);
-		}
-
-		const nextDayMatch = lower.match(/next\s+(monday|tuesday|wednesday|thursday|friday|saturday|sunday)/);
-		if (nextDayMatch) {
-			const dayMap: Record<string, number> = {
-				sunday: 0, monday: 1, tuesday: 2, wednesday: 3, thursday: 4, friday: 5, saturday: 6,
-			};
-			const targetDay = dayMap[nextDayMatch[1]];
-			const nextDate = new Date(today);
-			const daysUntil = (targetDay - today.getDay() + 7) % 7 || 7;
-			nextDate.setDate(today.getDate() + daysUntil);
-			return formatDateEastern(nextDate);
-		}
-
-		// Handle "this coming tuesday", "coming tuesday", "this tuesday"
-		const thisDayMatch = lower.match(/(?:this\s+(?:coming\s+)?|coming\s+)(monday|tuesday|wednesday|thursday|friday|saturday|sunday)/);
-		if (thisDayMatch) {
-			const dayMap: Record<string, number> = {
-				sunday: 0, monday: 1, tuesday: 2, wednesday: 3, thursday: 4, friday: 5, saturday: 6,
-			};
-			const targetDay = dayMap[thisDayMatch[1]];
-			const thisDate = new Date(today);
-			const daysUntil = (targetDay - today.getDay() + 7) % 7;
-			// If "this coming" and today IS that day, go to next week
-			if (daysUntil === 0 && lower.includes('coming')) {
-				thisDate.setDate(today.getDate() + 7);
-			} else {
-				thisDate.setDate(today.getDate() + (daysUntil || (lower.includes('coming') ? 7 : 0)));
-			}
-			return formatDateEastern(thisDate);
-		}
-
-		let parsedDate: Date;
-		if (lower.match(/^\d{1,2}\/\d{1,2}\/\d{4}$/)) {
-			const [month, day, year] = lower.split('/').map(Number);
-			parsedDate = new Date(year, month - 1, day);
-		} else if (lower.match(/^\d{4}-\d{2}-\d{2}$/)) {
-			return lower;
-		} else {
-			parsedDate = new Date(dateString);
-		}
-
-		if (isNaN(parsedDate.getTime())) {
-			console.warn(`Could not parse date: ${dateString}, using today`);
-			return todayStr;
-		}
-
-		return formatDateEastern(parsedDate);
-	}
-
-	private getEasternOffset(dateStr: string): string {
-		const probe = new Date(`${dateStr}T12:00:00Z`);
-		const parts = new Intl.DateTimeFormat('en-US', {
-			timeZone: 'America/New_York',
-			timeZoneName: 'shortOffset',
-		}).formatToParts(probe);
-		const tz = parts.find((part) => part.type === 'timeZoneName')?.value || 'GMT-05:00';
-		const match = tz.match(/GMT([+-])(\d{1,2})(?::(\d{2}))?/);
-		if (!match) return '-05:00';
-		const sign = match[1];
-		const hours = match[2].padStart(2, '0');
-		const minutes = (match[3] ?? '00').padStart(2, '0');
-		return `${sign}${hours}:${minutes}`;
-	}
-
-	
-	private convertToLocalTime(utcDateTime: string): string {
-		// Graph API returns datetime WITHOUT 'Z' suffix, but times are in UTC
-		// Append 'Z' to ensure JavaScript interprets it as UTC, not local time
-		const dateStr = utcDateTime.endsWith('Z') ? utcDateTime : utcDateTime + 'Z';
-		const date = new Date(dateStr);
-		return date.toLocaleTimeString('en-US', {
-			hour: 'numeric',
-			minute: '2-digit',
-			hour12: true,
-			timeZone: 'America/New_York', // EST/EDT
-		});
-	}
-
-	
-	private formatLocalDateTime(utcDateTime: string): string {
-		// Graph API returns datetime WITHOUT 'Z' suffix, but times are in UTC
-		const dateTimeStr = utcDateTime.endsWith('Z') ? utcDateTime : utcDateTime + 'Z';
-		const date = new Date(dateTimeStr);
-		const dateStr = date.toLocaleDateString('en-US', {
-			weekday: 'short',
-			month: 'numeric',
-			day: 'numeric',
-			year: 'numeric',
-			timeZone: 'America/New_York',
-		});
-		const timeStr = date.toLocaleTimeString('en-US', {
-			hour: 'numeric',
-			minute: '2-digit',
-			hour12: true,
-			timeZone: 'America/New_York',
-		});
-		return `${dateStr} ${timeStr}`;
-	}
-
-	/**
-	 * Parse local time string like "9:00 AM" to a Date object
-	 * @param timeStr - Time string like "9:00 AM" or "2:30 PM"
-	 * @param dateStr - Optional date string in YYYY-MM-DD format, defaults to today
-	 */
-	private parseLocalTime(timeStr: string, dateStr?: string): Date {
-		const baseDate = dateStr ? new Date(dateStr + 'T00:00:00') : new Date();
-		const match = timeStr.match(/(\d{1,2}):(\d{2})\s*(AM|PM)/i);
-		if (!match) {
-			throw new Error(`Invalid time format: ${timeStr}`);
-		}
-		let hours = parseInt(match[1], 10);
-		const minutes = parseInt(match[2], 10);
-		const period = match[3].toUpperCase();
-
-		if (period === 'PM' && hours !== 12) {
-			hours += 12;
-		} else if (period === 'AM' && hours === 12) {
-			hours = 0;
-		}
-
-		// Create date in EST/EDT timezone
-		const date = new Date(baseDate);
-		date.setHours(hours, minutes, 0, 0);
-		return date;
-	}
-
 	private historyLoaded: boolean = false;
+	private integrations: MCPServerIntegrations;
 
 	constructor(
 		openaiApiKey: string,
 		sessionId: string,
 		authService?: MicrosoftGraphAuth,
 		accessToken?: string,
-		loggedInUser?: { name: string; email: string }
+		loggedInUser?: LoggedInUser,
+		integrations: MCPServerIntegrations = {}
 	) {
-		this.graphService = new MicrosoftGraphService(accessToken, authService);
+		const graphService = new MicrosoftGraphService(accessToken, authService, integrations.delegatedRefresh);
 		this.openaiService = new OpenAIService(openaiApiKey);
+		let aiHelper: CalendarAIHelper | null = null;
 		try {
-			this.aiHelper = new CalendarAIHelper(openaiApiKey);
+			aiHelper = new CalendarAIHelper(openaiApiKey);
 		} catch (error) {
 			console.warn('AI helper initialization failed:', error);
-			this.aiHelper = null;
 		}
 		this.sessionId = sessionId;
 		this.chatHistory = []; // Will be loaded async
 		this.loggedInUser = loggedInUser || null;
+		this.integrations = integrations;
+		this.toolExecutor = new ToolExecutor(
+			graphService,
+			aiHelper,
+			this.loggedInUser,
+			integrations.billingWebhookUrl || ''
+		);
+	}
+
+	/**
+	 * The logged-in user's time zone (shared with the tool executor)
+	 */
+	private get timeZone(): string {
+		return this.toolExecutor.timeZone;
 	}
 
 	/**
@@ -253,585 +181,95 @@ export class MCPServer {
 
 	/**
 	 * Get available MCP tools
-	 * Based on Python FastMCP implementation
+	 * Calendar tools always; billing tools when a time entry webhook is configured
 	 */
 	getTools(): MCPTool[] {
-		return [
-			{
-				name: 'get_users_with_name_and_email',
-				description: 'Get a list of all users with their display names and email addresses. Use this first to find the correct email address before checking availability or booking meetings.',
-				inputSchema: {
-					type: 'object',
-					properties: {},
-					required: [],
-				},
-			},
-			{
-				name: 'check_availability',
-				description: 'Check calendar availability for a user on a specific date. IMPORTANT: For best results, first call get_users_with_name_and_email to get the correct email address, then pass that email here. Returns busy times and free slots for the day. Free slots are derived from Microsoft Graph schedule data (getSchedule/freeBusy). Supports natural language dates like "next monday", "tomorrow", "1/12/2026", or YYYY-MM-DD format.',
-				inputSchema: {
-					type: 'object',
-					properties: {
-						user_email: {
-							type: 'string',
-							description: 'The email address or display name of the user to check availability for. If a name is provided, it will be matched against users from get_users_with_name_and_email.',
-						},
-						date: {
-							type: 'string',
-							description: 'The date to check. Supports natural language like "next monday", "tomorrow", "this friday", or date formats like "1/12/2026" or "2026-01-12". Defaults to today if not provided.',
-						},
-					},
-					required: ['user_email'],
-				},
-			},
-			{
-				name: 'get_free_slots',
-				description: 'Get free time slots for a user on a specific date using Microsoft Graph schedule data. Returns available slots for the day. Supports natural language dates like "next monday", "tomorrow", "1/12/2026", or YYYY-MM-DD format.',
+		const scope = this.integrations.billingWebhookUrl ? 'all' : 'calendar';
+		return [...getRegisteredTools(scope).map(toMCPTool), ...this.getIntegrationTools()];
+	}
+
+	/**
+	 * Tools contributed by the Fireflies integration, if configured
+	 */
+	private getIntegrationTools(): MCPTool[] {
+		const tools: MCPTool[] = [];
+
+		if (this.integrations.rag) {
+			tools.push({
+				name: 'search_meeting_transcripts',
+				description: 'Search Fireflies meeting transcripts and indexed documents. Returns the most relevant excerpts with their meeting title, section and link.',
 				inputSchema: {
 					type: 'object',
 					properties: {
-						user_email: {
+						query: {
 							type: 'string',
-							description: 'The email address or display name of the user to check. If a name is provided, it will be matched against users from get_users_with_name_and_email.',
+							description: 'What to look for, e.g. "action items from the ICE kickoff" or "pricing discussion with Todd".',
 						},
-						date: {
-							type: 'string',
-							description: 'The date to check. Defaults to today if not provided.',
-						},
-						duration_minutes: {
+						limit: {
 							type: 'number',
-							description: 'Optional slot size in minutes (default: 30).',
-						},
-					},
-					required: ['user_email'],
-				},
-			},
-			{
-				name: 'book_meeting',
-				description: 'Book a meeting on a user\'s calendar. IMPORTANT: sender_email MUST be provided - call get_users_with_name_and_email first to get it. Creates a Teams meeting automatically.',
-				inputSchema: {
-					type: 'object',
-					properties: {
-						user_email: {
-							type: 'string',
-							description: 'The email address or display name of the user whose calendar to book on.',
-						},
-						subject: {
-							type: 'string',
-							description: 'The subject/title of the meeting',
-						},
-						start_datetime: {
-							type: 'string',
-							description: 'Start time in YYYY-MM-DDTHH:MM:SS format (e.g., 2026-02-15T14:00:00). Use the current year.',
-						},
-						end_datetime: {
-							type: 'string',
-							description: 'End time in YYYY-MM-DDTHH:MM:SS format (e.g., 2026-02-15T15:00:00). Use the current year.',
-						},
-						sender_name: {
-							type: 'string',
-							description: 'The display name of the person booking the meeting',
-						},
-						sender_email: {
-							type: 'string',
-							description: 'REQUIRED - The email address of the person booking the meeting. Must be obtained from get_users_with_name_and_email first.',
-						},
-						attendees: {
-							type: 'array',
-							description: 'Optional list of attendee email addresses',
-						},
-						body: {
-							type: 'string',
-							description: 'Optional meeting body/description',
+							description: 'Optional maximum number of excerpts to return (default: 5).',
+							exclusiveMinimum: 0,
+							maximum: 20,
 						},
 					},
-					required: ['user_email', 'subject', 'start_datetime', 'end_datetime', 'sender_name', 'sender_email'],
+					required: ['query'],
 				},
-			},
-		];
-	}
-
-	/**
-	 * Execute a tool call
-	 * Based on Python FastMCP implementation
-	 */
-	async callTool(name: string, args: Record<string, any>): Promise<any> {
-		try {
-			switch (name) {
-				case 'get_users_with_name_and_email': {
-					// Use cached users to avoid repeated API calls
-					const users = await this.getCachedUsers();
-					return users;
-				}
-
-				case 'check_availability': {
-					let userEmail = args.user_email;
-					let date = args.date;
-					const durationMinutes =
-						typeof args.duration_minutes === 'number' && args.duration_minutes > 0
-							? Math.round(args.duration_minutes)
-							: 30;
-
-					if (!userEmail.includes('@')) {
-					if (!this.aiHelper) {
-						throw new Error(
-							'AI helper not available. Please provide user_email as an email address, ' +
-								'or ensure OpenAI API is configured.'
-						);
-						}
-
-						// Use cached users to avoid repeated API calls
-						const usersList = await this.getCachedUsers();
-
-						const targetUser = await this.aiHelper.matchUserName(userEmail, usersList);
-
-						if (!targetUser) {
-							const availableNames = usersList.slice(0, 5).map((u) => u.name);
-							throw new Error(
-								`User '${userEmail}' not found or ambiguous. ` +
-									`Please use get_users_with_name_and_email tool first to get the correct email address. ` +
-									`Example names found: ${availableNames.join(', ')}`
-							);
-						}
-
-						userEmail = targetUser.email;
-					}
-					
-					// Parse natural language date (handles "next monday", "tomorrow", etc.)
-					const parsedDate = this.parseDate(date);
-					this.lastAvailabilityDate = parsedDate;
-					const easternOffset = this.getEasternOffset(parsedDate);
-					
-					// Create datetime range for the full day in EST/EDT timezone
-					// Convert local midnight to UTC for the query
-					const dateObj = new Date(parsedDate + 'T00:00:00' + easternOffset);
-					const startDateTime = dateObj.toISOString();
-					const nextDay = new Date(dateObj);
-					nextDay.setDate(nextDay.getDate() + 1);
-					const endDateTime = nextDay.toISOString();
-
-					// Get calendar view for the user
-					const events = await this.graphService.getUserCalendarView(
-						userEmail,
-						startDateTime,
-						endDateTime
-					);
-
-					const busyTimes = events.value
-						.filter((event) => !event.isAllDay)
-						.map((event) => {
-							const startLocal = this.convertToLocalTime(event.start.dateTime);
-							const endLocal = this.convertToLocalTime(event.end.dateTime);
-							return {
-								subject: event.subject,
-								start: startLocal,
-								end: endLocal,
-								start_datetime: this.formatLocalDateTime(event.start.dateTime),
-								end_datetime: this.formatLocalDateTime(event.end.dateTime),
-								start_utc: event.start.dateTime,
-								end_utc: event.end.dateTime,
-							};
-						});
-
-					const availableSlots = await this.graphService.getAvailableSlotsForUser(
-						userEmail,
-						`${parsedDate}T08:00:00${easternOffset}`,
-						`${parsedDate}T17:00:00${easternOffset}`,
-						durationMinutes,
-						'Eastern Standard Time'
-					);
-
-					const freeSlots = availableSlots.map((slot) => {
-						const startLocal = this.convertToLocalTime(slot.start);
-						const endLocal = this.convertToLocalTime(slot.end);
-						const durationHours =
-							(new Date(slot.end).getTime() - new Date(slot.start).getTime()) /
-							(1000 * 60 * 60);
-						return {
-							start: startLocal,
-							end: endLocal,
-							duration_hours: Math.round(durationHours * 10) / 10,
-						};
-					});
-
-					const displayDate = new Date(parsedDate + 'T00:00:00');
-					const dayOfWeek = displayDate.toLocaleDateString('en-US', { 
-						weekday: 'long',
-						timeZone: 'America/New_York',
-					});
-
-					return {
-						user_email: userEmail,
-						date: parsedDate,
-						day_of_week: dayOfWeek,
-						busy_times: busyTimes,
-						total_events: busyTimes.length,
-						free_slots: freeSlots,
-						is_completely_free: busyTimes.length === 0,
-						slot_minutes: durationMinutes,
-						note: 'All times are displayed in Eastern Time (EST/EDT)',
-					};
-				}
-
-				case 'get_free_slots': {
-					let userEmail = args.user_email;
-					const date = args.date;
-					const durationMinutes = typeof args.duration_minutes === 'number' && args.duration_minutes > 0
-						? Math.round(args.duration_minutes)
-						: 30;
-
-					if (!userEmail.includes('@')) {
-						if (!this.aiHelper) {
-							throw new Error(
-								'AI helper not available. Please provide user_email as an email address, ' +
-									'or ensure OpenAI API is configured.'
-							);
-						}
-
-						const usersList = await this.getCachedUsers();
-						const targetUser = await this.aiHelper.matchUserName(userEmail, usersList);
-
-						if (!targetUser) {
-							const availableNames = usersList.slice(0, 5).map((u) => u.name);
-							throw new Error(
-								`User '${userEmail}' not found or ambiguous. ` +
-									`Please use get_users_with_name_and_email tool first to get the correct email address. ` +
-									`Example names found: ${availableNames.join(', ')}`
-							);
-						}
-
-						userEmail = targetUser.email;
-					}
-
-					const parsedDate = this.parseDate(date);
-					const easternOffset = this.getEasternOffset(parsedDate);
-					const startDateTime = `${parsedDate}T08:00:00${easternOffset}`;
-					const endDateTime = `${parsedDate}T17:00:00${easternOffset}`;
-					const timeZone = 'Eastern Standard Time';
-
-					const availableSlots = await this.graphService.getAvailableSlotsForUser(
-						userEmail,
-						startDateTime,
-						endDateTime,
-						durationMinutes,
-						timeZone
-					);
-
-					const formattedSlots = availableSlots.map((slot) => {
-						const startLocal = this.convertToLocalTime(slot.start);
-						const endLocal = this.convertToLocalTime(slot.end);
-						const durationHours = (new Date(slot.end).getTime() - new Date(slot.start).getTime()) / (1000 * 60 * 60);
-						return {
-							start: startLocal,
-							end: endLocal,
-							duration_hours: Math.round(durationHours * 10) / 10,
-						};
-					});
-
-					const displayDate = new Date(parsedDate + 'T00:00:00');
-					const dayOfWeek = displayDate.toLocaleDateString('en-US', {
-						weekday: 'long',
-						timeZone: 'America/New_York',
-					});
-
-					return {
-						user_email: userEmail,
-						date: parsedDate,
-						day_of_week: dayOfWeek,
-						free_slots: formattedSlots,
-						slot_minutes: durationMinutes,
-						note: 'All times are displayed in Eastern Time (EST/EDT)',
-					};
-				}
-
-				case 'book_meeting': {
-					let {
-						user_email,
-						subject,
-						start_datetime,
-						end_datetime,
-						attendees,
-						body,
-					} = args;
-
-					if (!subject || !subject.trim()) {
-						throw new Error(
-							'Meeting subject is REQUIRED. Please ask the user for the meeting subject/title before booking.'
-						);
-					}
-
-					if (!this.loggedInUser) {
-						throw new Error(
-							'No logged-in user information available. Please ensure you are authenticated.'
-						);
-					}
-
-					if (!this.aiHelper) {
-						throw new Error(
-							'AI helper not available. Please ensure OpenAI API is configured.'
-						);
-					}
-
-					// Use cached users to avoid repeated API calls
-					const usersList = await this.getCachedUsers();
-
-					const senderUser = await this.aiHelper.validateSender(
-						this.loggedInUser.name,
-						this.loggedInUser.email,
-						usersList
-					);
-					const validatedSenderEmail = senderUser.email;
-					const validatedSenderName = senderUser.name;
-
-					if (!user_email.includes('@')) {
-						const targetUser = await this.aiHelper.matchUserName(user_email, usersList);
-
-						if (!targetUser) {
-							const availableNames = usersList.slice(0, 5).map((u) => u.name);
-							throw new Error(
-								`User '${user_email}' not found or ambiguous. ` +
-									`Please use get_users_with_name_and_email tool first to get the correct email address. ` +
-									`Example names found: ${availableNames.join(', ')}`
-							);
-						}
-
-						user_email = targetUser.email;
-					}
-
-					const parseTimeInEastern = (timeStr: string, dateStr: string): string => {
-						const trimmed = timeStr.trim();
-						
-						if (trimmed.includes('T') || trimmed.match(/^\d{4}-\d{2}-\d{2}/)) {
-							return trimmed;
-						}
-						
-						let normalized = trimmed;
-						if (/^\d{3,4}$/.test(normalized) && !normalized.includes(':')) {
-							if (normalized.length === 3) {
-								normalized = `${normalized[0]}:${normalized.slice(1)}`;
-							} else if (normalized.length === 4) {
-								normalized = `${normalized.slice(0, 2)}:${normalized.slice(2)}`;
-							}
-						}
-						
-						const timeMatch = normalized.match(/(\d{1,2})(?::(\d{2}))?\s*(AM|PM)?/i);
-						if (timeMatch) {
-							let hours = parseInt(timeMatch[1], 10);
-							const minutes = parseInt(timeMatch[2] || '0', 10);
-							let period = timeMatch[3]?.toUpperCase();
-							
-							if (!period) {
-								if (hours >= 1 && hours <= 11) {
-									period = 'AM';
-								} else if (hours === 12) {
-									period = 'PM';
-								} else if (hours >= 13 && hours <= 23) {
-									period = 'PM';
-									hours -= 12;
-								} else {
-									period = 'AM';
-								}
-							} else {
-								if (period === 'PM' && hours !== 12) hours += 12;
-								else if (period === 'AM' && hours === 12) hours = 0;
-							}
-							
-							const hoursStr = hours.toString().padStart(2, '0');
-							const minutesStr = minutes.toString().padStart(2, '0');
-							return `${dateStr}T${hoursStr}:${minutesStr}:00`;
-						}
-						
-						return trimmed;
-					};
-
-					const dateStr = this.lastAvailabilityDate || getTodayEastern();
-					const startDateTimeStr = parseTimeInEastern(start_datetime, dateStr);
-					const endDateTimeStr = parseTimeInEastern(end_datetime, dateStr);
-					
-					const bookingOffset = this.getEasternOffset(dateStr);
-					const startDt = new Date(startDateTimeStr + bookingOffset);
-					const endDt = new Date(endDateTimeStr + bookingOffset);
-					
-					if (isNaN(startDt.getTime()) || isNaN(endDt.getTime())) {
-						throw new Error(`Invalid datetime format. Received start: "${start_datetime}", end: "${end_datetime}". Use YYYY-MM-DDTHH:MM:SS format or time like "9:00 AM".`);
-					}
-
-					if (endDt <= startDt) {
-						throw new Error('End time must be after start time');
-					}
-
-					const startISO = startDateTimeStr;
-					const endISO = endDateTimeStr;
-
-					const event = await this.graphService.createEventForUser(user_email, {
-						subject,
-						start: startISO,
-						end: endISO,
-						timeZone: 'Eastern Standard Time',
-						senderName: validatedSenderName,
-						senderEmail: validatedSenderEmail,
-						attendees: attendees || [],
-						body: body || '',
-						isOnlineMeeting: true,
-					});
-
-					const dayOfWeek = startDt.toLocaleDateString('en-US', { 
-						weekday: 'long',
-						timeZone: 'America/New_York'
-					});
-					const dateFormatted = startDt.toLocaleDateString('en-US', { 
-						month: 'long', 
-						day: 'numeric', 
-						year: 'numeric',
-						timeZone: 'America/New_York'
-					});
-					const startTime = startDt.toLocaleTimeString('en-US', { 
-						hour: 'numeric', 
-						minute: '2-digit',
-						timeZone: 'America/New_York'
-					});
-					const endTime = endDt.toLocaleTimeString('en-US', { 
-						hour: 'numeric', 
-						minute: '2-digit',
-						timeZone: 'America/New_York'
-					});
-					const durationMinutes = Math.round((endDt.getTime() - startDt.getTime()) / 60000);
-
-					const teamsLink = (event as any).onlineMeeting?.joinUrl || null;
-
-					return {
-						id: event.id,
-						subject: event.subject,
-						start: event.start.dateTime,
-						end: event.end.dateTime,
-						validated_date_info: {
-							subject,
-							day_of_week: dayOfWeek,
-							date_formatted: dateFormatted,
-							start_time: startTime,
-							end_time: endTime,
-							duration_minutes: durationMinutes,
-							teams_link: teamsLink,
-							has_teams_link: teamsLink !== null,
-							attendee_emails: attendees || [],
-							sender_name: validatedSenderName,
-							sender_email: validatedSenderEmail,
-						},
-					};
-				}
-
-				default:
-					throw new Error(`Unknown tool: ${name}`);
-			}
-		} catch (error: any) {
-			console.error(`Tool execution error for ${name}:`, {
-				error: error.message,
-				stack: error.stack,
-				args: args,
 			});
-			// Preserve the full error message so it can be seen
-			throw new Error(`Tool execution error: ${error.message}`);
 		}
+
+		return tools;
 	}
 
 	/**
-	 * Calculate free slots based on business hours (9am-5pm)
-	 * busyTimes now has start/end as local time strings like "9:00 AM"
+	 * Run a Fireflies transcript search through the RAG pipeline
 	 */
-	private calculateFreeSlots(busyTimes: Array<{ start: string; end: string; start_utc?: string; end_utc?: string }>, date: string): Array<{ start: string; end: string; duration_hours: number }> {
-		if (busyTimes.length === 0) {
-			return [{
-				start: '9:00 AM',
-				end: '5:00 PM',
-				duration_hours: 8,
-			}];
-		}
-
-		// Sort by UTC times if available, otherwise by local time strings
-		const sortedBusy = [...busyTimes].sort((a, b) => {
-			if (a.start_utc && b.start_utc) {
-				return new Date(a.start_utc).getTime() - new Date(b.start_utc).getTime();
-			}
-			// Fallback: parse local time strings
-			return this.parseLocalTime(a.start).getTime() - this.parseLocalTime(b.start).getTime();
-		});
-
-		const freeSlots: Array<{ start: string; end: string; duration_hours: number }> = [];
-		const businessStart = this.parseLocalTime('9:00 AM');
-		const businessEnd = this.parseLocalTime('5:00 PM');
-
-		// Helper to parse local time string like "9:00 AM" to a Date object for the given date
-		const parseTimeOnDate = (timeStr: string): Date => {
-			return this.parseLocalTime(timeStr, date);
-		};
-
-		// Check if there's free time before first meeting
-		const firstMeetingStart = parseTimeOnDate(sortedBusy[0].start);
-		if (firstMeetingStart > businessStart) {
-			const duration = (firstMeetingStart.getTime() - businessStart.getTime()) / (1000 * 60 * 60);
-			if (duration > 0) {
-				freeSlots.push({
-					start: '9:00 AM',
-					end: sortedBusy[0].start,
-					duration_hours: Math.round(duration * 10) / 10,
-				});
-			}
-		}
-
-		// Check gaps between meetings
-		for (let i = 0; i < sortedBusy.length - 1; i++) {
-			const currentEnd = parseTimeOnDate(sortedBusy[i].end);
-			const nextStart = parseTimeOnDate(sortedBusy[i + 1].start);
-			
-			if (nextStart > currentEnd) {
-				const duration = (nextStart.getTime() - currentEnd.getTime()) / (1000 * 60 * 60);
-				if (duration > 0) {
-					freeSlots.push({
-						start: sortedBusy[i].end,
-						end: sortedBusy[i + 1].start,
-						duration_hours: Math.round(duration * 10) / 10,
-					});
-				}
-			}
+	private async searchMeetingTranscripts(args: Record<string, unknown>): Promise<TranscriptSearchResult> {
+		if (!this.integrations.rag) {
+			throw new Error('Fireflies search is not configured');
 		}
-
-		// Check if there's free time after last meeting
-		const lastMeetingEnd = parseTimeOnDate(sortedBusy[sortedBusy.length - 1].end);
-		if (lastMeetingEnd < businessEnd) {
-			const duration = (businessEnd.getTime() - lastMeetingEnd.getTime()) / (1000 * 60 * 60);
-			if (duration > 0) {
-				freeSlots.push({
-					start: sortedBusy[sortedBusy.length - 1].end,
-					end: '5:00 PM',
-					duration_hours: Math.round(duration * 10) / 10,
-				});
-			}
+		if (!args.query || typeof args.query !== 'string') {
+			throw new Error('query is required');
 		}
 
-		return freeSlots;
+		const limit = typeof args.limit === 'number' && args.limit > 0 ? args.limit : 5;
+		const ragContext = await this.integrations.rag.retrieve(
+			args.query,
+			{},
+			this.loggedInUser?.email
+		);
+
+		return {
+			query: args.query,
+			results: ragContext.chunks.slice(0, limit).map((chunk) => ({
+				id: chunk.id,
+				title: chunk.title || 'Untitled',
+				section: chunk.section,
+				url: chunk.external_url || null,
+				date: chunk.updated_at || null,
+				score: chunk.score_rerank ?? chunk.score_fused ?? null,
+				excerpt: chunk.content,
+			})),
+		};
 	}
 
 	/**
-	 * Calculate duration between two local time strings (like "9:00 AM" and "10:30 AM")
-	 * Returns duration in hours
+	 * Execute a tool call
 	 */
-	private calculateDuration(start: string, end: string): number {
-		try {
-			// If these are UTC datetime strings, parse them directly
-			if (start.includes('T') || start.includes('Z')) {
-				const startDt = new Date(start);
-				const endDt = new Date(end);
-				return (endDt.getTime() - startDt.getTime()) / (1000 * 60 * 60);
+	async callTool(name: string, args: Record<string, any>): Promise<any> {
+		if (name === 'search_meeting_transcripts') {
+			const schema = this.getIntegrationTools().find((t) => t.name === name)?.inputSchema;
+			const validation = schema ? validateToolArguments(schema, args) : { args, issues: [] };
+			if (validation.issues.length > 0) {
+				throw new ToolValidationError(name, validation.issues);
 			}
-			
-			// Otherwise, parse as local time strings
-			const startDt = this.parseLocalTime(start);
-			const endDt = this.parseLocalTime(end);
-			return (endDt.getTime() - startDt.getTime()) / (1000 * 60 * 60);
-		} catch (error) {
-			console.error('Error calculating duration:', error);
-			return 0;
+			return this.searchMeetingTranscripts(validation.args);
 		}
+
+		const tool = getRegisteredTool(name);
+		if (!tool || (tool.scope === 'billing' && !this.integrations.billingWebhookUrl)) {
+			throw new Error(`Tool execution error: Unknown tool: ${name}`);
+		}
+		return this.toolExecutor.execute(name, args);
 	}
 
 	/**
@@ -921,7 +359,7 @@ export class MCPServer {
 						});
 						// Include full error details in tool result so OpenAI can see what went wrong
 						// Format it in a way OpenAI can understand and potentially retry
-						const errorContent = {
+						const errorContent = error instanceof ToolValidationError ? error.toToolResult() : {
 							success: false,
 							error: error.message,
 							tool: toolCall.name,
@@ -1045,19 +483,20 @@ export class MCPServer {
 
 				// Build system message with current date context so LLM knows the correct year
 				const now = new Date();
-				const todayStr = getTodayEastern();
-				const dayOfWeek = now.toLocaleDateString('en-US', { weekday: 'long', timeZone: 'America/New_York' });
-				const formattedDate = now.toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric', timeZone: 'America/New_York' });
+				const timeZone = this.timeZone;
+				const todayStr = getTodayInZone(timeZone);
+				const dayOfWeek = now.toLocaleDateString('en-US', { weekday: 'long', timeZone });
+				const formattedDate = now.toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric', timeZone });
 
 				const systemMessage: GenericChatMessage = {
 					role: 'system',
-					content: `You are Billi, an AI calendar assistant for Arvaya. You help with checking availability, finding free time slots, and booking meetings.
+					content: `You are Billi, an AI calendar assistant for Arvaya. You help with checking availability, finding free time slots, booking meetings, and rescheduling or cancelling existing meetings.
 
 CURRENT DATE CONTEXT (CRITICAL - USE THIS FOR ALL DATE CALCULATIONS)
 - Today: ${dayOfWeek}, ${formattedDate} (${todayStr})
 - Current year: ${todayStr.split('-')[0]}
 - "today" = ${todayStr}
-- "tomorrow" = ${(() => { const p = todayStr.split('-').map(Number); const y = new Date(p[0], p[1]-1, p[2]); y.setDate(y.getDate()+1); return formatDateEastern(y); })()}
+- "tomorrow" = ${(() => { const p = todayStr.split('-').map(Number); const y = new Date(p[0], p[1]-1, p[2]); y.setDate(y.getDate()+1); return formatCalendarDate(y); })()}
 - When the user says "this coming [day]", "next [day]", or "this [day]", calculate the correct date using today's date above.
 - ALWAYS pass dates in YYYY-MM-DD format to tools, using the current year (${todayStr.split('-')[0]}).
 - NEVER use dates from 2024 or 2025. The current year is ${todayStr.split('-')[0]}.
@@ -1065,12 +504,14 @@ CURRENT DATE CONTEXT (CRITICAL - USE THIS FOR ALL DATE CALCULATIONS)
 LOGGED-IN USER
 - Name: ${this.loggedInUser?.name || 'Unknown'}
 - Email: ${this.loggedInUser?.email || 'no email'}
+- Time zone: ${timeZone} (${getTimeZoneLabel(timeZone, now)})
 
 RULES
 - If a user provides a name (e.g., "Ryan", "Ashlee"), resolve it to the correct user. Do NOT say the user doesn't exist.
 - Use get_users_with_name_and_email to find the correct email if needed.
-- All times are in Eastern Time (EST/EDT).
-- When booking meetings, the logged-in user is always the organizer/sender.`,
+- All times are in the logged-in user's time zone above. If a booking result includes recipient_time, also mention the other person's local time.
+- When booking meetings, the logged-in user is always the organizer/sender.
+- Before rescheduling, cancelling or changing attendees, show the confirmation card (call without confirmation_token) and only call again with the returned confirmation_token after the user agrees.`,
 				};
 
 				// Add user message to history
@@ -1152,17 +593,16 @@ RULES
 						const availabilityResults: any[] = [];
 						for (const toolCall of toolCalls) {
 							try {
-							const statusLabels: Record<string, string> = { check_availability: "Checking calendar...", get_free_slots: "Checking calendar...", book_meeting: "Booking meeting...", get_users_with_name_and_email: "Looking up users..." };
-							yield `[TOOL_STATUS:${JSON.stringify({ tool: toolCall.name, status: "executing", label: statusLabels[toolCall.name] || "Processing..." })}]`;
+							yield `[TOOL_STATUS:${JSON.stringify({ tool: toolCall.name, status: "executing", label: getToolStatusLabel(toolCall.name) })}]`;
 								console.log(`Executing tool: ${toolCall.name}`, toolCall.parameters);
 								const result = await this.callTool(toolCall.name, toolCall.parameters);
 								console.log(`Tool ${toolCall.name} succeeded:`, result);
-							if (toolCall.name === "check_availability") {
-								availabilityResults.push(result);
-							}
-							if (toolCall.name === "book_meeting" && result.validated_date_info) {
-								yield `[TOOL_RESULT:${JSON.stringify({ type: "booking", data: result.validated_date_info })}]`;
-							}
+								const card = getToolResultCard(toolCall.name, result);
+								if (card?.type === 'availability') {
+									availabilityResults.push(card.data);
+								} else if (card) {
+									yield `[TOOL_RESULT:${JSON.stringify(card)}]`;
+								}
 								const toolContent = JSON.stringify(result);
 								if (toolContent && toolContent.trim()) {
 									toolResults.push({
@@ -1173,7 +613,7 @@ RULES
 								}
 							} catch (error: any) {
 								console.error(`Tool ${toolCall.name} failed:`, error);
-								const errorContent = {
+								const errorContent = error instanceof ToolValidationError ? error.toToolResult() : {
 									success: false,
 									error: error.message,
 									tool: toolCall.name,
@@ -1277,11 +717,271 @@ RULES
 		}
 	}
 
+	/**
+	 * Billing resources need the time entry webhook and a caller acting for a user
+	 */
+	private get billingResourcesEnabled(): boolean {
+		return !!this.integrations.billingWebhookUrl && !!this.loggedInUser?.email;
+	}
+
+	/**
+	 * Get the resources this server can read
+	 */
+	getResources(): MCPResource[] {
+		const resources: MCPResource[] = [
+			{
+				uri: 'calendar://users',
+				name: 'Directory users',
+				description: 'All users with their display names and email addresses, used to resolve attendees.',
+				mimeType: 'application/json',
+			},
+		];
+
+		if (this.billingResourcesEnabled) {
+			resources.push(
+				{
+					uri: 'billing://employees',
+					name: 'Employees',
+					description: 'Employees with their QuickBooks IDs, used for time entries.',
+					mimeType: 'application/json',
+				},
+				{
+					uri: 'billing://customers',
+					name: 'Customers',
+					description: 'Customers and sub-customers with their QuickBooks IDs.',
+					mimeType: 'application/json',
+				}
+			);
+		}
+
+		return resources;
+	}
+
+	/**
+	 * Get parameterised resources (MCP resource templates)
+	 */
+	getResourceTemplates(): Array<{ uriTemplate: string; name: string; description?: string; mimeType?: string }> {
+		if (!this.integrations.vectorDB) {
+			return [];
+		}
+		return [
+			{
+				uriTemplate: `${TRANSCRIPT_URI_PREFIX}{transcript_id}`,
+				name: 'Fireflies transcript',
+				description: 'Summary, action items and full text of a Fireflies meeting transcript.',
+				mimeType: 'text/markdown',
+			},
+		];
+	}
+
+	/**
+	 * Read a resource by URI
+	 */
+	async readResource(uri: string): Promise<MCPResourceContents[]> {
+		if (uri === 'calendar://users') {
+			const users = await this.toolExecutor.getCachedUsers();
+			return [{ uri, mimeType: 'application/json', text: JSON.stringify(users, null, 2) }];
+		}
+
+		// Ops users see every employee, as they do every transcript; others get their own record
+		if (this.billingResourcesEnabled && uri === 'billing://employees') {
+			const email = (this.loggedInUser?.email || '').toLowerCase();
+			const employees = (await getAllEmployees()).filter(
+				(employee) => isOpsAllowed(email) || (employee.email || '').toLowerCase() === email
+			);
+			return [{ uri, mimeType: 'application/json', text: JSON.stringify(employees, null, 2) }];
+		}
+
+		if (this.billingResourcesEnabled && uri === 'billing://customers') {
+			const customers = await getAllCustomers();
+			return [{ uri, mimeType: 'application/json', text: JSON.stringify(customers, null, 2) }];
+		}
+
+		if (this.integrations.vectorDB && uri.startsWith(TRANSCRIPT_URI_PREFIX)) {
+			const transcriptId = decodeURIComponent(uri.slice(TRANSCRIPT_URI_PREFIX.length));
+			const transcript = await this.integrations.vectorDB.getTranscript(
+				transcriptId,
+				this.integrations.access ?? SHARED_RAG_ACCESS
+			);
+			if (!transcript) {
+				throw new MCPProtocolError(MCP_ERROR_CODES.INVALID_PARAMS, `Resource not found: ${uri}`);
+			}
+
+			const date = transcript.transcript_date
+				? formatDateInZone(new Date(transcript.transcript_date), this.timeZone)
+				: 'unknown date';
+			const sections = [
+				`# ${transcript.title || 'Untitled meeting'}`,
+				`Date: ${date}`,
+				transcript.transcript_url ? `Link: ${transcript.transcript_url}` : '',
+				transcript.summary_overview ? `## Overview\n${transcript.summary_overview}` : '',
+				transcript.summary_action_items ? `## Action items\n${transcript.summary_action_items}` : '',
+				transcript.full_transcript_text ? `## Transcript\n${transcript.full_transcript_text}` : '',
+			];
+			return [{ uri, mimeType: 'text/markdown', text: sections.filter(Boolean).join('\n\n') }];
+		}
+
+		throw new MCPProtocolError(MCP_ERROR_CODES.INVALID_PARAMS, `Resource not found: ${uri}`);
+	}
+
+	/**
+	 * Get the prompt templates this server offers
+	 */
+	getPrompts(): MCPPrompt[] {
+		const prompts: MCPPrompt[] = [
+			{
+				name: 'billi_system_prompt',
+				description: 'The Billi assistant instructions for the logged-in user, scoped to calendar, billing or both.',
+				arguments: [
+					{ name: 'scope', description: 'calendar, billing or all (default: all)', required: false },
+				],
+			},
+			{
+				name: 'schedule_meeting',
+				description: 'Check an attendee\'s availability and book a Teams meeting.',
+				arguments: [
+					{ name: 'attendee', description: 'Name or email of the person to meet', required: true },
+					{ name: 'date', description: 'Date, e.g. "tomorrow" or "2026-03-04"', required: true },
+					{ name: 'time', description: 'Preferred start time, e.g. "2pm"', required: false },
+					{ name: 'subject', description: 'Meeting subject', required: false },
+				],
+			},
+		];
+
+		if (this.integrations.billingWebhookUrl) {
+			prompts.push({
+				name: 'log_time',
+				description: 'Look up the employee and customer, then submit a time entry.',
+				arguments: [
+					{ name: 'customer', description: 'Customer name, e.g. "ICE"', required: true },
+					{ name: 'hours', description: 'Hours worked', required: true },
+					{ name: 'description', description: 'What the work was', required: true },
+					{ name: 'date', description: 'Entry date (default: today)', required: false },
+				],
+			});
+		}
+
+		if (this.integrations.rag) {
+			prompts.push({
+				name: 'meeting_recap',
+				description: 'Summarise what was discussed and decided about a topic across meetings.',
+				arguments: [
+					{ name: 'topic', description: 'Topic, customer or project to recap', required: true },
+				],
+			});
+		}
+
+		return prompts;
+	}
+
+	/**
+	 * Render a prompt template with the given arguments
+	 */
+	getPrompt(name: string, args: Record<string, string> = {}): { description?: string; messages: MCPPromptMessage[] } {
+		const prompt = this.getPrompts().find((p) => p.name === name);
+		if (!prompt) {
+			throw new MCPProtocolError(MCP_ERROR_CODES.INVALID_PARAMS, `Unknown prompt: ${name}`);
+		}
+
+		const missing = (prompt.arguments || [])
+			.filter((arg) => arg.required && !args[arg.name]?.trim())
+			.map((arg) => arg.name);
+		if (missing.length > 0) {
+			throw new MCPProtocolError(
+				MCP_ERROR_CODES.INVALID_PARAMS,
+				`Missing required prompt arguments: ${missing.join(', ')}`
+			);
+		}
+
+		const userMessage = (text: string): MCPPromptMessage => ({
+			role: 'user',
+			content: { type: 'text', text },
+		});
+
+		let text: string;
+		switch (name) {
+			case 'billi_system_prompt': {
+				const scope = args.scope === 'calendar' || args.scope === 'billing' ? args.scope : 'all';
+				text = buildSystemPrompt(scope, this.loggedInUser, new Date());
+				break;
+			}
+			case 'schedule_meeting': {
+				const when = args.time ? `${args.date} at ${args.time}` : args.date;
+				text = [
+					`Book a meeting with ${args.attendee} on ${when} (${getTimeZoneLabel(this.timeZone)}).`,
+					args.subject ? `Subject: ${args.subject}.` : 'Use a short, descriptive subject.',
+					'First resolve the attendee with get_users_with_name_and_email, then check_availability for that date.',
+					args.time
+						? 'If the requested time is free, call book_meeting; otherwise propose the nearest free slots.'
+						: 'Propose the free slots from get_free_slots and book the one I pick.',
+				].join('\n');
+				break;
+			}
+			case 'log_time': {
+				text = [
+					`Log ${args.hours} hours for ${args.customer} on ${args.date || getTodayInZone(this.timeZone)}.`,
+					`Description: ${args.description}`,
+					`Employee: ${this.loggedInUser?.name || 'the logged-in user'}.`,
+					'Call lookup_employee and lookup_customer to get the QuickBooks IDs, then submit_time_entry.',
+				].join('\n');
+				break;
+			}
+			case 'meeting_recap': {
+				text = [
+					`Recap what was discussed and decided about "${args.topic}" in our meetings.`,
+					'Use search_meeting_transcripts, cite the meeting title and date for each point, and list open action items with their owners.',
+				].join('\n');
+				break;
+			}
+			default:
+				throw new MCPProtocolError(MCP_ERROR_CODES.INVALID_PARAMS, `Unknown prompt: ${name}`);
+		}
+
+		return { description: prompt.description, messages: [userMessage(text)] };
+	}
+
+	/**
+	 * Build the initialize handshake result, echoing the client's protocol version when supported
+	 */
+	initialize(params: MCPInitializeRequest['params'] | undefined) {
+		const requested = params?.protocolVersion;
+		const protocolVersion =
+			requested && SUPPORTED_PROTOCOL_VERSIONS.includes(requested)
+				? requested
+				: SUPPORTED_PROTOCOL_VERSIONS[0];
+
+		const capabilities: MCPServerCapabilities = {
+			tools: { listChanged: false },
+			resources: { subscribe: false, listChanged: false },
+			prompts: { listChanged: false },
+		};
+
+		return {
+			protocolVersion,
+			capabilities,
+			serverInfo: SERVER_INFO,
+			instructions:
+				`Calendar tools book and inspect Microsoft 365 calendars in the user's time zone (${this.timeZone}). Resolve people with get_users_with_name_and_email before checking availability or booking.`,
+		};
+	}
+
 	/**
 	 * Handle MCP request
 	 */
 	async handleRequest(request: MCPRequest): Promise<MCPResponse> {
 		try {
+			if (request.method === 'initialize') {
+				return {
+					jsonrpc: '2.0',
+					id: request.id,
+					result: this.initialize((request as MCPInitializeRequest).params),
+				};
+			}
+
+			if (request.method === 'ping') {
+				return { jsonrpc: '2.0', id: request.id, result: {} };
+			}
+
 			if (request.method === 'tools/list') {
 				return {
 					jsonrpc: '2.0',
@@ -1294,22 +994,96 @@ RULES
 
 			if (request.method === 'tools/call') {
 				const params = (request as MCPToolsCallRequest).params;
-				const result = await this.callTool(params.name, params.arguments || {});
+				if (!params?.name) {
+					throw new MCPProtocolError(MCP_ERROR_CODES.INVALID_PARAMS, 'Tool name is required');
+				}
+
+				// Tool failures are reported in the result so the client's model can see and recover from them
+				try {
+					const result = await this.callTool(params.name, params.arguments || {});
+					const response: MCPToolsCallResponse = {
+						jsonrpc: '2.0',
+						id: request.id,
+						result: {
+							content: [
+								{
+									type: 'text',
+									text: JSON.stringify(result, null, 2),
+								},
+							],
+						},
+					};
+					return response;
+				} catch (error) {
+					return {
+						jsonrpc: '2.0',
+						id: request.id,
+						result: {
+							content: [{ type: 'text', text: JSON.stringify(toolErrorResult(params.name, error), null, 2) }],
+							isError: true,
+						},
+					};
+				}
+			}
 
+			if (request.method === 'resources/list') {
 				return {
 					jsonrpc: '2.0',
 					id: request.id,
 					result: {
-						content: [
-							{
-								type: 'text',
-								text: JSON.stringify(result, null, 2),
-							},
-						],
+						resources: this.getResources(),
+					},
+				};
+			}
+
+			if (request.method === 'resources/templates/list') {
+				return {
+					jsonrpc: '2.0',
+					id: request.id,
+					result: {
+						resourceTemplates: this.getResourceTemplates(),
+					},
+				};
+			}
+
+			if (request.method === 'resources/read') {
+				const params = (request as MCPResourcesReadRequest).params;
+				if (!params?.uri) {
+					throw new MCPProtocolError(MCP_ERROR_CODES.INVALID_PARAMS, 'Resource uri is required');
+				}
+
+				return {
+					jsonrpc: '2.0',
+					id: request.id,
+					result: {
+						contents: await this.readResource(params.uri),
 					},
 				};
 			}
 
+			if (request.method === 'prompts/list') {
+				return {
+					jsonrpc: '2.0',
+					id: request.id,
+					result: {
+						prompts: this.getPrompts(),
+					},
+				};
+			}
+
+			if (request.method === 'prompts/get') {
+				const params = (request as MCPPromptsGetRequest).params;
+				if (!params?.name) {
+					throw new MCPProtocolError(MCP_ERROR_CODES.INVALID_PARAMS, 'Prompt name is required');
+				}
+
+				return {
+					jsonrpc: '2.0',
+					id: request.id,
+					result: this.getPrompt(params.name, params.arguments || {}),
+				};
+			}
+
 			if (request.method === 'chat') {
 				const params = request.params as { message: string };
 				const response = await this.processRequest(params.message);
@@ -1328,13 +1102,13 @@ RULES
 				};
 			}
 
-			throw new Error(`Unknown method: ${request.method}`);
+			throw new MCPProtocolError(MCP_ERROR_CODES.METHOD_NOT_FOUND, `Unknown method: ${request.method}`);
 		} catch (error: any) {
 			return {
 				jsonrpc: '2.0',
 				id: request.id,
 				error: {
-					code: -32603,
+					code: error instanceof MCPProtocolError ? error.code : MCP_ERROR_CODES.INTERNAL_ERROR,
 					message: error.message || 'Internal error',
 				},
 			};
@@ -0,0 +1,38 @@
+/**
+ * MCP session ids
+ * initialize hands out an id signed for the calling user; later requests are only accepted with
+ * an id this server issued to the same user, so a client can't pick (or guess) another session
+ * and read its chat history. Signed rather than stored, since requests may land on any instance.
+ */
+
+import { createHmac, randomUUID, timingSafeEqual } from 'crypto';
+import { env } from '$env/dynamic/private';
+
+// Without AUTH_SECRET, ids only verify on the server instance that issued them
+const PROCESS_SECRET = randomUUID();
+
+function sign(id: string, owner: string): string {
+	return createHmac('sha256', env.AUTH_SECRET || PROCESS_SECRET)
+		.update(`${id}:${owner.toLowerCase()}`)
+		.digest('hex');
+}
+
+/**
+ * New session id for `owner` (the caller's email, or a fixed name for anonymous API-key clients)
+ */
+export function createSessionId(owner: string): string {
+	const id = randomUUID();
+	return `${id}.${sign(id, owner)}`;
+}
+
+/**
+ * Whether this server issued the session id to `owner`
+ */
+export function isIssuedSessionId(sessionId: string, owner: string): boolean {
+	const [id, signature] = sessionId.split('.');
+	if (!id || !signature) return false;
+
+	const received = Buffer.from(signature, 'hex');
+	const expected = Buffer.from(sign(id, owner), 'hex');
+	return received.length === expected.length && timingSafeEqual(received, expected);
+}
@@ -0,0 +1,479 @@
+/**
+ * Cross-meeting action item tracker. Action items are extracted from each Fireflies meeting into
+ * structured records (owner, due date, customer, source meeting, status), with owners resolved to
+ * AZero employees and customers to AZero customers. Each meeting is also checked against earlier
+ * open items of the same people and customers, so items it reports as done are closed.
+ */
+
+import { createHash, randomUUID } from 'crypto';
+import { CohereClientV2 } from 'cohere-ai';
+import { RAG_CHAT_MODEL, messageText, parseJsonObject } from './rag-answer';
+import { SHARED_RAG_ACCESS, buildAccessClause, type RagAccessScope } from './rag-access';
+import { ACTION_ITEM_EXTRACT_PROMPT, ACTION_ITEM_STATUS_PROMPT } from './rag-prompts';
+import { getRagPool } from './rag-retrieval';
+import { FIREFLIES_SOURCE_TYPE } from './vector-db';
+
+export const ACTION_ITEM_STATUSES = ['open', 'done', 'cancelled'] as const;
+
+export type ActionItemStatus = (typeof ACTION_ITEM_STATUSES)[number];
+
+export type MeetingActionItem = {
+	id: string;
+	description: string;
+	owner_name: string | null;
+	owner_email: string | null;
+	customer_name: string | null;
+	customer_qbo_id: string | null;
+	due_date: string | null; // YYYY-MM-DD
+	status: ActionItemStatus;
+	status_note: string | null;
+	updated_at: string;
+	// Meeting the item was agreed in, and the later meeting that reported it done
+	doc_id: string;
+	meeting_title: string | null;
+	meeting_date: string | null;
+	meeting_url: string | null;
+	status_doc_id: string | null;
+	status_meeting_title: string | null;
+};
+
+export type ActionItemQuery = {
+	owner?: string; // employee email, or part of the owner's name
+	customer?: string; // customer name or alias ("ICE"), resolved like extracted customers
+	status?: ActionItemStatus | 'all'; // default 'open'
+	limit?: number;
+};
+
+// Where owners and customers are resolved; AZero unless a caller supplies another
+export type ActionItemDirectory = {
+	findEmployee: (name: string) => Promise<{ id: number; name: string; email: string } | null>;
+	findCustomer: (name: string) => Promise<{ name: string; qbo_id: string } | null>;
+};
+
+export type ActionItemRunResult = {
+	doc_id: string;
+	items: number;
+	status_updates: number; // earlier items this meeting closed
+	error?: string;
+};
+
+type ExtractedItem = {
+	description: string;
+	owner: string | null;
+	due_date: string | null;
+	customer: string | null;
+};
+
+type MeetingRow = {
+	id: string;
+	title: string | null;
+	occurred_at: Date | null;
+	metadata: Record<string, unknown> | null;
+	source_content: string | null;
+};
+
+const MAX_ITEMS_PER_MEETING = 30;
+const MAX_OPEN_ITEMS_CHECKED = 40;
+const TRANSCRIPT_MAX_CHARS = 40000;
+
+const azeroDirectory: ActionItemDirectory = {
+	// Loaded lazily: azero-db reads SvelteKit env, which offline scripts don't have
+	findEmployee: async (name) => (await import('./azero-db')).getEmployeeByName(name),
+	findCustomer: async (name) => (await import('./azero-db')).getCustomerByName(name)
+};
+
+const textValue = (value: unknown): string | null =>
+	typeof value === 'string' && value.trim() ? value.trim() : null;
+
+const textList = (value: unknown): string[] =>
+	Array.isArray(value) ? value.map(textValue).filter((v): v is string => v !== null) : [];
+
+const dateValue = (value: unknown): string | null => {
+	const text = textValue(value);
+	return text && /^\d{4}-\d{2}-\d{2}$/.test(text) && !Number.isNaN(Date.parse(text)) ? text : null;
+};
+
+// Same task worded with different punctuation or case is the same item
+const itemKey = (description: string) =>
+	createHash('sha256')
+		.update(
+			description
+				.toLowerCase()
+				.replace(/[^a-z0-9]+/g, ' ')
+				.trim()
+		)
+		.digest('hex');
+
+const likePattern = (value: string) => `%${value.replace(/[\\%_]/g, '\\$&')}%`;
+
+const formatDay = (date: Date | null) =>
+	date ? new Date(date).toISOString().slice(0, 10) : 'unknown';
+
+export class MeetingActionItemService {
+	private dbUrl: string;
+	private cohere: CohereClientV2;
+	private access: RagAccessScope;
+	private directory: ActionItemDirectory;
+
+	/**
+	 * `access` limits listItems to meetings the caller may see; extraction is not limited
+	 */
+	constructor(
+		databaseUrl: string,
+		cohereApiKey: string,
+		access: RagAccessScope = SHARED_RAG_ACCESS,
+		directory: ActionItemDirectory = azeroDirectory
+	) {
+		this.dbUrl = databaseUrl;
+		this.cohere = new CohereClientV2({ token: cohereApiKey });
+		this.access = access;
+		this.directory = directory;
+	}
+
+	private get pool() {
+		return getRagPool(this.dbUrl);
+	}
+
+	private async completeJson(system: string, user: string): Promise<Record<string, unknown>> {
+		const response = await this.cohere.chat({
+			model: RAG_CHAT_MODEL,
+			messages: [
+				{ role: 'system', content: system },
+				{ role: 'user', content: user }
+			]
+		});
+		const parsed = parseJsonObject(messageText(response.message));
+		if (!parsed) {
+			throw new Error('The model did not return JSON');
+		}
+		return parsed;
+	}
+
+	/**
+	 * Resolve a name once per run; lookups that fail count as unresolved
+	 */
+	private async resolve<T>(
+		lookup: (name: string) => Promise<T | null>,
+		name: string | null,
+		cache: Map<string, T | null>
+	): Promise<T | null> {
+		if (!name) return null;
+		const key = name.toLowerCase();
+		if (!cache.has(key)) {
+			try {
+				cache.set(key, await lookup(name));
+			} catch (error) {
+				console.warn(
+					`[ActionItems] Could not resolve "${name}":`,
+					error instanceof Error ? error.message : error
+				);
+				cache.set(key, null);
+			}
+		}
+		return cache.get(key) ?? null;
+	}
+
+	private async loadMeeting(docId: string): Promise<MeetingRow | null> {
+		const result = await this.pool.query(
+			`SELECT id, title, occurred_at, metadata, source_content
+			 FROM documents WHERE id = $1 AND source_type = $2`,
+			[docId, FIREFLIES_SOURCE_TYPE]
+		);
+		return (result.rows[0] as MeetingRow | undefined) ?? null;
+	}
+
+	/**
+	 * Title, date, attendees and the Fireflies summary of a meeting
+	 */
+	private meetingNotes(meeting: MeetingRow): string {
+		const metadata = meeting.metadata ?? {};
+		const attendees = [
+			...new Set([...textList(metadata.meeting_speakers), ...textList(metadata.participants)])
+		];
+		return [
+			`Meeting: ${meeting.title || 'Untitled meeting'}`,
+			`Date: ${formatDay(meeting.occurred_at)}`,
+			attendees.length > 0 ? `Attendees: ${attendees.join(', ')}` : '',
+			textValue(metadata.summary_overview) ? `Overview: ${metadata.summary_overview}` : '',
+			textValue(metadata.summary_action_items)
+				? `Action items:\n${metadata.summary_action_items}`
+				: ''
+		]
+			.filter(Boolean)
+			.join('\n\n');
+	}
+
+	private async extractItems(meeting: MeetingRow): Promise<ExtractedItem[]> {
+		const metadata = meeting.metadata ?? {};
+		if (!textValue(metadata.summary_action_items) && !textValue(metadata.summary_overview)) {
+			return [];
+		}
+
+		const parsed = await this.completeJson(
+			ACTION_ITEM_EXTRACT_PROMPT.replace('{meeting_date}', formatDay(meeting.occurred_at)),
+			this.meetingNotes(meeting)
+		);
+		const items = Array.isArray(parsed.items) ? parsed.items : [];
+		return items
+			.map((item: Record<string, unknown>) => ({
+				description: textValue(item?.description) ?? '',
+				owner: textValue(item?.owner),
+				due_date: dateValue(item?.due_date),
+				customer: textValue(item?.customer)
+			}))
+			.filter((item) => item.description)
+			.slice(0, MAX_ITEMS_PER_MEETING);
+	}
+
+	/**
+	 * Close earlier open items of this meeting's attendees and customers that it reports as done
+	 * or dropped. Returns how many were closed.
+	 */
+	private async reconcile(meeting: MeetingRow): Promise<number> {
+		const metadata = meeting.metadata ?? {};
+		const emails = textList(metadata.participants).map((email) => email.toLowerCase());
+		const names = textList(metadata.meeting_speakers).map((name) => name.toLowerCase());
+
+		const open = await this.pool.query(
+			`SELECT a.id, a.description, a.owner_name, a.due_date, d.title, d.occurred_at
+			 FROM meeting_action_items a
+			 JOIN documents d ON d.id = a.doc_id
+			 WHERE a.status = 'open'
+				AND a.doc_id <> $1
+				AND d.occurred_at < COALESCE($2::timestamp, NOW())
+				AND (lower(a.owner_email) = ANY($3::text[])
+					OR lower(a.owner_name) = ANY($4::text[])
+					OR a.customer_qbo_id IN (
+						SELECT customer_qbo_id FROM meeting_action_items WHERE doc_id = $1
+					))
+			 ORDER BY d.occurred_at DESC
+			 LIMIT $5`,
+			[meeting.id, meeting.occurred_at, emails, names, MAX_OPEN_ITEMS_CHECKED]
+		);
+		const candidates = open.rows as Array<{
+			id: string;
+			description: string;
+			owner_name: string | null;
+			title: string | null;
+			occurred_at: Date | null;
+		}>;
+		if (candidates.length === 0) return 0;
+
+		const numbered = candidates
+			.map(
+				(item, i) =>
+					`${i + 1}. ${item.description}${item.owner_name ? ` (owner: ${item.owner_name})` : ''} – from "${item.title || 'Untitled meeting'}", ${formatDay(item.occurred_at)}`
+			)
+			.join('\n');
+		const parsed = await this.completeJson(
+			ACTION_ITEM_STATUS_PROMPT,
+			[
+				`Open items:\n${numbered}`,
+				this.meetingNotes(meeting),
+				`Transcript:\n${(meeting.source_content ?? '').slice(0, TRANSCRIPT_MAX_CHARS)}`
+			].join('\n\n')
+		);
+
+		let closed = 0;
+		for (const update of Array.isArray(parsed.updates) ? parsed.updates : []) {
+			const item = candidates[Number(update?.item) - 1];
+			const status =
+				update?.status === 'done' || update?.status === 'cancelled' ? update.status : null;
+			if (!item || !status) continue;
+
+			const result = await this.pool.query(
+				`UPDATE meeting_action_items
+				 SET status = $2, status_doc_id = $3, status_note = $4, updated_at = NOW()
+				 WHERE id = $1 AND status = 'open'`,
+				[item.id, status, meeting.id, textValue(update.evidence)]
+			);
+			closed += result.rowCount ?? 0;
+		}
+		return closed;
+	}
+
+	/**
+	 * Extract a meeting's action items, replacing open ones from an earlier extraction, then close
+	 * earlier items the meeting reports as done
+	 */
+	async processMeeting(docId: string): Promise<ActionItemRunResult> {
+		const started = Date.now();
+		const meeting = await this.loadMeeting(docId);
+		if (!meeting) {
+			throw new Error(`Meeting not found: ${docId}`);
+		}
+
+		const extracted = await this.extractItems(meeting);
+		const employees = new Map<string, Awaited<ReturnType<ActionItemDirectory['findEmployee']>>>();
+		const customers = new Map<string, Awaited<ReturnType<ActionItemDirectory['findCustomer']>>>();
+		const keys: string[] = [];
+
+		for (const item of extracted) {
+			const owner = await this.resolve(this.directory.findEmployee, item.owner, employees);
+			const customer = await this.resolve(this.directory.findCustomer, item.customer, customers);
+			const key = itemKey(item.description);
+			keys.push(key);
+
+			await this.pool.query(
+				`INSERT INTO meeting_action_items
+					(id, doc_id, item_key, description, owner_name, owner_email, owner_employee_id,
+					 customer_name, customer_qbo_id, due_date)
+				 VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+				 ON CONFLICT (doc_id, item_key) DO UPDATE SET
+					description = EXCLUDED.description,
+					owner_name = EXCLUDED.owner_name,
+					owner_email = EXCLUDED.owner_email,
+					owner_employee_id = EXCLUDED.owner_employee_id,
+					customer_name = EXCLUDED.customer_name,
+					customer_qbo_id = EXCLUDED.customer_qbo_id,
+					due_date = EXCLUDED.due_date,
+					updated_at = NOW()`,
+				[
+					randomUUID(),
+					docId,
+					key,
+					item.description,
+					item.owner,
+					owner?.email ?? null,
+					owner?.id ?? null,
+					customer?.name ?? item.customer,
+					customer?.qbo_id ?? null,
+					item.due_date
+				]
+			);
+		}
+
+		// Items a re-indexed transcript no longer yields, unless someone already closed them
+		await this.pool.query(
+			`DELETE FROM meeting_action_items
+			 WHERE doc_id = $1 AND status = 'open' AND NOT (item_key = ANY($2::text[]))`,
+			[docId, keys]
+		);
+
+		const statusUpdates = await this.reconcile(meeting);
+		await this.pool.query(
+			`INSERT INTO meeting_action_item_runs (doc_id, item_count, status_updates, processed_at)
+			 VALUES ($1, $2, $3, NOW())
+			 ON CONFLICT (doc_id) DO UPDATE SET
+				item_count = EXCLUDED.item_count,
+				status_updates = EXCLUDED.status_updates,
+				processed_at = NOW()`,
+			[docId, extracted.length, statusUpdates]
+		);
+
+		await this.log(
+			'extracted',
+			{ doc_id: docId, items: extracted.length, status_updates: statusUpdates },
+			Date.now() - started
+		);
+		return { doc_id: docId, items: extracted.length, status_updates: statusUpdates };
+	}
+
+	/**
+	 * Process meetings never processed, or re-indexed since, oldest first so that later meetings
+	 * close the items of earlier ones
+	 */
+	async processPending(limit = 10): Promise<ActionItemRunResult[]> {
+		const pending = await this.pool.query(
+			`SELECT d.id FROM documents d
+			 LEFT JOIN meeting_action_item_runs r ON r.doc_id = d.id
+			 WHERE d.source_type = $1 AND (r.doc_id IS NULL OR r.processed_at < d.indexed_at)
+			 ORDER BY d.occurred_at NULLS FIRST
+			 LIMIT $2`,
+			[FIREFLIES_SOURCE_TYPE, Math.max(Math.floor(limit), 1)]
+		);
+
+		const results: ActionItemRunResult[] = [];
+		for (const row of pending.rows as Array<{ id: string }>) {
+			try {
+				results.push(await this.processMeeting(row.id));
+			} catch (error: unknown) {
+				const message = error instanceof Error ? error.message : String(error);
+				console.error(`[ActionItems] ${row.id} failed:`, message);
+				results.push({ doc_id: row.id, items: 0, status_updates: 0, error: message });
+			}
+		}
+		return results;
+	}
+
+	/**
+	 * Action items by owner, customer and status, earliest due first, from meetings the caller may see
+	 */
+	async listItems(query: ActionItemQuery = {}): Promise<MeetingActionItem[]> {
+		const params: unknown[] = [];
+		const clauses: string[] = [];
+
+		const status = query.status ?? 'open';
+		if (status !== 'all') {
+			params.push(status);
+			clauses.push(`a.status = $${params.length}`);
+		}
+
+		const owner = query.owner?.trim();
+		if (owner) {
+			params.push(owner.toLowerCase(), likePattern(owner));
+			clauses.push(
+				`(lower(a.owner_email) = $${params.length - 1} OR a.owner_name ILIKE $${params.length})`
+			);
+		}
+
+		const customerName = query.customer?.trim();
+		if (customerName) {
+			const customer = await this.resolve(this.directory.findCustomer, customerName, new Map());
+			params.push(likePattern(customerName));
+			const matches = [`a.customer_name ILIKE $${params.length}`];
+			if (customer) {
+				params.push(customer.qbo_id);
+				matches.push(`a.customer_qbo_id = $${params.length}`);
+			}
+			clauses.push(`(${matches.join(' OR ')})`);
+		}
+
+		const accessClause = buildAccessClause(this.access, params, 'd');
+		params.push(Math.min(Math.max(Math.floor(query.limit || 50), 1), 200));
+
+		const result = await this.pool.query(
+			`SELECT a.id, a.description, a.owner_name, a.owner_email, a.customer_name, a.customer_qbo_id,
+				to_char(a.due_date, 'YYYY-MM-DD') AS due_date, a.status, a.status_note, a.updated_at,
+				a.doc_id, d.title AS meeting_title, d.occurred_at AS meeting_date,
+				d.external_url AS meeting_url, a.status_doc_id, s.title AS status_meeting_title
+			 FROM meeting_action_items a
+			 JOIN documents d ON d.id = a.doc_id
+			 LEFT JOIN documents s ON s.id = a.status_doc_id
+			 WHERE TRUE ${clauses.map((clause) => `AND ${clause}`).join(' ')}
+			 ${accessClause}
+			 ORDER BY a.due_date NULLS LAST, d.occurred_at DESC
+			 LIMIT $${params.length}`,
+			params
+		);
+		return result.rows as MeetingActionItem[];
+	}
+
+	/**
+	 * Set the status of an item from a meeting the caller may see; `note` records who changed it
+	 */
+	async updateStatus(id: string, status: ActionItemStatus, note: string): Promise<boolean> {
+		const params: unknown[] = [id, status, note];
+		const accessClause = buildAccessClause(this.access, params, 'd');
+		const result = await this.pool.query(
+			`UPDATE meeting_action_items a
+			 SET status = $2, status_note = $3,
+				status_doc_id = CASE WHEN $2 = 'open' THEN NULL ELSE a.status_doc_id END,
+				updated_at = NOW()
+			 FROM documents d
+			 WHERE a.id = $1 AND d.id = a.doc_id ${accessClause}`,
+			params
+		);
+		return (result.rowCount ?? 0) > 0;
+	}
+
+	private async log(action: string, metadata: Record<string, unknown>, durationMs?: number) {
+		const { logEvent } = await import('./ops-logger');
+		logEvent({
+			event_type: 'action_items',
+			event_action: action,
+			metadata,
+			duration_ms: durationMs
+		});
+	}
+}
@@ -2,6 +2,53 @@
 
 const TOKEN_CACHE = new Map<string, { token: string; expiresAt: number }>();
 
+/** Scopes of the delegated (signed-in user) token, requested at sign-in and on every refresh */
+export const DELEGATED_SCOPES = 'openid profile email offline_access Calendars.ReadWrite User.Read.All';
+
+/** What is needed to exchange a user's refresh token for a new delegated access token */
+export interface DelegatedTokenRefresh {
+	tenantId: string;
+	clientId: string;
+	clientSecret: string;
+	refreshToken: string;
+}
+
+export interface DelegatedTokenResult {
+	accessToken: string;
+	/** Entra rotates refresh tokens; this is the new one, or the old one when none was returned */
+	refreshToken: string;
+	/** Seconds since the epoch */
+	expiresAt: number;
+}
+
+/**
+ * Exchange a refresh token for a new delegated access token at the Entra token endpoint
+ */
+export async function refreshDelegatedToken(refresh: DelegatedTokenRefresh): Promise<DelegatedTokenResult> {
+	const response = await fetch(`https://login.microsoftonline.com/${refresh.tenantId}/oauth2/v2.0/token`, {
+		method: 'POST',
+		headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+		body: new URLSearchParams({
+			client_id: refresh.clientId,
+			client_secret: refresh.clientSecret,
+			grant_type: 'refresh_token',
+			refresh_token: refresh.refreshToken,
+			scope: DELEGATED_SCOPES,
+		}),
+	});
+
+	const data = await response.json();
+	if (!response.ok) {
+		throw new Error(`Failed to refresh delegated token: ${response.status} - ${data.error_description || data.error || response.statusText}`);
+	}
+
+	return {
+		accessToken: data.access_token,
+		refreshToken: data.refresh_token ?? refresh.refreshToken,
+		expiresAt: Math.floor(Date.now() / 1000) + (data.expires_in || 3600),
+	};
+}
+
 export class MicrosoftGraphAuth {
 	private tenantId: string;
 	private clientId: string;
@@ -73,6 +120,13 @@ export class MicrosoftGraphAuth {
 		}
 	}
 
+	/**
+	 * Drop this app's cached token, e.g. after Graph rejects it with a 401
+	 */
+	invalidateToken(): void {
+		TOKEN_CACHE.delete(`${this.tenantId}-${this.clientId}`);
+	}
+
 	/**
 	 * Clear cached token (useful for testing or forced refresh)
 	 */
@@ -7,18 +7,35 @@ import type {
 	MicrosoftGraphFreeBusyRequest,
 	MicrosoftGraphFreeBusyResponse,
 	CreateEventRequest,
+	CommonSlot,
+	CommonSlotRequest,
+	CommonSlotResult,
 } from '$lib/types/microsoft-graph';
-import { MicrosoftGraphAuth } from './microsoft-graph-auth';
+import { MicrosoftGraphAuth, refreshDelegatedToken, type DelegatedTokenRefresh } from './microsoft-graph-auth';
+import { DEFAULT_TIME_ZONE, getZoneOffset } from '$lib/utils/datetime';
 
 const GRAPH_API_BASE = 'https://graph.microsoft.com/v1.0';
 
+// Candidate meeting starts are tried on this grid (minutes)
+const COMMON_SLOT_STEP_MINUTES = 15;
+
 export class MicrosoftGraphService {
 	private accessToken: string | null;
 	private authService: MicrosoftGraphAuth | null;
+	private delegatedRefresh: DelegatedTokenRefresh | null;
 
-	constructor(accessToken?: string, authService?: MicrosoftGraphAuth) {
+	/**
+	 * @param delegatedRefresh - Optional refresh token and app credentials, used to get a new
+	 *   delegated token and retry once when Graph rejects the current one with a 401
+	 */
+	constructor(
+		accessToken?: string,
+		authService?: MicrosoftGraphAuth,
+		delegatedRefresh?: DelegatedTokenRefresh
+	) {
 		this.accessToken = accessToken || null;
 		this.authService = authService || null;
+		this.delegatedRefresh = delegatedRefresh || null;
 	}
 
 	/**
@@ -36,9 +53,34 @@ export class MicrosoftGraphService {
 		throw new Error('No access token or auth service available');
 	}
 
+	/**
+	 * Replace the token Graph just rejected with a 401, so the next getToken() returns a new one
+	 * Returns false when there is no way to obtain a different token
+	 */
+	private async invalidateToken(rejectedToken: string): Promise<boolean> {
+		if (this.authService) {
+			this.authService.invalidateToken();
+			return true;
+		}
+		if (this.delegatedRefresh && rejectedToken === this.accessToken) {
+			try {
+				const refreshed = await refreshDelegatedToken(this.delegatedRefresh);
+				// Kept for this service only: the session cookie can't change once a response has
+				// started, and the Auth.js jwt callback rotates the stored token on the next request
+				this.accessToken = refreshed.accessToken;
+				this.delegatedRefresh = { ...this.delegatedRefresh, refreshToken: refreshed.refreshToken };
+				return true;
+			} catch (error: unknown) {
+				console.error('Microsoft Graph delegated token refresh failed:', error instanceof Error ? error.message : error);
+			}
+		}
+		return false;
+	}
+
 	private async request<T>(
 		endpoint: string,
-		options: RequestInit = {}
+		options: RequestInit = {},
+		isRetry = false
 	): Promise<T> {
 		const url = `${GRAPH_API_BASE}${endpoint}`;
 		const token = await this.getToken();
@@ -52,6 +94,12 @@ export class MicrosoftGraphService {
 			},
 		});
 
+		// Expired or revoked token - get a new one and retry once
+		if (response.status === 401 && !isRetry && (await this.invalidateToken(token))) {
+			console.warn('Microsoft Graph returned 401, retrying with a new token:', endpoint);
+			return this.request<T>(endpoint, options, true);
+		}
+
 		if (!response.ok) {
 			const errorText = await response.text();
 			let error: any;
@@ -77,6 +125,11 @@ export class MicrosoftGraphService {
 			);
 		}
 
+		// Deletes and event actions (cancel/decline) return no body
+		if (response.status === 202 || response.status === 204) {
+			return undefined as T;
+		}
+
 		return response.json();
 	}
 
@@ -237,6 +290,22 @@ export class MicrosoftGraphService {
 		return me.mail || me.userPrincipalName;
 	}
 
+	/**
+	 * Get a user's mailbox time zone (a Windows name like "Pacific Standard Time", or IANA)
+	 * Requires MailboxSettings.Read; returns null when it is unset or not readable.
+	 */
+	async getMailboxTimeZone(userEmail: string): Promise<string | null> {
+		try {
+			const settings = await this.request<{ value?: string }>(
+				`/users/${encodeURIComponent(userEmail)}/mailboxSettings/timeZone`
+			);
+			return settings?.value || null;
+		} catch (error) {
+			console.warn(`[Graph] Could not read mailbox time zone for ${userEmail}:`, error instanceof Error ? error.message : error);
+			return null;
+		}
+	}
+
 	/**
 	 * Get calendar view for a specific user
 	 * Uses app-only token (client credentials) which has access to all users' calendars
@@ -244,12 +313,13 @@ export class MicrosoftGraphService {
 	async getUserCalendarView(
 		userEmail: string,
 		startDateTime: string,
-		endDateTime: string
+		endDateTime: string,
+		select: string = 'subject,start,end,isAllDay,showAs'
 	): Promise<{ value: MicrosoftGraphEvent[] }> {
 		const queryParams = new URLSearchParams({
 			startDateTime,
 			endDateTime,
-			$select: 'subject,start,end,isAllDay,showAs',
+			$select: select,
 			$top: '1000', // Request more items per page to reduce pagination rounds
 		});
 
@@ -359,6 +429,10 @@ export class MicrosoftGraphService {
 			isAllDay: event.isAllDay || false,
 		};
 
+		if (event.recurrence) {
+			graphEvent.recurrence = event.recurrence;
+		}
+
 		if (event.isOnlineMeeting) {
 			(graphEvent as any).isOnlineMeeting = true;
 			(graphEvent as any).onlineMeetingProvider = 'teamsForBusiness';
@@ -487,6 +561,10 @@ export class MicrosoftGraphService {
 			};
 		}
 
+		if (event.recurrence) {
+			graphEvent.recurrence = event.recurrence;
+		}
+
 		if (event.location) {
 			graphEvent.location = {
 				displayName: event.location,
@@ -534,6 +612,57 @@ export class MicrosoftGraphService {
 		});
 	}
 
+	/**
+	 * Get a single event from a user's calendar (app-only compatible)
+	 */
+	async getEventForUser(
+		userEmail: string,
+		eventId: string,
+		select?: string
+	): Promise<MicrosoftGraphEvent> {
+		const userId = await this.getUserIdByEmail(userEmail);
+		const query = select ? `?$select=${encodeURIComponent(select)}` : '';
+		return this.request<MicrosoftGraphEvent>(`/users/${userId}/events/${eventId}${query}`);
+	}
+
+	/**
+	 * Update an event on a user's calendar (app-only compatible)
+	 * Attendees receive an updated invitation when the organizer's event changes
+	 */
+	async updateEventForUser(
+		userEmail: string,
+		eventId: string,
+		updates: Partial<MicrosoftGraphEvent>
+	): Promise<MicrosoftGraphEvent> {
+		const userId = await this.getUserIdByEmail(userEmail);
+		return this.request<MicrosoftGraphEvent>(`/users/${userId}/events/${eventId}`, {
+			method: 'PATCH',
+			body: JSON.stringify(updates),
+		});
+	}
+
+	/**
+	 * Cancel a meeting the user organizes - sends a cancellation to all attendees
+	 */
+	async cancelEventForUser(userEmail: string, eventId: string, comment?: string): Promise<void> {
+		const userId = await this.getUserIdByEmail(userEmail);
+		await this.request(`/users/${userId}/events/${eventId}/cancel`, {
+			method: 'POST',
+			body: JSON.stringify({ comment: comment || '' }),
+		});
+	}
+
+	/**
+	 * Decline a meeting the user was invited to - notifies the organizer
+	 */
+	async declineEventForUser(userEmail: string, eventId: string, comment?: string): Promise<void> {
+		const userId = await this.getUserIdByEmail(userEmail);
+		await this.request(`/users/${userId}/events/${eventId}/decline`, {
+			method: 'POST',
+			body: JSON.stringify({ comment: comment || '', sendResponse: true }),
+		});
+	}
+
 	/**
 	 * Get available time slots for a date range
 	 */
@@ -656,4 +785,175 @@ export class MicrosoftGraphService {
 
 		return availableSlots;
 	}
+
+	/**
+	 * One batched getSchedule call for several mailboxes, returning each attendee's
+	 * busy/tentative blocks as UTC millisecond ranges
+	 */
+	private async getBusyItems(
+		organizerEmail: string,
+		attendees: string[],
+		rangeStart: Date,
+		rangeEnd: Date
+	): Promise<{
+		busyByAttendee: Map<string, Array<{ start: number; end: number; tentative: boolean }>>;
+		unavailable: CommonSlotResult['unavailable'];
+	}> {
+		const toUtcMs = (dateTime: string) => new Date(dateTime.endsWith('Z') ? dateTime : dateTime + 'Z').getTime();
+
+		const userId = await this.getUserIdByEmail(organizerEmail);
+		const response = await this.request<MicrosoftGraphFreeBusyResponse>(`/users/${userId}/calendar/getSchedule`, {
+			method: 'POST',
+			headers: { Prefer: 'outlook.timezone="UTC"' },
+			body: JSON.stringify({
+				schedules: attendees,
+				startTime: { dateTime: rangeStart.toISOString().slice(0, 19), timeZone: 'UTC' },
+				endTime: { dateTime: rangeEnd.toISOString().slice(0, 19), timeZone: 'UTC' },
+				availabilityViewInterval: COMMON_SLOT_STEP_MINUTES,
+			}),
+		});
+
+		const unavailable: CommonSlotResult['unavailable'] = [];
+		const busyByAttendee = new Map<string, Array<{ start: number; end: number; tentative: boolean }>>();
+		for (const schedule of response.value || []) {
+			const email = schedule.scheduleId.toLowerCase();
+			if (schedule.error) {
+				unavailable.push({ email, reason: schedule.error.message });
+				continue;
+			}
+			busyByAttendee.set(
+				email,
+				(schedule.scheduleItems || [])
+					.filter((item) => item.status !== 'free' && item.status !== 'workingElsewhere')
+					.map((item) => ({
+						start: toUtcMs(item.start.dateTime),
+						end: toUtcMs(item.end.dateTime),
+						tentative: item.status === 'tentative',
+					}))
+			);
+		}
+		for (const email of attendees) {
+			if (!busyByAttendee.has(email) && !unavailable.some((u) => u.email === email)) {
+				unavailable.push({ email, reason: 'No schedule returned' });
+			}
+		}
+
+		return { busyByAttendee, unavailable };
+	}
+
+	/**
+	 * Check several attendees against specific time windows (e.g. the first occurrences
+	 * of a recurring meeting) with one getSchedule call. Returns only windows with conflicts.
+	 */
+	async findScheduleConflicts(
+		organizerEmail: string,
+		attendees: string[],
+		windows: Array<{ start: Date; end: Date }>
+	): Promise<Array<{ start: string; end: string; busy: string[] }>> {
+		if (windows.length === 0) return [];
+		const emails = [...new Set(attendees.map((email) => email.toLowerCase()))];
+		const rangeStart = new Date(Math.min(...windows.map((w) => w.start.getTime())));
+		const rangeEnd = new Date(Math.max(...windows.map((w) => w.end.getTime())));
+		const { busyByAttendee } = await this.getBusyItems(organizerEmail, emails, rangeStart, rangeEnd);
+
+		const conflicts: Array<{ start: string; end: string; busy: string[] }> = [];
+		for (const window of windows) {
+			const start = window.start.getTime();
+			const end = window.end.getTime();
+			const busy = emails.filter((email) =>
+				(busyByAttendee.get(email) || []).some((item) => !item.tentative && item.start < end && item.end > start)
+			);
+			if (busy.length > 0) {
+				conflicts.push({ start: window.start.toISOString(), end: window.end.toISOString(), busy });
+			}
+		}
+		return conflicts;
+	}
+
+	/**
+	 * Find slots where all attendees (or a quorum of them) are free.
+	 * Uses one batched getSchedule call for every attendee and the whole date range,
+	 * then ranks slots by how many attendees are free, fewest tentative holds, earliest first.
+	 * Attendees whose calendars can't be read are listed as unknown on every slot, never as free.
+	 */
+	async findCommonFreeSlots(
+		organizerEmail: string,
+		options: CommonSlotRequest
+	): Promise<CommonSlotResult> {
+		const attendees = [...new Set(options.attendees.map((email) => email.toLowerCase()))];
+		const required = (options.requiredAttendees || []).map((email) => email.toLowerCase());
+		const durationMs = options.durationMinutes * 60 * 1000;
+		const stepMs = COMMON_SLOT_STEP_MINUTES * 60 * 1000;
+
+		const timeZone = options.timeZone || DEFAULT_TIME_ZONE;
+		const rangeStart = new Date(`${options.startDate}T00:00:00${getZoneOffset(options.startDate, timeZone)}`);
+		const rangeEnd = new Date(`${options.endDate}T23:59:59${getZoneOffset(options.endDate, timeZone)}`);
+		const { busyByAttendee, unavailable } = await this.getBusyItems(organizerEmail, attendees, rangeStart, rangeEnd);
+
+		const readable = attendees.filter((email) => busyByAttendee.has(email));
+		const unknown = unavailable.map((u) => u.email);
+		const quorum = Math.min(options.quorum ?? readable.length, readable.length);
+		const now = Date.now();
+		const candidates: CommonSlot[] = [];
+
+		for (let day = options.startDate; day <= options.endDate; ) {
+			const noon = new Date(`${day}T12:00:00Z`);
+			const weekday = noon.getUTCDay();
+
+			if (options.includeWeekends || (weekday !== 0 && weekday !== 6)) {
+				const offset = getZoneOffset(day, timeZone);
+				const dayStart = new Date(`${day}T${options.workdayStart}:00${offset}`).getTime();
+				const dayEnd = new Date(`${day}T${options.workdayEnd}:00${offset}`).getTime();
+
+				for (let start = dayStart; start + durationMs <= dayEnd; start += stepMs) {
+					if (start < now) continue;
+					const end = start + durationMs;
+					const slot: CommonSlot = {
+						start: new Date(start).toISOString(),
+						end: new Date(end).toISOString(),
+						available: [],
+						tentative: [],
+						busy: [],
+						unknown,
+					};
+
+					for (const email of readable) {
+						const overlapping = busyByAttendee.get(email)!.filter((item) => item.start < end && item.end > start);
+						if (overlapping.length === 0) {
+							slot.available.push(email);
+						} else if (overlapping.every((item) => item.tentative)) {
+							slot.available.push(email);
+							slot.tentative.push(email);
+						} else {
+							slot.busy.push(email);
+						}
+					}
+
+					if (slot.available.length < quorum) continue;
+					if (required.some((email) => slot.busy.includes(email))) continue;
+					candidates.push(slot);
+				}
+			}
+
+			noon.setUTCDate(noon.getUTCDate() + 1);
+			day = noon.toISOString().slice(0, 10);
+		}
+
+		candidates.sort(
+			(a, b) =>
+				b.available.length - a.available.length ||
+				a.tentative.length - b.tentative.length ||
+				a.start.localeCompare(b.start)
+		);
+
+		// Keep the ranked slots from overlapping each other so the list offers real alternatives
+		const slots: CommonSlot[] = [];
+		for (const candidate of candidates) {
+			if (slots.length >= (options.maxResults ?? 5)) break;
+			const overlaps = slots.some((slot) => candidate.start < slot.end && candidate.end > slot.start);
+			if (!overlaps) slots.push(candidate);
+		}
+
+		return { slots, unavailable };
+	}
 }
@@ -32,7 +32,7 @@ export class MoEClassifier {
 		const systemPrompt = `You are an intent classifier for Arvaya AI & Automations. Your job is to categorize user messages into one of three categories.
 
 Categories:
-- "appointments": Calendar, meetings, scheduling, availability checks, booking rooms, finding free time slots, Microsoft Calendar operations. IMPORTANT: Only classify as "appointments" if the user wants to SCHEDULE or BOOK a meeting. If "meeting" appears in a task description for time logging, it's "billing".
+- "appointments": Calendar, meetings, scheduling, availability checks, booking rooms, finding free time slots, Microsoft Calendar operations, and rescheduling, cancelling or changing attendees of existing meetings. IMPORTANT: Only classify as "appointments" if the user wants to SCHEDULE, BOOK or CHANGE a meeting. If "meeting" appears in a task description for time logging, it's "billing".
 - "billing": Time entries, logging hours, work tracking, QuickBooks, invoicing, customers/clients for billing, recording tasks completed. This includes messages like "log X hours for customer, tasks: did Y before meeting" - the word "meeting" here is part of the task description, not a request to book a meeting.
 - "general": Greetings, questions about capabilities, unclear intent, mixed requests, or anything that doesn't clearly fit appointments or billing
 
@@ -223,6 +223,8 @@ Return ONLY the JSON classification.`;
 			/\b(calendar|appointment|available|free\s+(time|slot))\b/,
 			// Only match "meeting" if it's clearly about scheduling, not in task descriptions
 			/\b(create|set\s+up|arrange)\s+(a\s+)?meeting\b/,
+			// Changes to existing meetings (e.g., "reschedule my 3pm", "cancel the standup")
+			/\b(reschedule|cancel|postpone|decline)\b.*\b(meetings?|calls?|appointments?|invites?|\d{1,2}(:\d{2})?\s*(am|pm))\b/,
 			// Follow-up queries about meetings/events (e.g., "what are her meetings", "show his events")
 			/\bwhat\b.*\b(meetings?|events?|appointments?)\b/,
 			/\b(show|list|get|see)\b.*\b(meetings?|events?|appointments?|calendar)\b/,
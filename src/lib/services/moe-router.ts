@@ -5,9 +5,10 @@ import { MoEClassifier, type ClassificationResult } from './moe-classifier';
 import { MCPServer } from './mcp-server';
 import { BillingMCPServer } from './billing-mcp-server';
 import { UnifiedMCPServer } from './unified-mcp-server';
-import { MicrosoftGraphAuth } from './microsoft-graph-auth';
+import { MicrosoftGraphAuth, type DelegatedTokenRefresh } from './microsoft-graph-auth';
 import { getChatHistoryAsync } from './chat-history-store';
 import type { GenericChatMessage } from '$lib/utils/tokens';
+import type { LoggedInUser } from '$lib/types/user';
 
 // Confidence threshold for routing to specialized experts
 const CONFIDENCE_THRESHOLD = 0.80;
@@ -28,7 +29,9 @@ export interface MoERouterConfig {
 	sessionId: string;
 	authService?: MicrosoftGraphAuth;
 	accessToken?: string;
-	loggedInUser?: { name: string; email: string };
+	/** Refresh token for a new delegated token when Graph rejects the current one */
+	delegatedRefresh?: DelegatedTokenRefresh;
+	loggedInUser?: LoggedInUser;
 	webhookUrl?: string;
 }
 
@@ -55,7 +58,8 @@ export class MoERouter {
 				this.config.sessionId,
 				this.config.authService,
 				this.config.accessToken,
-				this.config.loggedInUser
+				this.config.loggedInUser,
+				{ delegatedRefresh: this.config.delegatedRefresh }
 			);
 		}
 		return this.appointmentsExpert;
@@ -87,7 +91,8 @@ export class MoERouter {
 				this.config.authService,
 				this.config.accessToken,
 				this.config.loggedInUser,
-				this.config.webhookUrl
+				this.config.webhookUrl,
+				this.config.delegatedRefresh
 			);
 		}
 		return this.unifiedExpert;
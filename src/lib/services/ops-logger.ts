@@ -23,20 +23,31 @@ export interface RagMetrics {
 	embed_ms?: number;
 	dense_ms?: number;
 	sparse_ms?: number;
+	fusion_ms?: number;
 	rerank_ms?: number;
 	total_ms?: number;
 	dense_count?: number;
 	sparse_count?: number;
 	fused_count?: number;
+	fusion_strategy?: string;
+	fusion_overlap_count?: number; // candidates found by both dense and sparse search
+	fusion_sparse_only_count?: number;
+	fusion_sparse_in_top_count?: number; // sparse-only candidates in the fused top rerankTopK
 	reranked_count?: number;
 	final_count?: number;
 	avg_rerank_score?: number;
 	max_rerank_score?: number;
 	min_rerank_score?: number;
 	context_token_estimate?: number;
+	cache_hit?: boolean; // null when the answer cache wasn't consulted
 	metadata?: Record<string, unknown>;
 }
 
+/** A stored ops_rag_metrics row; columns that weren't logged come back as null */
+export type RagMetricsRow = { id: string; timestamp: string } & {
+	[K in keyof RagMetrics]-?: RagMetrics[K] | null;
+};
+
 // ─── Logger ──────────────────────────────────────────────────
 
 function safeLog(label: string, error: unknown) {
@@ -82,17 +93,23 @@ export function logRagMetrics(metrics: RagMetrics): void {
 				embed_ms: metrics.embed_ms ?? null,
 				dense_ms: metrics.dense_ms ?? null,
 				sparse_ms: metrics.sparse_ms ?? null,
+				fusion_ms: metrics.fusion_ms ?? null,
 				rerank_ms: metrics.rerank_ms ?? null,
 				total_ms: metrics.total_ms ?? null,
 				dense_count: metrics.dense_count ?? null,
 				sparse_count: metrics.sparse_count ?? null,
 				fused_count: metrics.fused_count ?? null,
+				fusion_strategy: metrics.fusion_strategy ?? null,
+				fusion_overlap_count: metrics.fusion_overlap_count ?? null,
+				fusion_sparse_only_count: metrics.fusion_sparse_only_count ?? null,
+				fusion_sparse_in_top_count: metrics.fusion_sparse_in_top_count ?? null,
 				reranked_count: metrics.reranked_count ?? null,
 				final_count: metrics.final_count ?? null,
 				avg_rerank_score: metrics.avg_rerank_score ?? null,
 				max_rerank_score: metrics.max_rerank_score ?? null,
 				min_rerank_score: metrics.min_rerank_score ?? null,
 				context_token_estimate: metrics.context_token_estimate ?? null,
+				cache_hit: metrics.cache_hit ?? null,
 				metadata: metrics.metadata ?? {},
 			})
 			.then(({ error }) => {
@@ -147,7 +164,28 @@ export async function queryEventStats(from?: string, to?: string) {
 	return data ?? [];
 }
 
-export async function queryRagMetrics(opts: { limit?: number; from?: string; to?: string } = {}) {
+/**
+ * Count tool calls rejected by argument validation, per tool.
+ * Aggregated by the ops_tool_rejection_counts function in ops-schema.sql.
+ */
+export async function queryToolRejectionCounts(from?: string, to?: string) {
+	const supabase = getSupabaseClient();
+
+	const { data, error } = await supabase.rpc('ops_tool_rejection_counts', {
+		from_ts: from ?? null,
+		to_ts: to ?? null,
+	});
+	if (error) throw new Error(`queryToolRejectionCounts: ${error.message}`);
+
+	return ((data ?? []) as { tool: string; count: number | string }[]).map((row) => ({
+		tool: row.tool,
+		count: Number(row.count),
+	}));
+}
+
+export async function queryRagMetrics(
+	opts: { limit?: number; from?: string; to?: string } = {},
+): Promise<RagMetricsRow[]> {
 	const supabase = getSupabaseClient();
 	let q = supabase
 		.from('ops_rag_metrics')
@@ -0,0 +1,114 @@
+/**
+ * Server-side access control for RAG retrieval. A signed-in user's email (and its Entra domain)
+ * maps to the tenants – optionally limited to products – granted in `rag_access_grants`, and
+ * documents can further restrict themselves to a list of principals. The resulting scope is
+ * applied in SQL by every retrieval query, so request filters can only narrow what a user sees.
+ */
+
+import { AppError, ErrorCode } from '$lib/utils/errors';
+import { isOpsAllowed } from './ops-access';
+import type { RagFilters } from './rag-retrieval';
+
+export type RagAccessGrant = {
+	tenant_id: string;
+	product: string | null; // null grants every product of the tenant
+};
+
+export type RagAccessScope = {
+	unrestricted: boolean; // ops users and offline scripts
+	principals: string[]; // email and '@domain', matched against document ACLs
+	grants: RagAccessGrant[]; // shared (no tenant) content is visible without a grant
+};
+
+type Queryable = {
+	query: (sql: string, params: unknown[]) => Promise<{ rows: unknown[] }>;
+};
+
+// Offline evaluation scripts run without a user
+export const UNRESTRICTED_RAG_ACCESS: RagAccessScope = {
+	unrestricted: true,
+	principals: [],
+	grants: []
+};
+
+// Default for services constructed without a user: shared content without a document ACL
+export const SHARED_RAG_ACCESS: RagAccessScope = {
+	unrestricted: false,
+	principals: [],
+	grants: []
+};
+
+export const getPrincipals = (email: string): string[] => {
+	const normalized = email.trim().toLowerCase();
+	const domain = normalized.split('@')[1];
+	return domain ? [normalized, `@${domain}`] : [normalized];
+};
+
+/**
+ * Scope for a signed-in user. No email (or no grants) means shared content only.
+ */
+export const resolveRagAccess = async (
+	db: Queryable,
+	email: string | null | undefined
+): Promise<RagAccessScope> => {
+	if (!email) return SHARED_RAG_ACCESS;
+
+	const principals = getPrincipals(email);
+	if (isOpsAllowed(email)) return { ...UNRESTRICTED_RAG_ACCESS, principals };
+
+	const result = await db.query(
+		`SELECT DISTINCT tenant_id, product FROM rag_access_grants WHERE principal = ANY($1::text[])`,
+		[principals]
+	);
+	return { unrestricted: false, principals, grants: result.rows as RagAccessGrant[] };
+};
+
+/**
+ * Why a request's filters ask for more than the scope allows, or null when they don't.
+ * Such a filter would only return shared content anyway; it is rejected so the attempt is visible.
+ */
+export const findAccessViolation = (scope: RagAccessScope, filters: RagFilters): string | null => {
+	if (scope.unrestricted || !filters.tenant_id) return null;
+
+	const grants = scope.grants.filter((g) => g.tenant_id === filters.tenant_id);
+	if (grants.length === 0) {
+		return `tenant ${filters.tenant_id} is not granted`;
+	}
+	if (filters.product && !grants.some((g) => g.product === null || g.product === filters.product)) {
+		return `product ${filters.product} is not granted for tenant ${filters.tenant_id}`;
+	}
+	return null;
+};
+
+export const accessDenied = (reason: string) =>
+	new AppError(`Access denied: ${reason}`, ErrorCode.AUTH_ERROR, { statusCode: 403 });
+
+/**
+ * SQL condition limiting rows to the scope, appending its params. `rowAlias` is the table whose
+ * tenant_id/product are checked (chunks for retrieval, documents for listings); the ACL always
+ * comes from the document.
+ */
+export const buildAccessClause = (
+	scope: RagAccessScope,
+	params: unknown[],
+	rowAlias: string,
+	documentAlias = 'd'
+): string => {
+	if (scope.unrestricted) return '';
+
+	params.push(scope.grants.map((g) => g.tenant_id));
+	const tenantsParam = params.length;
+	params.push(scope.grants.map((g) => g.product));
+	const productsParam = params.length;
+	params.push(scope.principals);
+	const principalsParam = params.length;
+
+	return `AND (
+		${rowAlias}.tenant_id IS NULL
+		OR EXISTS (
+			SELECT 1 FROM unnest($${tenantsParam}::text[], $${productsParam}::text[]) AS g(tenant_id, product)
+			WHERE g.tenant_id = ${rowAlias}.tenant_id AND (g.product IS NULL OR g.product = ${rowAlias}.product)
+		)
+	)
+	AND (${documentAlias}.allowed_principals IS NULL OR ${documentAlias}.allowed_principals && $${principalsParam}::text[])`;
+};
@@ -0,0 +1,291 @@
+/**
+ * Semantic cache for generated RAG answers. An entry is reused when a new question's embedding is
+ * close enough to a cached one and the filters, access scope and corpus version all match.
+ * Entries expire by TTL and are dropped when any document they cite is re-indexed or deleted.
+ * The cache is best-effort: lookup or store failures are logged and treated as misses.
+ */
+
+import { CohereClientV2 } from 'cohere-ai';
+import { getRagConfig } from './rag-config';
+import type { RagAccessScope } from './rag-access';
+import { sha256, stableStringify } from './rag-indexer';
+import { getRagPool, type RagContext, type RagFilters } from './rag-retrieval';
+import type { RagAnswerChunk } from './rag-feedback';
+
+// Answers from different prompts aren't interchangeable, so each caller has its own namespace
+export type RagAnswerCacheNamespace = 'rag_ask' | 'fireflies';
+
+// Payload of /rag/ask (and its stream) entries
+export type RagAskCachedPayload = {
+	sources: RagContext['sources'];
+	chunks?: RagAnswerChunk[]; // missing on entries cached before answer feedback
+};
+
+export type RagAnswerCacheConfig = {
+	enabled: boolean;
+	similarityThreshold: number; // cosine similarity a cached question needs to be reused
+	ttlSeconds: number;
+	corpusVersion: string; // bump RAG_CORPUS_VERSION to drop every cached answer
+};
+
+export type RagCachedAnswer<T> = {
+	id: string;
+	question: string; // the question the answer was generated for
+	answer: string;
+	payload: T; // caller-specific extras (sources, suggestions)
+	similarity: number;
+	created_at: string;
+};
+
+export type RagAnswerCacheLookup<T> = {
+	hit: RagCachedAnswer<T> | null;
+	embedding: number[] | null; // reused when storing the answer after a miss
+	embed_ms: number;
+	lookup_ms: number;
+};
+
+type Queryable = {
+	query: (sql: string, params: unknown[]) => Promise<{ rows: unknown[] }>;
+};
+
+export const DEFAULT_ANSWER_CACHE_CONFIG: RagAnswerCacheConfig = {
+	enabled: false,
+	similarityThreshold: 0.95,
+	ttlSeconds: 24 * 60 * 60,
+	corpusVersion: '1'
+};
+
+const toNumber = (value: string | undefined, fallback: number): number => {
+	const parsed = Number(value);
+	return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+export const getAnswerCacheConfig = (): RagAnswerCacheConfig => {
+	const env = typeof process !== 'undefined' ? process.env : {};
+	return {
+		enabled: env.RAG_ANSWER_CACHE === 'true',
+		similarityThreshold: toNumber(
+			env.RAG_ANSWER_CACHE_THRESHOLD,
+			DEFAULT_ANSWER_CACHE_CONFIG.similarityThreshold
+		),
+		ttlSeconds: toNumber(env.RAG_ANSWER_CACHE_TTL_SECONDS, DEFAULT_ANSWER_CACHE_CONFIG.ttlSeconds),
+		corpusVersion: env.RAG_CORPUS_VERSION || DEFAULT_ANSWER_CACHE_CONFIG.corpusVersion
+	};
+};
+
+const filtersKey = (filters: RagFilters) =>
+	stableStringify(Object.fromEntries(Object.entries(filters).filter(([, value]) => value)));
+
+// Users with the same grants share entries; document ACLs are checked per hit
+const scopeKey = (access: RagAccessScope) =>
+	access.unrestricted
+		? 'unrestricted'
+		: sha256(
+				stableStringify(
+					access.grants.map((grant) => `${grant.tenant_id}\u0000${grant.product ?? ''}`).sort()
+				)
+			);
+
+/**
+ * Drop cached answers that cite any of these documents. Called after documents are re-indexed,
+ * updated or deleted; a missing cache table (schema not migrated) is ignored.
+ */
+export const invalidateCachedAnswers = async (db: Queryable, docIds: string[]): Promise<void> => {
+	if (docIds.length === 0) return;
+	try {
+		await db.query(`DELETE FROM rag_answer_cache WHERE doc_ids && $1::text[]`, [docIds]);
+	} catch (error) {
+		console.warn(
+			'[RagAnswerCache] Invalidation failed:',
+			error instanceof Error ? error.message : error
+		);
+	}
+};
+
+export class RagAnswerCache {
+	private cohere: CohereClientV2;
+	private dbUrl: string;
+	private config: RagAnswerCacheConfig;
+	private access: RagAccessScope;
+	private namespace: RagAnswerCacheNamespace;
+	// Retrieval settings change answers as much as the corpus does
+	private corpusVersion: string;
+
+	constructor(
+		databaseUrl: string,
+		cohereApiKey: string,
+		namespace: RagAnswerCacheNamespace,
+		access: RagAccessScope,
+		config: RagAnswerCacheConfig = getAnswerCacheConfig()
+	) {
+		this.cohere = new CohereClientV2({ token: cohereApiKey });
+		this.dbUrl = databaseUrl;
+		this.namespace = namespace;
+		this.access = access;
+		this.config = config;
+		this.corpusVersion = `${config.corpusVersion}:${sha256(stableStringify(getRagConfig())).slice(0, 12)}`;
+	}
+
+	get enabled() {
+		return this.config.enabled;
+	}
+
+	private async embed(question: string): Promise<number[]> {
+		const response = await this.cohere.embed({
+			texts: [question],
+			model: 'embed-english-v3.0',
+			inputType: 'search_query',
+			embeddingTypes: ['float']
+		});
+		const embedding =
+			response.embeddings && 'float' in response.embeddings && response.embeddings.float?.[0];
+		if (!embedding) throw new Error('No embedding returned from Cohere');
+		return embedding;
+	}
+
+	// Document ACLs can differ between users who share a scope key
+	private async canSeeDocuments(docIds: string[]): Promise<boolean> {
+		if (this.access.unrestricted || docIds.length === 0) return true;
+		const result = await getRagPool(this.dbUrl).query(
+			`SELECT 1 FROM documents
+			 WHERE id = ANY($1::text[])
+				AND allowed_principals IS NOT NULL
+				AND NOT (allowed_principals && $2::text[])
+			 LIMIT 1`,
+			[docIds, this.access.principals]
+		);
+		return result.rows.length === 0;
+	}
+
+	/**
+	 * Closest live entry for the question, if it clears the similarity threshold
+	 */
+	async lookup<T>(question: string, filters: RagFilters): Promise<RagAnswerCacheLookup<T>> {
+		const t0 = performance.now();
+		let embedding: number[] | null = null;
+		let tEmbed = t0;
+		try {
+			embedding = await this.embed(question);
+			tEmbed = performance.now();
+
+			const result = await getRagPool(this.dbUrl).query(
+				`SELECT id, question, answer, payload, doc_ids, created_at,
+					1 - (query_embedding <=> $1) AS similarity
+				 FROM rag_answer_cache
+				 WHERE namespace = $2 AND filters_key = $3 AND scope_key = $4 AND corpus_version = $5
+					AND expires_at > NOW()
+				 ORDER BY query_embedding <=> $1
+				 LIMIT 1`,
+				[
+					`[${embedding.join(',')}]`,
+					this.namespace,
+					filtersKey(filters),
+					scopeKey(this.access),
+					this.corpusVersion
+				]
+			);
+			const row = result.rows[0] as (RagCachedAnswer<T> & { doc_ids: string[] }) | undefined;
+
+			let hit: RagCachedAnswer<T> | null = null;
+			if (
+				row &&
+				Number(row.similarity) >= this.config.similarityThreshold &&
+				(await this.canSeeDocuments(row.doc_ids))
+			) {
+				hit = {
+					id: row.id,
+					question: row.question,
+					answer: row.answer,
+					payload: row.payload,
+					similarity: Number(row.similarity),
+					created_at: row.created_at
+				};
+				getRagPool(this.dbUrl)
+					.query(
+						`UPDATE rag_answer_cache SET hit_count = hit_count + 1, last_hit_at = NOW() WHERE id = $1`,
+						[row.id]
+					)
+					.catch(() => {});
+			}
+
+			return {
+				hit,
+				embedding,
+				embed_ms: Math.round(tEmbed - t0),
+				lookup_ms: Math.round(performance.now() - tEmbed)
+			};
+		} catch (error) {
+			console.warn(
+				'[RagAnswerCache] Lookup failed:',
+				error instanceof Error ? error.message : error
+			);
+			return {
+				hit: null,
+				embedding,
+				embed_ms: Math.round(tEmbed - t0),
+				lookup_ms: Math.round(performance.now() - tEmbed)
+			};
+		}
+	}
+
+	/**
+	 * Record a hit in the RAG metrics, so hit rate sits next to pipeline latency on /ops.
+	 * Misses are recorded by the retrieval that follows them (cache_hit: false).
+	 */
+	async logHit<T>(question: string, lookup: RagAnswerCacheLookup<T>, userEmail?: string) {
+		// Loaded lazily like in RagRetrievalService.retrieve, so scripts can import this module
+		const { logRagMetrics } = await import('./ops-logger');
+		logRagMetrics({
+			query: question,
+			user_email: userEmail,
+			embed_ms: lookup.embed_ms,
+			total_ms: lookup.embed_ms + lookup.lookup_ms,
+			cache_hit: true,
+			metadata: {
+				cache_namespace: this.namespace,
+				cache_entry: lookup.hit?.id,
+				cache_similarity: lookup.hit ? Math.round(lookup.hit.similarity * 1000) / 1000 : null,
+				cache_lookup_ms: lookup.lookup_ms
+			}
+		});
+	}
+
+	/**
+	 * Cache an answer and the documents it was built from. Expired entries are cleaned up here.
+	 */
+	async store<T>(
+		question: string,
+		embedding: number[] | null,
+		filters: RagFilters,
+		entry: { answer: string; payload: T; docIds: string[] }
+	): Promise<void> {
+		try {
+			const pool = getRagPool(this.dbUrl);
+			const queryEmbedding = embedding ?? (await this.embed(question));
+			await pool.query(`DELETE FROM rag_answer_cache WHERE expires_at <= NOW()`, []);
+			await pool.query(
+				`INSERT INTO rag_answer_cache
+					(namespace, question, query_embedding, filters_key, scope_key, corpus_version,
+					 answer, payload, doc_ids, expires_at)
+				 VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, NOW() + make_interval(secs => $10))`,
+				[
+					this.namespace,
+					question,
+					`[${queryEmbedding.join(',')}]`,
+					filtersKey(filters),
+					scopeKey(this.access),
+					this.corpusVersion,
+					entry.answer,
+					JSON.stringify(entry.payload),
+					[...new Set(entry.docIds)],
+					this.config.ttlSeconds
+				]
+			);
+		} catch (error) {
+			console.warn(
+				'[RagAnswerCache] Store failed:',
+				error instanceof Error ? error.message : error
+			);
+		}
+	}
+}
@@ -0,0 +1,93 @@
+import type { ChatMessageV2 } from 'cohere-ai/api';
+import { RAG_SYSTEM_PROMPT, RAG_VALIDATION_PROMPT } from './rag-prompts';
+import type { RagContext } from './rag-retrieval';
+
+export const RAG_CHAT_MODEL = 'command-a-03-2025';
+
+export const RAG_NO_ANSWER = "I don't know based on the provided documents.";
+
+export type RagCitation = {
+	tag: string;
+	start: number; // offset of the bracketed tag in the answer
+	end: number;
+	chunk_id: string;
+	title?: string | null;
+	section?: string | null;
+	external_url?: string | null;
+};
+
+// [S1] or grouped [S1, S3]
+const CITATION_PATTERN = /\[(S\d+(?:\s*,\s*S\d+)*)\]/g;
+
+export const isValidationEnabled = () => process.env.RAG_VALIDATE === 'true';
+
+/**
+ * Text content of a Cohere chat response message (string or content-part array)
+ */
+export const messageText = (message: { content?: unknown } | undefined): string => {
+	const content = message?.content;
+	if (typeof content === 'string') {
+		return content;
+	}
+	if (Array.isArray(content)) {
+		return content
+			.filter((item: { type?: string }) => item.type === 'text')
+			.map((item: { text?: string }) => item.text ?? '')
+			.join('');
+	}
+	return '';
+};
+
+/**
+ * The JSON object in a model reply, or null when there is none
+ */
+export const parseJsonObject = (text: string): Record<string, unknown> | null => {
+	// Models wrap JSON in code fences or prose despite being asked not to
+	const match = text.match(/\{[\s\S]*\}/);
+	if (!match) return null;
+	try {
+		const parsed = JSON.parse(match[0]);
+		return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : null;
+	} catch {
+		return null;
+	}
+};
+
+export const buildAnswerMessages = (context: string, question: string): ChatMessageV2[] => [
+	{ role: 'system', content: RAG_SYSTEM_PROMPT },
+	{ role: 'system', content: `Context:\n${context}` },
+	{ role: 'user', content: question }
+];
+
+export const buildValidationMessages = (context: string, draft: string): ChatMessageV2[] => [
+	{ role: 'system', content: RAG_VALIDATION_PROMPT },
+	{ role: 'system', content: `Context:\n${context}` },
+	{ role: 'user', content: `Draft answer:\n${draft}` }
+];
+
+/**
+ * Link each [S#] tag in an answer to the chunk it cites. Tags with no matching source are skipped.
+ */
+export const findCitations = (answer: string, sources: RagContext['sources']): RagCitation[] => {
+	const byTag = new Map(sources.map((source) => [source.tag, source]));
+	const citations: RagCitation[] = [];
+
+	for (const match of answer.matchAll(CITATION_PATTERN)) {
+		const start = match.index ?? 0;
+		for (const tag of match[1].split(',').map((t) => t.trim())) {
+			const source = byTag.get(tag);
+			if (!source) continue;
+			citations.push({
+				tag,
+				start,
+				end: start + match[0].length,
+				chunk_id: source.id,
+				title: source.title,
+				section: source.section,
+				external_url: source.external_url
+			});
+		}
+	}
+
+	return citations;
+};
@@ -1,8 +1,16 @@
+import { isFusionStrategy, type RagFusionStrategy } from './rag-fusion';
+import { isQueryExpansion, type RagQueryExpansion } from './rag-query';
+
 export type RagConfig = {
+	queryRewrite: boolean; // rewrite follow-ups into standalone questions using chat history
+	queryExpansion: RagQueryExpansion;
+	queryVariants: number; // paraphrases generated when queryExpansion is 'paraphrase'
 	kDense: number;
 	kSparse: number;
+	fusionStrategy: RagFusionStrategy;
 	fusionWeightDense: number;
 	fusionWeightSparse: number;
+	rrfK: number; // rank offset for reciprocal rank fusion
 	rerankTopK: number;
 	rerankScoreThreshold: number;
 	neighborWindow: number;
@@ -10,10 +18,15 @@ export type RagConfig = {
 };
 
 export const DEFAULT_RAG_CONFIG: RagConfig = {
+	queryRewrite: false,
+	queryExpansion: 'none',
+	queryVariants: 3,
 	kDense: 60,
 	kSparse: 40,
+	fusionStrategy: 'weighted',
 	fusionWeightDense: 0.7,
 	fusionWeightSparse: 0.3,
+	rrfK: 60,
 	rerankTopK: 12,
 	rerankScoreThreshold: 0.2,
 	neighborWindow: 1,
@@ -28,8 +41,18 @@ const toNumber = (value: string | undefined, fallback: number): number => {
 export const getRagConfig = (): RagConfig => {
 	const env = typeof process !== 'undefined' ? process.env : {};
 	return {
+		queryRewrite: env.RAG_QUERY_REWRITE
+			? env.RAG_QUERY_REWRITE === 'true'
+			: DEFAULT_RAG_CONFIG.queryRewrite,
+		queryExpansion: isQueryExpansion(env.RAG_QUERY_EXPANSION)
+			? env.RAG_QUERY_EXPANSION
+			: DEFAULT_RAG_CONFIG.queryExpansion,
+		queryVariants: toNumber(env.RAG_QUERY_VARIANTS, DEFAULT_RAG_CONFIG.queryVariants),
 		kDense: toNumber(env.RAG_K_DENSE, DEFAULT_RAG_CONFIG.kDense),
 		kSparse: toNumber(env.RAG_K_SPARSE, DEFAULT_RAG_CONFIG.kSparse),
+		fusionStrategy: isFusionStrategy(env.RAG_FUSION_STRATEGY)
+			? env.RAG_FUSION_STRATEGY
+			: DEFAULT_RAG_CONFIG.fusionStrategy,
 		fusionWeightDense: toNumber(
 			env.RAG_FUSION_DENSE_WEIGHT,
 			DEFAULT_RAG_CONFIG.fusionWeightDense
@@ -38,6 +61,7 @@ export const getRagConfig = (): RagConfig => {
 			env.RAG_FUSION_SPARSE_WEIGHT,
 			DEFAULT_RAG_CONFIG.fusionWeightSparse
 		),
+		rrfK: toNumber(env.RAG_RRF_K, DEFAULT_RAG_CONFIG.rrfK),
 		rerankTopK: toNumber(env.RAG_RERANK_TOP_K, DEFAULT_RAG_CONFIG.rerankTopK),
 		rerankScoreThreshold: toNumber(
 			env.RAG_RERANK_SCORE_THRESHOLD,
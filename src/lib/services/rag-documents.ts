@@ -0,0 +1,400 @@
+/**
+ * Document management for the RAG corpus: list, upload, update, re-index and delete documents in
+ * the pgvector `documents`/`chunks` tables. Writes go through rag-indexer, so uploads get the same
+ * chunking and incremental embedding as the index-documents script.
+ */
+
+import { CohereClientV2 } from 'cohere-ai';
+import { AppError, ErrorCode } from '$lib/utils/errors';
+import { SHARED_RAG_ACCESS, buildAccessClause, type RagAccessScope } from './rag-access';
+import {
+	DEFAULT_INDEX_CONFIG,
+	indexDocument,
+	type RagIndexOptions,
+	type RagIndexResult,
+	type RagInputDocument
+} from './rag-indexer';
+import { invalidateCachedAnswers } from './rag-answer-cache';
+import {
+	formatForFile,
+	isDocumentFormat,
+	isOpenApiSpec,
+	loadDocument,
+	loadOpenApi,
+	type LoadedDocument,
+	type LoadedSection,
+	type RagDocumentFormat
+} from './rag-loaders';
+import { getRagPool } from './rag-retrieval';
+
+export const RAG_DOCUMENT_FILTERS = ['product', 'version', 'tenant_id', 'source_type'] as const;
+
+// Fields that can be set on upload and changed afterwards; the id and content are fixed per document
+export const RAG_DOCUMENT_FIELDS = [
+	'title',
+	'source_type',
+	'external_url',
+	'version',
+	'product',
+	'language',
+	'tenant_id'
+] as const;
+
+export type RagDocumentFilters = Partial<Record<(typeof RAG_DOCUMENT_FILTERS)[number], string>> & {
+	search?: string; // matches id or title
+};
+
+export type RagDocumentFields = Partial<Record<(typeof RAG_DOCUMENT_FIELDS)[number], string>>;
+
+export type RagDocumentSummary = {
+	id: string;
+	title: string | null;
+	source_type: string | null;
+	external_url: string | null;
+	version: string | null;
+	product: string | null;
+	language: string | null;
+	tenant_id: string | null;
+	created_at: string | null;
+	updated_at: string | null;
+	indexed_at: string | null;
+	chunk_count: number;
+	has_source: boolean; // indexed with its content stored, so it can be re-indexed from the app
+};
+
+export type RagDocumentFacets = Record<(typeof RAG_DOCUMENT_FILTERS)[number], string[]>;
+
+export type RagDocumentUpload = RagDocumentFields & {
+	id?: string; // defaults to the file name
+	fileName?: string;
+	format?: RagDocumentFormat;
+	content: string;
+};
+
+const MAX_LIST_LIMIT = 200;
+
+const SUMMARY_COLUMNS = `
+	d.id, d.title, d.source_type, d.external_url, d.version, d.product, d.language, d.tenant_id,
+	d.created_at, d.updated_at, d.indexed_at,
+	(d.source_content IS NOT NULL) AS has_source,
+	(SELECT COUNT(*)::int FROM chunks c WHERE c.doc_id = d.id) AS chunk_count
+`;
+
+const notFound = (id: string) =>
+	new AppError(`Document not found: ${id}`, ErrorCode.NOT_FOUND, { statusCode: 404 });
+
+const invalid = (message: string) =>
+	new AppError(message, ErrorCode.VALIDATION_ERROR, { statusCode: 400 });
+
+// Empty form fields clear a value rather than storing ''
+const cleanFields = (fields: RagDocumentFields): RagDocumentFields =>
+	Object.fromEntries(
+		RAG_DOCUMENT_FIELDS.filter((field) => fields[field] !== undefined).map((field) => [
+			field,
+			fields[field]?.trim() || undefined
+		])
+	);
+
+/**
+ * Document fields present in a form or JSON body, as strings
+ */
+export const readDocumentFields = (
+	source: FormData | Record<string, unknown>
+): RagDocumentFields => {
+	const fields: RagDocumentFields = {};
+	for (const field of RAG_DOCUMENT_FIELDS) {
+		const value = source instanceof FormData ? source.get(field) : source[field];
+		if (typeof value === 'string') fields[field] = value;
+		else if (value === null && !(source instanceof FormData)) fields[field] = '';
+	}
+	return fields;
+};
+
+/**
+ * Upload from a multipart form (a `file`, or `content` pasted as text) or a JSON body
+ */
+export const readDocumentUpload = async (
+	source: FormData | Record<string, unknown>
+): Promise<RagDocumentUpload> => {
+	const get = (key: string) => (source instanceof FormData ? source.get(key) : source[key]);
+	const format = get('format');
+	if (format && !isDocumentFormat(format)) {
+		throw invalid(`Unknown format: ${String(format)}`);
+	}
+
+	const file = get('file');
+	const hasFile = typeof File !== 'undefined' && file instanceof File && file.size > 0;
+	const content = hasFile ? await file.text() : get('content');
+	if (typeof content !== 'string' || !content.trim()) {
+		throw invalid('Provide a file or the document content');
+	}
+
+	const id = get('id');
+	const fileName = hasFile ? file.name : get('fileName');
+	return {
+		...readDocumentFields(source),
+		id: typeof id === 'string' ? id : undefined,
+		fileName: typeof fileName === 'string' && fileName ? fileName : undefined,
+		format: isDocumentFormat(format) ? format : undefined,
+		content
+	};
+};
+
+const loadUpload = (upload: RagDocumentUpload): LoadedDocument => {
+	const isJson = !upload.format && upload.fileName?.toLowerCase().endsWith('.json');
+	if (isJson) {
+		let parsed: unknown;
+		try {
+			parsed = JSON.parse(upload.content);
+		} catch {
+			throw invalid('JSON uploads must be valid OpenAPI/Swagger specs');
+		}
+		if (!isOpenApiSpec(parsed)) {
+			throw invalid('JSON uploads must be OpenAPI/Swagger specs');
+		}
+		return loadOpenApi(parsed as Record<string, unknown>);
+	}
+
+	const format = upload.format ?? (upload.fileName ? formatForFile(upload.fileName) : 'markdown');
+	if (!format) {
+		throw invalid(`Unsupported file type: ${upload.fileName}`);
+	}
+	// Binary PDFs need pdftotext, which isn't available to the app; the script handles them
+	if (format === 'pdf' && upload.fileName?.toLowerCase().endsWith('.pdf')) {
+		throw invalid(
+			'PDF files must be converted to text first (pdftotext), then uploaded with format "pdf"'
+		);
+	}
+	try {
+		return loadDocument(format, upload.content);
+	} catch (error) {
+		throw invalid(error instanceof Error ? error.message : 'Could not read the document');
+	}
+};
+
+export class RagDocumentService {
+	private dbUrl: string;
+	private cohere: CohereClientV2;
+	private access: RagAccessScope;
+
+	// Listings only show documents `access` can retrieve; without it, shared documents only
+	constructor(
+		databaseUrl: string,
+		cohereApiKey: string,
+		access: RagAccessScope = SHARED_RAG_ACCESS
+	) {
+		this.dbUrl = databaseUrl;
+		this.cohere = new CohereClientV2({ token: cohereApiKey });
+		this.access = access;
+	}
+
+	private get pool() {
+		return getRagPool(this.dbUrl);
+	}
+
+	// Cached answers citing the document are stale once its chunks change
+	private async index(doc: RagInputDocument, options: RagIndexOptions = {}) {
+		const result = await indexDocument(this.pool, this.cohere, doc, DEFAULT_INDEX_CONFIG, options);
+		if (result.status === 'indexed') {
+			await invalidateCachedAnswers(this.pool, [doc.id]);
+		}
+		return result;
+	}
+
+	async listDocuments(
+		filters: RagDocumentFilters = {},
+		options: { limit?: number; offset?: number } = {}
+	): Promise<{ documents: RagDocumentSummary[]; total: number }> {
+		const params: unknown[] = [];
+		const clauses: string[] = [];
+		for (const field of RAG_DOCUMENT_FILTERS) {
+			if (filters[field]) {
+				params.push(filters[field]);
+				clauses.push(`d.${field} = $${params.length}`);
+			}
+		}
+		if (filters.search) {
+			params.push(`%${filters.search}%`);
+			clauses.push(`(d.id ILIKE $${params.length} OR d.title ILIKE $${params.length})`);
+		}
+		const where = `WHERE ${['TRUE', ...clauses].join(' AND ')} ${buildAccessClause(this.access, params, 'd')}`;
+		const limit = Math.min(Math.max(Math.floor(options.limit || 50), 1), MAX_LIST_LIMIT);
+		const offset = Math.max(Math.floor(options.offset || 0), 0);
+
+		const [rows, count] = await Promise.all([
+			this.pool.query(
+				`SELECT ${SUMMARY_COLUMNS} FROM documents d ${where}
+				 ORDER BY COALESCE(d.indexed_at, d.updated_at) DESC NULLS LAST, d.id
+				 LIMIT ${limit} OFFSET ${offset}`,
+				params
+			),
+			this.pool.query(`SELECT COUNT(*)::int AS total FROM documents d ${where}`, params)
+		]);
+		return { documents: rows.rows as RagDocumentSummary[], total: count.rows[0]?.total ?? 0 };
+	}
+
+	/**
+	 * Distinct values of each filterable column, for filter dropdowns
+	 */
+	async getFacets(): Promise<RagDocumentFacets> {
+		const entries = await Promise.all(
+			RAG_DOCUMENT_FILTERS.map(async (field) => {
+				const params: unknown[] = [];
+				const accessClause = buildAccessClause(this.access, params, 'd');
+				const result = await this.pool.query(
+					`SELECT DISTINCT d.${field} AS value FROM documents d
+					 WHERE d.${field} IS NOT NULL ${accessClause} ORDER BY 1`,
+					params
+				);
+				return [field, result.rows.map((row) => String(row.value))] as const;
+			})
+		);
+		return Object.fromEntries(entries) as RagDocumentFacets;
+	}
+
+	async getDocument(id: string): Promise<RagDocumentSummary | null> {
+		const params: unknown[] = [id];
+		const accessClause = buildAccessClause(this.access, params, 'd');
+		const result = await this.pool.query(
+			`SELECT ${SUMMARY_COLUMNS} FROM documents d WHERE d.id = $1 ${accessClause}`,
+			params
+		);
+		return (result.rows[0] as RagDocumentSummary) ?? null;
+	}
+
+	/**
+	 * The document as it was last indexed, or null when it predates stored sources
+	 */
+	private async getStoredInput(id: string): Promise<RagInputDocument | null> {
+		const result = await this.pool.query(
+			`SELECT id, title, source_type, external_url, version, product, language, tenant_id,
+				metadata, source_content, source_sections, occurred_at
+			 FROM documents WHERE id = $1`,
+			[id]
+		);
+		const row = result.rows[0];
+		if (!row) throw notFound(id);
+		if (row.source_content === null) return null;
+
+		const doc: RagInputDocument = {
+			id: row.id,
+			content: row.source_content,
+			sections: (row.source_sections as LoadedSection[] | null) ?? undefined,
+			metadata: row.metadata ?? undefined,
+			occurred_at: row.occurred_at ? new Date(row.occurred_at).toISOString() : undefined
+		};
+		for (const field of RAG_DOCUMENT_FIELDS) {
+			if (row[field]) doc[field] = row[field];
+		}
+		return doc;
+	}
+
+	async uploadDocument(upload: RagDocumentUpload): Promise<RagIndexResult> {
+		const id = (upload.id || upload.fileName || '').trim();
+		if (!id) throw invalid('A document id or file name is required');
+		if (!upload.content.trim()) throw invalid('The document is empty');
+
+		const loaded = loadUpload(upload);
+		if (!loaded.content.trim()) throw invalid('No text could be extracted from the document');
+
+		const doc: RagInputDocument = {
+			id,
+			title: loaded.title,
+			source_type: loaded.source_type,
+			content: loaded.content,
+			sections: loaded.sections,
+			metadata: {
+				...loaded.metadata,
+				...(upload.fileName ? { source_file: upload.fileName } : {})
+			}
+		};
+		// Explicit fields win over what the loader found (e.g. a title from <title>)
+		for (const [field, value] of Object.entries(cleanFields(upload))) {
+			if (value) doc[field as keyof RagDocumentFields] = value;
+		}
+		doc.title ||= upload.fileName || id;
+
+		return this.index(doc);
+	}
+
+	/**
+	 * Change a document's fields. Chunks carry version/product/language/tenant_id too, so they are
+	 * updated with it; only a content change would need new embeddings.
+	 */
+	async updateDocument(id: string, fields: RagDocumentFields): Promise<RagDocumentSummary> {
+		const changes = cleanFields(fields);
+		const stored = await this.getStoredInput(id);
+
+		if (stored) {
+			const doc = { ...stored };
+			for (const field of RAG_DOCUMENT_FIELDS) {
+				if (field in changes) doc[field] = changes[field];
+			}
+			await this.index(doc);
+		} else {
+			await this.updateColumns(id, changes);
+			await invalidateCachedAnswers(this.pool, [id]);
+		}
+
+		const summary = await this.getDocument(id);
+		if (!summary) throw notFound(id);
+		return summary;
+	}
+
+	// Documents indexed before sources were stored can't be re-chunked, so update rows in place
+	private async updateColumns(id: string, changes: RagDocumentFields) {
+		const fields = RAG_DOCUMENT_FIELDS.filter((field) => field in changes);
+		if (fields.length === 0) return;
+
+		const client = await this.pool.connect();
+		try {
+			await client.query('BEGIN');
+			const values = fields.map((field) => changes[field] ?? null);
+			await client.query(
+				`UPDATE documents SET ${fields.map((f, i) => `${f} = $${i + 2}`).join(', ')}, updated_at = NOW()
+				 WHERE id = $1`,
+				[id, ...values]
+			);
+
+			const chunkFields = fields.filter((field) =>
+				['version', 'product', 'language', 'tenant_id'].includes(field)
+			);
+			if (chunkFields.length > 0) {
+				await client.query(
+					`UPDATE chunks SET ${chunkFields.map((f, i) => `${f} = $${i + 2}`).join(', ')}, updated_at = NOW()
+					 WHERE doc_id = $1`,
+					[id, ...chunkFields.map((field) => changes[field] ?? null)]
+				);
+			}
+			await client.query('COMMIT');
+		} catch (error) {
+			await client.query('ROLLBACK');
+			throw error;
+		} finally {
+			client.release();
+		}
+	}
+
+	/**
+	 * Re-chunk a document from its stored source with the current chunking settings. Unchanged
+	 * chunks keep their embeddings.
+	 */
+	async reindexDocument(id: string): Promise<RagIndexResult> {
+		const stored = await this.getStoredInput(id);
+		if (!stored) {
+			throw new AppError(
+				`Document ${id} was indexed before sources were stored; upload it again to re-index`,
+				ErrorCode.VALIDATION_ERROR,
+				{ statusCode: 409 }
+			);
+		}
+		return this.index(stored, { force: true });
+	}
+
+	async deleteDocument(id: string): Promise<void> {
+		// Chunks go with it (ON DELETE CASCADE)
+		const result = await this.pool.query(`DELETE FROM documents WHERE id = $1`, [id]);
+		if (result.rowCount === 0) throw notFound(id);
+		await invalidateCachedAnswers(this.pool, [id]);
+	}
+}
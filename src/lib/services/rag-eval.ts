@@ -0,0 +1,250 @@
+/**
+ * Offline retrieval evaluation – runs labeled questions through RagRetrievalService
+ * for each config in a grid and scores the ranking against the expected chunks/documents.
+ * Must stay free of SvelteKit-only imports so it can run from bun scripts.
+ */
+
+import { DEFAULT_RAG_CONFIG, type RagConfig } from './rag-config';
+import type { RagHistoryMessage } from './rag-query';
+import { RagRetrievalService, type RagChunk, type RagFilters } from './rag-retrieval';
+import { UNRESTRICTED_RAG_ACCESS } from './rag-access';
+
+export type GoldenQuestion = {
+	id: string;
+	question: string;
+	filters?: RagFilters;
+	history?: RagHistoryMessage[]; // preceding chat turns, for follow-up questions
+	// Label at chunk or document level; chunk labels take precedence when both are given
+	expected_chunk_ids?: string[];
+	expected_doc_ids?: string[];
+};
+
+export type RagConfigGrid = { [K in keyof RagConfig]?: RagConfig[K][] };
+
+export type StageLatency = {
+	rewrite_ms: number;
+	embed_ms: number;
+	dense_ms: number;
+	sparse_ms: number;
+	fusion_ms: number;
+	rerank_ms: number;
+	expand_ms: number;
+	total_ms: number;
+};
+
+export type QuestionResult = {
+	id: string;
+	recall: Record<number, number>; // k -> recall@k
+	reciprocal_rank: number;
+	ndcg: Record<number, number>;
+	retrieved: string[]; // ranked ids at the label's granularity
+	latency: StageLatency;
+	error?: string;
+};
+
+export type ConfigResult = {
+	config: RagConfig;
+	recall: Record<number, number>;
+	mrr: number;
+	ndcg: Record<number, number>;
+	latency_mean: StageLatency;
+	latency_p95: StageLatency;
+	failed: number;
+	questions: QuestionResult[];
+};
+
+export const DEFAULT_EVAL_KS = [1, 3, 5, 10];
+
+const STAGES: Array<keyof StageLatency> = [
+	'rewrite_ms',
+	'embed_ms',
+	'dense_ms',
+	'sparse_ms',
+	'fusion_ms',
+	'rerank_ms',
+	'expand_ms',
+	'total_ms'
+];
+
+/**
+ * Every combination of the grid's values, applied over the base config
+ */
+export const expandConfigGrid = (
+	grid: RagConfigGrid,
+	base: RagConfig = DEFAULT_RAG_CONFIG
+): RagConfig[] => {
+	let configs: RagConfig[] = [{ ...base }];
+	for (const [key, values] of Object.entries(grid) as Array<
+		[keyof RagConfig, RagConfig[keyof RagConfig][]]
+	>) {
+		if (!values?.length) continue;
+		configs = configs.flatMap((config) => values.map((value) => ({ ...config, [key]: value })));
+	}
+	return configs;
+};
+
+/**
+ * Ranked ids at the granularity the question is labeled with: chunk ids when chunk labels exist,
+ * otherwise document ids (first occurrence only).
+ */
+const rankedIds = (question: GoldenQuestion, ranked: RagChunk[]): string[] => {
+	if (question.expected_chunk_ids?.length) {
+		return ranked.map((chunk) => chunk.id);
+	}
+	return [...new Set(ranked.map((chunk) => chunk.doc_id))];
+};
+
+const expectedIds = (question: GoldenQuestion): Set<string> =>
+	new Set(
+		question.expected_chunk_ids?.length
+			? question.expected_chunk_ids
+			: (question.expected_doc_ids ?? [])
+	);
+
+export const recallAtK = (retrieved: string[], expected: Set<string>, k: number): number => {
+	if (expected.size === 0) return 0;
+	const hits = retrieved.slice(0, k).filter((id) => expected.has(id)).length;
+	return hits / expected.size;
+};
+
+export const reciprocalRank = (retrieved: string[], expected: Set<string>): number => {
+	const index = retrieved.findIndex((id) => expected.has(id));
+	return index === -1 ? 0 : 1 / (index + 1);
+};
+
+// Binary relevance: every expected id has gain 1
+export const ndcgAtK = (retrieved: string[], expected: Set<string>, k: number): number => {
+	const dcg = retrieved
+		.slice(0, k)
+		.reduce((sum, id, i) => (expected.has(id) ? sum + 1 / Math.log2(i + 2) : sum), 0);
+	let idcg = 0;
+	for (let i = 0; i < Math.min(expected.size, k); i += 1) {
+		idcg += 1 / Math.log2(i + 2);
+	}
+	return idcg === 0 ? 0 : dcg / idcg;
+};
+
+const mean = (values: number[]) =>
+	values.length === 0 ? 0 : values.reduce((a, b) => a + b, 0) / values.length;
+
+const percentile = (values: number[], p: number) => {
+	if (values.length === 0) return 0;
+	const sorted = [...values].sort((a, b) => a - b);
+	return sorted[Math.min(sorted.length - 1, Math.ceil((p / 100) * sorted.length) - 1)];
+};
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+const aggregateLatency = (
+	results: QuestionResult[],
+	fn: (values: number[]) => number
+): StageLatency =>
+	Object.fromEntries(
+		STAGES.map((stage) => [stage, Math.round(fn(results.map((r) => r.latency[stage])))])
+	) as StageLatency;
+
+/**
+ * Score one config over the golden set. Questions run sequentially so latencies are comparable.
+ */
+export const evaluateConfig = async (
+	databaseUrl: string,
+	cohereApiKey: string,
+	config: RagConfig,
+	questions: GoldenQuestion[],
+	ks: number[] = DEFAULT_EVAL_KS
+): Promise<ConfigResult> => {
+	// Golden sets span tenants, so evaluation searches the whole corpus
+	const service = new RagRetrievalService(
+		databaseUrl,
+		cohereApiKey,
+		config,
+		UNRESTRICTED_RAG_ACCESS
+	);
+	const results: QuestionResult[] = [];
+
+	for (const question of questions) {
+		const expected = expectedIds(question);
+		try {
+			const { ranked, metrics } = await service.retrieveDetailed(
+				question.question,
+				question.filters ?? {},
+				question.history ?? []
+			);
+			const retrieved = rankedIds(question, ranked);
+			results.push({
+				id: question.id,
+				recall: Object.fromEntries(ks.map((k) => [k, recallAtK(retrieved, expected, k)])),
+				reciprocal_rank: reciprocalRank(retrieved, expected),
+				ndcg: Object.fromEntries(ks.map((k) => [k, ndcgAtK(retrieved, expected, k)])),
+				retrieved,
+				latency: {
+					rewrite_ms: metrics.rewrite_ms,
+					embed_ms: metrics.embed_ms ?? 0,
+					dense_ms: metrics.dense_ms ?? 0,
+					sparse_ms: metrics.sparse_ms ?? 0,
+					fusion_ms: metrics.fusion_ms ?? 0,
+					rerank_ms: metrics.rerank_ms ?? 0,
+					expand_ms: metrics.expand_ms,
+					total_ms: metrics.total_ms ?? 0
+				}
+			});
+		} catch (error) {
+			results.push({
+				id: question.id,
+				recall: Object.fromEntries(ks.map((k) => [k, 0])),
+				reciprocal_rank: 0,
+				ndcg: Object.fromEntries(ks.map((k) => [k, 0])),
+				retrieved: [],
+				latency: Object.fromEntries(STAGES.map((s) => [s, 0])) as StageLatency,
+				error: error instanceof Error ? error.message : String(error)
+			});
+		}
+	}
+
+	// Failed questions count as misses in quality metrics but are left out of latency stats
+	const succeeded = results.filter((r) => !r.error);
+	return {
+		config,
+		recall: Object.fromEntries(ks.map((k) => [k, round(mean(results.map((r) => r.recall[k])))])),
+		mrr: round(mean(results.map((r) => r.reciprocal_rank))),
+		ndcg: Object.fromEntries(ks.map((k) => [k, round(mean(results.map((r) => r.ndcg[k])))])),
+		latency_mean: aggregateLatency(succeeded, mean),
+		latency_p95: aggregateLatency(succeeded, (values) => percentile(values, 95)),
+		failed: results.length - succeeded.length,
+		questions: results
+	};
+};
+
+/**
+ * Validate and normalize a golden set loaded from JSON / JSONL
+ */
+export const parseGoldenSet = (entries: unknown[]): GoldenQuestion[] =>
+	entries.map((entry, index) => {
+		const item = (entry ?? {}) as Record<string, unknown>;
+		const question = typeof item.question === 'string' ? item.question.trim() : '';
+		const chunkIds = Array.isArray(item.expected_chunk_ids)
+			? item.expected_chunk_ids.map(String)
+			: [];
+		const docIds = Array.isArray(item.expected_doc_ids) ? item.expected_doc_ids.map(String) : [];
+		const history = Array.isArray(item.history)
+			? (item.history as RagHistoryMessage[]).filter(
+					(message) => typeof message?.role === 'string' && typeof message.content === 'string'
+				)
+			: [];
+
+		if (!question) {
+			throw new Error(`Golden question ${index + 1} has no question`);
+		}
+		if (chunkIds.length === 0 && docIds.length === 0) {
+			throw new Error(`Golden question ${index + 1} has no expected_chunk_ids or expected_doc_ids`);
+		}
+
+		return {
+			id: typeof item.id === 'string' && item.id ? item.id : `q${index + 1}`,
+			question,
+			filters: (item.filters as RagFilters | undefined) ?? undefined,
+			history: history.length ? history : undefined,
+			expected_chunk_ids: chunkIds.length ? chunkIds : undefined,
+			expected_doc_ids: docIds.length ? docIds : undefined
+		};
+	});
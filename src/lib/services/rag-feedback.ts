@@ -0,0 +1,295 @@
+/**
+ * Answer feedback: every served answer is recorded with the chunks behind it, users rate it
+ * up or down, ops review the lowest-rated questions and promote them into the golden set used by
+ * the offline evaluation harness (rag-eval.ts).
+ */
+
+import { AppError, ErrorCode } from '$lib/utils/errors';
+import type { GoldenQuestion } from './rag-eval';
+import { getRagPool, type RagChunk, type RagFilters } from './rag-retrieval';
+
+export type RagAnswerSource = 'rag_ask' | 'fireflies';
+
+export type RagAnswerChunk = {
+	id: string;
+	doc_id: string;
+	score_rerank: number | null; // null for neighbors and cached answers
+};
+
+export type RagAnswerRecord = {
+	id: string;
+	source: RagAnswerSource;
+	user_email?: string;
+	question: string;
+	answer: string;
+	filters?: RagFilters;
+	chunks: RagAnswerChunk[];
+	cached?: boolean;
+};
+
+export type RagRating = 1 | -1;
+
+export type RagRatedQuestion = {
+	question: string;
+	up: number;
+	down: number;
+	comments: string[]; // latest first
+	last_rated_at: string;
+	latest_answer: {
+		id: string;
+		answer: string;
+		filters: RagFilters;
+		sources: Array<RagAnswerChunk & { title: string | null; section: string | null }>;
+	};
+	promoted: boolean; // already in the golden set
+};
+
+type Queryable = {
+	query: (sql: string, params: unknown[]) => Promise<{ rows: unknown[]; rowCount?: number | null }>;
+};
+
+const MAX_COMMENT_LENGTH = 2000;
+
+const invalid = (message: string) =>
+	new AppError(message, ErrorCode.VALIDATION_ERROR, { statusCode: 400 });
+
+export const toAnswerChunks = (chunks: RagChunk[]): RagAnswerChunk[] =>
+	chunks.map((chunk) => ({
+		id: chunk.id,
+		doc_id: chunk.doc_id,
+		score_rerank: chunk.score_rerank ?? null
+	}));
+
+/**
+ * Parse a rating as sent by clients: 'up' | 'down' or 1 | -1
+ */
+export const parseRating = (value: unknown): RagRating | null => {
+	if (value === 'up' || value === 1) return 1;
+	if (value === 'down' || value === -1) return -1;
+	return null;
+};
+
+/**
+ * Record a served answer so it can be rated. Best-effort: answering never fails on this.
+ */
+export const recordAnswer = async (db: Queryable, record: RagAnswerRecord): Promise<void> => {
+	try {
+		await db.query(
+			`INSERT INTO rag_answers (id, source, user_email, question, answer, filters, chunks, cached)
+			 VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+			[
+				record.id,
+				record.source,
+				record.user_email ?? null,
+				record.question,
+				record.answer,
+				JSON.stringify(record.filters ?? {}),
+				JSON.stringify(record.chunks),
+				record.cached ?? false
+			]
+		);
+	} catch (error) {
+		console.warn(
+			'[RagFeedback] Recording answer failed:',
+			error instanceof Error ? error.message : error
+		);
+	}
+};
+
+export class RagFeedbackService {
+	private dbUrl: string;
+
+	constructor(databaseUrl: string) {
+		this.dbUrl = databaseUrl;
+	}
+
+	private get pool() {
+		return getRagPool(this.dbUrl);
+	}
+
+	/**
+	 * Rate an answer the user was served. Rating again replaces the earlier rating.
+	 */
+	async rateAnswer(
+		answerId: string,
+		userEmail: string,
+		rating: RagRating,
+		comment?: string
+	): Promise<void> {
+		const trimmed = comment?.trim().slice(0, MAX_COMMENT_LENGTH) || null;
+		const result = await this.pool.query(
+			`UPDATE rag_answers SET rating = $3, comment = $4, rated_at = NOW()
+			 WHERE id = $1 AND lower(user_email) = lower($2)`,
+			[answerId, userEmail, rating, trimmed]
+		);
+		if (result.rowCount === 0) {
+			throw new AppError(`Answer not found: ${answerId}`, ErrorCode.NOT_FOUND, { statusCode: 404 });
+		}
+	}
+
+	/**
+	 * Questions with at least one thumbs-down, worst net rating first, grouped case-insensitively.
+	 * Each comes with its most recently rated answer and that answer's sources.
+	 */
+	async listLowestRated(
+		options: { limit?: number; from?: string } = {}
+	): Promise<RagRatedQuestion[]> {
+		const limit = Math.min(Math.max(Math.floor(options.limit || 50), 1), 200);
+		const params: unknown[] = [limit];
+		let fromClause = '';
+		if (options.from) {
+			params.push(options.from);
+			fromClause = `AND rated_at >= $${params.length}`;
+		}
+
+		const grouped = await this.pool.query(
+			`SELECT
+				MIN(question) AS question,
+				COUNT(*) FILTER (WHERE rating = 1)::int AS up,
+				COUNT(*) FILTER (WHERE rating = -1)::int AS down,
+				COALESCE((ARRAY_AGG(comment ORDER BY rated_at DESC) FILTER (WHERE comment IS NOT NULL))[1:5], '{}') AS comments,
+				MAX(rated_at) AS last_rated_at,
+				(ARRAY_AGG(id ORDER BY rated_at DESC))[1] AS latest_answer_id
+			 FROM rag_answers
+			 WHERE rating IS NOT NULL ${fromClause}
+			 GROUP BY lower(btrim(question))
+			 HAVING COUNT(*) FILTER (WHERE rating = -1) > 0
+			 ORDER BY SUM(rating) ASC, MAX(rated_at) DESC
+			 LIMIT $1`,
+			params
+		);
+		const rows = grouped.rows as Array<
+			Omit<RagRatedQuestion, 'latest_answer' | 'promoted'> & { latest_answer_id: string }
+		>;
+		if (rows.length === 0) return [];
+
+		const answers = await this.pool.query(
+			`SELECT a.id, a.answer, a.filters, a.chunks,
+				EXISTS (
+					SELECT 1 FROM rag_golden_questions g
+					WHERE lower(btrim(g.question)) = lower(btrim(a.question))
+				) AS promoted
+			 FROM rag_answers a WHERE a.id = ANY($1::uuid[])`,
+			[rows.map((row) => row.latest_answer_id)]
+		);
+		const answerRows = answers.rows as Array<{
+			id: string;
+			answer: string;
+			filters: RagFilters;
+			chunks: RagAnswerChunk[];
+			promoted: boolean;
+		}>;
+
+		// Titles come from the live corpus; chunks deleted since show without one
+		const chunkIds = [...new Set(answerRows.flatMap((row) => row.chunks.map((c) => c.id)))];
+		const chunkInfo = await this.pool.query(
+			`SELECT c.id, c.section, d.title FROM chunks c JOIN documents d ON d.id = c.doc_id
+			 WHERE c.id = ANY($1::text[])`,
+			[chunkIds]
+		);
+		const infoById = new Map(
+			(chunkInfo.rows as Array<{ id: string; section: string | null; title: string | null }>).map(
+				(row) => [row.id, row]
+			)
+		);
+		const answerById = new Map(answerRows.map((row) => [row.id, row]));
+
+		return rows.flatMap(({ latest_answer_id, ...row }) => {
+			const answer = answerById.get(latest_answer_id);
+			if (!answer) return [];
+			return [
+				{
+					...row,
+					promoted: answer.promoted,
+					latest_answer: {
+						id: answer.id,
+						answer: answer.answer,
+						filters: answer.filters ?? {},
+						sources: answer.chunks.map((chunk) => ({
+							...chunk,
+							title: infoById.get(chunk.id)?.title ?? null,
+							section: infoById.get(chunk.id)?.section ?? null
+						}))
+					}
+				}
+			];
+		});
+	}
+
+	/**
+	 * Add a rated answer's question to the golden set. Expected chunks default to the answer's
+	 * sources, which only makes sense for well-rated answers; for a thumbs-down, pass the chunks
+	 * or documents that should have been retrieved.
+	 */
+	async promoteToGolden(
+		answerId: string,
+		createdBy: string,
+		expected: { chunk_ids?: string[]; doc_ids?: string[] } = {}
+	): Promise<GoldenQuestion> {
+		const result = await this.pool.query(
+			`SELECT id, question, filters, chunks, rating FROM rag_answers WHERE id = $1`,
+			[answerId]
+		);
+		const answer = result.rows[0] as
+			| {
+					id: string;
+					question: string;
+					filters: RagFilters;
+					chunks: RagAnswerChunk[];
+					rating: RagRating | null;
+			  }
+			| undefined;
+		if (!answer) {
+			throw new AppError(`Answer not found: ${answerId}`, ErrorCode.NOT_FOUND, { statusCode: 404 });
+		}
+
+		const explicit = (expected.chunk_ids?.length ?? 0) + (expected.doc_ids?.length ?? 0) > 0;
+		if (!explicit && answer.rating !== 1) {
+			throw invalid('Choose the expected sources for an answer that was not rated helpful');
+		}
+		const golden: GoldenQuestion = {
+			id: `feedback-${answer.id}`,
+			question: answer.question,
+			filters: answer.filters ?? {},
+			expected_chunk_ids: explicit
+				? (expected.chunk_ids ?? [])
+				: answer.chunks.filter((c) => c.score_rerank !== null).map((c) => c.id),
+			expected_doc_ids: expected.doc_ids ?? []
+		};
+		if (golden.expected_chunk_ids?.length === 0 && golden.expected_doc_ids?.length === 0) {
+			throw invalid('The answer has no sources to use as expected chunks');
+		}
+
+		await this.pool.query(
+			`INSERT INTO rag_golden_questions
+				(id, question, filters, expected_chunk_ids, expected_doc_ids, source_answer_id, created_by)
+			 VALUES ($1, $2, $3, $4, $5, $6, $7)
+			 ON CONFLICT (id) DO UPDATE SET
+				expected_chunk_ids = EXCLUDED.expected_chunk_ids,
+				expected_doc_ids = EXCLUDED.expected_doc_ids,
+				created_by = EXCLUDED.created_by`,
+			[
+				golden.id,
+				golden.question,
+				JSON.stringify(golden.filters),
+				golden.expected_chunk_ids,
+				golden.expected_doc_ids,
+				answer.id,
+				createdBy
+			]
+		);
+		return golden;
+	}
+}
+
+/**
+ * The golden set stored in the database, in the shape parseGoldenSet accepts
+ */
+export const loadStoredGoldenSet = async (db: Queryable): Promise<unknown[]> => {
+	const result = await db.query(
+		`SELECT id, question, filters, expected_chunk_ids, expected_doc_ids
+		 FROM rag_golden_questions ORDER BY created_at`,
+		[]
+	);
+	return result.rows;
+};
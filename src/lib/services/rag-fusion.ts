@@ -0,0 +1,168 @@
+/**
+ * Fusion strategies for combining dense (cosine) and sparse (ts_rank) candidate lists.
+ * The two scores are on unrelated scales, so every strategy either normalizes them per source
+ * or ignores them in favor of ranks.
+ */
+
+import type { RagConfig } from './rag-config';
+import type { RagChunk } from './rag-retrieval';
+
+export const RAG_FUSION_STRATEGIES = ['weighted', 'rrf', 'combmax', 'combmnz'] as const;
+
+export type RagFusionStrategy = (typeof RAG_FUSION_STRATEGIES)[number];
+
+type FusionConfig = Pick<RagConfig, 'fusionWeightDense' | 'fusionWeightSparse' | 'rrfK'>;
+
+type FusionFn = (dense: RagChunk[], sparse: RagChunk[], config: FusionConfig) => RagChunk[];
+
+export type FusionStats = {
+	strategy: RagFusionStrategy;
+	overlap_count: number; // candidates returned by both searches
+	sparse_only_count: number;
+	sparse_in_top_count: number; // sparse-only candidates that made the top `topK` after fusion
+};
+
+/**
+ * Min-max normalize a source's scores to [0, 1]. A single candidate (or all-equal scores) gets 1.
+ */
+const normalizeScores = (
+	chunks: RagChunk[],
+	score: (c: RagChunk) => number
+): Map<string, number> => {
+	const values = chunks.map(score);
+	const min = Math.min(...values);
+	const max = Math.max(...values);
+	return new Map(
+		chunks.map((chunk, i) => [chunk.id, max === min ? 1 : (values[i] - min) / (max - min)])
+	);
+};
+
+/**
+ * Union of both lists keyed by chunk id, keeping each side's raw score on the merged chunk
+ */
+const unionCandidates = (dense: RagChunk[], sparse: RagChunk[]): Map<string, RagChunk> => {
+	const map = new Map<string, RagChunk>();
+	for (const item of dense) {
+		map.set(item.id, { ...item });
+	}
+	for (const item of sparse) {
+		const existing = map.get(item.id);
+		if (existing) {
+			existing.score_sparse = item.score_sparse;
+		} else {
+			map.set(item.id, { ...item });
+		}
+	}
+	return map;
+};
+
+const sortByFused = (chunks: Iterable<RagChunk>) =>
+	Array.from(chunks).sort((a, b) => (b.score_fused ?? 0) - (a.score_fused ?? 0));
+
+// Normalized scores per source, then combined by `combine(denseNorm, sparseNorm, hitCount)`
+const normalizedFusion =
+	(
+		combine: (dense: number, sparse: number, hits: number, config: FusionConfig) => number
+	): FusionFn =>
+	(dense, sparse, config) => {
+		const denseNorm = normalizeScores(dense, (c) => c.score_dense ?? 0);
+		const sparseNorm = normalizeScores(sparse, (c) => c.score_sparse ?? 0);
+		const merged = unionCandidates(dense, sparse);
+
+		for (const item of merged.values()) {
+			const d = denseNorm.get(item.id);
+			const s = sparseNorm.get(item.id);
+			const hits = (d !== undefined ? 1 : 0) + (s !== undefined ? 1 : 0);
+			item.score_fused = combine(d ?? 0, s ?? 0, hits, config);
+		}
+		return sortByFused(merged.values());
+	};
+
+const weightedSum = normalizedFusion(
+	(d, s, _hits, config) => d * config.fusionWeightDense + s * config.fusionWeightSparse
+);
+
+// CombMAX: a candidate is as good as its best normalized source score
+const combMax = normalizedFusion((d, s) => Math.max(d, s));
+
+// CombMNZ: sum of normalized scores, boosted by how many sources found the candidate
+const combMnz = normalizedFusion((d, s, hits) => (d + s) * hits);
+
+// Reciprocal rank fusion: sum of weight / (k + rank); scores are ignored entirely
+const reciprocalRankFusion: FusionFn = (dense, sparse, config) => {
+	const merged = unionCandidates(dense, sparse);
+	const rrf = new Map<string, number>();
+	dense.forEach((chunk, i) => {
+		rrf.set(chunk.id, (rrf.get(chunk.id) ?? 0) + config.fusionWeightDense / (config.rrfK + i + 1));
+	});
+	sparse.forEach((chunk, i) => {
+		rrf.set(chunk.id, (rrf.get(chunk.id) ?? 0) + config.fusionWeightSparse / (config.rrfK + i + 1));
+	});
+
+	for (const item of merged.values()) {
+		item.score_fused = rrf.get(item.id) ?? 0;
+	}
+	return sortByFused(merged.values());
+};
+
+const FUSION_STRATEGIES: Record<RagFusionStrategy, FusionFn> = {
+	weighted: weightedSum,
+	rrf: reciprocalRankFusion,
+	combmax: combMax,
+	combmnz: combMnz
+};
+
+export const isFusionStrategy = (value: unknown): value is RagFusionStrategy =>
+	RAG_FUSION_STRATEGIES.includes(value as RagFusionStrategy);
+
+/**
+ * Fuse dense and sparse candidates with the configured strategy, best first
+ */
+export const fuseCandidates = (
+	dense: RagChunk[],
+	sparse: RagChunk[],
+	strategy: RagFusionStrategy,
+	config: FusionConfig
+): RagChunk[] => FUSION_STRATEGIES[strategy](dense, sparse, config);
+
+/**
+ * Merge the fused rankings of several query variants with reciprocal rank fusion. Each list's
+ * scores come from a different query, so only ranks are comparable across lists.
+ */
+export const mergeRankings = (rankings: RagChunk[][], rrfK: number): RagChunk[] => {
+	if (rankings.length === 1) return rankings[0];
+
+	const merged = new Map<string, RagChunk>();
+	for (const ranking of rankings) {
+		ranking.forEach((chunk, i) => {
+			const existing = merged.get(chunk.id);
+			const score = 1 / (rrfK + i + 1);
+			if (existing) {
+				existing.score_fused = (existing.score_fused ?? 0) + score;
+			} else {
+				merged.set(chunk.id, { ...chunk, score_fused: score });
+			}
+		});
+	}
+	return sortByFused(merged.values());
+};
+
+/**
+ * How much the sparse search contributed to a fused ranking
+ */
+export const getFusionStats = (
+	strategy: RagFusionStrategy,
+	dense: RagChunk[],
+	sparse: RagChunk[],
+	fused: RagChunk[],
+	topK: number
+): FusionStats => {
+	const denseIds = new Set(dense.map((c) => c.id));
+	const sparseOnly = new Set(sparse.filter((c) => !denseIds.has(c.id)).map((c) => c.id));
+	return {
+		strategy,
+		overlap_count: sparse.length - sparseOnly.size,
+		sparse_only_count: sparseOnly.size,
+		sparse_in_top_count: fused.slice(0, topK).filter((c) => sparseOnly.has(c.id)).length
+	};
+};
@@ -0,0 +1,498 @@
+/**
+ * Document indexing for the RAG corpus: chunking, content hashing and incremental writes to the
+ * pgvector `documents`/`chunks` tables. Shared by src/lib/scripts/index-documents.ts and the
+ * document management routes, so it must stay free of SvelteKit-only imports.
+ */
+
+import crypto from 'crypto';
+import type pg from 'pg';
+import type { CohereClientV2 } from 'cohere-ai';
+
+export type RagInputDocument = {
+	id: string;
+	title?: string;
+	source_type?: string;
+	external_url?: string;
+	version?: string;
+	product?: string;
+	language?: string;
+	tenant_id?: string;
+	occurred_at?: string; // ISO date the content refers to (meeting date); filters prefer it to updated_at
+	content: string;
+	// Pre-split sections from a format loader; otherwise content is split on markdown headings.
+	// Section metadata is merged over the document's into each of the section's chunks.
+	sections?: Array<{ section: string; text: string; metadata?: Record<string, unknown> }>;
+	metadata?: Record<string, unknown>;
+};
+
+type InputSection = NonNullable<RagInputDocument['sections']>[number];
+
+type ChunkRecord = {
+	id: string;
+	doc_id: string;
+	section: string;
+	order_index: number;
+	content: string;
+	language?: string;
+	version?: string;
+	product?: string;
+	tenant_id?: string;
+	metadata?: Record<string, unknown>;
+	content_hash: string;
+};
+
+// Chunk row as currently stored, compared against the freshly chunked document
+type StoredChunk = {
+	id: string;
+	section: string | null;
+	order_index: number | null;
+	language: string | null;
+	version: string | null;
+	product: string | null;
+	tenant_id: string | null;
+	metadata: Record<string, unknown> | null;
+	content_hash: string | null;
+};
+
+type ChunkPlan = {
+	inserts: ChunkRecord[];
+	updates: ChunkRecord[];
+	deletes: string[];
+	unchanged: number;
+	toEmbed: ChunkRecord[];
+	// chunk id -> stored chunk whose embedding can be copied (same content)
+	reuse: Map<string, string>;
+};
+
+export type RagIndexConfig = {
+	chunkSizeTokens: number;
+	overlapTokens: number;
+	embedBatchSize: number;
+};
+
+export const DEFAULT_INDEX_CONFIG: RagIndexConfig = {
+	chunkSizeTokens: 300,
+	overlapTokens: 40,
+	embedBatchSize: 48
+};
+
+export const sha256 = (text: string): string =>
+	crypto.createHash('sha256').update(text).digest('hex');
+
+// JSON with sorted keys, so hashes and comparisons don't depend on key order (jsonb reorders keys)
+export const stableStringify = (value: unknown): string => {
+	if (Array.isArray(value)) {
+		return `[${value.map(stableStringify).join(',')}]`;
+	}
+	if (value && typeof value === 'object') {
+		const entries = Object.entries(value as Record<string, unknown>)
+			.filter(([, v]) => v !== undefined)
+			.sort(([a], [b]) => a.localeCompare(b));
+		return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(',')}}`;
+	}
+	return JSON.stringify(value ?? null);
+};
+
+// Chunking settings are part of the hash: changing them must re-chunk every document
+const hashDocument = (doc: RagInputDocument, config: RagIndexConfig): string =>
+	sha256(
+		stableStringify({
+			doc,
+			chunkSizeTokens: config.chunkSizeTokens,
+			overlapTokens: config.overlapTokens
+		})
+	);
+
+const estimateTokens = (text: string): number => {
+	const words = text.trim().split(/\s+/).filter(Boolean);
+	return words.length;
+};
+
+const normalizeWhitespace = (text: string): string => text.replace(/\s+/g, ' ').trim();
+
+const splitByHeadings = (content: string): Array<{ section: string; text: string }> => {
+	const lines = content.split('\n');
+	const sections: Array<{ section: string; text: string }> = [];
+	let currentSection = 'General';
+	let buffer: string[] = [];
+
+	const flush = () => {
+		const text = normalizeWhitespace(buffer.join('\n'));
+		if (text.length > 0) {
+			sections.push({ section: currentSection, text });
+		}
+		buffer = [];
+	};
+
+	for (const line of lines) {
+		const headingMatch = line.match(/^\s{0,3}#{1,6}\s+(.*)$/);
+		if (headingMatch) {
+			flush();
+			currentSection = headingMatch[1].trim();
+		} else {
+			buffer.push(line);
+		}
+	}
+
+	flush();
+	return sections.length > 0
+		? sections
+		: [{ section: 'General', text: normalizeWhitespace(content) }];
+};
+
+const splitIntoChunks = (section: string, text: string, config: RagIndexConfig): string[] => {
+	const paragraphs = text
+		.split(/\n{2,}/)
+		.map((p) => normalizeWhitespace(p))
+		.filter(Boolean);
+	const chunks: string[] = [];
+	let current: string[] = [];
+	let currentTokens = 0;
+
+	const pushChunk = () => {
+		const chunkText = normalizeWhitespace(current.join('\n'));
+		if (chunkText.length > 0) {
+			chunks.push(chunkText);
+		}
+	};
+
+	for (const paragraph of paragraphs) {
+		const paragraphTokens = estimateTokens(paragraph);
+
+		if (currentTokens + paragraphTokens > config.chunkSizeTokens && current.length > 0) {
+			pushChunk();
+			const overlapWords = current.join(' ').split(/\s+/).slice(-config.overlapTokens);
+			current = overlapWords.length > 0 ? [overlapWords.join(' ')] : [];
+			currentTokens = estimateTokens(current.join(' '));
+		}
+
+		current.push(paragraph);
+		currentTokens += paragraphTokens;
+	}
+
+	if (current.length > 0) {
+		pushChunk();
+	}
+
+	return chunks;
+};
+
+export const chunkDocument = (doc: RagInputDocument, config: RagIndexConfig): ChunkRecord[] => {
+	const sections: InputSection[] = doc.sections?.length
+		? doc.sections
+		: splitByHeadings(doc.content);
+	const records: ChunkRecord[] = [];
+	let previousSection: string | null = null;
+	let orderIndex = 0;
+
+	for (const section of sections) {
+		// Consecutive entries with the same name are one section split by the loader (e.g.
+		// transcript turns with their own metadata), so chunk numbering carries on across them
+		if (section.section !== previousSection) orderIndex = 0;
+		previousSection = section.section;
+
+		const chunkTexts = splitIntoChunks(section.section, section.text, config);
+		for (let j = 0; j < chunkTexts.length; j += 1) {
+			const i = orderIndex++;
+			const chunkText = chunkTexts[j];
+			const chunkId = crypto
+				.createHash('sha256')
+				.update(`${doc.id}:${section.section}:${i}:${chunkText.slice(0, 50)}`)
+				.digest('hex');
+
+			records.push({
+				id: chunkId,
+				doc_id: doc.id,
+				section: section.section,
+				order_index: i,
+				content: chunkText,
+				language: doc.language,
+				version: doc.version,
+				product: doc.product,
+				tenant_id: doc.tenant_id,
+				metadata: { ...doc.metadata, ...section.metadata },
+				content_hash: sha256(chunkText)
+			});
+		}
+	}
+
+	return records;
+};
+
+const sameChunkFields = (stored: StoredChunk, record: ChunkRecord): boolean =>
+	stored.section === record.section &&
+	stored.order_index === record.order_index &&
+	stored.language === (record.language || null) &&
+	stored.version === (record.version || null) &&
+	stored.product === (record.product || null) &&
+	stored.tenant_id === (record.tenant_id || null) &&
+	stableStringify(stored.metadata || {}) === stableStringify(record.metadata || {});
+
+/**
+ * Diff a document's new chunks against the stored ones. Only chunks whose content is not
+ * already stored anywhere in the document need a new embedding.
+ */
+const planChunks = (records: ChunkRecord[], stored: StoredChunk[]): ChunkPlan => {
+	const storedById = new Map(stored.map((chunk) => [chunk.id, chunk]));
+	const storedByHash = new Map(
+		stored.filter((chunk) => chunk.content_hash).map((chunk) => [chunk.content_hash, chunk.id])
+	);
+	const plan: ChunkPlan = {
+		inserts: [],
+		updates: [],
+		deletes: [],
+		unchanged: 0,
+		toEmbed: [],
+		reuse: new Map()
+	};
+
+	for (const record of records) {
+		const current = storedById.get(record.id);
+		if (current && current.content_hash === record.content_hash) {
+			if (sameChunkFields(current, record)) {
+				plan.unchanged += 1;
+			} else {
+				plan.updates.push(record);
+				plan.reuse.set(record.id, record.id);
+			}
+			continue;
+		}
+
+		(current ? plan.updates : plan.inserts).push(record);
+		const source = storedByHash.get(record.content_hash);
+		if (source) {
+			plan.reuse.set(record.id, source);
+		} else {
+			plan.toEmbed.push(record);
+		}
+	}
+
+	const newIds = new Set(records.map((record) => record.id));
+	plan.deletes = stored.filter((chunk) => !newIds.has(chunk.id)).map((chunk) => chunk.id);
+	return plan;
+};
+
+const embedChunks = async (
+	cohere: CohereClientV2,
+	chunks: ChunkRecord[],
+	batchSize: number
+): Promise<Map<string, number[]>> => {
+	const embeddings = new Map<string, number[]>();
+
+	for (let i = 0; i < chunks.length; i += batchSize) {
+		const batch = chunks.slice(i, i + batchSize);
+		const embedResponse = await cohere.embed({
+			texts: batch.map((c) => c.content),
+			model: 'embed-english-v3.0',
+			inputType: 'search_document',
+			embeddingTypes: ['float']
+		});
+
+		const vectors =
+			embedResponse.embeddings && 'float' in embedResponse.embeddings
+				? embedResponse.embeddings.float
+				: [];
+		if (!vectors || vectors.length !== batch.length) {
+			throw new Error(
+				`Expected ${batch.length} embeddings from Cohere, got ${vectors?.length ?? 0}`
+			);
+		}
+		batch.forEach((chunk, j) => embeddings.set(chunk.id, vectors[j]));
+	}
+
+	return embeddings;
+};
+
+/**
+ * Apply a document's plan in one transaction. The document hash is written last, so a crash
+ * mid-document leaves it marked as changed and the next run redoes it.
+ */
+const writeDocument = async (
+	pool: pg.Pool,
+	doc: RagInputDocument,
+	docHash: string,
+	plan: ChunkPlan,
+	embeddings: Map<string, number[]>
+) => {
+	const client = await pool.connect();
+	try {
+		await client.query('BEGIN');
+
+		await client.query(
+			`INSERT INTO documents (
+				id, title, source_type, external_url, version, product, language, tenant_id,
+				updated_at, metadata, source_content, source_sections, occurred_at
+			)
+			 VALUES ($1, $2, $3, $4, $5, $6, $7, $8, NOW(), $9, $10, $11, $12)
+			 ON CONFLICT (id) DO UPDATE SET
+			 title = EXCLUDED.title,
+			 source_type = EXCLUDED.source_type,
+			 external_url = EXCLUDED.external_url,
+			 version = EXCLUDED.version,
+			 product = EXCLUDED.product,
+			 language = EXCLUDED.language,
+			 tenant_id = EXCLUDED.tenant_id,
+			 updated_at = NOW(),
+			 metadata = EXCLUDED.metadata,
+			 source_content = EXCLUDED.source_content,
+			 source_sections = EXCLUDED.source_sections,
+			 occurred_at = EXCLUDED.occurred_at`,
+			[
+				doc.id,
+				doc.title || null,
+				doc.source_type || null,
+				doc.external_url || null,
+				doc.version || null,
+				doc.product || null,
+				doc.language || null,
+				doc.tenant_id || null,
+				doc.metadata || {},
+				doc.content,
+				doc.sections ? JSON.stringify(doc.sections) : null,
+				doc.occurred_at || null
+			]
+		);
+
+		// Read reused embeddings before writing anything: their source rows may be rewritten or deleted below
+		const sourceIds = [...new Set(plan.reuse.values())];
+		const stored = new Map<string, string>();
+		if (sourceIds.length > 0) {
+			const result = await client.query(
+				`SELECT id, embedding::text AS embedding FROM chunks WHERE id = ANY($1)`,
+				[sourceIds]
+			);
+			for (const row of result.rows) {
+				stored.set(row.id, row.embedding);
+			}
+		}
+
+		for (const chunk of [...plan.inserts, ...plan.updates]) {
+			const embedding = embeddings.get(chunk.id);
+			const source = plan.reuse.get(chunk.id);
+			await client.query(
+				`INSERT INTO chunks (
+					id, doc_id, section, order_index, content, embedding,
+					language, version, product, tenant_id, updated_at, metadata, content_hash
+				) VALUES (
+					$1, $2, $3, $4, $5, $6,
+					$7, $8, $9, $10, NOW(), $11, $12
+				)
+				ON CONFLICT (id) DO UPDATE SET
+					section = EXCLUDED.section,
+					order_index = EXCLUDED.order_index,
+					content = EXCLUDED.content,
+					embedding = EXCLUDED.embedding,
+					language = EXCLUDED.language,
+					version = EXCLUDED.version,
+					product = EXCLUDED.product,
+					tenant_id = EXCLUDED.tenant_id,
+					updated_at = NOW(),
+					metadata = EXCLUDED.metadata,
+					content_hash = EXCLUDED.content_hash`,
+				[
+					chunk.id,
+					chunk.doc_id,
+					chunk.section,
+					chunk.order_index,
+					chunk.content,
+					embedding ? `[${embedding.join(',')}]` : ((source && stored.get(source)) ?? null),
+					chunk.language || null,
+					chunk.version || null,
+					chunk.product || null,
+					chunk.tenant_id || null,
+					chunk.metadata || {},
+					chunk.content_hash
+				]
+			);
+		}
+
+		if (plan.deletes.length > 0) {
+			await client.query(`DELETE FROM chunks WHERE id = ANY($1)`, [plan.deletes]);
+		}
+
+		await client.query(`UPDATE documents SET content_hash = $2, indexed_at = NOW() WHERE id = $1`, [
+			doc.id,
+			docHash
+		]);
+		await client.query('COMMIT');
+	} catch (error) {
+		await client.query('ROLLBACK');
+		throw error;
+	} finally {
+		client.release();
+	}
+};
+
+export type RagIndexResult = {
+	id: string;
+	status: 'unchanged' | 'planned' | 'indexed';
+	inserts: number;
+	updates: number;
+	deletes: number;
+	unchanged: number; // chunks left as they were
+	embedded: number;
+	reused: number; // written chunks whose embedding was copied instead of recomputed
+};
+
+export type RagIndexOptions = {
+	dryRun?: boolean; // plan only, write nothing
+	force?: boolean; // diff chunks even when the document hash is unchanged
+};
+
+/**
+ * Index one document incrementally. A Cohere client is only needed when chunks must be embedded,
+ * so dry runs can pass null.
+ */
+export const indexDocument = async (
+	pool: pg.Pool,
+	cohere: CohereClientV2 | null,
+	doc: RagInputDocument,
+	config: RagIndexConfig = DEFAULT_INDEX_CONFIG,
+	options: RagIndexOptions = {}
+): Promise<RagIndexResult> => {
+	const docHash = hashDocument(doc, config);
+	if (!options.force) {
+		const stored = await pool.query(`SELECT content_hash FROM documents WHERE id = $1`, [doc.id]);
+		if (stored.rows[0]?.content_hash === docHash) {
+			return {
+				id: doc.id,
+				status: 'unchanged',
+				inserts: 0,
+				updates: 0,
+				deletes: 0,
+				unchanged: 0,
+				embedded: 0,
+				reused: 0
+			};
+		}
+	}
+
+	const storedChunks = await pool.query(
+		`SELECT id, section, order_index, language, version, product, tenant_id, metadata, content_hash
+		 FROM chunks WHERE doc_id = $1`,
+		[doc.id]
+	);
+	const plan = planChunks(chunkDocument(doc, config), storedChunks.rows as StoredChunk[]);
+	const counts = {
+		inserts: plan.inserts.length,
+		updates: plan.updates.length,
+		deletes: plan.deletes.length,
+		unchanged: plan.unchanged,
+		embedded: plan.toEmbed.length,
+		reused: plan.inserts.length + plan.updates.length - plan.toEmbed.length
+	};
+
+	if (options.dryRun) {
+		return { id: doc.id, status: 'planned', ...counts };
+	}
+	if (plan.toEmbed.length > 0 && !cohere) {
+		throw new Error('A Cohere client is required to embed new chunks');
+	}
+
+	const embeddings =
+		plan.toEmbed.length > 0 && cohere
+			? await embedChunks(cohere, plan.toEmbed, config.embedBatchSize)
+			: new Map<string, number[]>();
+	await writeDocument(pool, doc, docHash, plan, embeddings);
+	return { id: doc.id, status: 'indexed', ...counts };
+};
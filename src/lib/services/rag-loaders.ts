@@ -0,0 +1,435 @@
+/**
+ * Document loaders for RAG ingestion. Each loader turns a source format into sections whose names
+ * keep the source's structure (HTML headings, CSV rows, API endpoints, PDF pages), so chunks can be
+ * cited and filtered by where they came from.
+ * Dependency-free and free of SvelteKit imports so both scripts and routes can use it.
+ */
+
+export const RAG_DOCUMENT_FORMATS = ['markdown', 'html', 'text', 'csv', 'openapi', 'pdf'] as const;
+
+export type RagDocumentFormat = (typeof RAG_DOCUMENT_FORMATS)[number];
+
+export type LoadedSection = {
+	section: string;
+	text: string;
+	metadata?: Record<string, unknown>;
+};
+
+export type LoadedDocument = {
+	title?: string;
+	source_type: RagDocumentFormat;
+	content: string;
+	// Absent for markdown, which the indexer splits on its own headings
+	sections?: LoadedSection[];
+	metadata?: Record<string, unknown>;
+};
+
+const EXTENSION_FORMATS: Record<string, RagDocumentFormat> = {
+	md: 'markdown',
+	markdown: 'markdown',
+	html: 'html',
+	htm: 'html',
+	txt: 'text',
+	text: 'text',
+	csv: 'csv',
+	pdf: 'pdf'
+};
+
+const HTTP_METHODS = ['get', 'put', 'post', 'delete', 'patch', 'options', 'head'] as const;
+
+const MAX_SECTION_NAME_LENGTH = 120;
+
+export const isDocumentFormat = (value: unknown): value is RagDocumentFormat =>
+	RAG_DOCUMENT_FORMATS.includes(value as RagDocumentFormat);
+
+/**
+ * Format for a file name. JSON is only a document format when it is an OpenAPI/Swagger spec,
+ * which callers check with isOpenApiSpec.
+ */
+export const formatForFile = (fileName: string): RagDocumentFormat | null => {
+	const extension = fileName.split('.').pop()?.toLowerCase() ?? '';
+	return EXTENSION_FORMATS[extension] ?? null;
+};
+
+export const isOpenApiSpec = (value: unknown): boolean =>
+	!!value &&
+	typeof value === 'object' &&
+	!Array.isArray(value) &&
+	('openapi' in value || 'swagger' in value) &&
+	'paths' in value;
+
+const sectionName = (name: string, fallback: string) => {
+	const trimmed = name.replace(/\s+/g, ' ').trim();
+	return (trimmed || fallback).slice(0, MAX_SECTION_NAME_LENGTH);
+};
+
+// Collapse runs of spaces within lines and runs of blank lines, keeping paragraph breaks.
+// Stripped inline tags leave a space before punctuation ("<b>x</b>."), which is dropped too.
+const tidyText = (text: string) =>
+	text
+		.split('\n')
+		.map((line) =>
+			line
+				.replace(/[ \t\u00a0]+/g, ' ')
+				.replace(/ ([.,;:!?)])/g, '$1')
+				.trim()
+		)
+		.join('\n')
+		.replace(/\n{3,}/g, '\n\n')
+		.trim();
+
+const joinSections = (sections: LoadedSection[]) =>
+	sections.map((s) => `${s.section}\n${s.text}`).join('\n\n');
+
+const document = (
+	source_type: RagDocumentFormat,
+	sections: LoadedSection[],
+	title?: string,
+	metadata?: Record<string, unknown>
+): LoadedDocument => {
+	const nonEmpty = sections.filter((s) => s.text.trim());
+	return {
+		title,
+		source_type,
+		content: joinSections(nonEmpty),
+		sections: nonEmpty,
+		metadata
+	};
+};
+
+// ─── HTML ────────────────────────────────────────────────────
+
+const NAMED_ENTITIES: Record<string, string> = {
+	amp: '&',
+	lt: '<',
+	gt: '>',
+	quot: '"',
+	apos: "'",
+	nbsp: ' ',
+	ndash: '–',
+	mdash: '—',
+	hellip: '…',
+	copy: '©',
+	reg: '®',
+	trade: '™'
+};
+
+const decodeEntities = (text: string) =>
+	text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+		if (entity[0] === '#') {
+			const code =
+				entity[1].toLowerCase() === 'x'
+					? parseInt(entity.slice(2), 16)
+					: parseInt(entity.slice(1), 10);
+			return Number.isFinite(code) ? String.fromCodePoint(code) : match;
+		}
+		return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+	});
+
+const stripTags = (html: string) => decodeEntities(html.replace(/<[^>]+>/g, ' '));
+
+// Tables become one line per row, "Header: value; Header: value", so rows stay self-describing
+const tableToText = (tableHtml: string) => {
+	const rows = [...tableHtml.matchAll(/<tr\b[^>]*>([\s\S]*?)<\/tr>/gi)].map((row) =>
+		[...row[1].matchAll(/<t([hd])\b[^>]*>([\s\S]*?)<\/t\1>/gi)].map((cell) => ({
+			header: cell[1].toLowerCase() === 'h',
+			text: stripTags(cell[2]).replace(/\s+/g, ' ').trim()
+		}))
+	);
+	if (rows.length === 0) return '';
+
+	const headers = rows[0].every((cell) => cell.header) ? rows[0].map((cell) => cell.text) : null;
+	const body = headers ? rows.slice(1) : rows;
+	const lines = body.map((cells) =>
+		cells
+			.map((cell, i) => (headers?.[i] ? `${headers[i]}: ${cell.text}` : cell.text))
+			.filter((value) => value.trim())
+			.join('; ')
+	);
+	return `\n\n${lines.filter(Boolean).join('\n')}\n\n`;
+};
+
+const htmlToText = (html: string) =>
+	tidyText(
+		stripTags(
+			html
+				.replace(/<br\s*\/?>/gi, '\n')
+				.replace(/<li\b[^>]*>/gi, '\n- ')
+				.replace(/<\/?(p|div|section|article|pre|blockquote|ul|ol|dl|dt|dd|tr)\b[^>]*>/gi, '\n\n')
+		)
+	);
+
+export const loadHtml = (html: string): LoadedDocument => {
+	const titleMatch = html.match(/<title\b[^>]*>([\s\S]*?)<\/title>/i);
+	const body = html
+		.replace(/<!--[\s\S]*?-->/g, '')
+		.replace(/<(head|script|style|noscript|svg|template)\b[^>]*>[\s\S]*?<\/\1>/gi, '')
+		.replace(/<table\b[^>]*>([\s\S]*?)<\/table>/gi, (_match, table: string) => tableToText(table));
+
+	// split() with capture groups yields [before, level, heading, content, level, heading, ...]
+	const parts = body.split(/<h([1-6])\b[^>]*>([\s\S]*?)<\/h\1>/i);
+	const sections: LoadedSection[] = [{ section: 'General', text: htmlToText(parts[0]) }];
+	for (let i = 1; i < parts.length; i += 3) {
+		sections.push({
+			section: sectionName(stripTags(parts[i + 1]), 'General'),
+			text: htmlToText(parts[i + 2] ?? '')
+		});
+	}
+
+	const title = titleMatch
+		? stripTags(titleMatch[1]).replace(/\s+/g, ' ').trim()
+		: sections.find((s) => s.section !== 'General')?.section;
+	return document('html', sections, title || undefined);
+};
+
+// ─── Plain text / PDF ────────────────────────────────────────
+
+export const loadText = (text: string): LoadedDocument =>
+	document('text', [{ section: 'General', text: tidyText(text.replace(/\r\n?/g, '\n')) }]);
+
+/**
+ * Text extracted from a PDF (e.g. `pdftotext`), with pages separated by form feeds
+ */
+export const loadPdfText = (text: string): LoadedDocument => {
+	const pages = text.replace(/\r\n?/g, '\n').split('\f');
+	return document(
+		'pdf',
+		pages.map((page, i) => ({ section: `Page ${i + 1}`, text: tidyText(page) })),
+		undefined,
+		{ page_count: pages.filter((page) => page.trim()).length }
+	);
+};
+
+// ─── CSV ─────────────────────────────────────────────────────
+
+/**
+ * RFC 4180 CSV: quoted fields may contain commas, newlines and doubled quotes
+ */
+export const parseCsv = (text: string): string[][] => {
+	const rows: string[][] = [];
+	let row: string[] = [];
+	let field = '';
+	let quoted = false;
+
+	for (let i = 0; i < text.length; i += 1) {
+		const char = text[i];
+		if (quoted) {
+			if (char === '"' && text[i + 1] === '"') {
+				field += '"';
+				i += 1;
+			} else if (char === '"') {
+				quoted = false;
+			} else {
+				field += char;
+			}
+		} else if (char === '"') {
+			quoted = true;
+		} else if (char === ',') {
+			row.push(field);
+			field = '';
+		} else if (char === '\n' || char === '\r') {
+			if (char === '\r' && text[i + 1] === '\n') i += 1;
+			row.push(field);
+			rows.push(row);
+			row = [];
+			field = '';
+		} else {
+			field += char;
+		}
+	}
+	if (field || row.length > 0) {
+		row.push(field);
+		rows.push(row);
+	}
+	return rows.filter((r) => r.some((cell) => cell.trim()));
+};
+
+// One section per row, named by row number and first cell, with "Header: value" lines
+export const loadCsv = (text: string): LoadedDocument => {
+	const [headerRow, ...rows] = parseCsv(text.replace(/^\uFEFF/, ''));
+	if (!headerRow) return document('csv', []);
+	const headers = headerRow.map((header, i) => header.trim() || `Column ${i + 1}`);
+
+	const sections = rows.map((cells, index) => {
+		const first = cells[0]?.trim();
+		return {
+			section: sectionName(
+				first ? `Row ${index + 1}: ${first}` : `Row ${index + 1}`,
+				`Row ${index + 1}`
+			),
+			text: cells
+				.map((cell, i) => [headers[i] ?? `Column ${i + 1}`, cell.trim()])
+				.filter(([, value]) => value)
+				.map(([header, value]) => `${header}: ${value}`)
+				.join('\n')
+		};
+	});
+	return document('csv', sections, undefined, { columns: headers, row_count: rows.length });
+};
+
+// ─── OpenAPI / Swagger ───────────────────────────────────────
+
+type JsonObject = Record<string, unknown>;
+
+const asObject = (value: unknown): JsonObject =>
+	value && typeof value === 'object' && !Array.isArray(value) ? (value as JsonObject) : {};
+
+const asString = (value: unknown) => (typeof value === 'string' ? value : '');
+
+const schemaLabel = (schema: unknown): string => {
+	const s = asObject(schema);
+	if (typeof s.$ref === 'string') return s.$ref.split('/').pop() ?? s.$ref;
+	if (s.type === 'array') return `${schemaLabel(s.items)}[]`;
+	if (Array.isArray(s.enum)) return `enum(${s.enum.join(', ')})`;
+	return asString(s.type) || 'object';
+};
+
+const describeParameters = (parameters: unknown[]) =>
+	parameters.map((raw) => {
+		const p = asObject(raw);
+		// Swagger 2 puts the type on the parameter, OpenAPI 3 on its schema
+		const type = p.schema ? schemaLabel(p.schema) : asString(p.type) || 'string';
+		const flags = [asString(p.in), p.required ? 'required' : 'optional', type].filter(Boolean);
+		const description = asString(p.description);
+		return `- ${asString(p.name)} (${flags.join(', ')})${description ? `: ${description}` : ''}`;
+	});
+
+const describeOperation = (
+	method: string,
+	path: string,
+	operation: JsonObject,
+	pathParameters: unknown[]
+) => {
+	const lines: string[] = [`${method.toUpperCase()} ${path}`];
+	if (operation.summary) lines.push(asString(operation.summary));
+	if (operation.description) lines.push(asString(operation.description));
+	if (operation.operationId) lines.push(`Operation ID: ${asString(operation.operationId)}`);
+	if (Array.isArray(operation.tags) && operation.tags.length) {
+		lines.push(`Tags: ${operation.tags.join(', ')}`);
+	}
+	if (operation.deprecated) lines.push('Deprecated.');
+
+	const parameters = [
+		...pathParameters,
+		...(Array.isArray(operation.parameters) ? operation.parameters : [])
+	];
+	if (parameters.length) {
+		lines.push('Parameters:', ...describeParameters(parameters));
+	}
+
+	const requestContent = asObject(asObject(operation.requestBody).content);
+	const requestTypes = Object.entries(requestContent).map(
+		([type, media]) => `- ${type}: ${schemaLabel(asObject(media).schema)}`
+	);
+	if (requestTypes.length) {
+		lines.push('Request body:', ...requestTypes);
+	}
+
+	const responses = Object.entries(asObject(operation.responses)).map(([status, raw]) => {
+		const response = asObject(raw);
+		const schemas = [
+			...Object.values(asObject(response.content)).map((media) =>
+				schemaLabel(asObject(media).schema)
+			),
+			...(response.schema ? [schemaLabel(response.schema)] : [])
+		];
+		const description = asString(response.description);
+		return `- ${status}${description ? `: ${description}` : ''}${schemas.length ? ` (${[...new Set(schemas)].join(', ')})` : ''}`;
+	});
+	if (responses.length) {
+		lines.push('Responses:', ...responses);
+	}
+	return lines.join('\n');
+};
+
+const describeSchema = (name: string, schema: JsonObject) => {
+	const lines: string[] = [`Schema ${name}`];
+	if (schema.description) lines.push(asString(schema.description));
+	const required = new Set(Array.isArray(schema.required) ? schema.required : []);
+	for (const [property, raw] of Object.entries(asObject(schema.properties))) {
+		const description = asString(asObject(raw).description);
+		lines.push(
+			`- ${property} (${schemaLabel(raw)}${required.has(property) ? ', required' : ''})${description ? `: ${description}` : ''}`
+		);
+	}
+	return lines.join('\n');
+};
+
+/**
+ * OpenAPI 3 or Swagger 2 spec (JSON): an overview section, one section per endpoint ("GET /path")
+ * and one per schema
+ */
+export const loadOpenApi = (spec: string | JsonObject): LoadedDocument => {
+	let parsed: JsonObject;
+	if (typeof spec === 'string') {
+		try {
+			parsed = asObject(JSON.parse(spec));
+		} catch {
+			throw new Error('OpenAPI specs must be JSON; convert YAML specs to JSON first');
+		}
+	} else {
+		parsed = spec;
+	}
+	if (!isOpenApiSpec(parsed)) {
+		throw new Error('Not an OpenAPI/Swagger spec (missing openapi/swagger or paths)');
+	}
+
+	const info = asObject(parsed.info);
+	const servers = Array.isArray(parsed.servers)
+		? parsed.servers.map((server) => asString(asObject(server).url)).filter(Boolean)
+		: parsed.host
+			? [`${asString(parsed.host)}${asString(parsed.basePath)}`]
+			: [];
+	const overview = [
+		asString(info.title),
+		info.version ? `Version: ${asString(info.version)}` : '',
+		asString(info.description),
+		servers.length ? `Servers: ${servers.join(', ')}` : ''
+	].filter(Boolean);
+
+	const sections: LoadedSection[] = [{ section: 'Overview', text: overview.join('\n') }];
+
+	for (const [path, rawItem] of Object.entries(asObject(parsed.paths))) {
+		const item = asObject(rawItem);
+		const pathParameters = Array.isArray(item.parameters) ? item.parameters : [];
+		for (const method of HTTP_METHODS) {
+			if (!item[method]) continue;
+			sections.push({
+				section: sectionName(`${method.toUpperCase()} ${path}`, path),
+				text: describeOperation(method, path, asObject(item[method]), pathParameters)
+			});
+		}
+	}
+
+	const schemas = asObject(asObject(parsed.components).schemas ?? parsed.definitions);
+	for (const [name, schema] of Object.entries(schemas)) {
+		sections.push({ section: `Schema ${name}`, text: describeSchema(name, asObject(schema)) });
+	}
+
+	return document('openapi', sections, asString(info.title) || undefined, {
+		api_version: asString(info.version) || undefined,
+		openapi_version: asString(parsed.openapi ?? parsed.swagger) || undefined
+	});
+};
+
+// ─── Dispatch ────────────────────────────────────────────────
+
+/**
+ * Load text content in the given format. PDFs must already be converted to text.
+ */
+export const loadDocument = (format: RagDocumentFormat, content: string): LoadedDocument => {
+	switch (format) {
+		case 'html':
+			return loadHtml(content);
+		case 'text':
+			return loadText(content);
+		case 'csv':
+			return loadCsv(content);
+		case 'openapi':
+			return loadOpenApi(content);
+		case 'pdf':
+			return loadPdfText(content);
+		case 'markdown':
+			return { source_type: 'markdown', content };
+	}
+};
@@ -14,3 +14,65 @@ Instructions:
 - If any claim is unsupported, rewrite the answer to remove it.
 - Preserve source tags for supported claims.
 `;
+
+export const RAG_QUERY_REWRITE_PROMPT = `You rewrite follow-up questions for a search engine.
+
+Instructions:
+- Using the conversation, rewrite the latest question so it can be understood without the conversation.
+- Resolve pronouns and references like "it", "that meeting" or "the second one" to what they refer to.
+- Keep names, dates, products and other specifics from the conversation that the question depends on.
+- If the question is already standalone, return it unchanged.
+- Return only the rewritten question.
+`;
+
+export const RAG_QUERY_PARAPHRASE_PROMPT = `You generate alternative search queries.
+
+Instructions:
+- Write {count} different phrasings of the question, one per line.
+- Vary vocabulary and use likely synonyms, but keep the meaning and any specifics.
+- Return only the queries, without numbering or commentary.
+`;
+
+export const RAG_HYDE_PROMPT = `You write a short passage that would answer the question, as it might appear in our documents or meeting transcripts.
+
+Instructions:
+- Write one paragraph of at most 100 words.
+- Use plausible terminology; exact facts do not matter.
+- Return only the passage.
+`;
+
+export const RAG_TRANSCRIPT_FILTER_PROMPT = `You extract search filters from questions about recorded meetings. Today is {today}.
+
+Instructions:
+- "speakers": people whose own words the question asks about ("what did Sarah say", "Tom's update on pricing").
+- "participants": people or companies the meetings must include ("meetings with Acme", "calls John attended"). Do not repeat speakers here.
+- "from_date" and "to_date": the period the question is limited to, as YYYY-MM-DD, resolving phrases like "last week", "in March" or "yesterday" against today. Leave them null when no period is mentioned.
+- Use names exactly as written in the question; do not guess surnames or emails.
+- Return only JSON: {"speakers": [], "participants": [], "from_date": null, "to_date": null}
+`;
+
+export const RAG_TRANSCRIPT_QUOTE_PROMPT = `The context comes from meeting transcripts. Each turn starts with its time and speaker, e.g. "[12:34] Sarah Chen: ...".
+
+When the question is about what someone said:
+- Quote the relevant words briefly, attributed to the speaker with the meeting and timestamp, e.g. Sarah Chen (Pricing sync, 12:34): "We can move the migration to May." [S2]
+- Only attribute words to the speaker shown on that turn; if the requested person did not speak about it in the context, say so.
+`;
+
+export const ACTION_ITEM_EXTRACT_PROMPT = `You turn meeting notes into action item records. The meeting was on {meeting_date}.
+
+Instructions:
+- One record per distinct task someone agreed to do. Skip vague intentions and tasks finished during the meeting.
+- "owner": the person responsible, exactly as named in the notes, or null.
+- "due_date": YYYY-MM-DD when a deadline is stated ("by Friday" counts from the meeting date), else null.
+- "customer": the client company the task is for, when the notes or meeting title name one, else null.
+- Return only JSON: {"items": [{"description": "...", "owner": null, "due_date": null, "customer": null}]}
+`;
+
+export const ACTION_ITEM_STATUS_PROMPT = `You check whether open action items from earlier meetings were reported as finished in a later meeting.
+
+Instructions:
+- You get numbered open items, then notes and the transcript of the later meeting.
+- List an item only when the meeting clearly says it was done, or that it was dropped ("cancelled").
+- "evidence": a short quote or paraphrase from the meeting, with the speaker when known.
+- Return only JSON: {"updates": [{"item": 1, "status": "done", "evidence": "..."}]}
+`;
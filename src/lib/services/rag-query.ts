@@ -0,0 +1,223 @@
+/**
+ * Pre-retrieval query planning: rewrite a follow-up into a standalone question using recent chat
+ * history, then optionally expand it into paraphrases or a HyDE-style hypothetical passage.
+ * Every step is best-effort – on failure retrieval falls back to the question as asked.
+ */
+
+import type { CohereClientV2 } from 'cohere-ai';
+import { RAG_CHAT_MODEL, messageText, parseJsonObject } from './rag-answer';
+import type { RagConfig } from './rag-config';
+import type { RagFilters } from './rag-retrieval';
+import {
+	RAG_HYDE_PROMPT,
+	RAG_QUERY_PARAPHRASE_PROMPT,
+	RAG_QUERY_REWRITE_PROMPT,
+	RAG_TRANSCRIPT_FILTER_PROMPT
+} from './rag-prompts';
+
+export const RAG_QUERY_EXPANSIONS = ['none', 'paraphrase', 'hyde'] as const;
+
+export type RagQueryExpansion = (typeof RAG_QUERY_EXPANSIONS)[number];
+
+// Chat turns as stored by chat-history-store; only user/assistant text is used
+export type RagHistoryMessage = {
+	role: string;
+	content?: unknown;
+};
+
+export type RagQueryVariant = {
+	kind: 'query' | 'paraphrase' | 'hyde';
+	text: string;
+};
+
+export type RagQueryPlan = {
+	original: string;
+	standalone: string; // same as original unless the rewrite changed it
+	rewritten: boolean;
+	expansion: RagQueryExpansion;
+	variants: RagQueryVariant[]; // standalone query first
+};
+
+// Filters a question about meetings implies, e.g. "what did Sarah say last week"
+export type RagTranscriptFilters = Pick<
+	RagFilters,
+	'speakers' | 'participants' | 'fromDate' | 'toDate'
+>;
+
+type QueryPlanConfig = Pick<RagConfig, 'queryRewrite' | 'queryExpansion' | 'queryVariants'>;
+
+const HISTORY_TURNS = 6;
+const HISTORY_MESSAGE_CHARS = 1000;
+const MAX_FILTER_NAMES = 5;
+
+export const isQueryExpansion = (value: unknown): value is RagQueryExpansion =>
+	RAG_QUERY_EXPANSIONS.includes(value as RagQueryExpansion);
+
+const formatHistory = (history: RagHistoryMessage[]): string =>
+	history
+		.filter((message) => message.role === 'user' || message.role === 'assistant')
+		.slice(-HISTORY_TURNS)
+		.map((message) => ({
+			role: message.role,
+			text: messageText(message).trim().slice(0, HISTORY_MESSAGE_CHARS)
+		}))
+		.filter((message) => message.text)
+		.map((message) => `${message.role}: ${message.text}`)
+		.join('\n');
+
+const complete = async (cohere: CohereClientV2, system: string, user: string): Promise<string> => {
+	const response = await cohere.chat({
+		model: RAG_CHAT_MODEL,
+		messages: [
+			{ role: 'system', content: system },
+			{ role: 'user', content: user }
+		]
+	});
+	return messageText(response.message).trim();
+};
+
+const rewriteQuery = async (
+	cohere: CohereClientV2,
+	query: string,
+	history: RagHistoryMessage[]
+): Promise<string> => {
+	const conversation = formatHistory(history);
+	if (!conversation) return query;
+
+	const rewritten = await complete(
+		cohere,
+		RAG_QUERY_REWRITE_PROMPT,
+		`Conversation:\n${conversation}\n\nLatest question: ${query}`
+	);
+	return rewritten || query;
+};
+
+const paraphraseQuery = async (
+	cohere: CohereClientV2,
+	query: string,
+	count: number
+): Promise<string[]> => {
+	const text = await complete(
+		cohere,
+		RAG_QUERY_PARAPHRASE_PROMPT.replace('{count}', String(count)),
+		query
+	);
+	const seen = new Set([query.toLowerCase()]);
+	const paraphrases: string[] = [];
+	for (const line of text.split('\n')) {
+		// Models number their lists despite being asked not to
+		const paraphrase = line.replace(/^\s*(?:[-*•]|\d+[.)])\s*/, '').trim();
+		if (paraphrase && !seen.has(paraphrase.toLowerCase())) {
+			seen.add(paraphrase.toLowerCase());
+			paraphrases.push(paraphrase);
+		}
+	}
+	return paraphrases.slice(0, count);
+};
+
+/**
+ * Decide which query texts to retrieve for. Without history, rewrite or expansion this is just
+ * the original query.
+ */
+export const planQuery = async (
+	cohere: CohereClientV2,
+	query: string,
+	history: RagHistoryMessage[],
+	config: QueryPlanConfig
+): Promise<RagQueryPlan> => {
+	let standalone = query;
+	if (config.queryRewrite && history.length > 0) {
+		try {
+			standalone = await rewriteQuery(cohere, query, history);
+		} catch (error) {
+			console.warn('[RagQuery] Rewrite failed:', error instanceof Error ? error.message : error);
+		}
+	}
+
+	const variants: RagQueryVariant[] = [{ kind: 'query', text: standalone }];
+	try {
+		if (config.queryExpansion === 'paraphrase' && config.queryVariants > 0) {
+			const paraphrases = await paraphraseQuery(cohere, standalone, config.queryVariants);
+			variants.push(...paraphrases.map((text) => ({ kind: 'paraphrase' as const, text })));
+		} else if (config.queryExpansion === 'hyde') {
+			const passage = await complete(cohere, RAG_HYDE_PROMPT, standalone);
+			if (passage) {
+				variants.push({ kind: 'hyde', text: passage });
+			}
+		}
+	} catch (error) {
+		console.warn('[RagQuery] Expansion failed:', error instanceof Error ? error.message : error);
+	}
+
+	return {
+		original: query,
+		standalone,
+		rewritten: standalone !== query,
+		expansion: config.queryExpansion,
+		variants
+	};
+};
+
+const nameList = (value: unknown): string[] => {
+	if (!Array.isArray(value)) return [];
+	const seen = new Set<string>();
+	const names: string[] = [];
+	for (const item of value) {
+		const name = typeof item === 'string' ? item.trim() : '';
+		if (name && !seen.has(name.toLowerCase())) {
+			seen.add(name.toLowerCase());
+			names.push(name);
+		}
+	}
+	return names.slice(0, MAX_FILTER_NAMES);
+};
+
+const isoDate = (value: unknown): string | null =>
+	typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(Date.parse(value))
+		? value
+		: null;
+
+/**
+ * Pull speaker names, attendee names and a date range out of a question about meetings, using
+ * the conversation to resolve follow-ups ("and what did she say about pricing?"). Best-effort:
+ * returns no filters when extraction fails or the question names nobody and no period.
+ */
+export const extractTranscriptFilters = async (
+	cohere: CohereClientV2,
+	query: string,
+	history: RagHistoryMessage[] = [],
+	today: Date = new Date()
+): Promise<RagTranscriptFilters> => {
+	const conversation = formatHistory(history);
+	try {
+		const text = await complete(
+			cohere,
+			RAG_TRANSCRIPT_FILTER_PROMPT.replace('{today}', today.toISOString().slice(0, 10)),
+			conversation ? `Conversation:\n${conversation}\n\nLatest question: ${query}` : query
+		);
+		const parsed = parseJsonObject(text);
+		if (!parsed) return {};
+
+		const filters: RagTranscriptFilters = {};
+		const speakers = nameList(parsed.speakers);
+		const speakerKeys = new Set(speakers.map((name) => name.toLowerCase()));
+		const participants = nameList(parsed.participants).filter(
+			(name) => !speakerKeys.has(name.toLowerCase())
+		);
+		if (speakers.length > 0) filters.speakers = speakers;
+		if (participants.length > 0) filters.participants = participants;
+
+		const fromDate = isoDate(parsed.from_date);
+		const toDate = isoDate(parsed.to_date);
+		if (fromDate) filters.fromDate = fromDate;
+		// The end date is inclusive, but the filter compares timestamps
+		if (toDate) filters.toDate = `${toDate}T23:59:59`;
+		return filters;
+	} catch (error) {
+		console.warn(
+			'[RagQuery] Filter extraction failed:',
+			error instanceof Error ? error.message : error
+		);
+		return {};
+	}
+};
@@ -1,15 +1,29 @@
 import pg from 'pg';
 import { CohereClientV2 } from 'cohere-ai';
 import { DEFAULT_RAG_CONFIG, type RagConfig } from './rag-config';
-import { logRagMetrics } from './ops-logger';
+import {
+	SHARED_RAG_ACCESS,
+	accessDenied,
+	buildAccessClause,
+	findAccessViolation,
+	type RagAccessScope,
+} from './rag-access';
+import type { RagMetrics } from './ops-logger';
+import { fuseCandidates, getFusionStats, mergeRankings } from './rag-fusion';
+import { planQuery, type RagHistoryMessage, type RagQueryPlan } from './rag-query';
+import { formatTranscriptTime } from './fireflies';
 
 export type RagFilters = {
 	tenant_id?: string;
 	product?: string;
 	version?: string;
 	language?: string;
-	fromDate?: string;
+	source_type?: string; // e.g. 'fireflies' for meeting transcripts
+	fromDate?: string; // compared with the document's occurred_at, else the chunk's updated_at
 	toDate?: string;
+	// Meeting transcripts: names are matched case-insensitively against any part of a name or email
+	speakers?: string[]; // chunks where any of them speaks
+	participants?: string[]; // meetings every one of them attended
 };
 
 export type RagChunk = {
@@ -21,6 +35,11 @@ export type RagChunk = {
 	external_url?: string | null;
 	title?: string | null;
 	updated_at?: string | null;
+	occurred_at?: string | null;
+	// Meeting transcript chunks only (see TranscriptChunkMetadata)
+	speakers?: string[] | null;
+	start_time?: number | null;
+	end_time?: number | null;
 	score_dense?: number;
 	score_sparse?: number;
 	score_fused?: number;
@@ -35,15 +54,27 @@ export type RagContext = {
 		external_url?: string | null;
 		section?: string | null;
 		updated_at?: string | null;
+		occurred_at?: string | null;
+		tag: string; // S1, S2, ... as cited in the answer
 	}>;
 	chunks: RagChunk[];
 };
 
+export type RagRetrievalResult = RagContext & {
+	// Reranked anchors in score order, then their neighbors - the ranking the context was built from
+	ranked: RagChunk[];
+	plan: RagQueryPlan;
+	metrics: RagMetrics & { rewrite_ms: number; expand_ms: number };
+};
+
 const DEFAULT_CONFIG: RagConfig = DEFAULT_RAG_CONFIG;
 
 let poolInstance: pg.Pool | null = null;
 
-const getPool = (databaseUrl: string) => {
+/**
+ * Shared pool for the RAG corpus database (retrieval and document management)
+ */
+export const getRagPool = (databaseUrl: string) => {
 	if (!poolInstance) {
 		poolInstance = new pg.Pool({
 			connectionString: databaseUrl,
@@ -54,6 +85,22 @@ const getPool = (databaseUrl: string) => {
 	return poolInstance;
 };
 
+/**
+ * Close the shared pool (scripts only, so the process can exit)
+ */
+export const closeRagPool = async () => {
+	if (poolInstance) {
+		await poolInstance.end();
+		poolInstance = null;
+	}
+};
+
+// ILIKE pattern matching the name anywhere in a value
+const namePattern = (name: string) => `%${name.trim().replace(/[\\%_]/g, '\\$&')}%`;
+
+const names = (values: unknown): string[] =>
+	Array.isArray(values) ? values.filter((v): v is string => typeof v === 'string' && !!v.trim()) : [];
+
 const buildFilterClauses = (filters: RagFilters, params: any[]) => {
 	const clauses: string[] = [];
 	let paramIndex = params.length + 1;
@@ -74,77 +121,83 @@ const buildFilterClauses = (filters: RagFilters, params: any[]) => {
 		clauses.push(`c.language = $${paramIndex++}`);
 		params.push(filters.language);
 	}
+	if (filters.source_type) {
+		clauses.push(`d.source_type = $${paramIndex++}`);
+		params.push(filters.source_type);
+	}
 	if (filters.fromDate) {
-		clauses.push(`c.updated_at >= $${paramIndex++}`);
+		clauses.push(`COALESCE(d.occurred_at, c.updated_at) >= $${paramIndex++}`);
 		params.push(filters.fromDate);
 	}
 	if (filters.toDate) {
-		clauses.push(`c.updated_at <= $${paramIndex++}`);
+		clauses.push(`COALESCE(d.occurred_at, c.updated_at) <= $${paramIndex++}`);
 		params.push(filters.toDate);
 	}
-
-	return clauses.length > 0 ? `AND ${clauses.join(' AND ')}` : '';
-};
-
-const mergeCandidates = (
-	dense: RagChunk[],
-	sparse: RagChunk[],
-	weights: { dense: number; sparse: number }
-): RagChunk[] => {
-	const map = new Map<string, RagChunk>();
-
-	for (const item of dense) {
-		map.set(item.id, { ...item });
+	const speakers = names(filters.speakers);
+	if (speakers.length > 0) {
+		clauses.push(`EXISTS (
+			SELECT 1 FROM jsonb_array_elements_text(COALESCE(c.metadata->'speakers', '[]'::jsonb)) AS speaker
+			WHERE speaker ILIKE ANY($${paramIndex++}::text[]))`);
+		params.push(speakers.map(namePattern));
 	}
-	for (const item of sparse) {
-		const existing = map.get(item.id);
-		if (existing) {
-			existing.score_sparse = item.score_sparse;
-			map.set(item.id, existing);
-		} else {
-			map.set(item.id, { ...item });
-		}
+	for (const participant of names(filters.participants)) {
+		// Fireflies lists participants by email, speakers and attendees by name
+		clauses.push(`(EXISTS (
+			SELECT 1 FROM jsonb_array_elements_text(
+				COALESCE(d.metadata->'participants', '[]'::jsonb) || COALESCE(d.metadata->'meeting_speakers', '[]'::jsonb)
+			) AS person
+			WHERE person ILIKE $${paramIndex})
+			OR EXISTS (
+			SELECT 1 FROM jsonb_array_elements(COALESCE(d.metadata->'meeting_attendees', '[]'::jsonb)) AS attendee
+			WHERE concat_ws(' ', attendee->>'name', attendee->>'displayName', attendee->>'email') ILIKE $${paramIndex}))`);
+		paramIndex += 1;
+		params.push(namePattern(participant));
 	}
 
-	const merged = Array.from(map.values()).map((item) => {
-		const denseScore = item.score_dense ?? 0;
-		const sparseScore = item.score_sparse ?? 0;
-		item.score_fused = denseScore * weights.dense + sparseScore * weights.sparse;
-		return item;
-	});
-
-	return merged.sort((a, b) => (b.score_fused ?? 0) - (a.score_fused ?? 0));
+	return clauses.length > 0 ? `AND ${clauses.join(' AND ')}` : '';
 };
 
 export class RagRetrievalService {
 	private cohere: CohereClientV2;
 	private dbUrl: string;
 	private config: RagConfig;
-
-	constructor(databaseUrl: string, cohereApiKey: string, config?: Partial<RagConfig>) {
+	private access: RagAccessScope;
+
+	/**
+	 * `access` limits every query to what the caller may see (see resolveRagAccess);
+	 * without it only shared content is searched.
+	 */
+	constructor(
+		databaseUrl: string,
+		cohereApiKey: string,
+		config?: Partial<RagConfig>,
+		access: RagAccessScope = SHARED_RAG_ACCESS,
+	) {
 		this.cohere = new CohereClientV2({ token: cohereApiKey });
 		this.dbUrl = databaseUrl;
 		this.config = { ...DEFAULT_CONFIG, ...config };
+		this.access = access;
 	}
 
-	private async embedQuery(query: string): Promise<number[]> {
+	private async embedQueries(queries: string[]): Promise<number[][]> {
 		const response = await this.cohere.embed({
-			texts: [query],
+			texts: queries,
 			model: 'embed-english-v3.0',
 			inputType: 'search_query',
 			embeddingTypes: ['float'],
 		});
 		const embeddings = response.embeddings;
-		if (embeddings && 'float' in embeddings && embeddings.float?.length && embeddings.float.length > 0) {
-			return embeddings.float[0];
+		if (embeddings && 'float' in embeddings && embeddings.float?.length === queries.length) {
+			return embeddings.float;
 		}
 		throw new Error('No embeddings returned from Cohere');
 	}
 
 	private async denseSearch(queryEmbedding: number[], filters: RagFilters): Promise<RagChunk[]> {
-		const pool = getPool(this.dbUrl);
+		const pool = getRagPool(this.dbUrl);
 		const params: any[] = [`[${queryEmbedding.join(',')}]`];
 		const filterClause = buildFilterClauses(filters, params);
+		const accessClause = buildAccessClause(this.access, params, 'c');
 		const limitParam = params.length + 1;
 		params.push(this.config.kDense);
 
@@ -156,6 +209,10 @@ export class RagRetrievalService {
 				c.order_index,
 				c.content,
 				c.updated_at,
+				d.occurred_at,
+				c.metadata->'speakers' AS speakers,
+				(c.metadata->>'start_time')::float AS start_time,
+				(c.metadata->>'end_time')::float AS end_time,
 				d.title,
 				d.external_url,
 				1 - (c.embedding <=> $1) AS score_dense
@@ -163,6 +220,7 @@ export class RagRetrievalService {
 			JOIN documents d ON c.doc_id = d.id
 			WHERE c.embedding IS NOT NULL
 			${filterClause}
+			${accessClause}
 			ORDER BY c.embedding <=> $1
 			LIMIT $${limitParam};
 		`;
@@ -172,9 +230,10 @@ export class RagRetrievalService {
 	}
 
 	private async sparseSearch(query: string, filters: RagFilters): Promise<RagChunk[]> {
-		const pool = getPool(this.dbUrl);
+		const pool = getRagPool(this.dbUrl);
 		const params: any[] = [query];
 		const filterClause = buildFilterClauses(filters, params);
+		const accessClause = buildAccessClause(this.access, params, 'c');
 		const limitParam = params.length + 1;
 		params.push(this.config.kSparse);
 
@@ -186,6 +245,10 @@ export class RagRetrievalService {
 				c.order_index,
 				c.content,
 				c.updated_at,
+				d.occurred_at,
+				c.metadata->'speakers' AS speakers,
+				(c.metadata->>'start_time')::float AS start_time,
+				(c.metadata->>'end_time')::float AS end_time,
 				d.title,
 				d.external_url,
 				ts_rank(c.tsv_content, websearch_to_tsquery('english', $1)) AS score_sparse
@@ -193,6 +256,7 @@ export class RagRetrievalService {
 			JOIN documents d ON c.doc_id = d.id
 			WHERE c.tsv_content @@ websearch_to_tsquery('english', $1)
 			${filterClause}
+			${accessClause}
 			ORDER BY score_sparse DESC
 			LIMIT $${limitParam};
 		`;
@@ -224,7 +288,7 @@ export class RagRetrievalService {
 	}
 
 	private async expandNeighbors(anchors: RagChunk[]): Promise<RagChunk[]> {
-		const pool = getPool(this.dbUrl);
+		const pool = getRagPool(this.dbUrl);
 		const expanded = new Map<string, RagChunk>();
 
 		for (const anchor of anchors) {
@@ -236,6 +300,9 @@ export class RagRetrievalService {
 				orderIndexes.push(anchor.order_index - i, anchor.order_index + i);
 			}
 
+			// Neighbors share the anchor's document, but chunks can carry their own tenant/product
+			const params: unknown[] = [anchor.doc_id, anchor.section, orderIndexes];
+			const accessClause = buildAccessClause(this.access, params, 'c');
 			const sql = `
 				SELECT
 					c.id,
@@ -244,6 +311,10 @@ export class RagRetrievalService {
 					c.order_index,
 					c.content,
 					c.updated_at,
+					d.occurred_at,
+					c.metadata->'speakers' AS speakers,
+					(c.metadata->>'start_time')::float AS start_time,
+					(c.metadata->>'end_time')::float AS end_time,
 					d.title,
 					d.external_url
 				FROM chunks c
@@ -251,13 +322,10 @@ export class RagRetrievalService {
 				WHERE c.doc_id = $1
 					AND c.section = $2
 					AND c.order_index = ANY($3::int[])
+					${accessClause}
 			`;
 
-			const result = await pool.query(sql, [
-				anchor.doc_id,
-				anchor.section,
-				orderIndexes,
-			]);
+			const result = await pool.query(sql, params);
 
 			for (const row of result.rows as RagChunk[]) {
 				expanded.set(row.id, row);
@@ -280,6 +348,7 @@ export class RagRetrievalService {
 			external_url: chunk.external_url || null,
 			section: chunk.section || null,
 			updated_at: chunk.updated_at || null,
+			occurred_at: chunk.occurred_at || null,
 			tag: `S${idx + 1}`,
 		}));
 
@@ -287,7 +356,15 @@ export class RagRetrievalService {
 		for (let i = 0; i < sorted.length && i < this.config.maxContextChunks; i += 1) {
 			const chunk = sorted[i];
 			const tag = `S${i + 1}`;
-			contextLines.push(`[#${tag}] ${chunk.title || 'Untitled'} | ${chunk.section || 'General'}`);
+			const date = chunk.occurred_at ? ` | ${new Date(chunk.occurred_at).toISOString().slice(0, 10)}` : '';
+			const speakers = chunk.speakers?.length ? ` | ${chunk.speakers.join(', ')}` : '';
+			const time =
+				chunk.start_time != null
+					? ` | ${formatTranscriptTime(chunk.start_time)}-${formatTranscriptTime(chunk.end_time ?? chunk.start_time)}`
+					: '';
+			contextLines.push(
+				`[#${tag}] ${chunk.title || 'Untitled'} | ${chunk.section || 'General'}${date}${speakers}${time}`,
+			);
 			contextLines.push(chunk.content);
 			contextLines.push('');
 		}
@@ -299,30 +376,104 @@ export class RagRetrievalService {
 		};
 	}
 
-	async retrieve(query: string, filters: RagFilters = {}, userEmail?: string): Promise<RagContext> {
+	async retrieve(
+		query: string,
+		filters: RagFilters = {},
+		userEmail?: string,
+		history: RagHistoryMessage[] = [],
+		extraMetrics: Partial<RagMetrics> = {} // logged with the pipeline metrics, e.g. cache_hit
+	): Promise<RagContext> {
+		// Loaded lazily so offline scripts (no SvelteKit env) can use retrieveDetailed
+		const { logEvent, logRagMetrics } = await import('./ops-logger');
+
+		const violation = findAccessViolation(this.access, filters);
+		if (violation) {
+			logEvent({
+				user_email: userEmail,
+				event_type: 'rag_access',
+				event_action: 'denied',
+				metadata: { reason: violation, filters },
+			});
+			throw accessDenied(violation);
+		}
+
+		const { context, sources, chunks, metrics } = await this.retrieveDetailed(query, filters, history);
+
+		const { rewrite_ms, expand_ms, metadata, ...opsMetrics } = metrics;
+		logRagMetrics({
+			...opsMetrics,
+			...extraMetrics,
+			user_email: userEmail,
+			metadata: { ...metadata, rewrite_ms, expand_ms },
+		});
+
+		return { context, sources, chunks };
+	}
+
+	/**
+	 * Run the full pipeline and return the ranking and per-stage timings without logging them.
+	 * Used by retrieve() and by the offline evaluation harness.
+	 *
+	 * Each query variant (standalone question, paraphrases, HyDE passage) is searched and fused
+	 * separately; the per-variant rankings are then merged by rank and reranked against the
+	 * standalone question.
+	 */
+	async retrieveDetailed(
+		query: string,
+		filters: RagFilters = {},
+		history: RagHistoryMessage[] = []
+	): Promise<RagRetrievalResult> {
+		const violation = findAccessViolation(this.access, filters);
+		if (violation) {
+			throw accessDenied(violation);
+		}
+
 		const t0 = performance.now();
 
-		const embedding = await this.embedQuery(query);
+		const plan = await planQuery(this.cohere, query, history, this.config);
+		const tRewrite = performance.now();
+
+		const embeddings = await this.embedQueries(plan.variants.map((variant) => variant.text));
 		const tEmbed = performance.now();
 
-		const dense = await this.denseSearch(embedding, filters);
+		const denseLists = await Promise.all(
+			embeddings.map((embedding) => this.denseSearch(embedding, filters))
+		);
 		const tDense = performance.now();
 
-		const sparse = await this.sparseSearch(query, filters);
+		// A hypothetical passage is too long for websearch_to_tsquery, which ANDs every term
+		const sparseLists = await Promise.all(
+			plan.variants.map((variant) =>
+				variant.kind === 'hyde' ? Promise.resolve([]) : this.sparseSearch(variant.text, filters)
+			)
+		);
 		const tSparse = performance.now();
 
-		const merged = mergeCandidates(dense, sparse, {
-			dense: this.config.fusionWeightDense,
-			sparse: this.config.fusionWeightSparse,
-		});
-
-		const reranked = await this.rerank(query, merged);
+		const fusedLists = plan.variants.map((_, i) =>
+			fuseCandidates(denseLists[i], sparseLists[i], this.config.fusionStrategy, this.config)
+		);
+		const merged = mergeRankings(fusedLists, this.config.rrfK);
+		const tFusion = performance.now();
+		// Reported for the standalone query, so strategies compare the same way with or without expansion
+		const fusionStats = getFusionStats(
+			this.config.fusionStrategy,
+			denseLists[0],
+			sparseLists[0],
+			fusedLists[0],
+			this.config.rerankTopK
+		);
+
+		const reranked = await this.rerank(plan.standalone, merged);
 		const tRerank = performance.now();
 
 		const expanded = await this.expandNeighbors(reranked);
+		const tExpand = performance.now();
 		const context = this.buildContext(expanded);
 		const tTotal = performance.now();
 
+		const anchorIds = new Set(reranked.map((c) => c.id));
+		const ranked = [...reranked, ...expanded.filter((c) => !anchorIds.has(c.id))];
+
 		// Compute rerank score stats
 		const rerankScores = reranked.map((c) => c.score_rerank ?? 0).filter((s) => s > 0);
 		const avgRerank = rerankScores.length > 0 ? rerankScores.reduce((a, b) => a + b, 0) / rerankScores.length : 0;
@@ -332,25 +483,42 @@ export class RagRetrievalService {
 		// Estimate context tokens (~4 chars per token)
 		const contextTokenEstimate = Math.ceil(context.context.length / 4);
 
-		logRagMetrics({
+		const metrics = {
 			query,
-			user_email: userEmail,
-			embed_ms: Math.round(tEmbed - t0),
+			rewrite_ms: Math.round(tRewrite - t0),
+			embed_ms: Math.round(tEmbed - tRewrite),
 			dense_ms: Math.round(tDense - tEmbed),
 			sparse_ms: Math.round(tSparse - tDense),
-			rerank_ms: Math.round(tRerank - tSparse),
+			fusion_ms: Math.round(tFusion - tSparse),
+			rerank_ms: Math.round(tRerank - tFusion),
+			expand_ms: Math.round(tExpand - tRerank),
 			total_ms: Math.round(tTotal - t0),
-			dense_count: dense.length,
-			sparse_count: sparse.length,
+			dense_count: denseLists.reduce((sum, list) => sum + list.length, 0),
+			sparse_count: sparseLists.reduce((sum, list) => sum + list.length, 0),
 			fused_count: merged.length,
+			fusion_strategy: fusionStats.strategy,
+			fusion_overlap_count: fusionStats.overlap_count,
+			fusion_sparse_only_count: fusionStats.sparse_only_count,
+			fusion_sparse_in_top_count: fusionStats.sparse_in_top_count,
 			reranked_count: reranked.length,
 			final_count: context.chunks.length,
 			avg_rerank_score: Math.round(avgRerank * 1000) / 1000,
 			max_rerank_score: Math.round(maxRerank * 1000) / 1000,
 			min_rerank_score: Math.round(minRerank * 1000) / 1000,
 			context_token_estimate: contextTokenEstimate,
-		});
+			metadata:
+				plan.variants.length > 1 || plan.rewritten
+					? {
+							query_rewrite: {
+								standalone: plan.standalone,
+								rewritten: plan.rewritten,
+								expansion: plan.expansion,
+								variants: plan.variants.slice(1),
+							},
+						}
+					: {},
+		};
 
-		return context;
+		return { ...context, ranked, plan, metrics };
 	}
 }
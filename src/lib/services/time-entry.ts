@@ -3,7 +3,7 @@
 // sends prepared data to n8n for QB/Monday.com
 
 import { CohereClientV2 } from 'cohere-ai';
-import { getTodayEastern } from '$lib/utils/datetime';
+import { DEFAULT_TIME_ZONE, getTodayInZone } from '$lib/utils/datetime';
 import {
 	getEmployeeByName,
 	getCustomerByName,
@@ -29,8 +29,8 @@ export class TimeEntryService {
 		this.model = model;
 	}
 
-	async extractTimeDetails(message: string): Promise<ExtractedTimeData> {
-		const today = getTodayEastern();
+	async extractTimeDetails(message: string, timeZone: string = DEFAULT_TIME_ZONE): Promise<ExtractedTimeData> {
+		const today = getTodayInZone(timeZone);
 
 		const prompt = `Extract time entry details from this message. Return ONLY valid JSON.
 
@@ -123,7 +123,7 @@ Return ONLY the JSON, no other text.`;
 			const [employees, customers] = await Promise.all([getAllEmployees(), getAllCustomers()]);
 
 			const [timeData, entityData] = await Promise.all([
-				this.extractTimeDetails(input.message),
+				this.extractTimeDetails(input.message, input.timeZone),
 				this.extractEntityNames(input.message, input.userName, employees, customers),
 			]);
 
@@ -162,7 +162,7 @@ Return ONLY the JSON, no other text.`;
 				tasks_completed: timeData.tasks_completed,
 				hours: timeData.hours,
 				billable: timeData.billable,
-				entry_date: getTodayEastern(),
+				entry_date: getTodayInZone(input.timeZone || DEFAULT_TIME_ZONE),
 				submitted_by: input.userName,
 				submitted_at: input.localTimestamp,
 			};
@@ -0,0 +1,62 @@
+/**
+ * Confirmation tokens for tools that change existing meetings
+ * The preview call returns a token bound to the user, the meeting and the proposed change; the
+ * call that makes the change must pass it back. A model can't skip the confirmation card by
+ * sending the change straight away, or reuse a token for a different change.
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { env } from '$env/dynamic/private';
+
+const CONFIRMATION_TTL_MS = 15 * 60 * 1000;
+
+// Without AUTH_SECRET, tokens only verify on the server instance that issued them
+const PROCESS_SECRET = randomBytes(32).toString('hex');
+
+export interface ConfirmationScope {
+	user: string;
+	action: string;
+	eventId: string;
+	/** The proposed change, built the same way on the preview and the confirming call */
+	change: Record<string, unknown>;
+}
+
+function sign(scope: ConfirmationScope, expiresAt: number): string {
+	return createHmac('sha256', env.AUTH_SECRET || PROCESS_SECRET)
+		.update(
+			JSON.stringify([
+				scope.user.toLowerCase(),
+				scope.action,
+				scope.eventId,
+				scope.change,
+				expiresAt
+			])
+		)
+		.digest('hex');
+}
+
+/**
+ * Token for the preview result: "<expiry>.<signature>"
+ */
+export function createConfirmationToken(scope: ConfirmationScope, now = Date.now()): string {
+	const expiresAt = now + CONFIRMATION_TTL_MS;
+	return `${expiresAt.toString(36)}.${sign(scope, expiresAt)}`;
+}
+
+/**
+ * Whether a token was issued for exactly this scope and has not expired
+ */
+export function verifyConfirmationToken(
+	token: unknown,
+	scope: ConfirmationScope,
+	now = Date.now()
+): boolean {
+	if (typeof token !== 'string') return false;
+	const [expiry, signature] = token.split('.');
+	const expiresAt = parseInt(expiry, 36);
+	if (!signature || !Number.isFinite(expiresAt) || expiresAt < now) return false;
+
+	const received = Buffer.from(signature, 'hex');
+	const expected = Buffer.from(sign(scope, expiresAt), 'hex');
+	return received.length === expected.length && timingSafeEqual(received, expected);
+}
@@ -1,6 +1,6 @@
 /**
  * Tool Executor
- * Handles all tool call execution (calendar + billing).
+ * Implements the calendar + billing tools declared in tool-registry.ts.
  * Extracted from unified-mcp-server.ts for modularity and testability.
  */
 
@@ -15,18 +15,114 @@ import {
 	type Customer,
 } from './azero-db';
 import {
-	getTodayEastern,
-	formatDateEastern,
-	getEasternOffset,
+	DEFAULT_TIME_ZONE,
+	getTodayInZone,
+	formatDateInZone,
+	getZoneOffset,
+	getTimeZoneLabel,
+	toGraphTimeZone,
+	zonedLocalToDate,
+	formatZonedLocal,
 	parseNaturalDate,
-	convertToEasternTime,
-	formatEasternDateTime,
+	parseTimeString,
 } from '$lib/utils/datetime';
+import { getUserTimeZone } from './user-preferences';
+import type { MicrosoftGraphEvent, MicrosoftGraphRecurrence } from '$lib/types/microsoft-graph';
+import { parseRecurrence, expandRecurrence, describeRecurrence } from '$lib/utils/recurrence';
+import { getRegisteredTool } from './tool-registry';
+import { validateToolArguments, ToolValidationError } from './tool-validation';
+import { createConfirmationToken, verifyConfirmationToken, type ConfirmationScope } from './tool-confirmation';
+import { logEvent } from './ops-logger';
+import type { LoggedInUser } from '$lib/types/user';
+
+// getSchedule accepts at most 20 schedules per call; the day cap keeps the slot scan small
+const MAX_COMMON_SLOT_ATTENDEES = 20;
+const MAX_COMMON_SLOT_DAYS = 14;
+
+// How many occurrences of a new recurring meeting are checked for conflicts
+const RECURRENCE_CHECK_COUNT = 4;
+
+const MEETING_SELECT = 'id,subject,start,end,isAllDay,isCancelled,isOrganizer,organizer,attendees,onlineMeeting';
+
+interface MeetingTime {
+	date: string;
+	/** Wall-clock start in the user's zone, YYYY-MM-DDTHH:MM:SS */
+	start_local: string;
+	day_of_week: string;
+	date_formatted: string;
+	start_time: string;
+	end_time: string;
+	time_zone_label: string;
+	duration_minutes: number;
+}
+
+interface MeetingSummary extends MeetingTime {
+	event_id: string;
+	subject: string;
+	is_all_day: boolean;
+	organizer_name: string;
+	organizer_email: string;
+	is_organizer: boolean;
+	attendees: Array<{
+		name: string;
+		email: string;
+		type: 'required' | 'optional' | 'resource';
+		response: string;
+	}>;
+	teams_link: string | null;
+}
+
+// Arguments of the meeting tools, as declared in their inputSchema (execute() validates them)
+
+/** Either event_id, or a description of the meeting to find */
+export interface MeetingLookupArgs {
+	event_id?: string;
+	meeting_date?: string;
+	meeting_time?: string;
+	meeting_with?: string;
+	meeting_subject?: string;
+	/** From the preview call, once the user has confirmed (see tool-confirmation.ts) */
+	confirmation_token?: string;
+}
+
+export interface ListMyMeetingsArgs {
+	date?: string;
+	days?: number;
+	with?: string;
+}
+
+export interface RescheduleMeetingArgs extends MeetingLookupArgs {
+	new_date?: string;
+	new_start_time: string;
+	new_end_time?: string;
+}
+
+export interface CancelMeetingArgs extends MeetingLookupArgs {
+	comment?: string;
+}
+
+export interface UpdateMeetingAttendeesArgs extends MeetingLookupArgs {
+	add_attendees?: string[];
+	remove_attendees?: string[];
+}
+
+export interface FindCommonSlotArgs {
+	attendees: string[];
+	start_date?: string;
+	end_date?: string;
+	duration_minutes?: number;
+	workday_start?: string;
+	workday_end?: string;
+	quorum?: number;
+	include_me?: boolean;
+	include_weekends?: boolean;
+	max_results?: number;
+}
 
 export class ToolExecutor {
 	private graphService: MicrosoftGraphService;
 	private aiHelper: CalendarAIHelper | null;
-	private loggedInUser: { name: string; email: string } | null;
+	private loggedInUser: LoggedInUser | null;
 	private webhookUrl: string;
 
 	// Caches
@@ -40,7 +136,7 @@ export class ToolExecutor {
 	constructor(
 		graphService: MicrosoftGraphService,
 		aiHelper: CalendarAIHelper | null,
-		loggedInUser: { name: string; email: string } | null,
+		loggedInUser: LoggedInUser | null,
 		webhookUrl: string
 	) {
 		this.graphService = graphService;
@@ -78,18 +174,31 @@ export class ToolExecutor {
 
 	// ==================== DATE/TIME HELPERS ====================
 
+	/** The logged-in user's IANA time zone; all parsing and display happens in it */
+	get timeZone(): string {
+		return this.loggedInUser?.timeZone || DEFAULT_TIME_ZONE;
+	}
+
+	private get timeZoneLabel(): string {
+		return getTimeZoneLabel(this.timeZone);
+	}
+
+	private get timeZoneNote(): string {
+		return `All times are in ${this.timeZoneLabel} (${this.timeZone}), the user's time zone.`;
+	}
+
 	parseDate(dateString: string | undefined | null): string {
-		return parseNaturalDate(dateString);
+		return parseNaturalDate(dateString, this.timeZone);
 	}
 
-	private convertToLocalTime(utcDateTime: string): string {
+	private convertToLocalTime(utcDateTime: string, timeZone: string = this.timeZone): string {
 		const dateStr = utcDateTime.endsWith('Z') ? utcDateTime : utcDateTime + 'Z';
 		const date = new Date(dateStr);
 		return date.toLocaleTimeString('en-US', {
 			hour: 'numeric',
 			minute: '2-digit',
 			hour12: true,
-			timeZone: 'America/New_York',
+			timeZone,
 		});
 	}
 
@@ -101,56 +210,43 @@ export class ToolExecutor {
 			month: 'numeric',
 			day: 'numeric',
 			year: 'numeric',
-			timeZone: 'America/New_York',
+			timeZone: this.timeZone,
 		});
 		const timeStr = date.toLocaleTimeString('en-US', {
 			hour: 'numeric',
 			minute: '2-digit',
 			hour12: true,
-			timeZone: 'America/New_York',
+			timeZone: this.timeZone,
 		});
 		return `${dateStr} ${timeStr}`;
 	}
 
-	private getEasternOffset(dateStr: string): string {
-		return getEasternOffset(dateStr);
+	private getZoneOffset(dateStr: string): string {
+		return getZoneOffset(dateStr, this.timeZone);
 	}
 
 	// ==================== TOOL EXECUTION ====================
 
 	async execute(name: string, args: Record<string, any>): Promise<any> {
-		try {
-			switch (name) {
-				case 'get_users_with_name_and_email':
-					return await this.getCachedUsers();
-
-				case 'check_availability':
-					return await this.executeCheckAvailability(args);
-
-				case 'get_free_slots':
-					return await this.executeGetFreeSlots(args);
-
-				case 'book_meeting':
-					return await this.executeBookMeeting(args);
-
-				case 'lookup_employee':
-					return await this.executeLookupEmployee(args);
-
-				case 'lookup_customer':
-					return await this.executeLookupCustomer(args);
-
-				case 'list_employees':
-					return await this.executeListEmployees();
-
-				case 'list_customers':
-					return await this.executeListCustomers();
+		const tool = getRegisteredTool(name);
+		if (!tool) {
+			throw new Error(`Tool execution error: Unknown tool: ${name}`);
+		}
 
-				case 'submit_time_entry':
-					return await this.executeSubmitTimeEntry(args);
+		const validation = validateToolArguments(tool.inputSchema, args);
+		if (validation.issues.length > 0) {
+			logEvent({
+				user_email: this.loggedInUser?.email,
+				user_name: this.loggedInUser?.name,
+				event_type: 'tool_rejected',
+				event_action: name,
+				metadata: { issues: validation.issues },
+			});
+			throw new ToolValidationError(name, validation.issues);
+		}
 
-				default:
-					throw new Error(`Unknown tool: ${name}`);
-			}
+		try {
+			return await tool.handler(this, validation.args);
 		} catch (error: any) {
 			console.error(`[ToolExecutor] Tool error for ${name}:`, error);
 			throw new Error(`Tool execution error: ${error.message}`);
@@ -159,7 +255,7 @@ export class ToolExecutor {
 
 	// ==================== CALENDAR TOOLS ====================
 
-	private async executeCheckAvailability(args: Record<string, any>): Promise<any> {
+	async checkAvailability(args: Record<string, any>): Promise<any> {
 		let userEmail = args.user_email;
 		const date = args.date;
 		const durationMinutes =
@@ -177,9 +273,8 @@ export class ToolExecutor {
 
 		const parsedDate = this.parseDate(date);
 		this.lastAvailabilityDate = parsedDate;
-		const easternOffset = this.getEasternOffset(parsedDate);
-		const calendarOffset = this.getEasternOffset(parsedDate);
-		const dateObj = new Date(parsedDate + 'T00:00:00' + calendarOffset);
+		const zoneOffset = this.getZoneOffset(parsedDate);
+		const dateObj = new Date(parsedDate + 'T00:00:00' + zoneOffset);
 		const startDateTime = dateObj.toISOString();
 		const nextDay = new Date(dateObj);
 		nextDay.setDate(nextDay.getDate() + 1);
@@ -199,10 +294,10 @@ export class ToolExecutor {
 
 		const availableSlots = await this.graphService.getAvailableSlotsForUser(
 			userEmail,
-			`${parsedDate}T08:00:00${easternOffset}`,
-			`${parsedDate}T17:00:00${easternOffset}`,
+			`${parsedDate}T08:00:00${zoneOffset}`,
+			`${parsedDate}T17:00:00${zoneOffset}`,
 			durationMinutes,
-			'Eastern Standard Time'
+			toGraphTimeZone(this.timeZone)
 		);
 
 		let freeSlots = availableSlots.map((slot: any) => {
@@ -218,13 +313,12 @@ export class ToolExecutor {
 		});
 
 		// Filter out past events/slots if checking today
-		const todayEastern = new Date().toLocaleDateString('en-CA', { timeZone: 'America/New_York' });
-		const isToday = parsedDate === todayEastern;
+		const isToday = parsedDate === getTodayInZone(this.timeZone);
 		let filteredBusyTimes = busyTimes;
 		if (isToday) {
 			const now = new Date();
-			const eastern = new Date(now.toLocaleString('en-US', { timeZone: 'America/New_York' }));
-			const currentHour = eastern.getHours() + eastern.getMinutes() / 60;
+			const local = new Date(now.toLocaleString('en-US', { timeZone: this.timeZone }));
+			const currentHour = local.getHours() + local.getMinutes() / 60;
 			const parseTimeToHour = (t: string) => {
 				const m = t.match(/(\d{1,2}):(\d{2})\s*(AM|PM)/i);
 				if (!m) return 0;
@@ -239,10 +333,10 @@ export class ToolExecutor {
 			freeSlots = freeSlots.filter((s: any) => parseTimeToHour(s.end) > currentHour);
 		}
 
-		const displayDate = new Date(parsedDate + 'T00:00:00');
+		const displayDate = new Date(parsedDate + 'T12:00:00' + zoneOffset);
 		const dayOfWeek = displayDate.toLocaleDateString('en-US', {
 			weekday: 'long',
-			timeZone: 'America/New_York',
+			timeZone: this.timeZone,
 		});
 
 		return {
@@ -254,13 +348,15 @@ export class ToolExecutor {
 			free_slots: freeSlots,
 			is_completely_free: filteredBusyTimes.length === 0,
 			slot_minutes: durationMinutes,
+			time_zone: this.timeZone,
+			time_zone_label: this.timeZoneLabel,
 			note: isToday
-				? 'All times are in Eastern Time (EST/EDT). Past events and expired slots have been filtered out.'
-				: 'All times are in Eastern Time (EST/EDT)',
+				? `${this.timeZoneNote} Past events and expired slots have been filtered out.`
+				: this.timeZoneNote,
 		};
 	}
 
-	private async executeGetFreeSlots(args: Record<string, any>): Promise<any> {
+	async getFreeSlots(args: Record<string, any>): Promise<any> {
 		let userEmail = args.user_email;
 		const date = args.date;
 		const durationMinutes =
@@ -277,14 +373,14 @@ export class ToolExecutor {
 		}
 
 		const parsedDate = this.parseDate(date);
-		const easternOffset = this.getEasternOffset(parsedDate);
+		const zoneOffset = this.getZoneOffset(parsedDate);
 
 		const availableSlots = await this.graphService.getAvailableSlotsForUser(
 			userEmail,
-			`${parsedDate}T08:00:00${easternOffset}`,
-			`${parsedDate}T17:00:00${easternOffset}`,
+			`${parsedDate}T08:00:00${zoneOffset}`,
+			`${parsedDate}T17:00:00${zoneOffset}`,
 			durationMinutes,
-			'Eastern Standard Time'
+			toGraphTimeZone(this.timeZone)
 		);
 
 		let formattedSlots = availableSlots.map((slot: any) => {
@@ -299,12 +395,11 @@ export class ToolExecutor {
 		});
 
 		// Filter out past slots if checking today
-		const todayET = new Date().toLocaleDateString('en-CA', { timeZone: 'America/New_York' });
-		const isTodayFS = parsedDate === todayET;
+		const isTodayFS = parsedDate === getTodayInZone(this.timeZone);
 		if (isTodayFS) {
 			const now = new Date();
-			const eastern = new Date(now.toLocaleString('en-US', { timeZone: 'America/New_York' }));
-			const currentHour = eastern.getHours() + eastern.getMinutes() / 60;
+			const local = new Date(now.toLocaleString('en-US', { timeZone: this.timeZone }));
+			const currentHour = local.getHours() + local.getMinutes() / 60;
 			const parseTimeToHour = (t: string) => {
 				const m = t.match(/(\d{1,2}):(\d{2})\s*(AM|PM)/i);
 				if (!m) return 0;
@@ -318,10 +413,10 @@ export class ToolExecutor {
 			formattedSlots = formattedSlots.filter((s: any) => parseTimeToHour(s.end) > currentHour);
 		}
 
-		const displayDate = new Date(parsedDate + 'T00:00:00');
+		const displayDate = new Date(parsedDate + 'T12:00:00' + zoneOffset);
 		const dayOfWeek = displayDate.toLocaleDateString('en-US', {
 			weekday: 'long',
-			timeZone: 'America/New_York',
+			timeZone: this.timeZone,
 		});
 
 		return {
@@ -330,18 +425,17 @@ export class ToolExecutor {
 			day_of_week: dayOfWeek,
 			free_slots: formattedSlots,
 			slot_minutes: durationMinutes,
+			time_zone: this.timeZone,
+			time_zone_label: this.timeZoneLabel,
 			note: isTodayFS
-				? 'All times are in Eastern Time (EST/EDT). Past slots have been filtered out.'
-				: 'All times are in Eastern Time (EST/EDT)',
+				? `${this.timeZoneNote} Past slots have been filtered out.`
+				: this.timeZoneNote,
 		};
 	}
 
-	private async executeBookMeeting(args: Record<string, any>): Promise<any> {
+	async bookMeeting(args: Record<string, any>): Promise<any> {
 		let { user_email, subject, start_datetime, end_datetime, attendees, body } = args;
 
-		if (!subject?.trim()) {
-			throw new Error('Meeting subject is REQUIRED. Please ask the user for the meeting subject/title.');
-		}
 		if (!this.loggedInUser) {
 			throw new Error('No logged-in user information available.');
 		}
@@ -362,8 +456,8 @@ export class ToolExecutor {
 			user_email = targetUser.email;
 		}
 
-		const dateStr = this.lastAvailabilityDate || getTodayEastern();
-		const parseTimeInEastern = (timeStr: string): string => {
+		const dateStr = this.lastAvailabilityDate || getTodayInZone(this.timeZone);
+		const parseLocalTime = (timeStr: string): string => {
 			const trimmed = timeStr.trim();
 			if (trimmed.includes('T')) return trimmed;
 
@@ -393,47 +487,737 @@ export class ToolExecutor {
 			return trimmed;
 		};
 
-		const startISO = parseTimeInEastern(start_datetime);
-		const endISO = parseTimeInEastern(end_datetime);
+		let startISO = parseLocalTime(start_datetime);
+		let endISO = parseLocalTime(end_datetime);
+
+		const meetingOffset = this.getZoneOffset(startISO.slice(0, 10));
+		let startDt = new Date(startISO + meetingOffset);
+		let endDt = new Date(endISO + meetingOffset);
+		if (isNaN(startDt.getTime()) || isNaN(endDt.getTime())) {
+			throw new Error(`Invalid datetime format. Received start: "${start_datetime}", end: "${end_datetime}". Use YYYY-MM-DDTHH:MM:SS format or time like "9:00 AM".`);
+		}
+		if (endDt <= startDt) {
+			throw new Error('End time must be after start time');
+		}
+
+		let recurrence: MicrosoftGraphRecurrence | undefined;
+		let recurrenceSummary: string | null = null;
+		if (args.recurrence) {
+			const parsed = parseRecurrence(args.recurrence, startISO.slice(0, 10));
+			if (!parsed) {
+				throw new Error(`Could not understand recurrence "${args.recurrence}". Try e.g. "weekly", "every other Tuesday until March", "every Mon and Wed for 6 weeks" or "daily for 10 occurrences".`);
+			}
+			const occurrences = expandRecurrence(parsed, RECURRENCE_CHECK_COUNT);
+			if (occurrences.length === 0) {
+				throw new Error(`Recurrence "${args.recurrence}" has no occurrences on or after ${startISO.slice(0, 10)}`);
+			}
+
+			// Graph anchors the series on the event's own date, so start on the first real occurrence
+			if (occurrences[0] !== startISO.slice(0, 10)) {
+				const durationMs = endDt.getTime() - startDt.getTime();
+				startISO = occurrences[0] + startISO.slice(10);
+				startDt = zonedLocalToDate(startISO, this.timeZone);
+				endDt = new Date(startDt.getTime() + durationMs);
+				endISO = formatZonedLocal(endDt, this.timeZone);
+			}
+			parsed.range.startDate = occurrences[0];
+			recurrence = parsed;
+			recurrenceSummary = describeRecurrence(parsed);
+
+			// Check the first few occurrences for everyone invited before creating the series
+			const durationMs = endDt.getTime() - startDt.getTime();
+			const conflicts = await this.graphService.findScheduleConflicts(
+				senderUser.email,
+				[user_email, senderUser.email, ...(attendees || [])],
+				occurrences.map((date) => {
+					const start = zonedLocalToDate(date + startISO.slice(10), this.timeZone);
+					return { start, end: new Date(start.getTime() + durationMs) };
+				})
+			);
+
+			if (conflicts.length > 0 && args.ignore_conflicts !== true) {
+				return {
+					booked: false,
+					recurrence_summary: recurrenceSummary,
+					occurrences_checked: occurrences,
+					conflicts: conflicts.map((conflict) => {
+						const time = this.describeMeetingTime(new Date(conflict.start), new Date(conflict.end));
+						return { date: time.date, day_of_week: time.day_of_week, start_time: time.start_time, end_time: time.end_time, busy: conflict.busy };
+					}),
+					message: 'Some of the first occurrences conflict with existing meetings. Tell the user which dates and who is busy, then either suggest another time or call book_meeting again with ignore_conflicts: true if they want to book anyway.',
+				};
+			}
+		}
 
 		const event = await this.graphService.createEventForUser(user_email, {
 			subject,
 			start: startISO,
 			end: endISO,
-			timeZone: 'Eastern Standard Time',
+			timeZone: toGraphTimeZone(this.timeZone),
 			senderName: senderUser.name,
 			senderEmail: senderUser.email,
 			attendees: attendees || [],
 			body: body || '',
 			isOnlineMeeting: true,
+			recurrence,
 		});
 
-		const meetingOffset = this.getEasternOffset(dateStr);
-		const startDt = new Date(startISO + meetingOffset);
-		const endDt = new Date(endISO + meetingOffset);
 		const teamsLink = (event as any).onlineMeeting?.joinUrl || null;
+		const bookedTime = this.describeMeetingTime(startDt, endDt);
+
+		// When the recipient works in another zone, show the meeting in their local time too
+		const recipientTimeZone = await getUserTimeZone(user_email, this.graphService);
+		let recipientTime: Record<string, string> | null = null;
+		if (recipientTimeZone !== this.timeZone) {
+			const local = this.describeMeetingTime(startDt, endDt, recipientTimeZone);
+			recipientTime = {
+				name: usersList.find((u) => u.email.toLowerCase() === user_email.toLowerCase())?.name || user_email,
+				time_zone: recipientTimeZone,
+				time_zone_label: local.time_zone_label,
+				day_of_week: local.day_of_week,
+				date_formatted: local.date_formatted,
+				start_time: local.start_time,
+				end_time: local.end_time,
+			};
+		}
 
 		return {
 			id: event.id,
 			subject: event.subject,
+			start: event.start.dateTime,
+			end: event.end.dateTime,
 			validated_date_info: {
 				subject,
-				day_of_week: startDt.toLocaleDateString('en-US', { weekday: 'long', timeZone: 'America/New_York' }),
-				date_formatted: startDt.toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric', timeZone: 'America/New_York' }),
-				start_time: startDt.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit', timeZone: 'America/New_York' }),
-				end_time: endDt.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit', timeZone: 'America/New_York' }),
+				day_of_week: bookedTime.day_of_week,
+				date_formatted: bookedTime.date_formatted,
+				start_time: bookedTime.start_time,
+				end_time: bookedTime.end_time,
+				time_zone_label: bookedTime.time_zone_label,
+				recipient_time: recipientTime,
+				duration_minutes: bookedTime.duration_minutes,
 				teams_link: teamsLink,
+				has_teams_link: teamsLink !== null,
+				attendee_emails: attendees || [],
 				sender_name: senderUser.name,
 				sender_email: senderUser.email,
+				recurrence_summary: recurrenceSummary,
+			},
+		};
+	}
+
+	// ==================== MEETING MANAGEMENT TOOLS ====================
+
+	private requireLoggedInEmail(): string {
+		if (!this.loggedInUser?.email) {
+			throw new Error('No logged-in user information available.');
+		}
+		return this.loggedInUser.email;
+	}
+
+	/**
+	 * Resolve a name or email to a directory user the same way book_meeting does
+	 */
+	private async resolvePerson(nameOrEmail: string): Promise<{ name: string; email: string } | null> {
+		const trimmed = nameOrEmail.trim();
+		if (trimmed.includes('@')) {
+			const usersList = await this.getCachedUsers();
+			const known = usersList.find((u) => u.email.toLowerCase() === trimmed.toLowerCase());
+			return { name: known?.name || trimmed, email: trimmed };
+		}
+		if (!this.aiHelper) return null;
+		const usersList = await this.getCachedUsers();
+		return this.aiHelper.matchUserName(trimmed, usersList);
+	}
+
+	/**
+	 * Turn "3pm", "15:30" or a full datetime into a wall-clock YYYY-MM-DDTHH:MM:SS string in the user's zone
+	 */
+	private toLocalDateTime(timeStr: string, dateStr: string): string | null {
+		const trimmed = timeStr.trim();
+		if (trimmed.includes('T')) {
+			const local = trimmed.slice(0, 19);
+			return local.length === 16 ? `${local}:00` : local;
+		}
+		const parsed = parseTimeString(trimmed);
+		if (!parsed) return null;
+		return `${dateStr}T${String(parsed.hours).padStart(2, '0')}:${String(parsed.minutes).padStart(2, '0')}:00`;
+	}
+
+	private describeMeetingTime(start: Date, end: Date, timeZone: string = this.timeZone): MeetingTime {
+		const time = (d: Date) =>
+			d.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit', timeZone });
+		return {
+			date: formatDateInZone(start, timeZone),
+			start_local: formatZonedLocal(start, timeZone),
+			day_of_week: start.toLocaleDateString('en-US', { weekday: 'long', timeZone }),
+			date_formatted: start.toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric', timeZone }),
+			start_time: time(start),
+			end_time: time(end),
+			time_zone_label: getTimeZoneLabel(timeZone, start),
+			duration_minutes: Math.round((end.getTime() - start.getTime()) / 60000),
+		};
+	}
+
+	private toMeetingSummary(event: MicrosoftGraphEvent): MeetingSummary {
+		// Graph returns event times in UTC without a trailing Z
+		const utc = (dt: string) => new Date(dt.endsWith('Z') ? dt : dt + 'Z');
+		const organizerEmail = event.organizer?.emailAddress.address || '';
+		return {
+			event_id: event.id || '',
+			subject: event.subject || '(no subject)',
+			...this.describeMeetingTime(utc(event.start.dateTime), utc(event.end.dateTime)),
+			is_all_day: event.isAllDay || false,
+			organizer_name: event.organizer?.emailAddress.name || organizerEmail,
+			organizer_email: organizerEmail,
+			is_organizer: event.isOrganizer === true,
+			attendees: (event.attendees || [])
+				.filter((a) => a.emailAddress.address.toLowerCase() !== organizerEmail.toLowerCase())
+				.map((a) => ({
+					name: a.emailAddress.name || a.emailAddress.address,
+					email: a.emailAddress.address,
+					type: a.type,
+					response: a.status?.response || 'none',
+				})),
+			teams_link: event.onlineMeeting?.joinUrl || null,
+		};
+	}
+
+	/**
+	 * Card payload for BookingCard.svelte
+	 */
+	private buildMeetingCard(
+		meeting: MeetingSummary,
+		status: 'pending' | 'rescheduled' | 'cancelled' | 'declined' | 'updated',
+		extra: Record<string, unknown> = {}
+	): Record<string, unknown> {
+		return {
+			status,
+			subject: meeting.subject,
+			day_of_week: meeting.day_of_week,
+			date_formatted: meeting.date_formatted,
+			start_time: meeting.start_time,
+			end_time: meeting.end_time,
+			time_zone_label: meeting.time_zone_label,
+			teams_link: meeting.teams_link,
+			sender_name: meeting.organizer_name,
+			sender_email: meeting.organizer_email,
+			attendees: meeting.attendees.map((a) => a.email),
+			...extra,
+		};
+	}
+
+	private async getMeetings(userEmail: string, startDate: string, days: number): Promise<MeetingSummary[]> {
+		const rangeStart = new Date(startDate + 'T00:00:00' + this.getZoneOffset(startDate));
+		const rangeEnd = new Date(rangeStart);
+		rangeEnd.setDate(rangeEnd.getDate() + days);
+
+		const events = await this.graphService.getUserCalendarView(
+			userEmail,
+			rangeStart.toISOString(),
+			rangeEnd.toISOString(),
+			MEETING_SELECT
+		);
+
+		return events.value
+			.filter((event) => !event.isCancelled)
+			.map((event) => this.toMeetingSummary(event))
+			.sort((a, b) => a.start_local.localeCompare(b.start_local));
+	}
+
+	private filterMeetings(
+		meetings: MeetingSummary[],
+		filters: { time?: string; withName?: string; subject?: string }
+	): MeetingSummary[] {
+		let matches = meetings;
+		if (filters.time) {
+			const parsed = parseTimeString(filters.time);
+			if (parsed) {
+				const hhmm = `${String(parsed.hours).padStart(2, '0')}:${String(parsed.minutes).padStart(2, '0')}`;
+				matches = matches.filter((m) => m.start_local.slice(11, 16) === hhmm);
+			}
+		}
+		if (filters.withName) {
+			const needle = filters.withName.toLowerCase();
+			matches = matches.filter(
+				(m) =>
+					m.organizer_name.toLowerCase().includes(needle) ||
+					m.organizer_email.toLowerCase().includes(needle) ||
+					m.attendees.some((a) => a.name.toLowerCase().includes(needle) || a.email.toLowerCase().includes(needle))
+			);
+		}
+		if (filters.subject) {
+			const needle = filters.subject.toLowerCase();
+			matches = matches.filter((m) => m.subject.toLowerCase().includes(needle));
+		}
+		return matches;
+	}
+
+	/**
+	 * Explains why a change that came with a confirmation_token is being previewed again
+	 */
+	private staleConfirmationNote(args: MeetingLookupArgs): { confirmation_note?: string } {
+		return args.confirmation_token
+			? { confirmation_note: 'The confirmation_token has expired or was issued for a different change, so nothing was changed. Show this card and ask the user again.' }
+			: {};
+	}
+
+	/**
+	 * Resolve "my 3pm with Todd tomorrow" (or an event_id from list_my_meetings) to one meeting.
+	 * Returns a result for the model instead when nothing or several meetings match.
+	 */
+	private async resolveMeeting(
+		args: MeetingLookupArgs
+	): Promise<{ meeting: MeetingSummary } | { unresolved: Record<string, unknown> }> {
+		const userEmail = this.requireLoggedInEmail();
+
+		if (args.event_id) {
+			const event = await this.graphService.getEventForUser(userEmail, args.event_id, MEETING_SELECT);
+			return { meeting: this.toMeetingSummary(event) };
+		}
+
+		const date = this.parseDate(args.meeting_date);
+		const meetings = await this.getMeetings(userEmail, date, 1);
+		const matches = this.filterMeetings(meetings, {
+			time: args.meeting_time,
+			withName: args.meeting_with,
+			subject: args.meeting_subject,
+		});
+
+		if (matches.length === 1) {
+			return { meeting: matches[0] };
+		}
+		if (matches.length === 0) {
+			return {
+				unresolved: {
+					found: false,
+					error: `No meeting on ${date} matches that description.`,
+					meetings_on_date: meetings.map((m) => ({ event_id: m.event_id, subject: m.subject, start_time: m.start_time, organizer_name: m.organizer_name })),
+					hint: 'Ask the user which of these meetings they mean, then call again with its event_id.',
+				},
+			};
+		}
+		return {
+			unresolved: {
+				found: false,
+				ambiguous: true,
+				error: `${matches.length} meetings on ${date} match that description.`,
+				candidates: matches.map((m) => ({ event_id: m.event_id, subject: m.subject, start_time: m.start_time, end_time: m.end_time, attendees: m.attendees.map((a) => a.name) })),
+				hint: 'Ask the user which meeting they mean, then call again with its event_id.',
 			},
 		};
 	}
 
+	async listMyMeetings(args: ListMyMeetingsArgs): Promise<Record<string, unknown>> {
+		const userEmail = this.requireLoggedInEmail();
+		const date = this.parseDate(args.date);
+		const days = typeof args.days === 'number' ? args.days : 1;
+
+		const meetings = this.filterMeetings(await this.getMeetings(userEmail, date, days), {
+			withName: args.with,
+		});
+
+		return {
+			date,
+			days,
+			meetings: meetings.map((m) => ({
+				event_id: m.event_id,
+				subject: m.subject,
+				date: m.date,
+				day_of_week: m.day_of_week,
+				start_time: m.start_time,
+				end_time: m.end_time,
+				is_all_day: m.is_all_day,
+				organizer_name: m.organizer_name,
+				is_organizer: m.is_organizer,
+				attendees: m.attendees.map((a) => a.name),
+			})),
+			total: meetings.length,
+			note: `${this.timeZoneNote} Use event_id with reschedule_meeting, cancel_meeting or update_meeting_attendees.`,
+		};
+	}
+
+	async rescheduleMeeting(args: RescheduleMeetingArgs): Promise<Record<string, unknown>> {
+		const resolved = await this.resolveMeeting(args);
+		if ('unresolved' in resolved) return resolved.unresolved;
+		const meeting = resolved.meeting;
+
+		if (!meeting.is_organizer) {
+			return {
+				success: false,
+				error: `Only the organizer (${meeting.organizer_name}) can reschedule "${meeting.subject}".`,
+				hint: 'Offer to decline it with cancel_meeting, or suggest the user ask the organizer to move it.',
+			};
+		}
+
+		const targetDate = args.new_date ? this.parseDate(args.new_date) : meeting.date;
+		const startLocal = this.toLocalDateTime(args.new_start_time, targetDate);
+		if (!startLocal) {
+			throw new Error(`Could not understand new_start_time "${args.new_start_time}". Use a time like "3:30 PM" or YYYY-MM-DDTHH:MM:SS.`);
+		}
+		const endLocal = args.new_end_time
+			? this.toLocalDateTime(args.new_end_time, startLocal.slice(0, 10))
+			: null;
+		if (args.new_end_time && !endLocal) {
+			throw new Error(`Could not understand new_end_time "${args.new_end_time}". Use a time like "4:00 PM" or YYYY-MM-DDTHH:MM:SS.`);
+		}
+		const startDt = zonedLocalToDate(startLocal, this.timeZone);
+		const endDt = endLocal
+			? zonedLocalToDate(endLocal, this.timeZone)
+			: new Date(startDt.getTime() + meeting.duration_minutes * 60000);
+		if (isNaN(startDt.getTime()) || isNaN(endDt.getTime())) {
+			throw new Error(`Invalid datetime. Received new_start_time: "${args.new_start_time}", new_end_time: "${args.new_end_time ?? ''}".`);
+		}
+		if (endDt <= startDt) {
+			throw new Error('End time must be after start time');
+		}
+
+		const rescheduled: MeetingSummary = { ...meeting, ...this.describeMeetingTime(startDt, endDt) };
+		const previous = {
+			day_of_week: meeting.day_of_week,
+			date_formatted: meeting.date_formatted,
+			start_time: meeting.start_time,
+			end_time: meeting.end_time,
+		};
+
+		const confirmation: ConfirmationScope = {
+			user: this.requireLoggedInEmail(),
+			action: 'reschedule',
+			eventId: meeting.event_id,
+			change: { start: rescheduled.start_local, end: formatZonedLocal(endDt, this.timeZone) },
+		};
+		if (!verifyConfirmationToken(args.confirmation_token, confirmation)) {
+			const token = createConfirmationToken(confirmation);
+			return {
+				requires_confirmation: true,
+				action: 'reschedule',
+				event_id: meeting.event_id,
+				confirmation_token: token,
+				...this.staleConfirmationNote(args),
+				meeting: { subject: meeting.subject, ...previous },
+				new_time: { day_of_week: rescheduled.day_of_week, date: rescheduled.date, start_time: rescheduled.start_time, end_time: rescheduled.end_time },
+				message: `Ask the user to confirm moving "${meeting.subject}". Once they confirm, call reschedule_meeting again with event_id "${meeting.event_id}", the same new times and confirmation_token "${token}".`,
+				meeting_card: this.buildMeetingCard(rescheduled, 'pending', {
+					pending_action: 'reschedule',
+					previous,
+					confirm_prompt: `Yes, reschedule "${meeting.subject}" to ${rescheduled.day_of_week} ${rescheduled.start_time}.`,
+				}),
+			};
+		}
+
+		await this.graphService.updateEventForUser(this.requireLoggedInEmail(), meeting.event_id, {
+			start: { dateTime: rescheduled.start_local, timeZone: toGraphTimeZone(this.timeZone) },
+			end: { dateTime: formatZonedLocal(endDt, this.timeZone), timeZone: toGraphTimeZone(this.timeZone) },
+		});
+
+		return {
+			success: true,
+			message: `Rescheduled "${meeting.subject}" to ${rescheduled.day_of_week}, ${rescheduled.date_formatted} ${rescheduled.start_time} – ${rescheduled.end_time} ${rescheduled.time_zone_label}. Attendees received an updated invite.`,
+			event_id: meeting.event_id,
+			meeting_card: this.buildMeetingCard(rescheduled, 'rescheduled', { previous }),
+		};
+	}
+
+	async cancelMeeting(args: CancelMeetingArgs): Promise<Record<string, unknown>> {
+		const resolved = await this.resolveMeeting(args);
+		if ('unresolved' in resolved) return resolved.unresolved;
+		const meeting = resolved.meeting;
+
+		// Organizers cancel for everyone; invitees can only decline their own invite
+		const action = meeting.is_organizer ? 'cancel' : 'decline';
+
+		const confirmation: ConfirmationScope = {
+			user: this.requireLoggedInEmail(),
+			action,
+			eventId: meeting.event_id,
+			change: { start: meeting.start_local },
+		};
+		if (!verifyConfirmationToken(args.confirmation_token, confirmation)) {
+			const token = createConfirmationToken(confirmation);
+			return {
+				requires_confirmation: true,
+				action,
+				event_id: meeting.event_id,
+				confirmation_token: token,
+				...this.staleConfirmationNote(args),
+				meeting: { subject: meeting.subject, day_of_week: meeting.day_of_week, date: meeting.date, start_time: meeting.start_time, end_time: meeting.end_time },
+				message:
+					action === 'cancel'
+						? `Ask the user to confirm cancelling "${meeting.subject}" for all attendees. Once they confirm, call cancel_meeting again with event_id "${meeting.event_id}" and confirmation_token "${token}".`
+						: `The user is not the organizer, so this will decline the invite and notify ${meeting.organizer_name}. Ask them to confirm, then call cancel_meeting again with event_id "${meeting.event_id}" and confirmation_token "${token}".`,
+				meeting_card: this.buildMeetingCard(meeting, 'pending', {
+					pending_action: action,
+					confirm_prompt: `Yes, ${action} "${meeting.subject}" on ${meeting.day_of_week} at ${meeting.start_time}.`,
+				}),
+			};
+		}
+
+		const userEmail = this.requireLoggedInEmail();
+		if (action === 'cancel') {
+			await this.graphService.cancelEventForUser(userEmail, meeting.event_id, args.comment);
+		} else {
+			await this.graphService.declineEventForUser(userEmail, meeting.event_id, args.comment);
+		}
+
+		return {
+			success: true,
+			action,
+			message:
+				action === 'cancel'
+					? `Cancelled "${meeting.subject}". All attendees were sent a cancellation.`
+					: `Declined "${meeting.subject}". ${meeting.organizer_name} was notified.`,
+			event_id: meeting.event_id,
+			meeting_card: this.buildMeetingCard(meeting, action === 'cancel' ? 'cancelled' : 'declined'),
+		};
+	}
+
+	async updateMeetingAttendees(args: UpdateMeetingAttendeesArgs): Promise<Record<string, unknown>> {
+		const toAdd: string[] = args.add_attendees || [];
+		const toRemove: string[] = args.remove_attendees || [];
+		if (toAdd.length === 0 && toRemove.length === 0) {
+			throw new Error('Provide add_attendees and/or remove_attendees');
+		}
+
+		const resolved = await this.resolveMeeting(args);
+		if ('unresolved' in resolved) return resolved.unresolved;
+		const meeting = resolved.meeting;
+
+		if (!meeting.is_organizer) {
+			return {
+				success: false,
+				error: `Only the organizer (${meeting.organizer_name}) can change who is invited to "${meeting.subject}".`,
+			};
+		}
+
+		const added: MeetingSummary['attendees'] = [];
+		const notFound: string[] = [];
+		for (const entry of toAdd) {
+			const person = await this.resolvePerson(entry);
+			if (!person) {
+				notFound.push(entry);
+				continue;
+			}
+			const { name, email } = person;
+			const alreadyInvited =
+				email.toLowerCase() === meeting.organizer_email.toLowerCase() ||
+				meeting.attendees.some((a) => a.email.toLowerCase() === email.toLowerCase()) ||
+				added.some((a) => a.email.toLowerCase() === email.toLowerCase());
+			if (!alreadyInvited) {
+				added.push({ name, email, type: 'required', response: 'none' });
+			}
+		}
+
+		const removed: MeetingSummary['attendees'] = [];
+		for (const entry of toRemove) {
+			const needle = entry.trim().toLowerCase();
+			const match = meeting.attendees.find(
+				(a) => a.email.toLowerCase() === needle || a.name.toLowerCase().includes(needle)
+			);
+			if (match && !removed.includes(match)) {
+				removed.push(match);
+			} else if (!match) {
+				notFound.push(entry);
+			}
+		}
+
+		if (added.length === 0 && removed.length === 0) {
+			return {
+				success: false,
+				error: 'No attendee changes to make.',
+				not_found: notFound,
+				current_attendees: meeting.attendees.map((a) => `${a.name} <${a.email}>`),
+				hint: 'Check the names with the user or call get_users_with_name_and_email.',
+			};
+		}
+
+		const updated: MeetingSummary = {
+			...meeting,
+			attendees: [...meeting.attendees.filter((a) => !removed.includes(a)), ...added],
+		};
+		const changes = {
+			added_attendees: added.map((a) => a.email),
+			removed_attendees: removed.map((a) => a.email),
+		};
+
+		const confirmation: ConfirmationScope = {
+			user: this.requireLoggedInEmail(),
+			action: 'update_attendees',
+			eventId: meeting.event_id,
+			change: {
+				added: changes.added_attendees.map((email) => email.toLowerCase()).sort(),
+				removed: changes.removed_attendees.map((email) => email.toLowerCase()).sort(),
+			},
+		};
+		if (!verifyConfirmationToken(args.confirmation_token, confirmation)) {
+			const token = createConfirmationToken(confirmation);
+			return {
+				requires_confirmation: true,
+				action: 'update_attendees',
+				event_id: meeting.event_id,
+				confirmation_token: token,
+				...this.staleConfirmationNote(args),
+				meeting: { subject: meeting.subject, day_of_week: meeting.day_of_week, date: meeting.date, start_time: meeting.start_time },
+				...changes,
+				not_found: notFound,
+				message: `Ask the user to confirm these attendee changes. Once they confirm, call update_meeting_attendees again with event_id "${meeting.event_id}", the same attendee lists and confirmation_token "${token}".`,
+				meeting_card: this.buildMeetingCard(updated, 'pending', {
+					pending_action: 'update_attendees',
+					...changes,
+					confirm_prompt: `Yes, update the attendees for "${meeting.subject}".`,
+				}),
+			};
+		}
+
+		await this.graphService.updateEventForUser(this.requireLoggedInEmail(), meeting.event_id, {
+			attendees: updated.attendees.map((a) => ({
+				emailAddress: { address: a.email, name: a.name },
+				type: a.type,
+			})),
+		});
+
+		return {
+			success: true,
+			message: `Updated attendees for "${meeting.subject}".`,
+			event_id: meeting.event_id,
+			...changes,
+			not_found: notFound,
+			meeting_card: this.buildMeetingCard(updated, 'updated', changes),
+		};
+	}
+
+	async findCommonSlot(args: FindCommonSlotArgs): Promise<Record<string, unknown>> {
+		const organizerEmail = this.requireLoggedInEmail();
+		const includeMe = args.include_me !== false;
+
+		const people: Array<{ name: string; email: string }> = [];
+		const notFound: string[] = [];
+		if (includeMe) {
+			people.push({ name: this.loggedInUser?.name || organizerEmail, email: organizerEmail });
+		}
+		for (const entry of args.attendees) {
+			const person = await this.resolvePerson(entry);
+			if (!person) {
+				notFound.push(entry);
+			} else if (!people.some((p) => p.email.toLowerCase() === person.email.toLowerCase())) {
+				people.push(person);
+			}
+		}
+
+		if (notFound.length > 0) {
+			return {
+				found: false,
+				error: `Could not find: ${notFound.join(', ')}`,
+				not_found: notFound,
+				hint: 'Use get_users_with_name_and_email to find the right people, then call find_common_slot again.',
+			};
+		}
+		if (people.length > MAX_COMMON_SLOT_ATTENDEES) {
+			throw new Error(`find_common_slot supports at most ${MAX_COMMON_SLOT_ATTENDEES} attendees`);
+		}
+
+		const startDate = this.parseDate(args.start_date);
+		const endDate = args.end_date ? this.parseDate(args.end_date) : startDate;
+		const spanDays = Math.round(
+			(new Date(endDate + 'T12:00:00Z').getTime() - new Date(startDate + 'T12:00:00Z').getTime()) / 86400000
+		);
+		if (spanDays < 0) {
+			throw new Error(`end_date (${endDate}) is before start_date (${startDate})`);
+		}
+		if (spanDays >= MAX_COMMON_SLOT_DAYS) {
+			throw new Error(`Search at most ${MAX_COMMON_SLOT_DAYS} days at a time`);
+		}
+
+		const toHHMM = (value: string | undefined, fallback: string) => {
+			const parsed = value ? parseTimeString(value) : null;
+			return parsed
+				? `${String(parsed.hours).padStart(2, '0')}:${String(parsed.minutes).padStart(2, '0')}`
+				: fallback;
+		};
+		const workdayStart = toHHMM(args.workday_start, '09:00');
+		const workdayEnd = toHHMM(args.workday_end, '17:00');
+		if (workdayEnd <= workdayStart) {
+			throw new Error(`workday_end (${workdayEnd}) must be after workday_start (${workdayStart})`);
+		}
+
+		const durationMinutes = typeof args.duration_minutes === 'number' ? Math.round(args.duration_minutes) : 30;
+		const quorum = typeof args.quorum === 'number' ? Math.min(args.quorum, people.length) : people.length;
+
+		const result = await this.graphService.findCommonFreeSlots(organizerEmail, {
+			attendees: people.map((p) => p.email),
+			requiredAttendees: includeMe ? [organizerEmail] : [],
+			quorum,
+			startDate,
+			endDate,
+			durationMinutes,
+			workdayStart,
+			workdayEnd,
+			includeWeekends: args.include_weekends === true,
+			timeZone: this.timeZone,
+			maxResults: typeof args.max_results === 'number' ? args.max_results : 5,
+		});
+
+		const nameFor = (email: string) =>
+			people.find((p) => p.email.toLowerCase() === email.toLowerCase())?.name || email;
+		const invitees = people.filter((p) => p.email.toLowerCase() !== organizerEmail.toLowerCase());
+
+		const slots = result.slots.map((slot, index) => {
+			const start = new Date(slot.start);
+			const end = new Date(slot.end);
+			const time = this.describeMeetingTime(start, end);
+			const startDatetime = formatZonedLocal(start, this.timeZone);
+			const endDatetime = formatZonedLocal(end, this.timeZone);
+			return {
+				rank: index + 1,
+				date: time.date,
+				day_of_week: time.day_of_week,
+				date_formatted: time.date_formatted,
+				start_time: time.start_time,
+				end_time: time.end_time,
+				everyone_free: slot.busy.length === 0 && slot.unknown.length === 0,
+				available: slot.available.map(nameFor),
+				tentative: slot.tentative.map(nameFor),
+				busy: slot.busy.map(nameFor),
+				unknown: slot.unknown.map(nameFor),
+				book_meeting_args: invitees.length > 0
+					? {
+							user_email: invitees[0].email,
+							attendees: invitees.slice(1).map((p) => p.email),
+							start_datetime: startDatetime,
+							end_datetime: endDatetime,
+						}
+					: null,
+			};
+		});
+
+		const unavailableCalendars = result.unavailable.map((u) => ({ name: nameFor(u.email), reason: u.reason }));
+		const unavailableNote =
+			unavailableCalendars.length > 0
+				? ` Couldn't read the calendar for ${unavailableCalendars.map((u) => u.name).join(', ')}, so these slots don't account for them; tell the user.`
+				: '';
+
+		return {
+			attendees: people.map((p) => p.name),
+			invitees: invitees.map((p) => p.name),
+			start_date: startDate,
+			end_date: endDate,
+			duration_minutes: durationMinutes,
+			working_hours: `${workdayStart}-${workdayEnd}`,
+			time_zone_label: this.timeZoneLabel,
+			quorum,
+			slots,
+			total: slots.length,
+			unavailable_calendars: unavailableCalendars,
+			note:
+				(slots.length > 0
+					? `${this.timeZoneNote} To book a slot, ask for a subject if needed and call book_meeting with that slot's book_meeting_args.`
+					: 'No slot fits everyone. Suggest widening the date range or working hours, or lowering the quorum.') +
+				unavailableNote,
+		};
+	}
+
 	// ==================== BILLING TOOLS ====================
 
-	private async executeLookupEmployee(args: Record<string, any>): Promise<any> {
+	async lookupEmployee(args: Record<string, any>): Promise<any> {
 		const { name: employeeName } = args;
-		if (!employeeName) throw new Error('Employee name is required');
 
 		const employee = await getEmployeeByName(employeeName);
 		if (!employee) {
@@ -442,14 +1226,14 @@ export class ToolExecutor {
 				found: false,
 				error: `Employee "${employeeName}" not found`,
 				suggestions: allEmployees.slice(0, 5).map((e) => e.name),
+				hint: 'Try using list_employees to see all available employees',
 			};
 		}
 		return { found: true, employee: { name: employee.name, email: employee.email, qbo_id: employee.qbo_id } };
 	}
 
-	private async executeLookupCustomer(args: Record<string, any>): Promise<any> {
+	async lookupCustomer(args: Record<string, any>): Promise<any> {
 		const { name: customerName } = args;
-		if (!customerName) throw new Error('Customer name is required');
 
 		const customer = await getCustomerByName(customerName);
 		if (!customer) {
@@ -458,34 +1242,28 @@ export class ToolExecutor {
 				found: false,
 				error: `Customer "${customerName}" not found`,
 				suggestions: allCustomers.slice(0, 5).map((c) => c.name),
+				hint: 'Try using list_customers to see all available customers',
 			};
 		}
 		return { found: true, customer: { name: customer.name, qbo_id: customer.qbo_id } };
 	}
 
-	private async executeListEmployees(): Promise<any> {
+	async listEmployees(): Promise<any> {
 		const employees = await this.getCachedEmployees();
 		return { employees: employees.map((e) => ({ name: e.name, email: e.email, qbo_id: e.qbo_id })), total: employees.length };
 	}
 
-	private async executeListCustomers(): Promise<any> {
+	async listCustomers(): Promise<any> {
 		const customers = await this.getCachedCustomers();
 		return { customers: customers.map((c) => ({ name: c.name, qbo_id: c.qbo_id })), total: customers.length };
 	}
 
-	private async executeSubmitTimeEntry(args: Record<string, any>): Promise<any> {
+	async submitTimeEntry(args: Record<string, any>): Promise<any> {
 		const {
 			employee_name, employee_qbo_id, customer_name, customer_qbo_id,
 			tasks_completed, hours, billable = true, entry_date,
 		} = args;
 
-		if (!employee_name || !employee_qbo_id) {
-			throw new Error('STOP. You must call lookup_employee first to get the real QBO ID. Do not make up IDs.');
-		}
-		if (!customer_name || !customer_qbo_id) {
-			throw new Error('STOP. You must call lookup_customer first to get the real QBO ID. Do not make up IDs.');
-		}
-
 		const fakeIdPatterns = /^(EMP|CUST|ID|QBO|TEST|PLACEHOLDER|XXX|000)/i;
 		const placeholderNamePatterns = /^(unknown|placeholder|test|employee|user|n\/?a)\b/i;
 		if (placeholderNamePatterns.test(String(employee_name).trim())) {
@@ -498,13 +1276,10 @@ export class ToolExecutor {
 			throw new Error(`INVALID customer_qbo_id "${customer_qbo_id}". You MUST call lookup_customer("${customer_name}") first to get the real ID from the database.`);
 		}
 
-		if (!tasks_completed) throw new Error('Tasks completed description is required');
-		if (hours === undefined || hours <= 0) throw new Error('Hours must be positive');
-
 		const timeEntry = {
 			employee_name, employee_qbo_id, customer_name, customer_qbo_id,
 			tasks_completed, hours: parseFloat(hours), billable: billable !== false,
-			entry_date: entry_date || getTodayEastern(),
+			entry_date: entry_date || getTodayInZone(this.timeZone),
 			submitted_by: this.loggedInUser?.name || 'Unknown User',
 			submitted_at: new Date().toISOString(),
 		};
@@ -520,9 +1295,18 @@ export class ToolExecutor {
 		});
 
 		if (!response.ok) {
-			throw new Error(`Failed to submit time entry: ${response.statusText}`);
+			let errorBody = '';
+			try {
+				errorBody = await response.text();
+			} catch {
+				// Body read can fail if connection closed early
+			}
+			throw new Error(`Failed to submit time entry: ${response.statusText}. ${errorBody}`.trim());
 		}
 
+		// Don't read the success body — n8n webhooks can close the stream after
+		// sending headers, which would make a successful submission look like a failure.
+
 		return {
 			success: true,
 			message: 'Time entry submitted successfully',
@@ -532,35 +1316,9 @@ export class ToolExecutor {
 				tasks_completed,
 				hours: parseFloat(hours),
 				billable: billable !== false,
-				entry_date: entry_date || getTodayEastern(),
+				entry_date: entry_date || getTodayInZone(this.timeZone),
 				submitted_by: this.loggedInUser?.name || 'Unknown User',
 			},
 		};
 	}
-
-	// ==================== STATUS LABELS ====================
-
-	getToolStatusLabel(toolName: string): string {
-		switch (toolName) {
-			case 'check_availability':
-			case 'get_free_slots':
-				return 'Checking calendar...';
-			case 'book_meeting':
-				return 'Booking meeting...';
-			case 'get_users_with_name_and_email':
-				return 'Looking up users...';
-			case 'lookup_employee':
-				return 'Looking up employee...';
-			case 'lookup_customer':
-				return 'Looking up customer...';
-			case 'list_employees':
-				return 'Loading employees...';
-			case 'list_customers':
-				return 'Loading customers...';
-			case 'submit_time_entry':
-				return 'Submitting time entry...';
-			default:
-				return 'Processing...';
-		}
-	}
 }
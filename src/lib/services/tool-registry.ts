@@ -0,0 +1,646 @@
+/**
+ * Tool Registry
+ * Single source of truth for the calendar and billing tools.
+ * Each tool declares its schema, status label, handler and result card once;
+ * the OpenAI, Cohere and MCP tool formats are generated from this list.
+ */
+
+import type { ToolV2 } from 'cohere-ai/api';
+import type { MCPTool } from '$lib/types/mcp';
+import type { ToolResultData } from '$lib/api/chat';
+import type { ToolDefinition } from './openai-service';
+import type { ToolExecutor, MeetingLookupArgs } from './tool-executor';
+
+export type ToolScope = 'calendar' | 'billing';
+
+/** Tool call arguments; ToolExecutor.execute validates them against the tool's inputSchema first */
+export type ToolArgs = Record<string, unknown>;
+
+type CardData = ToolResultData['data'];
+
+export interface RegisteredTool {
+	name: string;
+	description: string;
+	scope: ToolScope;
+	inputSchema: MCPTool['inputSchema'];
+	/** Shown in the chat UI while the tool runs (TOOL_STATUS marker) */
+	statusLabel: string;
+	/** Card rendered by MessageBubble for a successful result (TOOL_RESULT marker) */
+	resultCard?: {
+		type: ToolResultData['type'];
+		select: (result: Record<string, unknown>) => CardData | null;
+	};
+	handler: (executor: ToolExecutor, args: ToolArgs) => Promise<unknown>;
+}
+
+/**
+ * A result field as card data, or null when it is missing or not an object
+ */
+function cardData(value: unknown): CardData | null {
+	return value && typeof value === 'object' ? (value as CardData) : null;
+}
+
+// Argument readers: a field of the expected type, or undefined when it is missing or isn't one.
+// Handlers build their typed arguments from these rather than casting the whole object
+function stringArg(args: ToolArgs, field: string): string | undefined {
+	const value = args[field];
+	return typeof value === 'string' ? value : undefined;
+}
+
+function numberArg(args: ToolArgs, field: string): number | undefined {
+	const value = args[field];
+	return typeof value === 'number' ? value : undefined;
+}
+
+function booleanArg(args: ToolArgs, field: string): boolean | undefined {
+	const value = args[field];
+	return typeof value === 'boolean' ? value : undefined;
+}
+
+function stringListArg(args: ToolArgs, field: string): string[] | undefined {
+	const value = args[field];
+	return Array.isArray(value)
+		? value.filter((item): item is string => typeof item === 'string')
+		: undefined;
+}
+
+function meetingLookupArgs(args: ToolArgs): MeetingLookupArgs {
+	return {
+		event_id: stringArg(args, 'event_id'),
+		meeting_date: stringArg(args, 'meeting_date'),
+		meeting_time: stringArg(args, 'meeting_time'),
+		meeting_with: stringArg(args, 'meeting_with'),
+		meeting_subject: stringArg(args, 'meeting_subject'),
+		confirmation_token: stringArg(args, 'confirmation_token')
+	};
+}
+
+const DEFAULT_STATUS_LABEL = 'Processing...';
+
+// ==================== CALENDAR TOOLS ====================
+
+// Shared by the tools that change an existing meeting: either an event_id from
+// list_my_meetings, or a description like "my 3pm with Todd tomorrow".
+const MEETING_LOOKUP_PROPERTIES: MCPTool['inputSchema']['properties'] = {
+	event_id: {
+		type: 'string',
+		description:
+			'The event_id from list_my_meetings. Preferred when known; otherwise describe the meeting with the fields below.'
+	},
+	meeting_date: {
+		type: 'string',
+		description:
+			'Date of the existing meeting ("tomorrow", "next monday", "2026-01-12"). Defaults to today.'
+	},
+	meeting_time: {
+		type: 'string',
+		description: 'Start time of the existing meeting, e.g. "3pm" or "15:30".'
+	},
+	meeting_with: {
+		type: 'string',
+		description: 'Name or email of someone in the existing meeting, e.g. "Todd".'
+	},
+	meeting_subject: {
+		type: 'string',
+		description: 'Part of the existing meeting subject, e.g. "standup".'
+	}
+};
+
+const CONFIRMATION_TOKEN_PROPERTY: MCPTool['inputSchema']['properties'] = {
+	confirmation_token: {
+		type: 'string',
+		description:
+			'Leave unset on the first call to get a confirmation card and a confirmation_token. Pass that token back ONLY after the user has explicitly confirmed the change; it is only valid for the same meeting and change.'
+	}
+};
+
+const meetingCard: RegisteredTool['resultCard'] = {
+	type: 'booking',
+	select: (result) => cardData(result.meeting_card)
+};
+
+const CALENDAR_TOOLS: RegisteredTool[] = [
+	{
+		name: 'get_users_with_name_and_email',
+		description:
+			'Get a list of all users with their display names and email addresses. Use this first to find the correct email address before checking availability or booking meetings.',
+		scope: 'calendar',
+		inputSchema: {
+			type: 'object',
+			properties: {},
+			required: []
+		},
+		statusLabel: 'Looking up users...',
+		handler: (executor) => executor.getCachedUsers()
+	},
+	{
+		name: 'check_availability',
+		description:
+			"Check calendar availability for a user on a specific date. IMPORTANT: For best results, first call get_users_with_name_and_email to get the correct email address, then pass that email here. Returns busy times and free slots for the day. Free slots are derived from Microsoft Graph schedule data (getSchedule/freeBusy). All times are displayed in the user's time zone.",
+		scope: 'calendar',
+		inputSchema: {
+			type: 'object',
+			properties: {
+				user_email: {
+					type: 'string',
+					description:
+						'The email address or display name of the user to check availability for. If a name is provided, it will be matched against users from get_users_with_name_and_email.'
+				},
+				date: {
+					type: 'string',
+					description:
+						'The date to check. Supports natural language like "next monday", "tomorrow", "this friday", or date formats like "1/12/2026" or "2026-01-12". Defaults to today if not provided.'
+				},
+				duration_minutes: {
+					type: 'number',
+					description: 'Optional slot size in minutes (default: 30).',
+					exclusiveMinimum: 0,
+					maximum: 480
+				}
+			},
+			required: ['user_email']
+		},
+		statusLabel: 'Checking calendar...',
+		resultCard: { type: 'availability', select: (result) => result },
+		handler: (executor, args) => executor.checkAvailability(args)
+	},
+	{
+		name: 'get_free_slots',
+		description:
+			'Get free time slots for a user on a specific date using Microsoft Graph schedule data. Use this when the user asks "what times are free/available?" or wants specific availability windows. All times are in the user\'s time zone.',
+		scope: 'calendar',
+		inputSchema: {
+			type: 'object',
+			properties: {
+				user_email: {
+					type: 'string',
+					description:
+						'The email address or display name of the user to check. If a name is provided, it will be matched against users from get_users_with_name_and_email.'
+				},
+				date: {
+					type: 'string',
+					description:
+						'The date to check. Supports natural language like "next monday", "tomorrow", "this friday", or date formats like "1/12/2026" or "2026-01-12". Defaults to today if not provided.'
+				},
+				duration_minutes: {
+					type: 'number',
+					description: 'Optional slot size in minutes (default: 30).',
+					exclusiveMinimum: 0,
+					maximum: 480
+				}
+			},
+			required: ['user_email']
+		},
+		statusLabel: 'Checking calendar...',
+		handler: (executor, args) => executor.getFreeSlots(args)
+	},
+	{
+		name: 'find_common_slot',
+		description:
+			"Find meeting times when several people are free at once, across one or more days. Checks everyone's calendar in a single Microsoft Graph getSchedule call and returns ranked slots (most attendees free first, then earliest). The logged-in user is included and must be free unless include_me is false. Each slot has book_meeting_args to pass straight to book_meeting. All times are in the user's time zone.",
+		scope: 'calendar',
+		inputSchema: {
+			type: 'object',
+			properties: {
+				attendees: {
+					type: 'array',
+					description: 'Names or email addresses of the other people who should attend.',
+					items: { type: 'string' }
+				},
+				start_date: {
+					type: 'string',
+					description:
+						'First day to search ("tomorrow", "next monday", "2026-01-12"). Defaults to today.'
+				},
+				end_date: {
+					type: 'string',
+					description:
+						'Last day to search, inclusive (e.g. "friday" for "sometime this week"). Defaults to start_date. At most 14 days.'
+				},
+				duration_minutes: {
+					type: 'number',
+					description: 'Meeting length in minutes (default: 30).',
+					exclusiveMinimum: 0,
+					maximum: 480
+				},
+				workday_start: {
+					type: 'string',
+					description: 'Earliest start time each day, e.g. "9am" (default: 9:00 AM).'
+				},
+				workday_end: {
+					type: 'string',
+					description: 'Latest end time each day, e.g. "5pm" (default: 5:00 PM).'
+				},
+				quorum: {
+					type: 'integer',
+					description:
+						'Minimum number of people (including the logged-in user) who must be free. Defaults to everyone. Use when the user says e.g. "at least 3 of us".',
+					minimum: 1
+				},
+				include_me: {
+					type: 'boolean',
+					description: 'Whether the logged-in user attends (default: true).'
+				},
+				include_weekends: {
+					type: 'boolean',
+					description: 'Also search Saturdays and Sundays (default: false).'
+				},
+				max_results: {
+					type: 'integer',
+					description: 'Maximum number of slots to return (default: 5).',
+					minimum: 1,
+					maximum: 10
+				}
+			},
+			required: ['attendees']
+		},
+		statusLabel: 'Finding a time that works...',
+		resultCard: {
+			type: 'common_slots',
+			select: (result) => (Array.isArray(result.slots) ? result : null)
+		},
+		handler: (executor, args) =>
+			executor.findCommonSlot({
+				attendees: stringListArg(args, 'attendees') ?? [],
+				start_date: stringArg(args, 'start_date'),
+				end_date: stringArg(args, 'end_date'),
+				duration_minutes: numberArg(args, 'duration_minutes'),
+				workday_start: stringArg(args, 'workday_start'),
+				workday_end: stringArg(args, 'workday_end'),
+				quorum: numberArg(args, 'quorum'),
+				include_me: booleanArg(args, 'include_me'),
+				include_weekends: booleanArg(args, 'include_weekends'),
+				max_results: numberArg(args, 'max_results')
+			})
+	},
+	{
+		name: 'book_meeting',
+		description:
+			'Book a meeting on a user\'s calendar. Use this tool when the user asks to book, schedule, or create a meeting. The sender (person booking) is automatically set to the logged-in user. IMPORTANT: If the user does not provide a subject, you MUST ask them "What is the subject/title of this meeting?" before calling this tool. If they want to invite additional attendees, ask for their email addresses. Creates a Teams meeting automatically. The recipient will receive a calendar invitation they can accept.',
+		scope: 'calendar',
+		inputSchema: {
+			type: 'object',
+			properties: {
+				user_email: {
+					type: 'string',
+					description:
+						'The email address or display name of the user whose calendar to book on (the recipient). If a name is provided, it will be matched against users from get_users_with_name_and_email.'
+				},
+				subject: {
+					type: 'string',
+					description:
+						'REQUIRED - The subject/title of the meeting. If the user has not provided this, you MUST ask them for it before calling this tool.'
+				},
+				start_datetime: {
+					type: 'string',
+					description:
+						'Start time. Can be full datetime (YYYY-MM-DDTHH:MM:SS) or time only (e.g., "9:00 AM", "9 AM", "930"). If only time is provided, the date from the most recent availability check will be used, or today if no availability was checked.'
+				},
+				end_datetime: {
+					type: 'string',
+					description:
+						'End time. Can be full datetime (YYYY-MM-DDTHH:MM:SS) or time only (e.g., "9:30 AM", "930 AM"). If only time is provided, the date from the most recent availability check will be used, or today if no availability was checked.'
+				},
+				attendees: {
+					type: 'array',
+					description:
+						'Optional list of additional attendee email addresses to invite. If the user mentions other people to invite, ask for their email addresses.',
+					items: {
+						type: 'string',
+						format: 'email'
+					}
+				},
+				body: {
+					type: 'string',
+					description: 'Optional meeting body/description'
+				},
+				recurrence: {
+					type: 'string',
+					description:
+						'Optional repeat pattern in the user\'s own words, e.g. "weekly", "every other Tuesday until March", "every Mon and Wed for 6 weeks", "first Monday of every month", "daily for 10 occurrences". Omit for a one-off meeting.'
+				},
+				ignore_conflicts: {
+					type: 'boolean',
+					description:
+						'Set to true only after the user has seen the conflicts for a recurring meeting and still wants to book it.'
+				}
+			},
+			required: ['user_email', 'subject', 'start_datetime', 'end_datetime']
+		},
+		statusLabel: 'Booking meeting...',
+		resultCard: { type: 'booking', select: (result) => cardData(result.validated_date_info) },
+		handler: (executor, args) => executor.bookMeeting(args)
+	},
+	{
+		name: 'list_my_meetings',
+		description:
+			"List meetings on the logged-in user's calendar, with the event_id needed to reschedule, cancel or change attendees. Use this when the user asks what is on their calendar or refers to a meeting you cannot identify. All times are in the user's time zone.",
+		scope: 'calendar',
+		inputSchema: {
+			type: 'object',
+			properties: {
+				date: {
+					type: 'string',
+					description:
+						'First day to list ("today", "tomorrow", "next monday", "2026-01-12"). Defaults to today.'
+				},
+				days: {
+					type: 'integer',
+					description: 'Number of days to list starting at date (default: 1).',
+					minimum: 1,
+					maximum: 14
+				},
+				with: {
+					type: 'string',
+					description: 'Optional name or email to only list meetings with that person.'
+				}
+			},
+			required: []
+		},
+		statusLabel: 'Loading your meetings...',
+		handler: (executor, args) =>
+			executor.listMyMeetings({
+				date: stringArg(args, 'date'),
+				days: numberArg(args, 'days'),
+				with: stringArg(args, 'with')
+			})
+	},
+	{
+		name: 'reschedule_meeting',
+		description:
+			"Move an existing meeting on the logged-in user's calendar to a new time. Only works for meetings the user organizes. ALWAYS call once without confirmation_token to show the user a confirmation card, and call again with the returned confirmation_token only after they agree. If several meetings match, ask the user which one and pass its event_id.",
+		scope: 'calendar',
+		inputSchema: {
+			type: 'object',
+			properties: {
+				...MEETING_LOOKUP_PROPERTIES,
+				new_date: {
+					type: 'string',
+					description: 'New date ("friday", "2026-01-16"). Defaults to the meeting\'s current date.'
+				},
+				new_start_time: {
+					type: 'string',
+					description: 'New start time, e.g. "4pm", "16:30" or YYYY-MM-DDTHH:MM:SS.'
+				},
+				new_end_time: {
+					type: 'string',
+					description: 'Optional new end time. Defaults to keeping the current meeting length.'
+				},
+				...CONFIRMATION_TOKEN_PROPERTY
+			},
+			required: ['new_start_time']
+		},
+		statusLabel: 'Rescheduling meeting...',
+		resultCard: meetingCard,
+		handler: (executor, args) =>
+			executor.rescheduleMeeting({
+				...meetingLookupArgs(args),
+				new_date: stringArg(args, 'new_date'),
+				new_start_time: stringArg(args, 'new_start_time') ?? '',
+				new_end_time: stringArg(args, 'new_end_time')
+			})
+	},
+	{
+		name: 'cancel_meeting',
+		description:
+			"Cancel an existing meeting on the logged-in user's calendar. Cancels for all attendees when the user is the organizer; otherwise declines the invite and notifies the organizer. ALWAYS call once without confirmation_token to show the user a confirmation card, and call again with the returned confirmation_token only after they agree.",
+		scope: 'calendar',
+		inputSchema: {
+			type: 'object',
+			properties: {
+				...MEETING_LOOKUP_PROPERTIES,
+				comment: {
+					type: 'string',
+					description: 'Optional message included with the cancellation.'
+				},
+				...CONFIRMATION_TOKEN_PROPERTY
+			},
+			required: []
+		},
+		statusLabel: 'Cancelling meeting...',
+		resultCard: meetingCard,
+		handler: (executor, args) =>
+			executor.cancelMeeting({ ...meetingLookupArgs(args), comment: stringArg(args, 'comment') })
+	},
+	{
+		name: 'update_meeting_attendees',
+		description:
+			'Add or remove attendees on an existing meeting the logged-in user organizes. Names are resolved to emails automatically. ALWAYS call once without confirmation_token to show the user a confirmation card, and call again with the returned confirmation_token only after they agree.',
+		scope: 'calendar',
+		inputSchema: {
+			type: 'object',
+			properties: {
+				...MEETING_LOOKUP_PROPERTIES,
+				add_attendees: {
+					type: 'array',
+					description: 'Names or email addresses to invite.',
+					items: { type: 'string' }
+				},
+				remove_attendees: {
+					type: 'array',
+					description: 'Names or email addresses to remove from the invite.',
+					items: { type: 'string' }
+				},
+				...CONFIRMATION_TOKEN_PROPERTY
+			},
+			required: []
+		},
+		statusLabel: 'Updating attendees...',
+		resultCard: meetingCard,
+		handler: (executor, args) =>
+			executor.updateMeetingAttendees({
+				...meetingLookupArgs(args),
+				add_attendees: stringListArg(args, 'add_attendees'),
+				remove_attendees: stringListArg(args, 'remove_attendees')
+			})
+	}
+];
+
+// ==================== BILLING TOOLS ====================
+
+const BILLING_TOOLS: RegisteredTool[] = [
+	{
+		name: 'lookup_employee',
+		description:
+			'Look up an employee by name to get their QuickBooks ID. Use this before submitting time entries. Supports fuzzy matching.',
+		scope: 'billing',
+		inputSchema: {
+			type: 'object',
+			properties: {
+				name: {
+					type: 'string',
+					description: 'The employee name to look up (partial matches supported)'
+				}
+			},
+			required: ['name']
+		},
+		statusLabel: 'Looking up employee...',
+		handler: (executor, args) => executor.lookupEmployee(args)
+	},
+	{
+		name: 'lookup_customer',
+		description:
+			'Look up a customer/client by name to get their QuickBooks ID. Aliases like "ICE" for "Infrastructure Consulting & Engineering" are supported. Use this before submitting time entries.',
+		scope: 'billing',
+		inputSchema: {
+			type: 'object',
+			properties: {
+				name: {
+					type: 'string',
+					description: 'The customer/client name to look up (partial matches and aliases supported)'
+				}
+			},
+			required: ['name']
+		},
+		statusLabel: 'Looking up customer...',
+		handler: (executor, args) => executor.lookupCustomer(args)
+	},
+	{
+		name: 'list_employees',
+		description:
+			'Get a list of all employees with their names and QuickBooks IDs. Use this when the employee name is ambiguous or to see all available employees.',
+		scope: 'billing',
+		inputSchema: {
+			type: 'object',
+			properties: {},
+			required: []
+		},
+		statusLabel: 'Loading employees...',
+		handler: (executor) => executor.listEmployees()
+	},
+	{
+		name: 'list_customers',
+		description:
+			'Get a list of all customers/clients with their names and QuickBooks IDs. Use this when the customer name is ambiguous or to see all available customers.',
+		scope: 'billing',
+		inputSchema: {
+			type: 'object',
+			properties: {},
+			required: []
+		},
+		statusLabel: 'Loading customers...',
+		handler: (executor) => executor.listCustomers()
+	},
+	{
+		name: 'submit_time_entry',
+		description:
+			'Submit a time entry to QuickBooks and Monday.com. IMPORTANT: You must first use lookup_employee and lookup_customer to get the QBO IDs before submitting. All required fields must be filled.',
+		scope: 'billing',
+		inputSchema: {
+			type: 'object',
+			properties: {
+				employee_name: {
+					type: 'string',
+					description: 'The display name of the employee'
+				},
+				employee_qbo_id: {
+					type: 'string',
+					description: 'The QuickBooks Online ID of the employee (from lookup_employee)'
+				},
+				customer_name: {
+					type: 'string',
+					description: 'The display name of the customer/client'
+				},
+				customer_qbo_id: {
+					type: 'string',
+					description: 'The QuickBooks Online ID of the customer (from lookup_customer)'
+				},
+				tasks_completed: {
+					type: 'string',
+					description: 'Description of the work/tasks completed'
+				},
+				hours: {
+					type: 'number',
+					description: 'Number of hours worked (decimal allowed, e.g., 1.5 for 1 hour 30 minutes)',
+					exclusiveMinimum: 0,
+					maximum: 24
+				},
+				billable: {
+					type: 'boolean',
+					description: 'Whether the time is billable (default: true)'
+				},
+				entry_date: {
+					type: 'string',
+					description:
+						'Date of the time entry in YYYY-MM-DD format. Defaults to today if not provided.',
+					format: 'date'
+				}
+			},
+			required: [
+				'employee_name',
+				'employee_qbo_id',
+				'customer_name',
+				'customer_qbo_id',
+				'tasks_completed',
+				'hours'
+			]
+		},
+		statusLabel: 'Submitting time entry...',
+		resultCard: {
+			type: 'time_entry',
+			select: (result) => (result.success === true ? cardData(result.timeEntry) : null)
+		},
+		handler: (executor, args) => executor.submitTimeEntry(args)
+	}
+];
+
+const TOOL_REGISTRY: RegisteredTool[] = [...CALENDAR_TOOLS, ...BILLING_TOOLS];
+
+// ==================== LOOKUPS ====================
+
+/**
+ * Get registered tools, optionally limited to one scope ('all' returns every tool)
+ */
+export function getRegisteredTools(scope: ToolScope | 'all' = 'all'): RegisteredTool[] {
+	return scope === 'all' ? TOOL_REGISTRY : TOOL_REGISTRY.filter((tool) => tool.scope === scope);
+}
+
+export function getRegisteredTool(name: string): RegisteredTool | undefined {
+	return TOOL_REGISTRY.find((tool) => tool.name === name);
+}
+
+export function getToolStatusLabel(name: string): string {
+	return getRegisteredTool(name)?.statusLabel ?? DEFAULT_STATUS_LABEL;
+}
+
+/**
+ * Build the TOOL_RESULT card payload for a tool result, or null if the tool has no card
+ */
+export function getToolResultCard(name: string, result: unknown): ToolResultData | null {
+	const card = getRegisteredTool(name)?.resultCard;
+	if (!card || !result || typeof result !== 'object') return null;
+	const data = card.select(result as Record<string, unknown>);
+	return data ? { type: card.type, data } : null;
+}
+
+// ==================== FORMAT CONVERTERS ====================
+
+export function toMCPTool(tool: RegisteredTool): MCPTool {
+	return {
+		name: tool.name,
+		description: tool.description,
+		inputSchema: tool.inputSchema
+	};
+}
+
+export function toOpenAITool(tool: RegisteredTool): ToolDefinition {
+	return {
+		type: 'function',
+		function: {
+			name: tool.name,
+			description: tool.description,
+			parameters: tool.inputSchema
+		}
+	};
+}
+
+export function toCohereTool(tool: RegisteredTool): ToolV2 {
+	return {
+		type: 'function',
+		function: {
+			name: tool.name,
+			description: tool.description,
+			parameters: tool.inputSchema
+		}
+	};
+}
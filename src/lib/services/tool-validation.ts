@@ -0,0 +1,194 @@
+/**
+ * Tool Argument Validation
+ * Checks model-supplied tool arguments against the tool's declared inputSchema
+ * (types, required fields, enums, formats and number ranges) before execution.
+ */
+
+import type { MCPTool, MCPToolProperty } from '$lib/types/mcp';
+
+export interface ToolValidationIssue {
+	field: string;
+	message: string;
+}
+
+/**
+ * Raised when a tool call is rejected by schema validation.
+ * toToolResult() is what the agent loop hands back to the model so it can correct the call.
+ */
+export class ToolValidationError extends Error {
+	public readonly tool: string;
+	public readonly issues: ToolValidationIssue[];
+
+	constructor(tool: string, issues: ToolValidationIssue[]) {
+		super(
+			`Invalid arguments for ${tool}: ${issues.map((issue) => `${issue.field} ${issue.message}`).join('; ')}`
+		);
+		this.name = 'ToolValidationError';
+		this.tool = tool;
+		this.issues = issues;
+	}
+
+	toToolResult(): Record<string, unknown> {
+		return {
+			success: false,
+			error: 'invalid_arguments',
+			tool: this.tool,
+			validation_errors: this.issues,
+			message: `${this.message}. Fix these arguments and call ${this.tool} again.`
+		};
+	}
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DATE_TIME_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})?$/;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+function checkFormat(value: string, format: NonNullable<MCPToolProperty['format']>): string | null {
+	switch (format) {
+		case 'date':
+			if (!DATE_PATTERN.test(value) || isNaN(new Date(`${value}T00:00:00Z`).getTime())) {
+				return 'must be a date in YYYY-MM-DD format';
+			}
+			return null;
+		case 'date-time':
+			if (!DATE_TIME_PATTERN.test(value) || isNaN(new Date(value).getTime())) {
+				return 'must be a datetime in YYYY-MM-DDTHH:MM:SS format';
+			}
+			return null;
+		case 'email':
+			return EMAIL_PATTERN.test(value) ? null : 'must be an email address';
+		default:
+			return null;
+	}
+}
+
+/**
+ * Coerce obvious scalar mismatches (models often send "1.5" for a number or "false" for a boolean)
+ */
+function coerce(value: unknown, type: string): unknown {
+	if (
+		(type === 'number' || type === 'integer') &&
+		typeof value === 'string' &&
+		value.trim() !== ''
+	) {
+		const parsed = Number(value);
+		return isNaN(parsed) ? value : parsed;
+	}
+	if (type === 'boolean' && typeof value === 'string') {
+		if (value.toLowerCase() === 'true') return true;
+		if (value.toLowerCase() === 'false') return false;
+	}
+	return value;
+}
+
+function checkProperty(field: string, value: unknown, property: MCPToolProperty): string | null {
+	switch (property.type) {
+		case 'string': {
+			if (typeof value !== 'string') return 'must be a string';
+			if (property.enum && !property.enum.includes(value)) {
+				return `must be one of: ${property.enum.join(', ')}`;
+			}
+			return property.format ? checkFormat(value, property.format) : null;
+		}
+		case 'number':
+		case 'integer': {
+			if (typeof value !== 'number' || !Number.isFinite(value)) return 'must be a number';
+			if (property.type === 'integer' && !Number.isInteger(value)) return 'must be a whole number';
+			if (property.exclusiveMinimum !== undefined && value <= property.exclusiveMinimum) {
+				return `must be greater than ${property.exclusiveMinimum}`;
+			}
+			if (property.minimum !== undefined && value < property.minimum) {
+				return `must be at least ${property.minimum}`;
+			}
+			if (property.maximum !== undefined && value > property.maximum) {
+				return `must be at most ${property.maximum}`;
+			}
+			return null;
+		}
+		case 'boolean':
+			return typeof value === 'boolean' ? null : 'must be true or false';
+		case 'array': {
+			if (!Array.isArray(value)) return 'must be an array';
+			if (!property.items) return null;
+			for (let i = 0; i < value.length; i++) {
+				const itemError = checkProperty(`${field}[${i}]`, value[i], {
+					type: property.items.type,
+					description: '',
+					format: property.items.format
+				});
+				if (itemError) return `item ${i} ${itemError}`;
+			}
+			return null;
+		}
+		default:
+			return null;
+	}
+}
+
+/**
+ * Validate tool arguments against an inputSchema.
+ * Returns the (lightly coerced) arguments and any issues found.
+ */
+export function validateToolArguments(
+	schema: MCPTool['inputSchema'],
+	rawArgs: unknown
+): { args: Record<string, unknown>; issues: ToolValidationIssue[] } {
+	if (
+		rawArgs !== undefined &&
+		rawArgs !== null &&
+		(typeof rawArgs !== 'object' || Array.isArray(rawArgs))
+	) {
+		return { args: {}, issues: [{ field: 'arguments', message: 'must be an object' }] };
+	}
+
+	const args: Record<string, unknown> = { ...((rawArgs as Record<string, unknown>) ?? {}) };
+	const issues: ToolValidationIssue[] = [];
+
+	for (const field of schema.required ?? []) {
+		const value = args[field];
+		if (
+			value === undefined ||
+			value === null ||
+			(typeof value === 'string' && value.trim() === '')
+		) {
+			const description = schema.properties[field]?.description;
+			issues.push({
+				field,
+				message: description ? `is required (${description})` : 'is required'
+			});
+		}
+	}
+
+	for (const [field, property] of Object.entries(schema.properties)) {
+		const value = args[field];
+		if (value === undefined || value === null) continue;
+		if (typeof value === 'string' && value.trim() === '' && !schema.required?.includes(field)) {
+			// Optional fields sent as "" are treated as not provided
+			delete args[field];
+			continue;
+		}
+		if (issues.some((issue) => issue.field === field)) continue;
+
+		args[field] = coerce(value, property.type);
+		const error = checkProperty(field, args[field], property);
+		if (error) {
+			issues.push({ field, message: error });
+		}
+	}
+
+	return { args, issues };
+}
+
+/**
+ * Build the tool message content for a failed tool call
+ */
+export function toolErrorResult(toolName: string, error: unknown): Record<string, unknown> {
+	if (error instanceof ToolValidationError) {
+		return error.toToolResult();
+	}
+	return {
+		success: false,
+		error: error instanceof Error ? error.message : String(error),
+		tool: toolName
+	};
+}
@@ -2,20 +2,24 @@
 import { OpenAIService } from './openai-service';
 import type { GenericChatMessage } from '$lib/utils/tokens';
 import { MicrosoftGraphService } from './microsoft-graph';
-import { MicrosoftGraphAuth } from './microsoft-graph-auth';
+import { MicrosoftGraphAuth, type DelegatedTokenRefresh } from './microsoft-graph-auth';
 import { CalendarAIHelper } from './ai-calendar-helpers';
 import { getChatHistoryAsync, setChatHistoryAsync } from './chat-history-store';
 import { prepareChatHistory } from '$lib/utils/tokens';
 import { buildSystemPrompt } from '$lib/prompts/billi-prompts';
 import { ToolExecutor } from './tool-executor';
+import { toolErrorResult } from './tool-validation';
+import { getToolResultCard, getToolStatusLabel } from './tool-registry';
 import {
 	detectAvailabilityIntent,
+	detectMeetingChangeIntent,
 	detectTimeEntryIntent,
 	determineToolScope,
 	isConfirmation,
 	extractTextContent,
 	formatAvailabilityResponse,
 } from './intent-detector';
+import type { LoggedInUser } from '$lib/types/user';
 
 type StoredChatMessage = GenericChatMessage;
 
@@ -30,7 +34,7 @@ export class UnifiedMCPServer {
 	private toolExecutor: ToolExecutor;
 	private sessionId: string;
 	private chatHistory: StoredChatMessage[] = [];
-	private loggedInUser: { name: string; email: string } | null = null;
+	private loggedInUser: LoggedInUser | null = null;
 	private lastTimestamp: number = 0;
 	private historyLoaded: boolean = false;
 
@@ -39,12 +43,13 @@ export class UnifiedMCPServer {
 		sessionId: string,
 		authService?: MicrosoftGraphAuth,
 		accessToken?: string,
-		loggedInUser?: { name: string; email: string },
-		webhookUrl?: string
+		loggedInUser?: LoggedInUser,
+		webhookUrl?: string,
+		delegatedRefresh?: DelegatedTokenRefresh
 	) {
 		this.openaiApiKey = openaiApiKey;
 		this.openaiService = new OpenAIService(openaiApiKey);
-		const graphService = new MicrosoftGraphService(accessToken, authService);
+		const graphService = new MicrosoftGraphService(accessToken, authService, delegatedRefresh);
 		let aiHelper: CalendarAIHelper | null = null;
 		try {
 			aiHelper = new CalendarAIHelper(openaiApiKey);
@@ -101,6 +106,8 @@ export class UnifiedMCPServer {
 			const msg = this.chatHistory[i];
 			if (msg.role !== 'user') continue;
 			const text = extractTextContent(msg.content);
+			// A "yes" after a reschedule/cancel request confirms that change, not an availability check
+			if (detectMeetingChangeIntent(text)) return null;
 			const intent = detectAvailabilityIntent(text, (d) => this.parseDate(d));
 			if (intent) return intent;
 		}
@@ -133,7 +140,7 @@ export class UnifiedMCPServer {
 				this.pushToHistory({ role: 'user', content: userMessage });
 				const toolCallId = `availability-${Date.now()}`;
 				try {
-					yield `[TOOL_STATUS:${JSON.stringify({ tool: "check_availability", status: "executing", label: "Checking calendar..." })}]`;
+					yield `[TOOL_STATUS:${JSON.stringify({ tool: "check_availability", status: "executing", label: getToolStatusLabel('check_availability') })}]`;
 					const toolResult = await this.toolExecutor.execute('check_availability', {
 						user_email: availabilityIntent.name,
 						date: availabilityIntent.date,
@@ -153,7 +160,7 @@ export class UnifiedMCPServer {
 					const errorText = `I couldn't check availability: ${error.message}`;
 					this.pushToHistory({
 						role: 'tool',
-						content: JSON.stringify({ success: false, error: error.message }),
+						content: JSON.stringify(toolErrorResult('check_availability', error)),
 						toolCallId,
 					});
 					this.pushToHistory({ role: 'assistant', content: errorText });
@@ -224,20 +231,20 @@ export class UnifiedMCPServer {
 
 				for (const toolCall of toolCalls) {
 					try {
-						const statusLabel = this.toolExecutor.getToolStatusLabel(toolCall.name);
+						const statusLabel = getToolStatusLabel(toolCall.name);
 						yield `[TOOL_STATUS:${JSON.stringify({ tool: toolCall.name, status: "executing", label: statusLabel })}]`;
 						console.log(`[UnifiedMCP] Executing tool: ${toolCall.name}`);
 						const result = await this.toolExecutor.execute(toolCall.name, toolCall.parameters);
 
-						if (toolCall.name === "check_availability") {
-							availabilityResults.push(result);
-						}
-						if (toolCall.name === "book_meeting" && result.validated_date_info) {
-							yield `[TOOL_RESULT:${JSON.stringify({ type: "booking", data: result.validated_date_info })}]`;
-						}
 						if (toolCall.name === "submit_time_entry" && result.success === true) {
 							timeEntryActuallySubmitted = true;
-							yield `[TOOL_RESULT:${JSON.stringify({ type: "time_entry", data: result.timeEntry })}]`;
+						}
+						// Availability cards are merged below so several people render as one team card
+						const card = getToolResultCard(toolCall.name, result);
+						if (card?.type === 'availability') {
+							availabilityResults.push(card.data);
+						} else if (card) {
+							yield `[TOOL_RESULT:${JSON.stringify(card)}]`;
 						}
 						toolResults.push({ role: 'tool', content: JSON.stringify(result), toolCallId: toolCall.id });
 					} catch (error: any) {
@@ -246,7 +253,7 @@ export class UnifiedMCPServer {
 						}
 						toolResults.push({
 							role: 'tool',
-							content: JSON.stringify({ success: false, error: error.message, tool: toolCall.name }),
+							content: JSON.stringify(toolErrorResult(toolCall.name, error)),
 							toolCallId: toolCall.id,
 						});
 					}
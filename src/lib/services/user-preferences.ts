@@ -0,0 +1,84 @@
+/**
+ * User preferences – per-user settings stored in Supabase (user_preferences).
+ * The time zone drives date parsing, free-slot windows, bookings and time-entry dates.
+ */
+
+import { getSupabaseClient } from './supabase';
+import type { MicrosoftGraphService } from './microsoft-graph';
+import { DEFAULT_TIME_ZONE, resolveTimeZone } from '$lib/utils/datetime';
+
+const TIME_ZONE_CACHE_MS = 10 * 60 * 1000;
+const timeZoneCache = new Map<string, { timeZone: string; expires: number }>();
+
+/**
+ * Time zone saved on the user's profile, or null if they have not set one
+ */
+export async function getProfileTimeZone(email: string): Promise<string | null> {
+	try {
+		const supabase = getSupabaseClient();
+		const { data, error } = await supabase
+			.from('user_preferences')
+			.select('time_zone')
+			.eq('user_email', email.toLowerCase())
+			.maybeSingle();
+
+		if (error) {
+			console.error('[UserPreferences] Error fetching time zone:', error);
+			return null;
+		}
+		return resolveTimeZone(data?.time_zone);
+	} catch (error) {
+		console.error('[UserPreferences] Error in getProfileTimeZone:', error);
+		return null;
+	}
+}
+
+/**
+ * Save (or clear with null) the user's profile time zone. Returns the stored IANA name.
+ */
+export async function setProfileTimeZone(
+	email: string,
+	timeZone: string | null
+): Promise<string | null> {
+	const resolved = timeZone === null ? null : resolveTimeZone(timeZone);
+	if (timeZone !== null && !resolved) {
+		throw new Error(`Unknown time zone: ${timeZone}`);
+	}
+
+	const supabase = getSupabaseClient();
+	const { error } = await supabase.from('user_preferences').upsert({
+		user_email: email.toLowerCase(),
+		time_zone: resolved,
+		updated_at: new Date().toISOString()
+	});
+	if (error) {
+		throw new Error(`Failed to save time zone: ${error.message}`);
+	}
+
+	timeZoneCache.delete(email.toLowerCase());
+	return resolved;
+}
+
+/**
+ * Resolve a user's time zone: profile setting, then their Outlook mailbox zone, then the default.
+ * Works for any user in the tenant, so it is also used for the other side of a booking.
+ */
+export async function getUserTimeZone(
+	email: string,
+	graphService?: MicrosoftGraphService
+): Promise<string> {
+	const key = email.toLowerCase();
+	const cached = timeZoneCache.get(key);
+	if (cached && cached.expires > Date.now()) {
+		return cached.timeZone;
+	}
+
+	let timeZone = await getProfileTimeZone(key);
+	if (!timeZone && graphService) {
+		timeZone = resolveTimeZone(await graphService.getMailboxTimeZone(key));
+	}
+
+	const result = timeZone ?? DEFAULT_TIME_ZONE;
+	timeZoneCache.set(key, { timeZone: result, expires: Date.now() + TIME_ZONE_CACHE_MS });
+	return result;
+}
@@ -0,0 +1,46 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { FirefliesTranscript } from './fireflies';
+import { chunkDocument, DEFAULT_INDEX_CONFIG } from './rag-indexer';
+import { parseTranscriptTurns, VectorDBService } from './vector-db';
+
+// Only the document-building methods are used, so no database or Cohere client is needed
+const vectorDB = Object.create(VectorDBService.prototype) as VectorDBService;
+
+const transcript = {
+	id: 'transcript-1',
+	title: 'Release sync',
+	date: '1767225600000',
+	duration: 5,
+	transcript_url: 'https://app.fireflies.ai/view/transcript-1',
+	sentences: [
+		{ index: 0, speaker_name: 'Alice', text: 'We ship Friday.', start_time: 0, end_time: 3 },
+		{ index: 1, speaker_name: 'Alice', text: 'Docs are ready.', start_time: 3, end_time: 6 },
+		{
+			index: 2,
+			speaker_name: 'Bob',
+			text: 'The migration is blocked.',
+			start_time: 7,
+			end_time: 10
+		},
+		{ index: 3, speaker_name: 'Alice', text: 'Who owns it?', start_time: 65, end_time: 67 }
+	]
+} as FirefliesTranscript;
+
+test('speaker turns survive chunking', () => {
+	const chunks = chunkDocument(vectorDB.buildTranscriptDocument(transcript), DEFAULT_INDEX_CONFIG);
+	const turns = chunks.flatMap((chunk) => parseTranscriptTurns(chunk.content));
+
+	assert.deepEqual(turns, [
+		{ speaker: 'Alice', start_time: 0, text: 'We ship Friday. Docs are ready.' },
+		{ speaker: 'Bob', start_time: 7, text: 'The migration is blocked.' },
+		{ speaker: 'Alice', start_time: 65, text: 'Who owns it?' }
+	]);
+});
+
+test('text before the first turn marker is skipped', () => {
+	assert.deepEqual(parseTranscriptTurns('ready. [1:02:03] Carol: Next item'), [
+		{ speaker: 'Carol', start_time: 3723, text: 'Next item' }
+	]);
+	assert.deepEqual(parseTranscriptTurns('Overview: a release sync'), []);
+});
@@ -1,14 +1,29 @@
 // Vector Database Service for Fireflies Transcripts
-// Uses Railway PostgreSQL with pgvector extension for semantic search
+// Transcripts are stored as RAG documents (source_type 'fireflies') in the pgvector
+// documents/chunks tables, so RagRetrievalService, /rag/ask and the Fireflies agent share one corpus
 
 import pg from 'pg';
 import { CohereClientV2 } from 'cohere-ai';
-import type { FirefliesTranscript } from './fireflies';
+import {
+	formatTranscriptTime,
+	type FirefliesTranscript,
+	type FirefliesSentence
+} from './fireflies';
+import {
+	DEFAULT_INDEX_CONFIG,
+	indexDocument,
+	type RagIndexResult,
+	type RagInputDocument
+} from './rag-indexer';
+import { invalidateCachedAnswers } from './rag-answer-cache';
+import { buildAccessClause, type RagAccessScope } from './rag-access';
 
 // ============================================================================
 // Type Definitions
 // ============================================================================
 
+export const FIREFLIES_SOURCE_TYPE = 'fireflies';
+
 export interface SearchFilters {
 	dateRange?: [Date, Date];
 	participants?: string[];
@@ -17,7 +32,7 @@ export interface SearchFilters {
 
 export interface SearchOptions {
 	limit?: number;
-	searchChunks?: boolean;
+	searchChunks?: boolean; // every matching chunk instead of the best chunk per meeting
 }
 
 export interface SearchResult {
@@ -29,83 +44,62 @@ export interface SearchResult {
 	transcript_url: string;
 	source: 'transcript' | 'chunk';
 	chunk_topic?: string;
+	chunk_id?: string; // RAG chunk and document ids, when the result came from RagRetrievalService
+	doc_id?: string;
+	speakers?: string[]; // who speaks in the chunk, and when (seconds into the recording)
+	start_time?: number;
+	end_time?: number;
+	deep_link?: string; // transcript_url opened at start_time
+	quotes?: TranscriptQuote[]; // the chunk's speaker turns
 }
 
-interface ChunkData {
-	chunk_text: string;
-	chunk_topic: string;
-	speakers_in_chunk: string[];
+// One speaker turn of a transcript chunk
+export interface TranscriptQuote {
+	speaker: string;
 	start_time: number;
+	text: string;
+	deep_link?: string;
+}
+
+// Metadata on each transcript chunk, next to the meeting metadata inherited from the document
+export interface TranscriptChunkMetadata {
+	speakers: string[];
+	start_time: number; // seconds from the start of the recording
 	end_time: number;
 }
 
-// ============================================================================
-// SQL Schema
-// ============================================================================
+// A transcript as stored in `documents`, in the shape of the former fireflies_transcripts rows
+export interface StoredTranscript {
+	id: string;
+	title: string | null;
+	transcript_date: string | null;
+	transcript_url: string | null;
+	duration_seconds: number | null;
+	host_email: string | null;
+	organizer_email: string | null;
+	participants: string[];
+	speakers: string[];
+	summary_overview: string | null;
+	summary_action_items: string | null;
+	summary_keywords: string[];
+	summary_meeting_type: string | null;
+	full_transcript_text: string | null;
+}
+
+export interface TranscriptChunk {
+	id: string;
+	section: string | null;
+	order_index: number | null;
+	content: string;
+	metadata: Partial<TranscriptChunkMetadata> & Record<string, unknown>;
+}
 
-const CREATE_EXTENSION_SQL = `CREATE EXTENSION IF NOT EXISTS vector;`;
-
-const CREATE_TRANSCRIPTS_TABLE_SQL = `
-CREATE TABLE IF NOT EXISTS fireflies_transcripts (
-    id TEXT PRIMARY KEY,
-    title TEXT,
-    transcript_date TIMESTAMP,
-    duration_seconds INTEGER,
-    host_email TEXT,
-    organizer_email TEXT,
-    participants TEXT[],
-    fireflies_users TEXT[],
-    calendar_type TEXT,
-    meeting_link TEXT,
-    transcript_url TEXT,
-    audio_url TEXT,
-    video_url TEXT,
-    summary_keywords TEXT[],
-    summary_action_items TEXT,
-    summary_overview TEXT,
-    summary_short_summary TEXT,
-    summary_gist TEXT,
-    summary_meeting_type TEXT,
-    summary_topics_discussed TEXT[],
-    sentiment_negative_pct FLOAT,
-    sentiment_neutral_pct FLOAT,
-    sentiment_positive_pct FLOAT,
-    speakers JSONB,
-    meeting_attendees JSONB,
-    full_transcript_text TEXT,
-    embedding vector(1024),
-    created_at TIMESTAMP DEFAULT NOW(),
-    updated_at TIMESTAMP DEFAULT NOW()
-);
-`;
-
-const CREATE_CHUNKS_TABLE_SQL = `
-CREATE TABLE IF NOT EXISTS fireflies_chunks (
-    id TEXT PRIMARY KEY,
-    transcript_id TEXT REFERENCES fireflies_transcripts(id) ON DELETE CASCADE,
-    chunk_index INTEGER,
-    chunk_text TEXT,
-    chunk_topic TEXT,
-    speakers_in_chunk TEXT[],
-    start_time FLOAT,
-    end_time FLOAT,
-    embedding vector(1024),
-    created_at TIMESTAMP DEFAULT NOW(),
-    UNIQUE(transcript_id, chunk_index)
-);
-`;
-
-const CREATE_INDEXES_SQL = [
-	`CREATE INDEX IF NOT EXISTS idx_transcript_date ON fireflies_transcripts(transcript_date DESC);`,
-	`CREATE INDEX IF NOT EXISTS idx_participants ON fireflies_transcripts USING GIN(participants);`,
-	`CREATE INDEX IF NOT EXISTS idx_keywords ON fireflies_transcripts USING GIN(summary_keywords);`,
-];
-
-// IVFFlat indexes require data to exist first, so we create them conditionally
-const CREATE_VECTOR_INDEXES_SQL = [
-	`CREATE INDEX IF NOT EXISTS idx_transcript_embedding ON fireflies_transcripts USING ivfflat (embedding vector_cosine_ops) WITH (lists = 100);`,
-	`CREATE INDEX IF NOT EXISTS idx_chunk_embedding ON fireflies_chunks USING ivfflat (embedding vector_cosine_ops) WITH (lists = 100);`,
-];
+type TranscriptSection = NonNullable<RagInputDocument['sections']>[number];
+
+// Sections no longer than one chunk, so each keeps its own speakers and times
+const SECTION_MAX_WORDS = DEFAULT_INDEX_CONFIG.chunkSizeTokens;
+const SUMMARY_SECTION = 'Summary';
+const TRANSCRIPT_SECTION = 'Transcript';
 
 // ============================================================================
 // Service Implementation
@@ -113,6 +107,34 @@ const CREATE_VECTOR_INDEXES_SQL = [
 
 let poolInstance: pg.Pool | null = null;
 
+const countWords = (text: string) => text.split(/\s+/).filter(Boolean).length;
+
+// "[m:ss] Speaker: " at the start of a turn written by cleanTranscriptText with timestamps
+const TURN_MARKER = /(?<=^|\s)\[(\d+(?::\d{2}){1,2})\]\s+([^:[\]\n]+?):\s+/g;
+
+/**
+ * Split chunk text written by cleanTranscriptText with timestamps back into speaker turns.
+ * Turns are found by their "[m:ss] Speaker:" markers, since indexing collapses the blank lines
+ * between them; text before the first marker (summaries, a turn cut by the chunk overlap) is skipped.
+ */
+export const parseTranscriptTurns = (text: string): TranscriptQuote[] => {
+	const markers = [...text.matchAll(TURN_MARKER)];
+	const turns: TranscriptQuote[] = [];
+	markers.forEach((marker, i) => {
+		const start = marker.index + marker[0].length;
+		const turnText = text.slice(start, markers[i + 1]?.index ?? text.length).trim();
+		if (!turnText) return;
+		const seconds = marker[1].split(':').reduce((total, part) => total * 60 + Number(part), 0);
+		turns.push({ speaker: marker[2].trim(), start_time: seconds, text: turnText });
+	});
+	return turns;
+};
+
+const asText = (value: string | string[] | null | undefined): string | null => {
+	if (Array.isArray(value)) return value.filter(Boolean).join('\n') || null;
+	return value?.trim() || null;
+};
+
 export class VectorDBService {
 	private pool: pg.Pool;
 	private cohere: CohereClientV2;
@@ -145,81 +167,41 @@ export class VectorDBService {
 				connectionString: dbUrl,
 				ssl: shouldDisableSsl ? false : { rejectUnauthorized: false },
 				max: 10,
-				idleTimeoutMillis: 30000,
+				idleTimeoutMillis: 30000
 			});
 		}
 		this.pool = poolInstance;
 
 		this.cohere = new CohereClientV2({
-			token: apiKey,
+			token: apiKey
 		});
 	}
 
 	/**
-	 * Initialize the database schema
-	 * Creates pgvector extension, tables, and indexes
+	 * Check the database has the RAG schema transcripts are stored in.
+	 * The schema itself lives in src/lib/scripts/rag-schema.sql.
 	 */
 	async initialize(): Promise<void> {
-		const client = await this.pool.connect();
-		try {
-			console.log('[VectorDB] Initializing database schema...');
-
-			// Create pgvector extension
-			await client.query(CREATE_EXTENSION_SQL);
-			console.log('[VectorDB] pgvector extension enabled');
-
-			// Create tables
-			await client.query(CREATE_TRANSCRIPTS_TABLE_SQL);
-			console.log('[VectorDB] fireflies_transcripts table ready');
-
-			await client.query(CREATE_CHUNKS_TABLE_SQL);
-			console.log('[VectorDB] fireflies_chunks table ready');
-
-			// Create standard indexes
-			for (const sql of CREATE_INDEXES_SQL) {
-				await client.query(sql);
-			}
-			console.log('[VectorDB] Standard indexes created');
-
-			// Check if we have enough data for IVFFlat indexes (need at least 100 rows)
-			const countResult = await client.query(
-				'SELECT COUNT(*) as count FROM fireflies_transcripts WHERE embedding IS NOT NULL'
+		const result = await this.pool.query(
+			`SELECT COUNT(*)::int AS count FROM information_schema.columns
+			 WHERE table_name = 'documents' AND column_name IN ('occurred_at', 'source_sections')`
+		);
+		if (result.rows[0].count < 2) {
+			throw new Error(
+				'The RAG documents table is missing or outdated. Apply src/lib/scripts/rag-schema.sql first.'
 			);
-			const rowCount = parseInt(countResult.rows[0].count, 10);
-
-			if (rowCount >= 100) {
-				for (const sql of CREATE_VECTOR_INDEXES_SQL) {
-					try {
-						await client.query(sql);
-					} catch (err: any) {
-						// Index might already exist or not enough data
-						if (!err.message?.includes('already exists')) {
-							console.warn(`[VectorDB] Could not create vector index: ${err.message}`);
-						}
-					}
-				}
-				console.log('[VectorDB] Vector indexes created');
-			} else {
-				console.log(
-					`[VectorDB] Skipping IVFFlat indexes (need 100+ rows, have ${rowCount}). Will use sequential scan.`
-				);
-			}
-
-			console.log('[VectorDB] Database initialization complete');
-		} catch (error: any) {
-			console.error('[VectorDB] Initialization failed:', error.message);
-			throw new Error(`Failed to initialize vector database: ${error.message}`);
-		} finally {
-			client.release();
 		}
+		console.log('[VectorDB] RAG schema ready for Fireflies transcripts');
 	}
 
 	/**
 	 * Clean and format transcript text from sentences array
-	 * Groups consecutive sentences by speaker for readability
+	 * Groups consecutive sentences by speaker for readability; with `timestamps` each turn starts
+	 * with its time ("[12:34] Sarah: ..."), so answers can quote when something was said
 	 */
 	cleanTranscriptText(
-		sentences: Array<{ speaker_name: string; text: string }>
+		sentences: Array<{ speaker_name: string; text: string; start_time?: number }>,
+		options: { timestamps?: boolean } = {}
 	): string {
 		if (!sentences || sentences.length === 0) {
 			return '';
@@ -228,6 +210,7 @@ export class VectorDBService {
 		const lines: string[] = [];
 		let currentSpeaker = '';
 		let currentTexts: string[] = [];
+		let currentPrefix = '';
 
 		for (const sentence of sentences) {
 			const text = sentence.text?.trim();
@@ -238,10 +221,13 @@ export class VectorDBService {
 			if (speaker !== currentSpeaker) {
 				// Flush previous speaker's text
 				if (currentSpeaker && currentTexts.length > 0) {
-					lines.push(`${currentSpeaker}: ${currentTexts.join(' ')}`);
+					lines.push(`${currentPrefix}${currentSpeaker}: ${currentTexts.join(' ')}`);
 				}
 				currentSpeaker = speaker;
 				currentTexts = [text];
+				currentPrefix = options.timestamps
+					? `[${formatTranscriptTime(sentence.start_time ?? 0)}] `
+					: '';
 			} else {
 				currentTexts.push(text);
 			}
@@ -249,7 +235,7 @@ export class VectorDBService {
 
 		// Flush final speaker
 		if (currentSpeaker && currentTexts.length > 0) {
-			lines.push(`${currentSpeaker}: ${currentTexts.join(' ')}`);
+			lines.push(`${currentPrefix}${currentSpeaker}: ${currentTexts.join(' ')}`);
 		}
 
 		return lines.join('\n\n');
@@ -277,7 +263,7 @@ export class VectorDBService {
 				texts: [truncatedText],
 				model: 'embed-english-v3.0',
 				inputType,
-				embeddingTypes: ['float'],
+				embeddingTypes: ['float']
 			});
 
 			const embeddings = response.embeddings;
@@ -293,302 +279,183 @@ export class VectorDBService {
 	}
 
 	/**
-	 * Determine chunking strategy based on meeting duration
-	 * @param durationSeconds - Meeting duration in seconds
-	 * @returns Chunking strategy to use
+	 * Split a transcript into sections of whole speaker turns, each short enough to be one chunk.
+	 * Sections are named after the Fireflies chapter they fall in (sentences are spread evenly
+	 * over chapters), or "Transcript" when there are none.
 	 */
-	determineChunkingStrategy(
-		durationSeconds: number
-	): 'single' | 'speaker_turns' | 'chapters' {
-		if (durationSeconds < 900) {
-			// < 15 minutes: single embedding for whole transcript
-			return 'single';
-		} else if (durationSeconds < 1800) {
-			// 15-30 minutes: chunk by speaker turns
-			return 'speaker_turns';
-		} else {
-			// >= 30 minutes: use chapters if available
-			return 'chapters';
-		}
-	}
-
-	/**
-	 * Create semantic chunks from transcript based on strategy
-	 * Returns empty array for 'single' strategy (no chunking needed)
-	 */
-	createSemanticChunks(
-		transcript: FirefliesTranscript,
-		strategy: 'single' | 'speaker_turns' | 'chapters'
-	): ChunkData[] {
-		if (strategy === 'single') {
-			return [];
-		}
-
-		const sentences = transcript.sentences || [];
+	createTranscriptSections(transcript: FirefliesTranscript): TranscriptSection[] {
+		const sentences = (transcript.sentences || []).filter((s) => s.text?.trim());
 		if (sentences.length === 0) {
 			return [];
 		}
 
-		if (strategy === 'chapters') {
-			// Try to use transcript chapters if available
-			const chapters = transcript.summary?.transcript_chapters;
-			if (chapters && Array.isArray(chapters) && chapters.length > 0) {
-				return this.createChapterChunks(transcript, chapters);
-			}
-			// Fall back to speaker turns if no chapters
-			console.log('[VectorDB] No chapters available, falling back to speaker_turns strategy');
-		}
-
-		// speaker_turns strategy (also fallback for chapters)
-		return this.createSpeakerTurnChunks(transcript);
-	}
-
-	/**
-	 * Create chunks based on transcript chapters
-	 */
-	private createChapterChunks(
-		transcript: FirefliesTranscript,
-		chapters: Array<string | { title?: string; gist?: string }>
-	): ChunkData[] {
-		const chunks: ChunkData[] = [];
-		const sentences = transcript.sentences || [];
-
-		// Chapters might be strings or objects depending on API response
-		const chapterCount = chapters.length;
-		const sentencesPerChapter = Math.ceil(sentences.length / chapterCount);
-
-		for (let i = 0; i < chapterCount; i++) {
-			const chapter = chapters[i];
-			const chapterTitle =
-				typeof chapter === 'string'
-					? chapter
-					: chapter?.title || chapter?.gist || `Chapter ${i + 1}`;
-
-			const startIdx = i * sentencesPerChapter;
-			const endIdx = Math.min(startIdx + sentencesPerChapter, sentences.length);
-			const chapterSentences = sentences.slice(startIdx, endIdx);
-
-			if (chapterSentences.length === 0) continue;
-
-			const speakers = [...new Set(chapterSentences.map((s) => s.speaker_name).filter(Boolean))];
-			const chunkText = this.cleanTranscriptText(chapterSentences);
-
-			chunks.push({
-				chunk_text: chunkText,
-				chunk_topic: chapterTitle,
-				speakers_in_chunk: speakers,
-				start_time: chapterSentences[0]?.start_time || 0,
-				end_time: chapterSentences[chapterSentences.length - 1]?.end_time || 0,
+		const chapters = (transcript.summary?.transcript_chapters || []) as Array<
+			string | { title?: string; gist?: string }
+		>;
+		const sentencesPerChapter =
+			chapters.length > 0 ? Math.ceil(sentences.length / chapters.length) : 0;
+		const sectionName = (sentenceIdx: number) => {
+			if (chapters.length === 0) return TRANSCRIPT_SECTION;
+			const chapterIdx = Math.min(
+				Math.floor(sentenceIdx / sentencesPerChapter),
+				chapters.length - 1
+			);
+			const chapter = chapters[chapterIdx];
+			return typeof chapter === 'string'
+				? chapter
+				: chapter?.title || chapter?.gist || `Chapter ${chapterIdx + 1}`;
+		};
+
+		const sections: TranscriptSection[] = [];
+		let current: FirefliesSentence[] = [];
+		let currentName = '';
+		let currentWords = 0;
+
+		const flush = () => {
+			if (current.length === 0) return;
+			const metadata: TranscriptChunkMetadata = {
+				speakers: [...new Set(current.map((s) => s.speaker_name || 'Unknown'))],
+				start_time: current[0].start_time || 0,
+				end_time: current[current.length - 1].end_time || 0
+			};
+			sections.push({
+				section: currentName,
+				text: this.cleanTranscriptText(current, { timestamps: true }),
+				metadata: { ...metadata }
 			});
+			current = [];
+			currentWords = 0;
+		};
+
+		for (let i = 0; i < sentences.length; i++) {
+			const sentence = sentences[i];
+			const name = sectionName(i);
+			const words = countWords(sentence.text);
+			const previous = current[current.length - 1];
+			// Prefer breaking where the speaker changes once the section is half full
+			const speakerChange = previous && previous.speaker_name !== sentence.speaker_name;
+
+			if (
+				name !== currentName ||
+				currentWords + words > SECTION_MAX_WORDS ||
+				(speakerChange && currentWords > SECTION_MAX_WORDS / 2)
+			) {
+				flush();
+				currentName = name;
+			}
+			current.push(sentence);
+			currentWords += words;
 		}
+		flush();
 
-		return chunks;
+		return sections;
 	}
 
 	/**
-	 * Create chunks based on speaker turns (batches of 20 sentences)
+	 * Build the RAG document for a transcript: a summary section followed by the transcript turns,
+	 * with the meeting metadata on the document (and so on every chunk)
 	 */
-	private createSpeakerTurnChunks(transcript: FirefliesTranscript): ChunkData[] {
-		const SENTENCES_PER_CHUNK = 20;
-		const chunks: ChunkData[] = [];
-		const sentences = transcript.sentences || [];
-
-		for (let i = 0; i < sentences.length; i += SENTENCES_PER_CHUNK) {
-			const batchSentences = sentences.slice(i, i + SENTENCES_PER_CHUNK);
-			if (batchSentences.length === 0) continue;
-
-			const speakers = [...new Set(batchSentences.map((s) => s.speaker_name).filter(Boolean))];
-			const chunkText = this.cleanTranscriptText(batchSentences);
-			const chunkIndex = Math.floor(i / SENTENCES_PER_CHUNK);
-
-			chunks.push({
-				chunk_text: chunkText,
-				chunk_topic: `Discussion segment ${chunkIndex + 1}`,
-				speakers_in_chunk: speakers,
-				start_time: batchSentences[0]?.start_time || 0,
-				end_time: batchSentences[batchSentences.length - 1]?.end_time || 0,
-			});
-		}
-
-		return chunks;
+	buildTranscriptDocument(transcript: FirefliesTranscript): RagInputDocument {
+		// Convert Unix timestamp to ISO date
+		const transcriptDate = transcript.date
+			? new Date(
+					typeof transcript.date === 'number'
+						? transcript.date
+						: parseInt(transcript.date as string, 10)
+				)
+			: new Date();
+
+		const rawDuration =
+			typeof transcript.duration === 'number' ? transcript.duration : Number(transcript.duration);
+		const durationMinutes = Number.isFinite(rawDuration) ? rawDuration : 0;
+
+		const overview = asText(transcript.summary?.overview);
+		const actionItems = asText(transcript.summary?.action_items);
+		const keywords = transcript.summary?.keywords || [];
+		const topics = transcript.summary?.topics_discussed || [];
+		const speakers = [
+			...new Set(
+				[
+					...(transcript.speakers || []).map((s) => s.name),
+					...(transcript.sentences || []).map((s) => s.speaker_name)
+				].filter(Boolean)
+			)
+		];
+
+		const summaryText = [
+			overview ? `Overview: ${overview}` : '',
+			transcript.summary?.short_summary ? `Summary: ${transcript.summary.short_summary}` : '',
+			actionItems ? `Action items:\n${actionItems}` : '',
+			topics.length > 0 ? `Topics: ${topics.join(', ')}` : '',
+			keywords.length > 0 ? `Keywords: ${keywords.join(', ')}` : ''
+		]
+			.filter(Boolean)
+			.join('\n\n');
+		const sections: TranscriptSection[] = [
+			...(summaryText ? [{ section: SUMMARY_SECTION, text: summaryText }] : []),
+			...this.createTranscriptSections(transcript)
+		];
+
+		return {
+			id: transcript.id,
+			title: transcript.title || 'Untitled meeting',
+			source_type: FIREFLIES_SOURCE_TYPE,
+			external_url: transcript.transcript_url || undefined,
+			occurred_at: transcriptDate.toISOString(),
+			content: this.cleanTranscriptText(transcript.sentences || []),
+			sections,
+			metadata: {
+				source: FIREFLIES_SOURCE_TYPE,
+				duration_seconds: Math.round(durationMinutes * 60),
+				host_email: transcript.host_email || null,
+				organizer_email: transcript.organizer_email || null,
+				participants: transcript.participants || [],
+				fireflies_users: transcript.fireflies_users || [],
+				meeting_speakers: speakers,
+				meeting_attendees: transcript.meeting_attendees || [],
+				meeting_type: transcript.summary?.meeting_type || null,
+				summary_overview: overview,
+				summary_action_items: actionItems,
+				summary_keywords: keywords,
+				calendar_type: transcript.calendar_type || null,
+				meeting_link: transcript.meeting_link || null,
+				audio_url: transcript.audio_url || null,
+				video_url: transcript.video_url || null,
+				sentiment: transcript.analytics?.sentiments || null
+			}
+		};
 	}
 
 	/**
-	 * Upsert a transcript and its chunks into the database
-	 * Generates embeddings and handles chunking automatically
+	 * Upsert a transcript as a RAG document. Chunking, embeddings and incremental re-indexing
+	 * are handled by rag-indexer, so unchanged transcripts cost nothing to re-import.
 	 */
-	async upsertTranscript(transcript: FirefliesTranscript): Promise<void> {
-		const client = await this.pool.connect();
-
+	async upsertTranscript(transcript: FirefliesTranscript): Promise<RagIndexResult> {
 		try {
 			console.log(`[VectorDB] Upserting transcript: ${transcript.title} (${transcript.id})`);
 
-			// Clean full transcript text
-			const fullTranscriptText = this.cleanTranscriptText(transcript.sentences || []);
-
-			// Build embedding text from key content
-			const embeddingParts = [
-				transcript.title,
-				transcript.summary?.overview,
-				transcript.summary?.short_summary,
-				transcript.summary?.action_items,
-				transcript.summary?.keywords?.join(', '),
-				transcript.summary?.topics_discussed?.join(', '),
-			].filter(Boolean);
-			const embeddingText = embeddingParts.join('\n\n');
-
-			// Generate main transcript embedding
-			const embedding = await this.generateEmbedding(embeddingText, 'search_document');
-
-			// Convert Unix timestamp to ISO date
-			const transcriptDate = transcript.date
-				? new Date(typeof transcript.date === 'number' ? transcript.date : parseInt(transcript.date as string, 10))
-				: new Date();
-
-			const rawDuration =
-				typeof transcript.duration === 'number'
-					? transcript.duration
-					: Number(transcript.duration);
-			const durationMinutes = Number.isFinite(rawDuration) ? rawDuration : 0;
-			const durationSeconds = Math.round(durationMinutes * 60);
-
-			// Upsert main transcript record
-			await client.query(
-				`INSERT INTO fireflies_transcripts (
-					id, title, transcript_date, duration_seconds,
-					host_email, organizer_email, participants, fireflies_users,
-					calendar_type, meeting_link, transcript_url, audio_url, video_url,
-					summary_keywords, summary_action_items, summary_overview,
-					summary_short_summary, summary_gist, summary_meeting_type, summary_topics_discussed,
-					sentiment_negative_pct, sentiment_neutral_pct, sentiment_positive_pct,
-					speakers, meeting_attendees, full_transcript_text, embedding, updated_at
-				) VALUES (
-					$1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13,
-					$14, $15, $16, $17, $18, $19, $20, $21, $22, $23, $24, $25, $26, $27, NOW()
-				)
-				ON CONFLICT (id) DO UPDATE SET
-					title = EXCLUDED.title,
-					transcript_date = EXCLUDED.transcript_date,
-					duration_seconds = EXCLUDED.duration_seconds,
-					host_email = EXCLUDED.host_email,
-					organizer_email = EXCLUDED.organizer_email,
-					participants = EXCLUDED.participants,
-					fireflies_users = EXCLUDED.fireflies_users,
-					calendar_type = EXCLUDED.calendar_type,
-					meeting_link = EXCLUDED.meeting_link,
-					transcript_url = EXCLUDED.transcript_url,
-					audio_url = EXCLUDED.audio_url,
-					video_url = EXCLUDED.video_url,
-					summary_keywords = EXCLUDED.summary_keywords,
-					summary_action_items = EXCLUDED.summary_action_items,
-					summary_overview = EXCLUDED.summary_overview,
-					summary_short_summary = EXCLUDED.summary_short_summary,
-					summary_gist = EXCLUDED.summary_gist,
-					summary_meeting_type = EXCLUDED.summary_meeting_type,
-					summary_topics_discussed = EXCLUDED.summary_topics_discussed,
-					sentiment_negative_pct = EXCLUDED.sentiment_negative_pct,
-					sentiment_neutral_pct = EXCLUDED.sentiment_neutral_pct,
-					sentiment_positive_pct = EXCLUDED.sentiment_positive_pct,
-					speakers = EXCLUDED.speakers,
-					meeting_attendees = EXCLUDED.meeting_attendees,
-					full_transcript_text = EXCLUDED.full_transcript_text,
-					embedding = EXCLUDED.embedding,
-					updated_at = NOW()`,
-				[
-					transcript.id,
-					transcript.title,
-					transcriptDate.toISOString(),
-					durationSeconds,
-					transcript.host_email || null,
-					transcript.organizer_email || null,
-					transcript.participants || [],
-					transcript.fireflies_users || [],
-					transcript.calendar_type || null,
-					transcript.meeting_link || null,
-					transcript.transcript_url || null,
-					transcript.audio_url || null,
-					transcript.video_url || null,
-					transcript.summary?.keywords || [],
-					transcript.summary?.action_items || null,
-					transcript.summary?.overview || null,
-					transcript.summary?.short_summary || null,
-					transcript.summary?.gist || null,
-					transcript.summary?.meeting_type || null,
-					transcript.summary?.topics_discussed || [],
-					transcript.analytics?.sentiments?.negative_pct || 0,
-					transcript.analytics?.sentiments?.neutral_pct || 0,
-					transcript.analytics?.sentiments?.positive_pct || 0,
-					JSON.stringify(transcript.speakers || []),
-					JSON.stringify(transcript.meeting_attendees || []),
-					fullTranscriptText,
-					`[${embedding.join(',')}]`,
-				]
+			const result = await indexDocument(
+				this.pool,
+				this.cohere,
+				this.buildTranscriptDocument(transcript)
 			);
-
-			// Determine chunking strategy and create chunks if needed
-			const strategy = this.determineChunkingStrategy(durationSeconds);
-			console.log(`[VectorDB] Using chunking strategy: ${strategy} (duration: ${durationSeconds}s)`);
-
-			if (strategy !== 'single') {
-				const chunks = this.createSemanticChunks(transcript, strategy);
-
-				// Delete existing chunks for this transcript
-				await client.query('DELETE FROM fireflies_chunks WHERE transcript_id = $1', [
-					transcript.id,
-				]);
-
-				// Insert new chunks
-				for (let i = 0; i < chunks.length; i++) {
-					const chunk = chunks[i];
-					const chunkId = `${transcript.id}_chunk_${i}`;
-
-					// Generate chunk embedding
-					const chunkEmbedding = await this.generateEmbedding(
-						chunk.chunk_text,
-						'search_document'
-					);
-
-					await client.query(
-						`INSERT INTO fireflies_chunks (
-							id, transcript_id, chunk_index, chunk_text, chunk_topic,
-							speakers_in_chunk, start_time, end_time, embedding
-						) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
-						ON CONFLICT (transcript_id, chunk_index) DO UPDATE SET
-							chunk_text = EXCLUDED.chunk_text,
-							chunk_topic = EXCLUDED.chunk_topic,
-							speakers_in_chunk = EXCLUDED.speakers_in_chunk,
-							start_time = EXCLUDED.start_time,
-							end_time = EXCLUDED.end_time,
-							embedding = EXCLUDED.embedding`,
-						[
-							chunkId,
-							transcript.id,
-							i,
-							chunk.chunk_text,
-							chunk.chunk_topic,
-							chunk.speakers_in_chunk,
-							chunk.start_time,
-							chunk.end_time,
-							`[${chunkEmbedding.join(',')}]`,
-						]
-					);
-				}
-
-				console.log(`[VectorDB] Created ${chunks.length} chunks for transcript`);
+			if (result.status === 'indexed') {
+				await invalidateCachedAnswers(this.pool, [transcript.id]);
 			}
 
-			console.log(`[VectorDB] Successfully upserted transcript: ${transcript.title}`);
+			console.log(
+				`[VectorDB] Transcript ${transcript.id} ${result.status}: ${result.inserts} new, ${result.updates} updated, ${result.deletes} removed chunks`
+			);
+			return result;
 		} catch (error: any) {
 			console.error(`[VectorDB] Failed to upsert transcript ${transcript.id}:`, error.message);
 			throw new Error(`Failed to upsert transcript ${transcript.id}: ${error.message}`);
-		} finally {
-			client.release();
 		}
 	}
 
 	/**
 	 * Search transcripts using semantic similarity
-	 * Optionally searches chunks for more granular results
+	 * Returns the best chunk per meeting unless options.searchChunks asks for every chunk
 	 */
 	async searchTranscripts(
 		query: string,
@@ -599,105 +466,72 @@ export class VectorDBService {
 		const searchChunks = options?.searchChunks ?? false;
 
 		try {
-			console.log(`[VectorDB] Searching for: "${query}" (limit: ${limit}, chunks: ${searchChunks})`);
+			console.log(
+				`[VectorDB] Searching for: "${query}" (limit: ${limit}, chunks: ${searchChunks})`
+			);
 
 			// Generate query embedding
 			const queryEmbedding = await this.generateEmbedding(query, 'search_query');
-			const embeddingStr = `[${queryEmbedding.join(',')}]`;
 
 			// Build WHERE clauses
-			const whereClauses: string[] = ['embedding IS NOT NULL'];
-			const params: any[] = [embeddingStr];
-			let paramIndex = 2;
+			const whereClauses: string[] = ['c.embedding IS NOT NULL', 'd.source_type = $2'];
+			const params: unknown[] = [`[${queryEmbedding.join(',')}]`, FIREFLIES_SOURCE_TYPE];
 
 			if (filters?.dateRange) {
-				whereClauses.push(`transcript_date >= $${paramIndex} AND transcript_date <= $${paramIndex + 1}`);
 				params.push(filters.dateRange[0].toISOString(), filters.dateRange[1].toISOString());
-				paramIndex += 2;
+				whereClauses.push(
+					`d.occurred_at >= $${params.length - 1} AND d.occurred_at <= $${params.length}`
+				);
 			}
 
 			if (filters?.participants && filters.participants.length > 0) {
-				whereClauses.push(`participants && $${paramIndex}`);
 				params.push(filters.participants);
-				paramIndex += 1;
+				whereClauses.push(`d.metadata->'participants' ?| $${params.length}::text[]`);
 			}
 
 			if (filters?.meetingType) {
-				whereClauses.push(`summary_meeting_type = $${paramIndex}`);
 				params.push(filters.meetingType);
-				paramIndex += 1;
+				whereClauses.push(`d.metadata->>'meeting_type' = $${params.length}`);
 			}
 
-			const whereClause = whereClauses.join(' AND ');
-
-			// Search main transcripts
-			const transcriptQuery = `
-				SELECT
-					id,
-					title,
-					transcript_date,
-					1 - (embedding <=> $1) as similarity,
-					COALESCE(summary_overview, summary_short_summary, LEFT(full_transcript_text, 500)) as excerpt,
-					transcript_url
-				FROM fireflies_transcripts
-				WHERE ${whereClause}
-				ORDER BY embedding <=> $1
-				LIMIT $${paramIndex}
-			`;
 			params.push(limit);
+			const chunkQuery = `
+				SELECT * FROM (
+					SELECT ${searchChunks ? '' : 'DISTINCT ON (c.doc_id)'}
+						c.id,
+						c.doc_id,
+						c.section,
+						c.content,
+						d.title,
+						d.occurred_at,
+						d.external_url,
+						1 - (c.embedding <=> $1) as similarity
+					FROM chunks c
+					JOIN documents d ON c.doc_id = d.id
+					WHERE ${whereClauses.join(' AND ')}
+					ORDER BY ${searchChunks ? '' : 'c.doc_id,'} c.embedding <=> $1
+				) best
+				ORDER BY similarity DESC
+				LIMIT $${params.length}
+			`;
 
-			const transcriptResults = await this.pool.query(transcriptQuery, params);
+			const chunkResults = await this.pool.query(chunkQuery, params);
 
-			const results: SearchResult[] = transcriptResults.rows.map((row) => ({
-				id: row.id,
+			const results: SearchResult[] = chunkResults.rows.map((row) => ({
+				id: searchChunks ? row.id : row.doc_id,
 				title: row.title,
-				transcript_date: new Date(row.transcript_date),
+				transcript_date: new Date(row.occurred_at),
 				similarity: parseFloat(row.similarity),
-				excerpt: row.excerpt || '',
-				transcript_url: row.transcript_url || '',
-				source: 'transcript' as const,
+				excerpt: row.content?.substring(0, 500) || '',
+				transcript_url: row.external_url || '',
+				source: searchChunks ? ('chunk' as const) : ('transcript' as const),
+				chunk_topic: row.section || undefined,
+				chunk_id: row.id,
+				doc_id: row.doc_id
 			}));
 
-			// Optionally search chunks for more granular results
-			if (searchChunks) {
-				const chunkQuery = `
-					SELECT
-						c.id,
-						c.transcript_id,
-						c.chunk_topic,
-						c.chunk_text,
-						t.title,
-						t.transcript_date,
-						t.transcript_url,
-						1 - (c.embedding <=> $1) as similarity
-					FROM fireflies_chunks c
-					JOIN fireflies_transcripts t ON c.transcript_id = t.id
-					WHERE c.embedding IS NOT NULL
-					ORDER BY c.embedding <=> $1
-					LIMIT $2
-				`;
-
-				const chunkResults = await this.pool.query(chunkQuery, [embeddingStr, limit]);
-
-				for (const row of chunkResults.rows) {
-					results.push({
-						id: row.id,
-						title: row.title,
-						transcript_date: new Date(row.transcript_date),
-						similarity: parseFloat(row.similarity),
-						excerpt: row.chunk_text?.substring(0, 500) || '',
-						transcript_url: row.transcript_url || '',
-						source: 'chunk' as const,
-						chunk_topic: row.chunk_topic,
-					});
-				}
-
-				// Sort combined results by similarity
-				results.sort((a, b) => b.similarity - a.similarity);
-			}
-
 			console.log(`[VectorDB] Found ${results.length} results`);
-			return results.slice(0, limit);
+			return results;
 		} catch (error: any) {
 			console.error('[VectorDB] Search failed:', error.message);
 			throw new Error(`Search failed: ${error.message}`);
@@ -705,32 +539,62 @@ export class VectorDBService {
 	}
 
 	/**
-	 * Get a transcript by ID
+	 * Get a transcript by ID, or null if it doesn't exist or is outside `access`
 	 */
-	async getTranscript(transcriptId: string): Promise<any | null> {
+	async getTranscript(
+		transcriptId: string,
+		access: RagAccessScope
+	): Promise<StoredTranscript | null> {
+		const params: unknown[] = [transcriptId, FIREFLIES_SOURCE_TYPE];
+		const accessClause = buildAccessClause(access, params, 'd');
 		const result = await this.pool.query(
-			'SELECT * FROM fireflies_transcripts WHERE id = $1',
-			[transcriptId]
+			`SELECT id, title, occurred_at, external_url, metadata, source_content
+			 FROM documents d WHERE id = $1 AND source_type = $2 ${accessClause}`,
+			params
 		);
-		return result.rows[0] || null;
+		const row = result.rows[0];
+		if (!row) return null;
+
+		const metadata = (row.metadata || {}) as Record<string, any>;
+		return {
+			id: row.id,
+			title: row.title,
+			transcript_date: row.occurred_at ? new Date(row.occurred_at).toISOString() : null,
+			transcript_url: row.external_url,
+			duration_seconds: metadata.duration_seconds ?? null,
+			host_email: metadata.host_email ?? null,
+			organizer_email: metadata.organizer_email ?? null,
+			participants: metadata.participants || [],
+			speakers: metadata.meeting_speakers || [],
+			summary_overview: metadata.summary_overview ?? null,
+			summary_action_items: metadata.summary_action_items ?? null,
+			summary_keywords: metadata.summary_keywords || [],
+			summary_meeting_type: metadata.meeting_type ?? null,
+			full_transcript_text: row.source_content
+		};
 	}
 
 	/**
-	 * Get all chunks for a transcript
+	 * Get all chunks for a transcript, in recording order (summary first)
 	 */
-	async getTranscriptChunks(transcriptId: string): Promise<any[]> {
+	async getTranscriptChunks(transcriptId: string): Promise<TranscriptChunk[]> {
 		const result = await this.pool.query(
-			'SELECT * FROM fireflies_chunks WHERE transcript_id = $1 ORDER BY chunk_index',
+			`SELECT id, section, order_index, content, metadata FROM chunks
+			 WHERE doc_id = $1
+			 ORDER BY (metadata->>'start_time')::float NULLS FIRST, order_index`,
 			[transcriptId]
 		);
-		return result.rows;
+		return result.rows as TranscriptChunk[];
 	}
 
 	/**
 	 * Get transcript count
 	 */
 	async getTranscriptCount(): Promise<number> {
-		const result = await this.pool.query('SELECT COUNT(*) as count FROM fireflies_transcripts');
+		const result = await this.pool.query(
+			'SELECT COUNT(*) as count FROM documents WHERE source_type = $1',
+			[FIREFLIES_SOURCE_TYPE]
+		);
 		return parseInt(result.rows[0].count, 10);
 	}
 
@@ -738,7 +602,11 @@ export class VectorDBService {
 	 * Delete a transcript and its chunks
 	 */
 	async deleteTranscript(transcriptId: string): Promise<void> {
-		await this.pool.query('DELETE FROM fireflies_transcripts WHERE id = $1', [transcriptId]);
+		await this.pool.query('DELETE FROM documents WHERE id = $1 AND source_type = $2', [
+			transcriptId,
+			FIREFLIES_SOURCE_TYPE
+		]);
+		await invalidateCachedAnswers(this.pool, [transcriptId]);
 		console.log(`[VectorDB] Deleted transcript: ${transcriptId}`);
 	}
 
@@ -18,16 +18,26 @@ export interface MCPResponse {
 	};
 }
 
+export interface MCPToolProperty {
+	type: string;
+	description: string;
+	enum?: string[];
+	format?: 'date' | 'date-time' | 'email';
+	minimum?: number;
+	maximum?: number;
+	exclusiveMinimum?: number;
+	items?: {
+		type: string;
+		format?: 'date' | 'date-time' | 'email';
+	};
+}
+
 export interface MCPTool {
 	name: string;
 	description: string;
 	inputSchema: {
 		type: 'object';
-		properties: Record<string, {
-			type: string;
-			description: string;
-			enum?: string[];
-		}>;
+		properties: Record<string, MCPToolProperty>;
 		required?: string[];
 	};
 }
@@ -125,3 +135,77 @@ export interface MCPToolsCallResponse extends MCPResponse {
 		isError?: boolean;
 	};
 }
+
+// JSON-RPC error codes used by the MCP endpoint
+export const MCP_ERROR_CODES = {
+	PARSE_ERROR: -32700,
+	INVALID_REQUEST: -32600,
+	METHOD_NOT_FOUND: -32601,
+	INVALID_PARAMS: -32602,
+	INTERNAL_ERROR: -32603,
+} as const;
+
+// MCP Resources List/Read Request/Response
+export interface MCPResourceContents {
+	uri: string;
+	mimeType?: string;
+	text?: string;
+	blob?: string;
+}
+
+export interface MCPResourcesListRequest extends MCPRequest {
+	method: 'resources/list';
+}
+
+export interface MCPResourcesListResponse extends MCPResponse {
+	result: {
+		resources: MCPResource[];
+	};
+}
+
+export interface MCPResourcesReadRequest extends MCPRequest {
+	method: 'resources/read';
+	params: {
+		uri: string;
+	};
+}
+
+export interface MCPResourcesReadResponse extends MCPResponse {
+	result: {
+		contents: MCPResourceContents[];
+	};
+}
+
+// MCP Prompts List/Get Request/Response
+export interface MCPPromptMessage {
+	role: 'user' | 'assistant';
+	content: {
+		type: 'text';
+		text: string;
+	};
+}
+
+export interface MCPPromptsListRequest extends MCPRequest {
+	method: 'prompts/list';
+}
+
+export interface MCPPromptsListResponse extends MCPResponse {
+	result: {
+		prompts: MCPPrompt[];
+	};
+}
+
+export interface MCPPromptsGetRequest extends MCPRequest {
+	method: 'prompts/get';
+	params: {
+		name: string;
+		arguments?: Record<string, string>;
+	};
+}
+
+export interface MCPPromptsGetResponse extends MCPResponse {
+	result: {
+		description?: string;
+		messages: MCPPromptMessage[];
+	};
+}
@@ -1,5 +1,32 @@
 // Microsoft Graph API Types for Calendar and Events
 
+export type MicrosoftGraphDayOfWeek =
+	| 'sunday'
+	| 'monday'
+	| 'tuesday'
+	| 'wednesday'
+	| 'thursday'
+	| 'friday'
+	| 'saturday';
+
+export interface MicrosoftGraphRecurrence {
+	pattern: {
+		type: 'daily' | 'weekly' | 'absoluteMonthly' | 'relativeMonthly' | 'absoluteYearly' | 'relativeYearly';
+		interval: number;
+		daysOfWeek?: MicrosoftGraphDayOfWeek[];
+		dayOfMonth?: number;
+		firstDayOfWeek?: MicrosoftGraphDayOfWeek;
+		index?: 'first' | 'second' | 'third' | 'fourth' | 'last';
+		month?: number;
+	};
+	range: {
+		type: 'endDate' | 'noEnd' | 'numbered';
+		startDate: string; // YYYY-MM-DD
+		endDate?: string; // YYYY-MM-DD
+		numberOfOccurrences?: number;
+	};
+}
+
 export interface MicrosoftGraphEvent {
 	id?: string;
 	subject: string;
@@ -25,30 +52,31 @@ export interface MicrosoftGraphEvent {
 			name?: string;
 		};
 		type: 'required' | 'optional' | 'resource';
+		status?: {
+			response: 'none' | 'organizer' | 'tentativelyAccepted' | 'accepted' | 'declined' | 'notResponded';
+			time?: string;
+		};
 	}>;
+	organizer?: {
+		emailAddress: {
+			address: string;
+			name?: string;
+		};
+	};
+	isOrganizer?: boolean;
+	isCancelled?: boolean;
+	isOnlineMeeting?: boolean;
+	onlineMeetingProvider?: 'teamsForBusiness' | 'skypeForBusiness' | 'skypeForConsumer' | 'unknown';
+	onlineMeeting?: {
+		joinUrl: string;
+	} | null;
 	isAllDay?: boolean;
 	isReminderOn?: boolean;
 	reminderMinutesBeforeStart?: number;
 	showAs?: 'free' | 'tentative' | 'busy' | 'oof' | 'workingElsewhere' | 'unknown';
 	importance?: 'low' | 'normal' | 'high';
 	sensitivity?: 'normal' | 'personal' | 'private' | 'confidential';
-	recurrence?: {
-		pattern: {
-			type: 'daily' | 'weekly' | 'absoluteMonthly' | 'relativeMonthly' | 'absoluteYearly' | 'relativeYearly';
-			interval: number;
-			daysOfWeek?: string[];
-			dayOfMonth?: number;
-			firstDayOfWeek?: string;
-			index?: string;
-			month?: number;
-		};
-		range: {
-			type: 'endDate' | 'noEnd' | 'numbered';
-			startDate: string;
-			endDate?: string;
-			numberOfOccurrences?: number;
-		};
-	};
+	recurrence?: MicrosoftGraphRecurrence;
 }
 
 export interface MicrosoftGraphCalendar {
@@ -90,6 +118,11 @@ export interface MicrosoftGraphFreeBusyResponse {
 	value: Array<{
 		scheduleId: string;
 		availabilityView: string;
+		/** Set per schedule when Graph could not read that mailbox */
+		error?: {
+			message: string;
+			responseCode: string;
+		};
 		scheduleItems: Array<{
 			status: 'free' | 'tentative' | 'busy' | 'oof' | 'workingElsewhere' | 'unknown';
 			start: {
@@ -104,6 +137,41 @@ export interface MicrosoftGraphFreeBusyResponse {
 	}>;
 }
 
+export interface CommonSlotRequest {
+	/** Emails of everyone whose calendar is checked */
+	attendees: string[];
+	/** Attendees who must be free in every slot (e.g. the organizer) */
+	requiredAttendees?: string[];
+	/** Minimum number of attendees free in a slot. Defaults to everyone. */
+	quorum?: number;
+	startDate: string; // YYYY-MM-DD (in timeZone)
+	endDate: string; // YYYY-MM-DD (in timeZone), inclusive
+	durationMinutes: number;
+	workdayStart: string; // HH:MM (in timeZone)
+	workdayEnd: string; // HH:MM (in timeZone)
+	includeWeekends?: boolean;
+	/** IANA zone the dates and working hours are in. Defaults to Eastern. */
+	timeZone?: string;
+	maxResults?: number;
+}
+
+export interface CommonSlot {
+	start: string; // ISO 8601 UTC
+	end: string; // ISO 8601 UTC
+	available: string[];
+	/** Free, but with a tentative hold in this slot */
+	tentative: string[];
+	busy: string[];
+	/** Calendar couldn't be read, so not known to be free */
+	unknown: string[];
+}
+
+export interface CommonSlotResult {
+	slots: CommonSlot[];
+	/** Attendees whose schedules Graph could not read */
+	unavailable: Array<{ email: string; reason: string }>;
+}
+
 export interface CreateEventRequest {
 	subject: string;
 	start: string; // ISO 8601 datetime
@@ -113,4 +181,5 @@ export interface CreateEventRequest {
 	attendees?: string[]; // Email addresses
 	body?: string;
 	isAllDay?: boolean;
+	recurrence?: MicrosoftGraphRecurrence;
 }
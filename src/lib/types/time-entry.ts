@@ -5,6 +5,8 @@ export interface TimeEntryInput {
 	userName: string;
 	userEmail?: string;
 	localTimestamp: string;
+	/** IANA zone used for "today" when dating the entry. Defaults to Eastern. */
+	timeZone?: string;
 }
 
 export interface ExtractedTimeData {
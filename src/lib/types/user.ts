@@ -0,0 +1,8 @@
+// Signed-in user passed from the routes into the chat servers and tool executor
+
+export interface LoggedInUser {
+	name: string;
+	email: string;
+	/** IANA time zone from the profile setting or Outlook mailbox; Eastern when unset */
+	timeZone?: string;
+}
@@ -2,11 +2,22 @@
 
 import type { Session } from '@auth/core/types';
 
+/** Set on the session when the delegated Microsoft token could not be refreshed */
+export const ACCESS_TOKEN_REFRESH_ERROR = 'RefreshAccessTokenError';
+
+/**
+ * Get the auth error on a session, if any (e.g. ACCESS_TOKEN_REFRESH_ERROR)
+ */
+export function getAuthError(session: Session | null): string | null {
+	return (session as { error?: string } | null)?.error || null;
+}
+
 /**
  * Get Microsoft Graph access token from session
+ * Returns null when the token could not be refreshed, so callers fall back to app-only auth
  */
 export function getAccessToken(session: Session | null): string | null {
-	if (!session) {
+	if (!session || getAuthError(session)) {
 		return null;
 	}
 
@@ -2,25 +2,109 @@
  * Date/Time Utilities
  * Centralized date and time parsing/formatting functions
  *
- * IMPORTANT: All date calculations use America/New_York timezone
- * to avoid UTC date drift (e.g. 10 PM EST = next day in UTC).
+ * IMPORTANT: All date calculations are done in an explicit IANA time zone
+ * (the user's zone, falling back to America/New_York) to avoid UTC date
+ * drift (e.g. 10 PM EST = next day in UTC). The *Eastern helpers are kept
+ * for callers that have no user context.
  */
 
+/** Zone used when the user's own time zone is unknown */
+export const DEFAULT_TIME_ZONE = 'America/New_York';
+
 /**
- * Get today's date in YYYY-MM-DD format in Eastern Time.
- * This avoids the UTC drift issue where toISOString() returns
- * the next day when it's evening in EST/EDT.
+ * Windows time zone names (what Graph mailboxSettings returns) mapped to IANA names.
+ * Covers the zones our staff and clients are in; anything else falls back to the default zone.
  */
-export function getTodayEastern(): string {
-	return formatDateEastern(new Date());
+const WINDOWS_TIME_ZONES: Record<string, string> = {
+	'Eastern Standard Time': 'America/New_York',
+	'US Eastern Standard Time': 'America/Indiana/Indianapolis',
+	'Central Standard Time': 'America/Chicago',
+	'Canada Central Standard Time': 'America/Regina',
+	'Central Standard Time (Mexico)': 'America/Mexico_City',
+	'Mountain Standard Time': 'America/Denver',
+	'US Mountain Standard Time': 'America/Phoenix',
+	'Pacific Standard Time': 'America/Los_Angeles',
+	'Alaskan Standard Time': 'America/Anchorage',
+	'Hawaiian Standard Time': 'Pacific/Honolulu',
+	'Atlantic Standard Time': 'America/Halifax',
+	'Newfoundland Standard Time': 'America/St_Johns',
+	'SA Pacific Standard Time': 'America/Bogota',
+	'E. South America Standard Time': 'America/Sao_Paulo',
+	'UTC': 'UTC',
+	'GMT Standard Time': 'Europe/London',
+	'Greenwich Standard Time': 'Atlantic/Reykjavik',
+	'W. Europe Standard Time': 'Europe/Berlin',
+	'Romance Standard Time': 'Europe/Paris',
+	'Central Europe Standard Time': 'Europe/Budapest',
+	'Central European Standard Time': 'Europe/Warsaw',
+	'GTB Standard Time': 'Europe/Bucharest',
+	'FLE Standard Time': 'Europe/Kiev',
+	'South Africa Standard Time': 'Africa/Johannesburg',
+	'Israel Standard Time': 'Asia/Jerusalem',
+	'Arabian Standard Time': 'Asia/Dubai',
+	'India Standard Time': 'Asia/Kolkata',
+	'Singapore Standard Time': 'Asia/Singapore',
+	'China Standard Time': 'Asia/Shanghai',
+	'Tokyo Standard Time': 'Asia/Tokyo',
+	'Korea Standard Time': 'Asia/Seoul',
+	'W. Australia Standard Time': 'Australia/Perth',
+	'E. Australia Standard Time': 'Australia/Brisbane',
+	'AUS Eastern Standard Time': 'Australia/Sydney',
+	'New Zealand Standard Time': 'Pacific/Auckland',
+};
+
+/** IANA zones offered in the time zone picker */
+export const TIME_ZONE_OPTIONS: string[] = Array.from(new Set(Object.values(WINDOWS_TIME_ZONES)));
+
+/**
+ * Normalize a time zone name (IANA like "America/Chicago" or Windows like
+ * "Central Standard Time") to a valid IANA name. Returns null if unrecognized.
+ */
+export function resolveTimeZone(name: string | null | undefined): string | null {
+	const trimmed = name?.trim();
+	if (!trimmed) return null;
+	if (WINDOWS_TIME_ZONES[trimmed]) return WINDOWS_TIME_ZONES[trimmed];
+	try {
+		return new Intl.DateTimeFormat('en-US', { timeZone: trimmed }).resolvedOptions().timeZone;
+	} catch {
+		return null;
+	}
 }
 
 /**
- * Format a Date object as YYYY-MM-DD in Eastern Time.
+ * Time zone name to send to Microsoft Graph (prefers the Windows name when we know it)
  */
-export function formatDateEastern(date: Date): string {
+export function toGraphTimeZone(timeZone: string): string {
+	const windowsName = Object.keys(WINDOWS_TIME_ZONES).find((name) => WINDOWS_TIME_ZONES[name] === timeZone);
+	return windowsName ?? timeZone;
+}
+
+/**
+ * Short display label for a zone, e.g. "ET", "PT", "GMT+1"
+ */
+export function getTimeZoneLabel(timeZone: string, date: Date = new Date()): string {
+	const nameFor = (style: 'shortGeneric' | 'short') =>
+		new Intl.DateTimeFormat('en-US', { timeZone, timeZoneName: style })
+			.formatToParts(date)
+			.find((part) => part.type === 'timeZoneName')?.value;
+	const generic = nameFor('shortGeneric');
+	// Zones without a generic abbreviation come back as "United Kingdom Time" – use the offset form instead
+	return generic && !generic.includes(' ') ? generic : nameFor('short') || timeZone;
+}
+
+/**
+ * Get today's date in YYYY-MM-DD format in the given time zone.
+ */
+export function getTodayInZone(timeZone: string): string {
+	return formatDateInZone(new Date(), timeZone);
+}
+
+/**
+ * Format a Date object as YYYY-MM-DD in the given time zone.
+ */
+export function formatDateInZone(date: Date, timeZone: string): string {
 	const parts = new Intl.DateTimeFormat('en-CA', {
-		timeZone: 'America/New_York',
+		timeZone,
 		year: 'numeric',
 		month: '2-digit',
 		day: '2-digit',
@@ -32,24 +116,79 @@ export function formatDateEastern(date: Date): string {
 }
 
 /**
- * Get the Eastern Time UTC offset for a given date (handles EST/EDT automatically).
- * Returns a string like "-05:00" or "-04:00".
+ * Get the UTC offset of a time zone on a given date (handles DST automatically).
+ * Returns a string like "-05:00" or "+05:30".
  */
-export function getEasternOffset(dateStr: string): string {
+export function getZoneOffset(dateStr: string, timeZone: string): string {
 	const probe = new Date(`${dateStr}T12:00:00Z`);
 	const parts = new Intl.DateTimeFormat('en-US', {
-		timeZone: 'America/New_York',
+		timeZone,
 		timeZoneName: 'shortOffset',
 	}).formatToParts(probe);
-	const tz = parts.find((part) => part.type === 'timeZoneName')?.value || 'GMT-05:00';
+	const tz = parts.find((part) => part.type === 'timeZoneName')?.value || 'GMT';
 	const match = tz.match(/GMT([+-])(\d{1,2})(?::(\d{2}))?/);
-	if (!match) return '-05:00';
+	if (!match) return '+00:00';
 	const sign = match[1];
 	const hours = match[2].padStart(2, '0');
 	const minutes = (match[3] ?? '00').padStart(2, '0');
 	return `${sign}${hours}:${minutes}`;
 }
 
+/**
+ * Convert a wall-clock "YYYY-MM-DDTHH:MM:SS" in the given zone to a Date
+ */
+export function zonedLocalToDate(local: string, timeZone: string): Date {
+	return new Date(local.slice(0, 19) + getZoneOffset(local.slice(0, 10), timeZone));
+}
+
+/**
+ * Format a Date as wall-clock "YYYY-MM-DDTHH:MM:SS" in the given zone
+ */
+export function formatZonedLocal(date: Date, timeZone: string): string {
+	const time = date.toLocaleTimeString('en-GB', {
+		hour: '2-digit',
+		minute: '2-digit',
+		second: '2-digit',
+		hourCycle: 'h23',
+		timeZone,
+	});
+	return `${formatDateInZone(date, timeZone)}T${time}`;
+}
+
+/**
+ * Format a Date's own calendar fields as YYYY-MM-DD.
+ * Use for dates built with new Date(y, m, d) arithmetic, which carry no zone of their own.
+ */
+export function formatCalendarDate(date: Date): string {
+	const month = String(date.getMonth() + 1).padStart(2, '0');
+	const day = String(date.getDate()).padStart(2, '0');
+	return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Get today's date in YYYY-MM-DD format in Eastern Time.
+ * This avoids the UTC drift issue where toISOString() returns
+ * the next day when it's evening in EST/EDT.
+ */
+export function getTodayEastern(): string {
+	return getTodayInZone(DEFAULT_TIME_ZONE);
+}
+
+/**
+ * Format a Date object as YYYY-MM-DD in Eastern Time.
+ */
+export function formatDateEastern(date: Date): string {
+	return formatDateInZone(date, DEFAULT_TIME_ZONE);
+}
+
+/**
+ * Get the Eastern Time UTC offset for a given date (handles EST/EDT automatically).
+ * Returns a string like "-05:00" or "-04:00".
+ */
+export function getEasternOffset(dateStr: string): string {
+	return getZoneOffset(dateStr, DEFAULT_TIME_ZONE);
+}
+
 // Day name to number mapping
 const DAY_MAP: Record<string, number> = {
 	sunday: 0,
@@ -65,15 +204,18 @@ const DAY_MAP: Record<string, number> = {
  * Parse natural language date strings like "next monday", "tomorrow", "1/12/2026"
  * Returns date in YYYY-MM-DD format
  */
-export function parseNaturalDate(dateString: string | undefined | null): string {
+export function parseNaturalDate(
+	dateString: string | undefined | null,
+	timeZone: string = DEFAULT_TIME_ZONE,
+): string {
 	if (!dateString || dateString.trim() === '') {
-		return getTodayEastern();
+		return getTodayInZone(timeZone);
 	}
 
 	const lower = dateString.toLowerCase().trim();
-	const todayStr = getTodayEastern();
+	const todayStr = getTodayInZone(timeZone);
 
-	// Build a "today" Date anchored to Eastern midnight for relative calculations
+	// Build a "today" Date anchored to local midnight for relative calculations
 	const [ty, tm, td] = todayStr.split('-').map(Number);
 	const today = new Date(ty, tm - 1, td);
 
@@ -85,13 +227,13 @@ export function parseNaturalDate(dateString: string | undefined | null): string
 	if (lower === 'tomorrow') {
 		const tomorrow = new Date(today);
 		tomorrow.setDate(tomorrow.getDate() + 1);
-		return formatDateEastern(tomorrow);
+		return formatCalendarDate(tomorrow);
 	}
 
 	if (lower === 'yesterday') {
 		const yesterday = new Date(today);
 		yesterday.setDate(yesterday.getDate() - 1);
-		return formatDateEastern(yesterday);
+		return formatCalendarDate(yesterday);
 	}
 
 	// Handle "next [day]" patterns
@@ -102,7 +244,7 @@ export function parseNaturalDate(dateString: string | undefined | null): string
 		const nextDate = new Date(today);
 		const daysUntil = (targetDay - today.getDay() + 7) % 7 || 7;
 		nextDate.setDate(today.getDate() + daysUntil);
-		return formatDateEastern(nextDate);
+		return formatCalendarDate(nextDate);
 	}
 
 	// Handle "this [day]", "this coming [day]", and "coming [day]" patterns
@@ -119,7 +261,7 @@ export function parseNaturalDate(dateString: string | undefined | null): string
 		} else {
 			thisDate.setDate(today.getDate() + (daysUntil || (hasComingKeyword ? 7 : 0)));
 		}
-		return formatDateEastern(thisDate);
+		return formatCalendarDate(thisDate);
 	}
 
 	// Try parsing as date string (MM/DD/YYYY, YYYY-MM-DD, etc.)
@@ -141,39 +283,39 @@ export function parseNaturalDate(dateString: string | undefined | null): string
 		return todayStr;
 	}
 
-	return formatDateEastern(parsedDate);
+	return formatCalendarDate(parsedDate);
 }
 
 /**
- * Convert UTC datetime to local time string in Eastern timezone
+ * Convert UTC datetime to local time string in the given timezone
  */
-export function convertToEasternTime(utcDateTime: string): string {
+export function convertToEasternTime(utcDateTime: string, timeZone: string = DEFAULT_TIME_ZONE): string {
 	const date = new Date(utcDateTime);
 	return date.toLocaleTimeString('en-US', {
 		hour: 'numeric',
 		minute: '2-digit',
 		hour12: true,
-		timeZone: 'America/New_York',
+		timeZone,
 	});
 }
 
 /**
- * Format UTC datetime to local date and time string in Eastern timezone
+ * Format UTC datetime to local date and time string in the given timezone
  */
-export function formatEasternDateTime(utcDateTime: string): string {
+export function formatEasternDateTime(utcDateTime: string, timeZone: string = DEFAULT_TIME_ZONE): string {
 	const date = new Date(utcDateTime);
 	const dateStr = date.toLocaleDateString('en-US', {
 		weekday: 'short',
 		month: 'numeric',
 		day: 'numeric',
 		year: 'numeric',
-		timeZone: 'America/New_York',
+		timeZone,
 	});
 	const timeStr = date.toLocaleTimeString('en-US', {
 		hour: 'numeric',
 		minute: '2-digit',
 		hour12: true,
-		timeZone: 'America/New_York',
+		timeZone,
 	});
 	return `${dateStr} ${timeStr}`;
 }
@@ -217,9 +359,13 @@ export function parseTimeString(timeStr: string): { hours: number; minutes: numb
 }
 
 /**
- * Parse a time string in Eastern timezone and return an ISO datetime string
+ * Parse a time string in the given timezone (Eastern by default) and return an ISO datetime string
  */
-export function parseTimeInEastern(timeStr: string, dateStr: string): string | null {
+export function parseTimeInEastern(
+	timeStr: string,
+	dateStr: string,
+	timeZone: string = DEFAULT_TIME_ZONE,
+): string | null {
 	const trimmed = timeStr.trim();
 
 	// If already ISO format, return as-is
@@ -232,8 +378,8 @@ export function parseTimeInEastern(timeStr: string, dateStr: string): string | n
 		return null;
 	}
 
-	// Dynamically determine EST/EDT offset for the given date
-	const offset = getEasternOffset(dateStr);
+	// Dynamically determine the zone's offset (DST-aware) for the given date
+	const offset = getZoneOffset(dateStr, timeZone);
 	const isoString = `${dateStr}T${String(parsed.hours).padStart(2, '0')}:${String(parsed.minutes).padStart(2, '0')}:00${offset}`;
 
 	return new Date(isoString).toISOString();
@@ -253,8 +399,8 @@ export function getDayOfWeek(dateStr: string): string {
 /**
  * Check if a date is in the past
  */
-export function isDateInPast(dateStr: string): boolean {
-	return dateStr < getTodayEastern();
+export function isDateInPast(dateStr: string, timeZone: string = DEFAULT_TIME_ZONE): boolean {
+	return dateStr < getTodayInZone(timeZone);
 }
 
 /**
@@ -0,0 +1,442 @@
+/**
+ * Recurrence Utilities
+ * Parses phrases like "every other Tuesday until March" into Microsoft Graph
+ * recurrence patterns, expands occurrences and describes a pattern for display.
+ *
+ * All dates are plain YYYY-MM-DD calendar dates (in the user's zone); arithmetic is done at
+ * UTC noon so DST changes never shift a date.
+ */
+
+import type { MicrosoftGraphDayOfWeek, MicrosoftGraphRecurrence } from '$lib/types/microsoft-graph';
+
+const DAYS: MicrosoftGraphDayOfWeek[] = [
+	'sunday',
+	'monday',
+	'tuesday',
+	'wednesday',
+	'thursday',
+	'friday',
+	'saturday'
+];
+
+const DAY_PATTERNS: Array<[MicrosoftGraphDayOfWeek, RegExp]> = [
+	['sunday', /\bsun(?:day)?s?\b/],
+	['monday', /\bmon(?:day)?s?\b/],
+	['tuesday', /\btue(?:s|sday)?s?\b/],
+	['wednesday', /\bwed(?:nesday)?s?\b/],
+	['thursday', /\bthu(?:rs?|rsday)?s?\b/],
+	['friday', /\bfri(?:day)?s?\b/],
+	['saturday', /\bsat(?:urday)?s?\b/]
+];
+
+const MONTHS = [
+	'january',
+	'february',
+	'march',
+	'april',
+	'may',
+	'june',
+	'july',
+	'august',
+	'september',
+	'october',
+	'november',
+	'december'
+];
+
+const MONTH_PATTERN =
+	'(jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|jun(?:e)?|jul(?:y)?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)';
+
+const NUMBER_WORDS: Record<string, number> = {
+	one: 1,
+	two: 2,
+	three: 3,
+	four: 4,
+	five: 5,
+	six: 6,
+	seven: 7,
+	eight: 8,
+	nine: 9,
+	ten: 10,
+	eleven: 11,
+	twelve: 12
+};
+
+const ORDINALS: Record<string, NonNullable<MicrosoftGraphRecurrence['pattern']['index']>> = {
+	first: 'first',
+	'1st': 'first',
+	second: 'second',
+	'2nd': 'second',
+	third: 'third',
+	'3rd': 'third',
+	fourth: 'fourth',
+	'4th': 'fourth',
+	last: 'last'
+};
+
+/** Safety cap when expanding open-ended patterns */
+const MAX_EXPANDED_OCCURRENCES = 500;
+
+// ==================== DATE HELPERS ====================
+
+function toNoonUtc(dateStr: string): Date {
+	return new Date(`${dateStr}T12:00:00Z`);
+}
+
+function toDateStr(date: Date): string {
+	return date.toISOString().slice(0, 10);
+}
+
+function addDays(dateStr: string, days: number): string {
+	const date = toNoonUtc(dateStr);
+	date.setUTCDate(date.getUTCDate() + days);
+	return toDateStr(date);
+}
+
+function daysInMonth(year: number, monthIndex: number): number {
+	return new Date(Date.UTC(year, monthIndex + 1, 0)).getUTCDate();
+}
+
+function weekdayOf(dateStr: string): MicrosoftGraphDayOfWeek {
+	return DAYS[toNoonUtc(dateStr).getUTCDay()];
+}
+
+function parseNumber(value: string): number {
+	return NUMBER_WORDS[value] ?? parseInt(value, 10);
+}
+
+/**
+ * Parse the date after "until" / "through": "march", "march 15", "3/15", "2026-03-15", "the year".
+ * A bare month means the end of that month; dates before the start roll into the next year.
+ */
+function parseUntilDate(text: string, startDate: string): string | null {
+	const [startYear] = startDate.split('-').map(Number);
+	const rollForward = (year: number, monthIndex: number, day: number | null) => {
+		const build = (y: number) =>
+			`${y}-${String(monthIndex + 1).padStart(2, '0')}-${String(day ?? daysInMonth(y, monthIndex)).padStart(2, '0')}`;
+		const candidate = build(startYear);
+		return candidate < startDate ? build(startYear + 1) : candidate;
+	};
+
+	const iso = text.match(/\b(\d{4})-(\d{2})-(\d{2})\b/);
+	if (iso) return iso[0];
+
+	const slash = text.match(/\b(\d{1,2})\/(\d{1,2})(?:\/(\d{2,4}))?\b/);
+	if (slash) {
+		const month = parseInt(slash[1], 10) - 1;
+		const day = parseInt(slash[2], 10);
+		if (slash[3]) {
+			const year = slash[3].length === 2 ? 2000 + parseInt(slash[3], 10) : parseInt(slash[3], 10);
+			return `${year}-${String(month + 1).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+		}
+		return rollForward(startYear, month, day);
+	}
+
+	const named = text.match(
+		new RegExp(`\\b${MONTH_PATTERN}(?:\\s+(\\d{1,2})(?:st|nd|rd|th)?)?(?:,?\\s+(\\d{4}))?`)
+	);
+	if (named) {
+		const month = MONTHS.findIndex((m) => m.startsWith(named[1].slice(0, 3)));
+		const day = named[2] ? parseInt(named[2], 10) : null;
+		if (named[3]) {
+			const year = parseInt(named[3], 10);
+			return `${year}-${String(month + 1).padStart(2, '0')}-${String(day ?? daysInMonth(year, month)).padStart(2, '0')}`;
+		}
+		return rollForward(startYear, month, day);
+	}
+
+	// "until the end of the year"
+	if (/^(?:the\s+|this\s+)?year\b/.test(text)) {
+		return `${startYear}-12-31`;
+	}
+
+	// "until friday" - the next such weekday on or after the start
+	const weekday = DAY_PATTERNS.find(([, pattern]) => pattern.test(text))?.[0];
+	if (weekday) {
+		const offset = (DAYS.indexOf(weekday) - toNoonUtc(startDate).getUTCDay() + 7) % 7;
+		return addDays(startDate, offset);
+	}
+
+	return null;
+}
+
+// ==================== PARSING ====================
+
+/**
+ * Parse a recurrence phrase into a Graph recurrence starting at startDate (YYYY-MM-DD).
+ * Returns null when the phrase does not describe a repeating meeting, and throws when it asks
+ * for an end ("until ...") that can't be read, rather than booking a series with no end.
+ *
+ * Examples: "weekly", "every other Tuesday until March", "every Mon and Wed for 6 weeks",
+ * "daily for 10 occurrences", "every weekday", "monthly on the first Monday".
+ */
+export function parseRecurrence(
+	phrase: string,
+	startDate: string
+): MicrosoftGraphRecurrence | null {
+	const text = phrase.toLowerCase().trim();
+	if (!text) return null;
+
+	// The pattern is read from the text before "until ..." so an end date never adds weekdays
+	const patternText = text.replace(/\b(?:until|till|through|thru|ending|ends?)\b.*$/, '');
+	const days = DAY_PATTERNS.filter(([, pattern]) => pattern.test(patternText)).map(([day]) => day);
+	const isWeekdays = /\bweek\s?days\b|\bevery\s+week\s?day\b|\bevery\s+work\s?day\b/.test(
+		patternText
+	);
+	const isMonthly =
+		/\bmonthly\b|\bevery\s+(\w+\s+)?months?\b|\beach\s+month\b|\bof\s+(?:every|each|the)\s+month\b/.test(
+			patternText
+		);
+
+	// Interval: "every other", "biweekly", "every 2 weeks", "every three months"
+	let interval = 1;
+	if (/\bevery\s+other\b|\bbi-?weekly\b|\bfortnight(ly)?\b/.test(patternText)) {
+		interval = 2;
+	}
+	const everyN = patternText.match(
+		/\bevery\s+(\d+|two|three|four|five|six)\s+(days?|weeks?|months?)\b/
+	);
+	if (everyN) {
+		interval = parseNumber(everyN[1]);
+	}
+
+	let pattern: MicrosoftGraphRecurrence['pattern'] | null = null;
+	const ordinalDay = patternText.match(
+		/\b(first|1st|second|2nd|third|3rd|fourth|4th|last)\s+(sun|mon|tue|wed|thu|fri|sat)\w*/
+	);
+
+	if (isMonthly && ordinalDay) {
+		const day = DAY_PATTERNS.find(([, p]) => p.test(ordinalDay[2]))?.[0] ?? weekdayOf(startDate);
+		pattern = {
+			type: 'relativeMonthly',
+			interval,
+			daysOfWeek: [day],
+			index: ORDINALS[ordinalDay[1]]
+		};
+	} else if (isMonthly) {
+		const dayOfMonth = patternText.match(/\b(?:on\s+)?(?:the\s+)?(\d{1,2})(?:st|nd|rd|th)\b/);
+		pattern = {
+			type: 'absoluteMonthly',
+			interval,
+			dayOfMonth: dayOfMonth ? parseInt(dayOfMonth[1], 10) : toNoonUtc(startDate).getUTCDate()
+		};
+	} else if (isWeekdays) {
+		pattern = {
+			type: 'weekly',
+			interval,
+			daysOfWeek: ['monday', 'tuesday', 'wednesday', 'thursday', 'friday'],
+			firstDayOfWeek: 'sunday'
+		};
+	} else if (/\bdaily\b|\bevery\s+(\w+\s+)?days?\b|\beach\s+day\b/.test(patternText)) {
+		pattern = { type: 'daily', interval };
+	} else if (
+		days.length > 0 ||
+		/\bweekly\b|\bbi-?weekly\b|\bfortnight(ly)?\b|\bevery\s+(\w+\s+)?weeks?\b|\beach\s+week\b/.test(
+			patternText
+		)
+	) {
+		pattern = {
+			type: 'weekly',
+			interval,
+			daysOfWeek: days.length > 0 ? days : [weekdayOf(startDate)],
+			firstDayOfWeek: 'sunday'
+		};
+	}
+
+	if (!pattern) return null;
+
+	// Range: "until March", "through 3/31", "for 10 occurrences", "for 6 weeks"
+	let range: MicrosoftGraphRecurrence['range'] = { type: 'noEnd', startDate };
+	const untilMatch = text.match(
+		/\b(?:until|till|through|thru|ending|ends?)\s+(?:on\s+)?(?:the\s+end\s+of\s+)?(.+)$/
+	);
+	const countMatch = text.match(
+		/\b(\d+|one|two|three|four|five|six|seven|eight|nine|ten|eleven|twelve)\s+(?:occurrences?|times|sessions|meetings)\b/
+	);
+	const forSpanMatch = text.match(
+		/\bfor\s+(?:the\s+next\s+)?(\d+|one|two|three|four|five|six|seven|eight|nine|ten|eleven|twelve)\s+(days?|weeks?|months?)\b/
+	);
+
+	if (untilMatch) {
+		const endDate = parseUntilDate(untilMatch[1], startDate);
+		if (!endDate) {
+			throw new Error(
+				`Could not understand the end date "${untilMatch[1]}" in recurrence "${phrase}". Ask the user for a date, e.g. "until March 31" or "until 2026-12-31", or a number of occurrences.`
+			);
+		}
+		range = { type: 'endDate', startDate, endDate };
+	} else if (countMatch) {
+		range = { type: 'numbered', startDate, numberOfOccurrences: parseNumber(countMatch[1]) };
+	} else if (forSpanMatch) {
+		const amount = parseNumber(forSpanMatch[1]);
+		const unit = forSpanMatch[2];
+		let endDate: string;
+		if (unit.startsWith('day')) {
+			endDate = addDays(startDate, amount - 1);
+		} else if (unit.startsWith('week')) {
+			endDate = addDays(startDate, amount * 7 - 1);
+		} else {
+			const end = toNoonUtc(startDate);
+			end.setUTCMonth(end.getUTCMonth() + amount);
+			endDate = addDays(toDateStr(end), -1);
+		}
+		range = { type: 'endDate', startDate, endDate };
+	}
+
+	return { pattern, range };
+}
+
+// ==================== EXPANSION ====================
+
+/**
+ * Expand a recurrence into its occurrence dates (YYYY-MM-DD), at most `limit` of them
+ */
+export function expandRecurrence(recurrence: MicrosoftGraphRecurrence, limit: number): string[] {
+	const { pattern, range } = recurrence;
+	const max = Math.min(
+		limit,
+		range.type === 'numbered' ? (range.numberOfOccurrences ?? limit) : limit,
+		MAX_EXPANDED_OCCURRENCES
+	);
+	const endDate = range.type === 'endDate' ? range.endDate : undefined;
+	const interval = Math.max(1, pattern.interval || 1);
+	const dates: string[] = [];
+	const accept = (date: string) => {
+		if (date < range.startDate) return true;
+		if (endDate && date > endDate) return false;
+		dates.push(date);
+		return dates.length < max;
+	};
+
+	switch (pattern.type) {
+		case 'daily': {
+			for (let date = range.startDate; ; date = addDays(date, interval)) {
+				if (!accept(date)) break;
+			}
+			break;
+		}
+		case 'weekly': {
+			const wanted = (pattern.daysOfWeek ?? [weekdayOf(range.startDate)])
+				.map((d) => DAYS.indexOf(d))
+				.sort();
+			// Weeks are counted from the week (Sunday-based) that contains the start date
+			let weekStart = addDays(range.startDate, -toNoonUtc(range.startDate).getUTCDay());
+			for (let guard = 0; guard < MAX_EXPANDED_OCCURRENCES; guard++) {
+				let keepGoing = true;
+				for (const dayIndex of wanted) {
+					if (!accept(addDays(weekStart, dayIndex))) {
+						keepGoing = false;
+						break;
+					}
+				}
+				if (!keepGoing) break;
+				weekStart = addDays(weekStart, 7 * interval);
+			}
+			break;
+		}
+		case 'absoluteMonthly':
+		case 'relativeMonthly': {
+			const start = toNoonUtc(range.startDate);
+			for (let step = 0; step < MAX_EXPANDED_OCCURRENCES; step++) {
+				const year =
+					start.getUTCFullYear() + Math.floor((start.getUTCMonth() + step * interval) / 12);
+				const month = (start.getUTCMonth() + step * interval) % 12;
+				let day: number | null = null;
+
+				if (pattern.type === 'absoluteMonthly') {
+					const wantedDay = pattern.dayOfMonth ?? start.getUTCDate();
+					day = wantedDay <= daysInMonth(year, month) ? wantedDay : null;
+				} else {
+					const weekday = DAYS.indexOf(pattern.daysOfWeek?.[0] ?? weekdayOf(range.startDate));
+					const firstWeekday = new Date(Date.UTC(year, month, 1, 12)).getUTCDay();
+					const firstMatch = 1 + ((weekday - firstWeekday + 7) % 7);
+					const indexes = { first: 0, second: 1, third: 2, fourth: 3 } as const;
+					if (pattern.index === 'last') {
+						day = firstMatch + 7 * Math.floor((daysInMonth(year, month) - firstMatch) / 7);
+					} else {
+						day = firstMatch + 7 * indexes[pattern.index ?? 'first'];
+					}
+				}
+
+				if (day === null) continue;
+				const date = `${year}-${String(month + 1).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+				if (!accept(date)) break;
+			}
+			break;
+		}
+		default:
+			// Yearly patterns are not produced by parseRecurrence; only the start date is known
+			accept(range.startDate);
+	}
+
+	return dates;
+}
+
+// ==================== DESCRIPTION ====================
+
+function capitalize(value: string): string {
+	return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+function joinDays(days: MicrosoftGraphDayOfWeek[]): string {
+	const names = days.map(capitalize);
+	return names.length <= 1
+		? names.join('')
+		: `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}`;
+}
+
+/**
+ * Human-readable summary, e.g. "Every other Tuesday until March 31, 2026"
+ */
+export function describeRecurrence(recurrence: MicrosoftGraphRecurrence): string {
+	const { pattern, range } = recurrence;
+	const every =
+		pattern.interval === 2
+			? 'Every other'
+			: pattern.interval > 2
+				? `Every ${pattern.interval}`
+				: 'Every';
+	let summary: string;
+
+	switch (pattern.type) {
+		case 'daily':
+			summary =
+				pattern.interval === 1 ? 'Daily' : `${every} ${pattern.interval > 2 ? 'days' : 'day'}`;
+			break;
+		case 'weekly': {
+			const days = pattern.daysOfWeek ?? [];
+			const isWeekdays =
+				days.length === 5 && !days.includes('saturday') && !days.includes('sunday');
+			if (isWeekdays && pattern.interval === 1) {
+				summary = 'Every weekday';
+			} else if (pattern.interval > 2) {
+				summary = `Every ${pattern.interval} weeks on ${joinDays(days)}`;
+			} else {
+				summary = `${every} ${joinDays(days)}`;
+			}
+			break;
+		}
+		case 'absoluteMonthly':
+			summary = `${pattern.interval === 1 ? 'Monthly' : `${every} months`} on day ${pattern.dayOfMonth}`;
+			break;
+		case 'relativeMonthly':
+			summary = `${pattern.interval === 1 ? 'Monthly' : `${every} months`} on the ${pattern.index ?? 'first'} ${capitalize(pattern.daysOfWeek?.[0] ?? '')}`;
+			break;
+		default:
+			summary = 'Yearly';
+	}
+
+	if (range.type === 'endDate' && range.endDate) {
+		const end = toNoonUtc(range.endDate).toLocaleDateString('en-US', {
+			month: 'long',
+			day: 'numeric',
+			year: 'numeric',
+			timeZone: 'UTC'
+		});
+		summary += ` until ${end}`;
+	} else if (range.type === 'numbered' && range.numberOfOccurrences) {
+		summary += `, ${range.numberOfOccurrences} times`;
+	}
+
+	return summary;
+}
@@ -0,0 +1,67 @@
+/**
+ * Transcript Clip Lists
+ * Turns the meeting transcript sources behind a Fireflies answer into a plain-text list of
+ * timestamped clips with player links, for pasting into a meeting recap email.
+ */
+
+import { formatTranscriptTime } from '$lib/services/fireflies';
+import type { SearchResult } from '$lib/services/vector-db';
+
+const QUOTE_MAX_CHARS = 240;
+
+/**
+ * Indexes of the sources an answer cites ([S1], [S2, S3], ...), in the order first cited
+ */
+export function citedSourceIndexes(answer: string, sourceCount: number): number[] {
+	const indexes: number[] = [];
+	for (const citation of answer.matchAll(/\[(S\d+(?:\s*,\s*S\d+)*)\]/g)) {
+		for (const tag of citation[1].split(',')) {
+			const index = Number(tag.trim().slice(1)) - 1;
+			if (index >= 0 && index < sourceCount && !indexes.includes(index)) {
+				indexes.push(index);
+			}
+		}
+	}
+	return indexes;
+}
+
+/**
+ * Time range of a source chunk, e.g. "12:34-15:10", or '' when it has no times
+ */
+export function formatClipRange(source: Pick<SearchResult, 'start_time' | 'end_time'>): string {
+	if (source.start_time === undefined) return '';
+	return `${formatTranscriptTime(source.start_time)}-${formatTranscriptTime(source.end_time ?? source.start_time)}`;
+}
+
+/**
+ * One numbered clip per source: meeting, date and time range, a link to the moment in the
+ * recording, then the quoted speaker turns
+ */
+export function formatClipList(sources: SearchResult[], heading: string): string {
+	const lines = [heading, ''];
+
+	sources.forEach((source, i) => {
+		const date = new Date(source.transcript_date).toLocaleDateString('en-US', {
+			month: 'short',
+			day: 'numeric',
+			year: 'numeric'
+		});
+		const range = formatClipRange(source);
+		lines.push(`${i + 1}. ${source.title} (${date}${range ? `, ${range}` : ''})`);
+
+		const link = source.deep_link || source.transcript_url;
+		if (link) {
+			lines.push(`   ${link}`);
+		}
+		for (const quote of source.quotes ?? []) {
+			const text =
+				quote.text.length > QUOTE_MAX_CHARS
+					? `${quote.text.slice(0, QUOTE_MAX_CHARS).trimEnd()}...`
+					: quote.text;
+			lines.push(`   [${formatTranscriptTime(quote.start_time)}] ${quote.speaker}: "${text}"`);
+		}
+		lines.push('');
+	});
+
+	return `${lines.join('\n').trimEnd()}\n`;
+}
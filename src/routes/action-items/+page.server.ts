@@ -0,0 +1,22 @@
+import { redirect } from '@sveltejs/kit';
+import type { PageServerLoad } from './$types';
+import { listApprovals, type ApprovalStatus } from '$lib/services/action-items-approval-store';
+
+const STATUSES: ApprovalStatus[] = ['pending', 'partially_approved', 'submitted', 'expired'];
+
+export const load: PageServerLoad = async ({ url, locals }) => {
+	const session = await locals.auth();
+
+	if (!session) {
+		throw redirect(302, '/');
+	}
+
+	const statusParam = url.searchParams.get('status');
+	const status = STATUSES.find((s) => s === statusParam);
+
+	return {
+		approvals: await listApprovals({ status }),
+		status: status ?? null,
+		statuses: STATUSES
+	};
+};
@@ -1,45 +1,84 @@
 import { fail, json, redirect } from '@sveltejs/kit';
 import type { Actions, PageServerLoad } from './$types';
 import {
-	deleteApproval,
+	ACTION_ITEM_PRIORITIES,
 	getApproval,
+	recordSubmission,
+	saveReview,
 	type ActionItem,
+	type ActionItemsApproval,
 } from '$lib/services/action-items-approval-store';
-import { createApproval } from '$lib/services/action-items-approval-api';
+import { createApproval, validateReviewedItems } from '$lib/services/action-items-approval-api';
+import { getAllEmployees } from '$lib/services/azero-db';
+import { AppError } from '$lib/utils/errors';
 import { env } from '$env/dynamic/private';
 
-const buildApprovedItems = (items: ActionItem[], formData: FormData) =>
-	items.map((item, index) => {
-		const status = formData.get(`status-${index}`)?.toString() ?? 'approved';
-		return {
-			title: item.title,
-			owner: item.owner ?? '',
-			status: status === 'rejected' ? 'rejected' : 'approved',
-		};
-	});
+// Owner picker options; the page still works (with existing owners only) if AZero is unreachable
+const loadEmployees = async () => {
+	try {
+		const employees = await getAllEmployees();
+		return employees.map((e) => ({ name: e.name, email: e.email }));
+	} catch (error) {
+		console.error('[ActionItemsApproval] Failed to load employees:', error);
+		return [];
+	}
+};
+
+// Monday.com tasks are created from these, so send every field the reviewer set
+const buildApprovedItems = (items: ActionItem[]) =>
+	items.map((item) => ({
+		title: item.title,
+		owner: item.owner ?? '',
+		owner_email: item.ownerEmail ?? '',
+		goal: item.goal ?? '',
+		due_date: item.dueDate ?? '',
+		priority: item.priority ?? '',
+		status: item.decision === 'rejected' ? 'rejected' : 'approved',
+		decided_by: item.decidedBy ?? '',
+		decided_at: item.decidedAt ?? '',
+	}));
+
+// Record the webhook outcome; returns the action failure if the claim was lost or the write failed
+const record = async (...args: Parameters<typeof recordSubmission>) => {
+	try {
+		await recordSubmission(...args);
+		return null;
+	} catch (error) {
+		console.error('[ActionItemsApproval] Error recording submission:', error);
+		const status = error instanceof AppError && error.statusCode === 409 ? 409 : 500;
+		return fail(status, {
+			error: error instanceof Error ? error.message : 'Failed to record the submission.',
+		});
+	}
+};
 
-export const load: PageServerLoad = ({ url }) => {
+export const load: PageServerLoad = async ({ url, locals }) => {
 	const workflowExecutionId = url.searchParams.get('workflow_execution_id')?.trim() || null;
 	const submitted = url.searchParams.get('submitted') === '1';
+	const session = await locals.auth();
 
 	if (!workflowExecutionId) {
 		return {
 			workflowExecutionId: null,
-			actionItems: [],
-			goal: null,
+			approval: null,
+			employees: [],
+			priorities: ACTION_ITEM_PRIORITIES,
 			submitted,
 			notFound: false,
+			signedIn: !!session?.user,
 		};
 	}
 
-	const approval = getApproval(workflowExecutionId);
+	const approval = await getApproval(workflowExecutionId);
 
 	return {
 		workflowExecutionId,
-		actionItems: approval?.actionItems ?? [],
-		goal: approval?.goal ?? null,
+		approval,
+		employees: approval?.status === 'submitted' ? [] : await loadEmployees(),
+		priorities: ACTION_ITEM_PRIORITIES,
 		submitted,
-		notFound: !approval,
+		notFound: !approval || approval.status === 'expired',
+		signedIn: !!session?.user,
 	};
 };
 
@@ -59,7 +98,7 @@ export const actions: Actions = {
 				return json({ error: 'Invalid JSON body' }, { status: 400 });
 			}
 
-			const created = createApproval(payload);
+			const created = await createApproval(payload);
 			if (!created.ok) {
 				return json({ error: created.error }, { status: created.status });
 			}
@@ -74,41 +113,106 @@ export const actions: Actions = {
 			});
 		}
 
+		// Decisions are audited, so the reviewer must be signed in
+		const session = await event.locals.auth();
+		const reviewer = session?.user?.email;
+		if (!reviewer) {
+			return fail(401, { error: 'Sign in to record approval decisions.' });
+		}
+
 		const formData = await event.request.formData();
 		const workflowExecutionId = formData.get('workflow_execution_id')?.toString().trim();
+		const intent = formData.get('intent')?.toString() === 'save' ? 'save' : 'submit';
 
 		if (!workflowExecutionId) {
 			return fail(400, { error: 'Missing workflow execution id.' });
 		}
 
-		const approval = getApproval(workflowExecutionId);
+		const approval = await getApproval(workflowExecutionId);
+
+		if (!approval || (approval.status !== 'pending' && approval.status !== 'partially_approved')) {
+			return fail(404, { error: 'Approval request not found, expired or already submitted.' });
+		}
+
+		let rawItems: unknown;
+		try {
+			rawItems = JSON.parse(formData.get('items')?.toString() ?? '');
+		} catch {
+			return fail(400, { error: 'Invalid action items.' });
+		}
 
-		if (!approval) {
-			return fail(404, { error: 'Approval request not found or expired.' });
+		const reviewed = validateReviewedItems(rawItems, await loadEmployees(), approval.actionItems);
+		if (!reviewed.ok) {
+			return fail(reviewed.status, { error: reviewed.error });
 		}
 
+		// On submit, items left undecided are approved by the submitting reviewer
+		const items =
+			intent === 'submit'
+				? reviewed.items.map((item) => ({ ...item, decision: item.decision ?? 'approved' }))
+				: reviewed.items;
+
 		const webhookUrl = env.N8N_INGESTION_URL ?? env.ACTION_ITEMS_APPROVAL_WEBHOOK_URL;
-		if (!webhookUrl) {
+		if (intent === 'submit' && !webhookUrl) {
 			return fail(500, { error: 'Approval webhook URL is not configured.' });
 		}
 
-		const approvedItems = buildApprovedItems(approval.actionItems, formData);
+		// On submit this also claims the approval, so a concurrent submit gets a 409 instead of
+		// calling the webhook a second time
+		let updated: ActionItemsApproval;
+		try {
+			updated = await saveReview(workflowExecutionId, items, reviewer, {
+				submit: intent === 'submit',
+			});
+		} catch (error) {
+			if (error instanceof AppError && error.statusCode === 409) {
+				return fail(409, { error: error.message });
+			}
+			return fail(500, { error: error instanceof Error ? error.message : 'Failed to save decisions.' });
+		}
 
-		const response = await event.fetch(webhookUrl, {
-			method: 'POST',
-			headers: { 'Content-Type': 'application/json' },
-			body: JSON.stringify({ approved_items: approvedItems }),
-		});
+		if (intent === 'save' || !webhookUrl) {
+			return { saved: true };
+		}
+
+		let response: Response;
+		try {
+			response = await event.fetch(webhookUrl, {
+				method: 'POST',
+				headers: { 'Content-Type': 'application/json' },
+				body: JSON.stringify({
+					workflow_execution_id: workflowExecutionId,
+					submitted_by: reviewer,
+					approved_items: buildApprovedItems(updated.actionItems),
+				}),
+			});
+		} catch (error) {
+			// n8n never answered, so the approval is reopened and can be submitted again
+			const message = error instanceof Error ? error.message : '';
+			const recorded = await record(updated, reviewer, null, message, false);
+			return recorded ?? fail(502, { error: `Webhook request failed. ${message}`.trim() });
+		}
+
+		// Body read can fail if n8n closes the stream after sending headers; once it has answered,
+		// the submission is recorded regardless, so an accepted approval can't be submitted twice
+		let body = '';
+		try {
+			body = await response.text();
+		} catch {
+			// Keep the status without a body
+		}
+
+		const recorded = await record(updated, reviewer, response.status, body, response.ok);
+		if (recorded) {
+			return recorded;
+		}
 
 		if (!response.ok) {
-			const body = await response.text();
 			return fail(502, {
 				error: `Webhook request failed (${response.status}). ${body || 'No response body.'}`,
 			});
 		}
 
-		deleteApproval(workflowExecutionId);
-
 		const successUrl = new URL(event.url);
 		successUrl.searchParams.set('workflow_execution_id', workflowExecutionId);
 		successUrl.searchParams.set('submitted', '1');
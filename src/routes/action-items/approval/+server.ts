@@ -15,7 +15,7 @@ export const POST: RequestHandler = async (event) => {
 		return json({ error: 'Invalid JSON body' }, { status: 400 });
 	}
 
-	const created = createApproval(payload);
+	const created = await createApproval(payload);
 	if (!created.ok) {
 		return json({ error: created.error }, { status: created.status });
 	}
@@ -0,0 +1,44 @@
+import { redirect } from '@sveltejs/kit';
+import type { PageServerLoad } from './$types';
+import {
+	ACTION_ITEM_STATUSES,
+	MeetingActionItemService,
+	type ActionItemQuery
+} from '$lib/services/meeting-action-items';
+import { resolveRagAccess } from '$lib/services/rag-access';
+import { getRagPool } from '$lib/services/rag-retrieval';
+import { COHERE_API_KEY, VECTOR_DATABASE_URL } from '$env/static/private';
+
+const STATUSES = [...ACTION_ITEM_STATUSES, 'all'] as const;
+
+export const load: PageServerLoad = async ({ url, locals }) => {
+	const session = await locals.auth();
+
+	if (!session) {
+		throw redirect(302, '/');
+	}
+
+	const statusParam = url.searchParams.get('status');
+	const status = STATUSES.find((s) => s === statusParam) ?? 'open';
+	// ?owner=me is the signed-in user; any other value is an email or part of a name
+	const owner = url.searchParams.get('owner')?.trim() || '';
+	const customer = url.searchParams.get('customer')?.trim() || '';
+	const email = session.user?.email ?? undefined;
+
+	const access = await resolveRagAccess(getRagPool(VECTOR_DATABASE_URL), email);
+	const service = new MeetingActionItemService(VECTOR_DATABASE_URL, COHERE_API_KEY, access);
+	const query: ActionItemQuery = {
+		owner: owner === 'me' ? email : owner || undefined,
+		customer: customer || undefined,
+		status,
+		limit: 200
+	};
+
+	return {
+		items: owner === 'me' && !email ? [] : await service.listItems(query),
+		status,
+		owner,
+		customer,
+		statuses: STATUSES
+	};
+};
@@ -0,0 +1,93 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { ACTION_ITEM_STATUSES, MeetingActionItemService } from '$lib/services/meeting-action-items';
+import { resolveRagAccess } from '$lib/services/rag-access';
+import { getRagPool } from '$lib/services/rag-retrieval';
+import { isOpsAllowed } from '$lib/services/ops-access';
+import { COHERE_API_KEY, VECTOR_DATABASE_URL } from '$env/static/private';
+
+const MAX_BACKFILL_MEETINGS = 20;
+
+/**
+ * Set an item's status: { id, status }
+ */
+export const PATCH: RequestHandler = async (event) => {
+	const session = await event.locals.auth();
+	const email = session?.user?.email;
+	if (!session || !email) {
+		return json({ error: 'Unauthorized' }, { status: 401 });
+	}
+
+	if (!COHERE_API_KEY || !VECTOR_DATABASE_URL) {
+		return json({ error: 'Missing COHERE_API_KEY or VECTOR_DATABASE_URL' }, { status: 500 });
+	}
+
+	let body: Record<string, unknown>;
+	try {
+		body = await event.request.json();
+	} catch {
+		return json({ error: 'Invalid JSON body' }, { status: 400 });
+	}
+
+	const id = typeof body.id === 'string' ? body.id : '';
+	const status = ACTION_ITEM_STATUSES.find((s) => s === body.status);
+	if (!id || !status) {
+		return json(
+			{ error: `id and status (${ACTION_ITEM_STATUSES.join(', ')}) are required` },
+			{ status: 400 }
+		);
+	}
+
+	try {
+		const access = await resolveRagAccess(getRagPool(VECTOR_DATABASE_URL), email);
+		const service = new MeetingActionItemService(VECTOR_DATABASE_URL, COHERE_API_KEY, access);
+		const updated = await service.updateStatus(id, status, `Set to ${status} by ${email}`);
+		if (!updated) {
+			return json({ error: 'Action item not found' }, { status: 404 });
+		}
+		return json({ success: true });
+	} catch (error: unknown) {
+		console.error('[Action Item Tracker] Update error:', error);
+		return json(
+			{ error: error instanceof Error ? error.message : 'Internal error' },
+			{ status: 500 }
+		);
+	}
+};
+
+/**
+ * Extract action items from meetings not processed yet (backfill after the table was added, or
+ * meetings whose extraction failed at ingestion): { limit }
+ */
+export const POST: RequestHandler = async (event) => {
+	const session = await event.locals.auth();
+	if (!session || !isOpsAllowed(session.user?.email)) {
+		return json({ error: 'Forbidden' }, { status: 403 });
+	}
+
+	if (!COHERE_API_KEY || !VECTOR_DATABASE_URL) {
+		return json({ error: 'Missing COHERE_API_KEY or VECTOR_DATABASE_URL' }, { status: 500 });
+	}
+
+	let body: Record<string, unknown> = {};
+	try {
+		body = await event.request.json();
+	} catch {
+		// No body: default limit
+	}
+	const limit = Math.min(Number(body.limit) || 5, MAX_BACKFILL_MEETINGS);
+
+	try {
+		const results = await new MeetingActionItemService(
+			VECTOR_DATABASE_URL,
+			COHERE_API_KEY
+		).processPending(limit);
+		return json({ success: true, processed: results.length, results });
+	} catch (error: unknown) {
+		console.error('[Action Item Tracker] Backfill error:', error);
+		return json(
+			{ error: error instanceof Error ? error.message : 'Internal error' },
+			{ status: 500 }
+		);
+	}
+};
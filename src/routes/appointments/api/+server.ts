@@ -2,6 +2,8 @@ import { json } from '@sveltejs/kit';
 import type { RequestHandler } from './$types';
 import { MCPServer } from '$lib/services/mcp-server';
 import { MicrosoftGraphAuth } from '$lib/services/microsoft-graph-auth';
+import { MicrosoftGraphService } from '$lib/services/microsoft-graph';
+import { getUserTimeZone } from '$lib/services/user-preferences';
 import { getAccessToken } from '$lib/utils/auth';
 import {
 	AUTH_MICROSOFT_ENTRA_ID_ID,
@@ -11,6 +13,7 @@ import {
 	OPENAI_API_KEY
 } from '$env/static/private';
 import type { MCPRequest } from '$lib/types/mcp';
+import type { LoggedInUser } from '$lib/types/user';
 
 export const POST: RequestHandler = async (event) => {
 	const session = await event.locals.auth();
@@ -76,7 +79,7 @@ export const POST: RequestHandler = async (event) => {
 		});
 
 		// Get logged-in user information from session
-		const loggedInUser = session.user ? {
+		const loggedInUser: LoggedInUser | null = session.user ? {
 			name: session.user.name || session.user.email || 'Unknown User',
 			email: session.user.email || (session.user as any).userPrincipalName || ''
 		} : null;
@@ -87,6 +90,7 @@ export const POST: RequestHandler = async (event) => {
 				{ status: 401 }
 			);
 		}
+		loggedInUser.timeZone = await getUserTimeZone(loggedInUser.email, new MicrosoftGraphService(accessToken || undefined, authService));
 
 		// Create MCP server instance with app-only auth (client credentials)
 		// This allows access to all users' calendars, not just the logged-in user
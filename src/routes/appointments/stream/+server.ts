@@ -1,6 +1,8 @@
 import type { RequestHandler } from './$types';
 import { MCPServer } from '$lib/services/mcp-server';
 import { MicrosoftGraphAuth } from '$lib/services/microsoft-graph-auth';
+import { MicrosoftGraphService } from '$lib/services/microsoft-graph';
+import { getUserTimeZone } from '$lib/services/user-preferences';
 import { getAccessToken } from '$lib/utils/auth';
 import { logEvent } from '$lib/services/ops-logger';
 import { OPENAI_API_KEY } from '$env/static/private';
@@ -11,6 +13,7 @@ import {
 	AUTH_MICROSOFT_ENTRA_ID_TENANT_ID,
 } from '$env/static/private';
 import type { MCPRequest } from '$lib/types/mcp';
+import type { LoggedInUser } from '$lib/types/user';
 
 export const POST: RequestHandler = async (event) => {
 	const session = await event.locals.auth();
@@ -56,7 +59,7 @@ export const POST: RequestHandler = async (event) => {
 		});
 
 		// Get logged-in user information
-		const loggedInUser = session.user
+		const loggedInUser: LoggedInUser | null = session.user
 			? {
 					name: session.user.name || session.user.email || 'Unknown User',
 					email: session.user.email || (session.user as any).userPrincipalName || '',
@@ -66,6 +69,7 @@ export const POST: RequestHandler = async (event) => {
 		if (!loggedInUser || !loggedInUser.email) {
 			return new Response('Unable to determine logged-in user', { status: 401 });
 		}
+		loggedInUser.timeZone = await getUserTimeZone(loggedInUser.email, new MicrosoftGraphService(accessToken || undefined, authService));
 
 		// Create MCP server instance
 		const mcpServer = new MCPServer(
@@ -2,6 +2,7 @@ import { json } from '@sveltejs/kit';
 import type { RequestHandler } from './$types';
 import { BILLI_DEV_WEBHOOK_URL, COHERE_API_KEY } from '$env/static/private';
 import { TimeEntryService } from '$lib/services/time-entry';
+import { getUserTimeZone } from '$lib/services/user-preferences';
 
 export const POST: RequestHandler = async (event) => {
 	const session = await event.locals.auth();
@@ -31,6 +32,7 @@ export const POST: RequestHandler = async (event) => {
 			userName,
 			userEmail,
 			localTimestamp: new Date().toISOString(),
+			timeZone: userEmail ? await getUserTimeZone(userEmail) : undefined,
 		});
 
 		if (!result.success || !result.timeEntry) {
@@ -1,6 +1,8 @@
 // Fireflies Stream endpoint - RAG-powered meeting transcript Q&A
 import type { RequestHandler } from './$types';
 import { FirefliesAgent } from '$lib/services/fireflies-agent';
+import { resolveRagAccess } from '$lib/services/rag-access';
+import { getRagPool } from '$lib/services/rag-retrieval';
 import { logEvent } from '$lib/services/ops-logger';
 import { COHERE_API_KEY, VECTOR_DATABASE_URL } from '$env/static/private';
 
@@ -21,7 +23,7 @@ export const POST: RequestHandler = async (event) => {
 
 	try {
 		const body = await event.request.json();
-		const { message, sessionId } = body;
+		const { message, sessionId, cache } = body;
 
 		if (!message) {
 			return new Response(JSON.stringify({ error: 'Message is required' }), {
@@ -44,6 +46,8 @@ export const POST: RequestHandler = async (event) => {
 			cohereApiKey: COHERE_API_KEY,
 			databaseUrl: VECTOR_DATABASE_URL,
 			sessionId: sessionId || 'default',
+			access: await resolveRagAccess(getRagPool(VECTOR_DATABASE_URL), session.user?.email),
+			userEmail: session.user?.email ?? undefined,
 		});
 
 		// Create streaming response
@@ -52,7 +56,7 @@ export const POST: RequestHandler = async (event) => {
 				const encoder = new TextEncoder();
 
 				try {
-					for await (const chunk of agent.handleRequestStream({ message })) {
+					for await (const chunk of agent.handleRequestStream({ message, cache: cache !== false })) {
 						if (chunk.type === 'text' && chunk.content) {
 							controller.enqueue(
 								encoder.encode(`data: ${JSON.stringify({ chunk: chunk.content })}\n\n`)
@@ -70,7 +74,7 @@ export const POST: RequestHandler = async (event) => {
 								encoder.encode(`data: ${JSON.stringify({ error: chunk.error })}\n\n`)
 							);
 						} else if (chunk.type === 'done') {
-							controller.enqueue(encoder.encode(`data: ${JSON.stringify({ done: true })}\n\n`));
+							controller.enqueue(encoder.encode(`data: ${JSON.stringify({ done: true, answer_id: chunk.answerId })}\n\n`));
 						}
 					}
 				} catch (error: any) {
@@ -0,0 +1,65 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import {
+	FirefliesIngestService,
+	parseFirefliesWebhook,
+	verifyFirefliesSignature
+} from '$lib/services/fireflies-ingest';
+import {
+	COHERE_API_KEY,
+	FF_API_KEY,
+	FIREFLIES_WEBHOOK_SECRET,
+	VECTOR_DATABASE_URL
+} from '$env/static/private';
+
+// Due retries drained on each delivery, so the retry queue moves without a scheduler
+const RETRIES_PER_DELIVERY = 2;
+
+/**
+ * Fireflies webhook: { meetingId, eventType: 'Transcription completed' } signed with
+ * FIREFLIES_WEBHOOK_SECRET in x-hub-signature. The transcript is ingested before responding;
+ * a failed ingestion is queued and still acknowledged. Queued retries whose backoff has passed
+ * are drained on later deliveries (and by /fireflies/webhook/retry).
+ */
+export const POST: RequestHandler = async (event) => {
+	if (!FIREFLIES_WEBHOOK_SECRET || !FF_API_KEY || !COHERE_API_KEY || !VECTOR_DATABASE_URL) {
+		return json({ error: 'Fireflies webhook not configured' }, { status: 500 });
+	}
+
+	const rawBody = await event.request.text();
+	if (
+		!verifyFirefliesSignature(
+			rawBody,
+			event.request.headers.get('x-hub-signature'),
+			FIREFLIES_WEBHOOK_SECRET
+		)
+	) {
+		return json({ error: 'Invalid signature' }, { status: 401 });
+	}
+
+	let transcriptId: string | null;
+	try {
+		transcriptId = parseFirefliesWebhook(JSON.parse(rawBody));
+	} catch {
+		return json({ error: 'Invalid JSON body' }, { status: 400 });
+	}
+	if (!transcriptId) {
+		return json({ status: 'ignored' });
+	}
+
+	try {
+		const service = new FirefliesIngestService(VECTOR_DATABASE_URL, COHERE_API_KEY, FF_API_KEY);
+		const result = await service.handleNotification(transcriptId);
+		try {
+			await service.retryDue(RETRIES_PER_DELIVERY);
+		} catch (error: unknown) {
+			// The delivery itself was handled; the queue is retried on the next one
+			console.error('[Fireflies Webhook] Retry drain failed:', error);
+		}
+		return json(result, { status: result.status === 'ingested' ? 200 : 202 });
+	} catch (error: unknown) {
+		// Only reached when the queue itself is unavailable; a 5xx lets Fireflies redeliver
+		console.error('[Fireflies Webhook]', error);
+		return json({ error: 'Ingestion queue unavailable' }, { status: 503 });
+	}
+};
@@ -0,0 +1,52 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { timingSafeEqual } from 'crypto';
+import { FirefliesIngestService } from '$lib/services/fireflies-ingest';
+import { isOpsAllowed } from '$lib/services/ops-access';
+import { COHERE_API_KEY, FF_API_KEY, VECTOR_DATABASE_URL } from '$env/static/private';
+import { env } from '$env/dynamic/private';
+
+const MAX_RETRY_BATCH = 20;
+
+const hasSchedulerToken = (header: string | null) => {
+	const token = header?.replace(/^Bearer\s+/i, '') ?? '';
+	const expected = Buffer.from(env.FIREFLIES_RETRY_SECRET ?? '');
+	const received = Buffer.from(token);
+	return (
+		expected.length > 0 &&
+		received.length === expected.length &&
+		timingSafeEqual(received, expected)
+	);
+};
+
+/**
+ * Retry failed Fireflies ingestions whose backoff has passed: POST { limit? }.
+ * The webhook drains a few on every delivery; this drains more on demand, for ops or an external
+ * scheduler sending "Authorization: Bearer <FIREFLIES_RETRY_SECRET>". That secret is separate
+ * from FIREFLIES_WEBHOOK_SECRET, the signing key shared with Fireflies.
+ */
+export const POST: RequestHandler = async (event) => {
+	const session = await event.locals.auth();
+	if (
+		!isOpsAllowed(session?.user?.email) &&
+		!hasSchedulerToken(event.request.headers.get('authorization'))
+	) {
+		return json({ error: 'Forbidden' }, { status: 403 });
+	}
+
+	if (!FF_API_KEY || !COHERE_API_KEY || !VECTOR_DATABASE_URL) {
+		return json({ error: 'Fireflies ingestion not configured' }, { status: 500 });
+	}
+
+	const body = await event.request.json().catch(() => ({}));
+	const limit = Math.min(Math.max(Number(body?.limit) || 5, 1), MAX_RETRY_BATCH);
+
+	try {
+		const service = new FirefliesIngestService(VECTOR_DATABASE_URL, COHERE_API_KEY, FF_API_KEY);
+		const results = await service.retryDue(limit);
+		return json({ results });
+	} catch (error: unknown) {
+		console.error('[Fireflies Webhook Retry]', error);
+		return json({ error: 'Retry failed' }, { status: 500 });
+	}
+};
@@ -0,0 +1,175 @@
+import { fail, redirect } from '@sveltejs/kit';
+import type { Actions, PageServerLoad } from './$types';
+import {
+	RAG_DOCUMENT_FILTERS,
+	RagDocumentService,
+	readDocumentFields,
+	readDocumentUpload,
+	type RagDocumentFilters
+} from '$lib/services/rag-documents';
+import { RAG_DOCUMENT_FORMATS } from '$lib/services/rag-loaders';
+import { resolveRagAccess } from '$lib/services/rag-access';
+import { getRagPool } from '$lib/services/rag-retrieval';
+import { isOpsAllowed } from '$lib/services/ops-access';
+import { logEvent } from '$lib/services/ops-logger';
+import { AppError } from '$lib/utils/errors';
+import { COHERE_API_KEY, VECTOR_DATABASE_URL } from '$env/static/private';
+
+const PAGE_SIZE = 50;
+
+const getService = async (email: string | null | undefined) =>
+	new RagDocumentService(
+		VECTOR_DATABASE_URL,
+		COHERE_API_KEY,
+		await resolveRagAccess(getRagPool(VECTOR_DATABASE_URL), email)
+	);
+
+const actionError = (error: unknown) => {
+	if (error instanceof AppError) {
+		return fail(error.statusCode ?? 500, { error: error.message });
+	}
+	console.error('[KnowledgeBase] Action error:', error);
+	return fail(500, { error: error instanceof Error ? error.message : 'Something went wrong.' });
+};
+
+export const load: PageServerLoad = async ({ url, locals }) => {
+	const session = await locals.auth();
+
+	if (!session) {
+		throw redirect(302, '/');
+	}
+
+	const filters: RagDocumentFilters = { search: url.searchParams.get('search') || undefined };
+	for (const field of RAG_DOCUMENT_FILTERS) {
+		filters[field] = url.searchParams.get(field) || undefined;
+	}
+	const page = Math.max(Number(url.searchParams.get('page')) || 1, 1);
+
+	const service = await getService(session.user?.email);
+	const [{ documents, total }, facets] = await Promise.all([
+		service.listDocuments(filters, { limit: PAGE_SIZE, offset: (page - 1) * PAGE_SIZE }),
+		service.getFacets()
+	]);
+
+	return {
+		documents,
+		total,
+		page,
+		pageSize: PAGE_SIZE,
+		filters,
+		facets,
+		formats: RAG_DOCUMENT_FORMATS,
+		canManage: isOpsAllowed(session.user?.email)
+	};
+};
+
+// Every action changes the corpus, so all of them are limited to the ops allowlist
+const authorize = async (locals: App.Locals) => {
+	const session = await locals.auth();
+	return session && isOpsAllowed(session.user?.email) ? session : null;
+};
+
+const logAction = (
+	session: NonNullable<Awaited<ReturnType<typeof authorize>>>,
+	action: string,
+	metadata: Record<string, unknown>
+) =>
+	logEvent({
+		user_email: session.user?.email ?? undefined,
+		user_name: session.user?.name ?? undefined,
+		event_type: 'rag_document',
+		event_action: action,
+		route: '/knowledge-base',
+		metadata
+	});
+
+export const actions: Actions = {
+	upload: async ({ request, locals }) => {
+		const session = await authorize(locals);
+		if (!session) {
+			return fail(403, { error: 'You are not allowed to manage documents.' });
+		}
+
+		try {
+			const upload = await readDocumentUpload(await request.formData());
+			const service = await getService(session.user?.email);
+			const result = await service.uploadDocument(upload);
+			logAction(session, 'upload', { ...result });
+			return {
+				message:
+					result.status === 'unchanged'
+						? `${result.id} is unchanged.`
+						: `Indexed ${result.id}: ${result.embedded} chunks embedded, ${result.reused} reused.`
+			};
+		} catch (error: unknown) {
+			return actionError(error);
+		}
+	},
+
+	update: async ({ request, locals }) => {
+		const session = await authorize(locals);
+		if (!session) {
+			return fail(403, { error: 'You are not allowed to manage documents.' });
+		}
+
+		const form = await request.formData();
+		const id = form.get('id');
+		if (typeof id !== 'string' || !id) {
+			return fail(400, { error: 'Missing document id.' });
+		}
+
+		try {
+			const fields = readDocumentFields(form);
+			const service = await getService(session.user?.email);
+			await service.updateDocument(id, fields);
+			logAction(session, 'update', { id, fields: Object.keys(fields) });
+			return { message: `Updated ${id}.` };
+		} catch (error: unknown) {
+			return actionError(error);
+		}
+	},
+
+	reindex: async ({ request, locals }) => {
+		const session = await authorize(locals);
+		if (!session) {
+			return fail(403, { error: 'You are not allowed to manage documents.' });
+		}
+
+		const id = (await request.formData()).get('id');
+		if (typeof id !== 'string' || !id) {
+			return fail(400, { error: 'Missing document id.' });
+		}
+
+		try {
+			const service = await getService(session.user?.email);
+			const result = await service.reindexDocument(id);
+			logAction(session, 'reindex', { ids: [id] });
+			return {
+				message: `Re-indexed ${id}: ${result.embedded} chunks embedded, ${result.reused} reused.`
+			};
+		} catch (error: unknown) {
+			return actionError(error);
+		}
+	},
+
+	delete: async ({ request, locals }) => {
+		const session = await authorize(locals);
+		if (!session) {
+			return fail(403, { error: 'You are not allowed to manage documents.' });
+		}
+
+		const id = (await request.formData()).get('id');
+		if (typeof id !== 'string' || !id) {
+			return fail(400, { error: 'Missing document id.' });
+		}
+
+		try {
+			const service = await getService(session.user?.email);
+			await service.deleteDocument(id);
+			logAction(session, 'delete', { id });
+			return { message: `Deleted ${id}.` };
+		} catch (error: unknown) {
+			return actionError(error);
+		}
+	}
+};
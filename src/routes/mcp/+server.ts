@@ -0,0 +1,250 @@
+// MCP endpoint - Model Context Protocol (JSON-RPC over HTTP) for external clients
+// Exposes the calendar, billing and Fireflies tools, resources and prompts
+import { json } from '@sveltejs/kit';
+import { timingSafeEqual } from 'crypto';
+import type { RequestEvent, RequestHandler } from './$types';
+import { MCPServer } from '$lib/services/mcp-server';
+import { RagRetrievalService, getRagPool } from '$lib/services/rag-retrieval';
+import { resolveRagAccess } from '$lib/services/rag-access';
+import { getRagConfig } from '$lib/services/rag-config';
+import { VectorDBService } from '$lib/services/vector-db';
+import { MicrosoftGraphAuth } from '$lib/services/microsoft-graph-auth';
+import { MicrosoftGraphService } from '$lib/services/microsoft-graph';
+import { getUserTimeZone } from '$lib/services/user-preferences';
+import { getAccessToken } from '$lib/utils/auth';
+import { logEvent } from '$lib/services/ops-logger';
+import { createSessionId, isIssuedSessionId } from '$lib/services/mcp-session';
+import {
+	OPENAI_API_KEY,
+	COHERE_API_KEY,
+	VECTOR_DATABASE_URL,
+	BILLI_DEV_WEBHOOK_URL,
+	AUTH_MICROSOFT_ENTRA_ID_ID,
+	AUTH_MICROSOFT_ENTRA_ID_SECRET,
+	AUTH_MICROSOFT_ENTRA_ID_ISSUER,
+	AUTH_MICROSOFT_ENTRA_ID_TENANT_ID
+} from '$env/static/private';
+import { env } from '$env/dynamic/private';
+import { MCP_ERROR_CODES, type MCPRequest, type MCPResponse } from '$lib/types/mcp';
+import type { LoggedInUser } from '$lib/types/user';
+
+const SESSION_HEADER = 'mcp-session-id';
+// Session owner for API-key clients that don't act for a user
+const API_KEY_SESSION_OWNER = 'mcp-api-key';
+
+type Caller = {
+	user: LoggedInUser | null;
+	accessToken?: string;
+	// API-key client acting for `user` (address and user agent), recorded with every request
+	impersonatedBy?: string;
+};
+
+/**
+ * Constant-time check of the bearer token against MCP_API_KEY
+ */
+function isApiKey(authorization: string, apiKey: string | undefined): boolean {
+	if (!apiKey) return false;
+	const received = Buffer.from(authorization);
+	const expected = Buffer.from(`Bearer ${apiKey}`);
+	return received.length === expected.length && timingSafeEqual(received, expected);
+}
+
+/**
+ * Emails an API-key caller may act for: MCP_ALLOWED_USERS, comma-separated
+ */
+function isImpersonationAllowed(email: string): boolean {
+	return (env.MCP_ALLOWED_USERS || '')
+		.split(',')
+		.map((entry) => entry.trim().toLowerCase())
+		.includes(email.toLowerCase());
+}
+
+/**
+ * Resolve the caller from the browser session, or from a bearer API key for
+ * machine clients (desktop agents, n8n). API-key callers may identify the user
+ * they act for with the X-User-Email / X-User-Name headers, if that user is in
+ * MCP_ALLOWED_USERS; 'forbidden' otherwise.
+ */
+async function resolveCaller(event: RequestEvent): Promise<Caller | 'forbidden' | null> {
+	const session = await event.locals.auth();
+	if (session) {
+		const user = session.user
+			? {
+					name: session.user.name || session.user.email || 'Unknown User',
+					email: session.user.email || session.user.userPrincipalName || ''
+				}
+			: null;
+		return { user, accessToken: getAccessToken(session) || undefined };
+	}
+
+	if (isApiKey(event.request.headers.get('authorization') || '', env.MCP_API_KEY)) {
+		const email = event.request.headers.get('x-user-email')?.trim();
+		const name = event.request.headers.get('x-user-name');
+		if (!email) {
+			return { user: null };
+		}
+
+		const impersonatedBy = `${event.getClientAddress()} (${event.request.headers.get('user-agent') || 'unknown client'})`;
+		const allowed = isImpersonationAllowed(email);
+		logEvent({
+			user_email: email,
+			event_type: 'mcp_impersonation',
+			event_action: allowed ? 'allowed' : 'denied',
+			route: '/mcp',
+			metadata: { impersonated_by: impersonatedBy }
+		});
+		if (!allowed) {
+			return 'forbidden';
+		}
+		return { user: { name: name || email, email }, impersonatedBy };
+	}
+
+	return null;
+}
+
+function errorResponse(id: string | number | null, code: number, message: string) {
+	return { jsonrpc: '2.0' as const, id, error: { code, message } };
+}
+
+export const POST: RequestHandler = async (event) => {
+	const caller = await resolveCaller(event);
+	if (!caller) {
+		return json({ error: 'Unauthorized' }, { status: 401 });
+	}
+	if (caller === 'forbidden') {
+		return json({ error: 'Forbidden' }, { status: 403 });
+	}
+
+	if (!OPENAI_API_KEY) {
+		return json({ error: 'OpenAI API key not configured' }, { status: 500 });
+	}
+
+	// Microsoft Graph app-only auth (client credentials flow)
+	const issuer = AUTH_MICROSOFT_ENTRA_ID_ISSUER || '';
+	const tenantId = AUTH_MICROSOFT_ENTRA_ID_TENANT_ID || (issuer ? issuer.split('/')[3] : null);
+	const clientId = AUTH_MICROSOFT_ENTRA_ID_ID;
+	const clientSecret = AUTH_MICROSOFT_ENTRA_ID_SECRET;
+
+	if (!tenantId || !clientId || !clientSecret) {
+		return json({ error: 'Microsoft Graph authentication not configured' }, { status: 500 });
+	}
+
+	const authService = new MicrosoftGraphAuth(tenantId, clientId, clientSecret);
+
+	let body: unknown;
+	try {
+		body = await event.request.json();
+	} catch {
+		return json(errorResponse(null, MCP_ERROR_CODES.PARSE_ERROR, 'Parse error'), { status: 400 });
+	}
+
+	const messages = (Array.isArray(body) ? body : [body]) as Array<Partial<MCPRequest>>;
+	if (messages.length === 0) {
+		return json(errorResponse(null, MCP_ERROR_CODES.INVALID_REQUEST, 'Empty batch'), {
+			status: 400
+		});
+	}
+
+	// A new session starts at initialize; later requests must carry the id we handed out to the
+	// same caller, so chat history is never shared between callers
+	const isInitialize = messages.some((message) => message?.method === 'initialize');
+	const sessionOwner = caller.user?.email || API_KEY_SESSION_OWNER;
+	const requestedSession = event.request.headers.get(SESSION_HEADER);
+	const sessionId =
+		requestedSession && isIssuedSessionId(requestedSession, sessionOwner)
+			? requestedSession
+			: isInitialize
+				? createSessionId(sessionOwner)
+				: null;
+	if (!sessionId) {
+		return json(
+			errorResponse(
+				null,
+				MCP_ERROR_CODES.INVALID_REQUEST,
+				requestedSession
+					? `Unknown ${SESSION_HEADER}; call initialize first`
+					: `Missing ${SESSION_HEADER} header; call initialize first`
+			),
+			{ status: requestedSession ? 404 : 400 }
+		);
+	}
+
+	const user = caller.user ?? undefined;
+	if (user?.email) {
+		user.timeZone = await getUserTimeZone(
+			user.email,
+			new MicrosoftGraphService(caller.accessToken, authService)
+		);
+	}
+	const ragEnabled = !!(COHERE_API_KEY && VECTOR_DATABASE_URL);
+	const access = ragEnabled
+		? await resolveRagAccess(getRagPool(VECTOR_DATABASE_URL), user?.email)
+		: undefined;
+	const mcpServer = new MCPServer(
+		OPENAI_API_KEY,
+		sessionId,
+		authService,
+		caller.accessToken,
+		user,
+		{
+			billingWebhookUrl: BILLI_DEV_WEBHOOK_URL,
+			rag: ragEnabled
+				? new RagRetrievalService(VECTOR_DATABASE_URL, COHERE_API_KEY, getRagConfig(), access)
+				: undefined,
+			vectorDB: ragEnabled ? new VectorDBService(VECTOR_DATABASE_URL, COHERE_API_KEY) : undefined,
+			access
+		}
+	);
+
+	const responses: MCPResponse[] = [];
+	for (const message of messages) {
+		if (!message || message.jsonrpc !== '2.0' || typeof message.method !== 'string') {
+			responses.push(
+				errorResponse(
+					message?.id ?? null,
+					MCP_ERROR_CODES.INVALID_REQUEST,
+					'Invalid Request'
+				) as MCPResponse
+			);
+			continue;
+		}
+
+		// Notifications (e.g. notifications/initialized) carry no id and get no response
+		if (message.id === undefined || message.id === null) {
+			continue;
+		}
+
+		const startedAt = Date.now();
+		const response = await mcpServer.handleRequest(message as MCPRequest);
+
+		logEvent({
+			user_email: caller.user?.email,
+			user_name: caller.user?.name,
+			event_type: 'mcp_request',
+			event_action: message.method,
+			route: '/mcp',
+			metadata: {
+				sessionId,
+				impersonated_by: caller.impersonatedBy,
+				tool: message.method === 'tools/call' ? message.params?.name : undefined,
+				error: response.error?.message
+			},
+			duration_ms: Date.now() - startedAt
+		});
+
+		responses.push(response);
+	}
+
+	const headers = { [SESSION_HEADER]: sessionId };
+
+	if (responses.length === 0) {
+		return new Response(null, { status: 202, headers });
+	}
+
+	return json(Array.isArray(body) ? responses : responses[0], { headers });
+};
+
+// This endpoint does not offer a server-initiated SSE stream
+export const GET: RequestHandler = async () => {
+	return new Response('Method Not Allowed', { status: 405, headers: { Allow: 'POST' } });
+};
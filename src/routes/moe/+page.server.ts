@@ -1,6 +1,17 @@
 // MoE page server - Auth check
 import { redirect } from '@sveltejs/kit';
 import type { PageServerLoad } from './$types';
+import { MicrosoftGraphService } from '$lib/services/microsoft-graph';
+import { MicrosoftGraphAuth } from '$lib/services/microsoft-graph-auth';
+import { getUserTimeZone } from '$lib/services/user-preferences';
+import { getAccessToken } from '$lib/utils/auth';
+import { DEFAULT_TIME_ZONE } from '$lib/utils/datetime';
+import {
+	AUTH_MICROSOFT_ENTRA_ID_ID,
+	AUTH_MICROSOFT_ENTRA_ID_SECRET,
+	AUTH_MICROSOFT_ENTRA_ID_ISSUER,
+	AUTH_MICROSOFT_ENTRA_ID_TENANT_ID,
+} from '$env/static/private';
 
 export const load: PageServerLoad = async (event) => {
 	const session = await event.locals.auth();
@@ -9,7 +20,19 @@ export const load: PageServerLoad = async (event) => {
 		throw redirect(302, '/');
 	}
 
+	// Resolve the user's time zone (profile setting, then Outlook mailbox) for client-side dates
+	const issuer = AUTH_MICROSOFT_ENTRA_ID_ISSUER || '';
+	const tenantId = AUTH_MICROSOFT_ENTRA_ID_TENANT_ID || (issuer ? issuer.split('/')[3] : null);
+	let authService: MicrosoftGraphAuth | undefined;
+	if (tenantId && AUTH_MICROSOFT_ENTRA_ID_ID && AUTH_MICROSOFT_ENTRA_ID_SECRET) {
+		authService = new MicrosoftGraphAuth(tenantId, AUTH_MICROSOFT_ENTRA_ID_ID, AUTH_MICROSOFT_ENTRA_ID_SECRET);
+	}
+	const timeZone = session.user?.email
+		? await getUserTimeZone(session.user.email, new MicrosoftGraphService(getAccessToken(session) || undefined, authService))
+		: DEFAULT_TIME_ZONE;
+
 	return {
 		session,
+		timeZone,
 	};
 };
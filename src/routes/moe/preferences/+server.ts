@@ -0,0 +1,81 @@
+// MoE Preferences endpoint - read and update the user's time zone
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import {
+	getProfileTimeZone,
+	getUserTimeZone,
+	setProfileTimeZone
+} from '$lib/services/user-preferences';
+import { MicrosoftGraphService } from '$lib/services/microsoft-graph';
+import { MicrosoftGraphAuth } from '$lib/services/microsoft-graph-auth';
+import { getAccessToken } from '$lib/utils/auth';
+import { getTimeZoneLabel } from '$lib/utils/datetime';
+import {
+	AUTH_MICROSOFT_ENTRA_ID_ID,
+	AUTH_MICROSOFT_ENTRA_ID_SECRET,
+	AUTH_MICROSOFT_ENTRA_ID_ISSUER,
+	AUTH_MICROSOFT_ENTRA_ID_TENANT_ID
+} from '$env/static/private';
+
+export const GET: RequestHandler = async (event) => {
+	const session = await event.locals.auth();
+	const email = session?.user?.email;
+
+	if (!session || !email) {
+		return json({ error: 'Unauthorized' }, { status: 401 });
+	}
+
+	// Set up Microsoft Graph auth for the mailbox time zone fallback
+	const issuer = AUTH_MICROSOFT_ENTRA_ID_ISSUER || '';
+	const tenantId = AUTH_MICROSOFT_ENTRA_ID_TENANT_ID || (issuer ? issuer.split('/')[3] : null);
+	let authService: MicrosoftGraphAuth | undefined;
+	if (tenantId && AUTH_MICROSOFT_ENTRA_ID_ID && AUTH_MICROSOFT_ENTRA_ID_SECRET) {
+		authService = new MicrosoftGraphAuth(
+			tenantId,
+			AUTH_MICROSOFT_ENTRA_ID_ID,
+			AUTH_MICROSOFT_ENTRA_ID_SECRET
+		);
+	}
+
+	try {
+		const graphService = new MicrosoftGraphService(
+			getAccessToken(session) || undefined,
+			authService
+		);
+		const timeZone = await getUserTimeZone(email, graphService);
+		const profileTimeZone = await getProfileTimeZone(email);
+
+		return json({
+			time_zone: timeZone,
+			time_zone_label: getTimeZoneLabel(timeZone),
+			source: profileTimeZone ? 'profile' : 'mailbox'
+		});
+	} catch (error: unknown) {
+		console.error('[MoE Preferences] GET error:', error);
+		return json(
+			{ error: error instanceof Error ? error.message : 'Internal error' },
+			{ status: 500 }
+		);
+	}
+};
+
+export const PUT: RequestHandler = async (event) => {
+	const session = await event.locals.auth();
+	const email = session?.user?.email;
+
+	if (!session || !email) {
+		return json({ error: 'Unauthorized' }, { status: 401 });
+	}
+
+	try {
+		const { time_zone } = await event.request.json();
+		const saved = await setProfileTimeZone(email, time_zone || null);
+		return json({ success: true, time_zone: saved });
+	} catch (error: unknown) {
+		console.error('[MoE Preferences] PUT error:', error);
+		return json(
+			{ error: error instanceof Error ? error.message : 'Invalid time zone' },
+			{ status: 400 }
+		);
+	}
+};
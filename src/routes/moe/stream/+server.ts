@@ -1,9 +1,12 @@
 // MoE Stream endpoint - Routes to appropriate expert based on classification
 import type { RequestHandler } from './$types';
 import { MoERouter } from '$lib/services/moe-router';
-import { MicrosoftGraphAuth } from '$lib/services/microsoft-graph-auth';
+import { MicrosoftGraphAuth, type DelegatedTokenRefresh } from '$lib/services/microsoft-graph-auth';
+import { MicrosoftGraphService } from '$lib/services/microsoft-graph';
+import { getUserTimeZone } from '$lib/services/user-preferences';
 import { getAccessToken } from '$lib/utils/auth';
 import { logEvent } from '$lib/services/ops-logger';
+import type { LoggedInUser } from '$lib/types/user';
 import {
 	OPENAI_API_KEY,
 	AUTH_MICROSOFT_ENTRA_ID_ID,
@@ -37,6 +40,12 @@ export const POST: RequestHandler = async (event) => {
 	}
 
 	const accessToken = getAccessToken(session);
+	// auth() above already rotated an expired token; this refresh token covers a 401 mid-stream
+	const refreshToken = event.locals.microsoftRefreshToken;
+	const delegatedRefresh: DelegatedTokenRefresh | undefined =
+		accessToken && refreshToken && tenantId && clientId && clientSecret
+			? { tenantId, clientId, clientSecret, refreshToken }
+			: undefined;
 
 	try {
 		const body = await event.request.json();
@@ -59,12 +68,15 @@ export const POST: RequestHandler = async (event) => {
 		});
 
 		// Get logged-in user information
-		const loggedInUser = session.user
+		const loggedInUser: LoggedInUser | undefined = session.user
 			? {
 					name: session.user.name || session.user.email || 'Unknown User',
 					email: session.user.email || (session.user as any).userPrincipalName || '',
 				}
 			: undefined;
+		if (loggedInUser?.email) {
+			loggedInUser.timeZone = await getUserTimeZone(loggedInUser.email, new MicrosoftGraphService(accessToken || undefined, authService, delegatedRefresh));
+		}
 
 		// Create MoE Router
 		const router = new MoERouter({
@@ -72,6 +84,7 @@ export const POST: RequestHandler = async (event) => {
 			sessionId: sessionId || 'default',
 			authService,
 			accessToken: accessToken || undefined,
+			delegatedRefresh,
 			loggedInUser,
 			webhookUrl: BILLI_DEV_WEBHOOK_URL,
 		});
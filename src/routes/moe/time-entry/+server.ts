@@ -4,7 +4,8 @@ import { dev } from '$app/environment';
 import OpenAI from 'openai';
 import { BILLI_DEV_WEBHOOK_URL, OPENAI_API_KEY } from '$env/static/private';
 import { getEmployeeByName, getCustomerByName, getAllEmployees, type Employee } from '$lib/services/azero-db';
-import { getTodayEastern } from '$lib/utils/datetime';
+import { getTodayInZone } from '$lib/utils/datetime';
+import { getUserTimeZone } from '$lib/services/user-preferences';
 
 export interface TimeEntryFormData {
 	customer: string;
@@ -230,7 +231,7 @@ export const POST: RequestHandler = async (event) => {
 			// Time info
 			hours: hours || 0,
 			billable: true,
-			entry_date: entryDate || getTodayEastern(),
+			entry_date: entryDate || getTodayInZone(await getUserTimeZone(userEmail)),
 
 			// Metadata
 			submitted_by: userName,
@@ -1,7 +1,7 @@
 import { json } from '@sveltejs/kit';
 import type { RequestHandler } from './$types';
 import { isOpsAllowed } from '$lib/services/ops-access';
-import { queryEvents, queryEventStats } from '$lib/services/ops-logger';
+import { queryEvents, queryEventStats, queryToolRejectionCounts } from '$lib/services/ops-logger';
 
 export const GET: RequestHandler = async (event) => {
 	const session = await event.locals.auth();
@@ -20,6 +20,13 @@ export const GET: RequestHandler = async (event) => {
 			return json({ data });
 		}
 
+		if (mode === 'tool_rejections') {
+			const from = url.searchParams.get('from') ?? undefined;
+			const to = url.searchParams.get('to') ?? undefined;
+			const data = await queryToolRejectionCounts(from, to);
+			return json({ data });
+		}
+
 		const data = await queryEvents({
 			limit: parseInt(url.searchParams.get('limit') ?? '50'),
 			offset: parseInt(url.searchParams.get('offset') ?? '0'),
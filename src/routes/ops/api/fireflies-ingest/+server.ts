@@ -0,0 +1,32 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { isOpsAllowed } from '$lib/services/ops-access';
+import { FirefliesIngestService, type FirefliesIngestStatus } from '$lib/services/fireflies-ingest';
+import { COHERE_API_KEY, FF_API_KEY, VECTOR_DATABASE_URL } from '$env/static/private';
+
+const STATUSES: FirefliesIngestStatus[] = ['pending', 'processing', 'done', 'failed', 'dead'];
+
+/**
+ * Fireflies ingestion queue: ?status=failed&limit=50
+ */
+export const GET: RequestHandler = async (event) => {
+	const session = await event.locals.auth();
+	if (!session || !isOpsAllowed(session.user?.email)) {
+		return json({ error: 'Forbidden' }, { status: 403 });
+	}
+
+	try {
+		const url = event.url;
+		const status = url.searchParams.get('status');
+		const service = new FirefliesIngestService(VECTOR_DATABASE_URL, COHERE_API_KEY, FF_API_KEY);
+		const data = await service.listIngestions({
+			status: STATUSES.find((s) => s === status),
+			limit: parseInt(url.searchParams.get('limit') ?? '50')
+		});
+
+		return json({ data });
+	} catch (error: unknown) {
+		console.error('[Ops Fireflies Ingest API]', error);
+		return json({ error: error instanceof Error ? error.message : 'Failed' }, { status: 500 });
+	}
+};
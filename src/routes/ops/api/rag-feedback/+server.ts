@@ -0,0 +1,85 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { isOpsAllowed } from '$lib/services/ops-access';
+import { logEvent } from '$lib/services/ops-logger';
+import { RagFeedbackService } from '$lib/services/rag-feedback';
+import { AppError } from '$lib/utils/errors';
+import { VECTOR_DATABASE_URL } from '$env/static/private';
+
+const stringList = (value: unknown): string[] | undefined =>
+	Array.isArray(value)
+		? value.filter((item): item is string => typeof item === 'string')
+		: undefined;
+
+/**
+ * Lowest-rated RAG questions with their latest answer and sources
+ */
+export const GET: RequestHandler = async (event) => {
+	const session = await event.locals.auth();
+	if (!session || !isOpsAllowed(session.user?.email)) {
+		return json({ error: 'Forbidden' }, { status: 403 });
+	}
+
+	try {
+		const url = event.url;
+		const data = await new RagFeedbackService(VECTOR_DATABASE_URL).listLowestRated({
+			limit: parseInt(url.searchParams.get('limit') ?? '50'),
+			from: url.searchParams.get('from') ?? undefined
+		});
+
+		return json({ data });
+	} catch (error: unknown) {
+		console.error('[Ops RAG Feedback API]', error);
+		return json({ error: error instanceof Error ? error.message : 'Failed' }, { status: 500 });
+	}
+};
+
+/**
+ * Promote a rated answer's question into the golden evaluation set:
+ * POST { answer_id, expected_chunk_ids?, expected_doc_ids? }
+ */
+export const POST: RequestHandler = async (event) => {
+	const session = await event.locals.auth();
+	const email = session?.user?.email;
+	if (!session || !email || !isOpsAllowed(email)) {
+		return json({ error: 'Forbidden' }, { status: 403 });
+	}
+
+	let body: { answer_id?: unknown; expected_chunk_ids?: unknown; expected_doc_ids?: unknown };
+	try {
+		body = await event.request.json();
+	} catch {
+		return json({ error: 'Invalid JSON body' }, { status: 400 });
+	}
+	if (typeof body?.answer_id !== 'string' || !body.answer_id) {
+		return json({ error: 'answer_id is required' }, { status: 400 });
+	}
+
+	try {
+		const golden = await new RagFeedbackService(VECTOR_DATABASE_URL).promoteToGolden(
+			body.answer_id,
+			email,
+			{
+				chunk_ids: stringList(body.expected_chunk_ids),
+				doc_ids: stringList(body.expected_doc_ids)
+			}
+		);
+
+		logEvent({
+			user_email: email,
+			user_name: session.user?.name ?? undefined,
+			event_type: 'rag_feedback',
+			event_action: 'promote',
+			route: '/ops/api/rag-feedback',
+			metadata: { answer_id: body.answer_id, golden_id: golden.id }
+		});
+
+		return json({ golden });
+	} catch (error: unknown) {
+		if (error instanceof AppError) {
+			return json({ error: error.message }, { status: error.statusCode ?? 500 });
+		}
+		console.error('[Ops RAG Feedback API]', error);
+		return json({ error: 'Promotion failed' }, { status: 500 });
+	}
+};
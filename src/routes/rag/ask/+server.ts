@@ -1,12 +1,27 @@
 import { json } from '@sveltejs/kit';
 import type { RequestHandler } from './$types';
 import { CohereClientV2 } from 'cohere-ai';
-import { RAG_SYSTEM_PROMPT, RAG_VALIDATION_PROMPT } from '$lib/services/rag-prompts';
-import { RagRetrievalService } from '$lib/services/rag-retrieval';
+import {
+	RAG_CHAT_MODEL,
+	RAG_NO_ANSWER,
+	buildAnswerMessages,
+	buildValidationMessages,
+	isValidationEnabled,
+	messageText,
+} from '$lib/services/rag-answer';
+import { RagRetrievalService, getRagPool } from '$lib/services/rag-retrieval';
+import { resolveRagAccess } from '$lib/services/rag-access';
+import { RagAnswerCache, type RagAskCachedPayload } from '$lib/services/rag-answer-cache';
+import { recordAnswer, toAnswerChunks, type RagAnswerChunk } from '$lib/services/rag-feedback';
 import { getRagConfig } from '$lib/services/rag-config';
 import { logEvent } from '$lib/services/ops-logger';
+import { AppError } from '$lib/utils/errors';
 import { COHERE_API_KEY, VECTOR_DATABASE_URL } from '$env/static/private';
 
+/**
+ * Answer a question from the RAG corpus: { question, filters?, cache? } -> { answer, sources, answer_id }.
+ * answer_id is what /rag/feedback rates.
+ */
 export const POST: RequestHandler = async (event) => {
 	const session = await event.locals.auth();
 	if (!session) {
@@ -19,9 +34,10 @@ export const POST: RequestHandler = async (event) => {
 
 	try {
 		const body = await event.request.json();
-		const { question, filters } = body as {
+		const { question, filters, cache } = body as {
 			question?: string;
 			filters?: Record<string, string>;
+			cache?: boolean; // false bypasses the answer cache
 		};
 
 		if (!question || typeof question !== 'string') {
@@ -37,73 +53,97 @@ export const POST: RequestHandler = async (event) => {
 			metadata: { questionLength: question.length, hasFilters: !!filters },
 		});
 
+		const userEmail = session.user?.email ?? undefined;
+		const access = await resolveRagAccess(getRagPool(VECTOR_DATABASE_URL), userEmail);
+
+		const answerId = crypto.randomUUID();
+		const record = (answer: string, chunks: RagAnswerChunk[], cachedAnswer = false) =>
+			void recordAnswer(getRagPool(VECTOR_DATABASE_URL), {
+				id: answerId,
+				source: 'rag_ask',
+				user_email: userEmail,
+				question,
+				answer,
+				filters: filters || {},
+				chunks,
+				cached: cachedAnswer,
+			});
+
+		const answerCache = new RagAnswerCache(VECTOR_DATABASE_URL, COHERE_API_KEY, 'rag_ask', access);
+		const useCache = answerCache.enabled && cache !== false;
+		const cached = useCache
+			? await answerCache.lookup<RagAskCachedPayload>(question, filters || {})
+			: null;
+		if (cached?.hit) {
+			answerCache.logHit(question, cached, userEmail);
+			record(cached.hit.answer, cached.hit.payload.chunks ?? [], true);
+			return json({
+				answer: cached.hit.answer,
+				sources: cached.hit.payload.sources,
+				answer_id: answerId,
+				cached: true,
+			});
+		}
+
 		const retrieval = new RagRetrievalService(
 			VECTOR_DATABASE_URL,
 			COHERE_API_KEY,
-			getRagConfig()
+			getRagConfig(),
+			access
+		);
+		const { context, sources, chunks } = await retrieval.retrieve(
+			question,
+			filters || {},
+			userEmail,
+			[],
+			useCache ? { cache_hit: false } : {}
 		);
-		const { context, sources, chunks } = await retrieval.retrieve(question, filters || {}, session.user?.email ?? undefined);
 
 		if (!context || chunks.length === 0) {
+			record(RAG_NO_ANSWER, []);
 			return json({
-				answer: "I don't know based on the provided documents.",
+				answer: RAG_NO_ANSWER,
 				sources: [],
+				answer_id: answerId,
 			});
 		}
 
 		const cohere = new CohereClientV2({ token: COHERE_API_KEY });
-		const messages = [
-			{ role: 'system', content: RAG_SYSTEM_PROMPT },
-			{ role: 'system', content: `Context:\n${context}` },
-			{ role: 'user', content: question },
-		];
 
 		const response = await cohere.chat({
-			model: 'command-a-03-2025',
-			messages,
+			model: RAG_CHAT_MODEL,
+			messages: buildAnswerMessages(context, question),
 		});
 
-		const rawText =
-			typeof response.message?.content === 'string'
-				? response.message.content
-				: Array.isArray(response.message?.content)
-					? response.message.content
-							.filter((item: any) => item.type === 'text')
-							.map((item: any) => item.text)
-							.join('')
-					: '';
-
-		let answer = rawText.trim() || "I don't know based on the provided documents.";
-
-		if (process.env.RAG_VALIDATE === 'true') {
-			const validationMessages = [
-				{ role: 'system', content: RAG_VALIDATION_PROMPT },
-				{ role: 'system', content: `Context:\n${context}` },
-				{ role: 'user', content: `Draft answer:\n${answer}` },
-			];
+		let answer = messageText(response.message).trim() || RAG_NO_ANSWER;
 
+		if (isValidationEnabled()) {
 			const validation = await cohere.chat({
-				model: 'command-a-03-2025',
-				messages: validationMessages,
+				model: RAG_CHAT_MODEL,
+				messages: buildValidationMessages(context, answer),
 			});
 
-			const validatedText =
-				typeof validation.message?.content === 'string'
-					? validation.message.content
-					: Array.isArray(validation.message?.content)
-						? validation.message.content
-								.filter((item: any) => item.type === 'text')
-								.map((item: any) => item.text)
-								.join('')
-						: '';
-
+			const validatedText = messageText(validation.message);
 			if (validatedText.trim()) {
 				answer = validatedText.trim();
 			}
 		}
 
-		return json({ answer, sources });
+		// "Not in the documents" may stop being true as documents are added, so it isn't cached
+		if (useCache && answer !== RAG_NO_ANSWER) {
+			void answerCache.store<RagAskCachedPayload>(question, cached?.embedding ?? null, filters || {}, {
+				answer,
+				payload: { sources, chunks: toAnswerChunks(chunks) },
+				docIds: chunks.map((chunk) => chunk.doc_id),
+			});
+		}
+		record(answer, toAnswerChunks(chunks));
+
+		return json({ answer, sources, answer_id: answerId });
 	} catch (error: any) {
+		if (error instanceof AppError && error.statusCode === 403) {
+			return json({ error: error.message }, { status: 403 });
+		}
 		console.error('[RAG Ask] Error:', error);
 		return json({ error: error.message || 'Internal error' }, { status: 500 });
 	}
@@ -0,0 +1,222 @@
+import type { RequestHandler } from './$types';
+import { CohereClientV2 } from 'cohere-ai';
+import {
+	RAG_CHAT_MODEL,
+	RAG_NO_ANSWER,
+	buildAnswerMessages,
+	buildValidationMessages,
+	findCitations,
+	isValidationEnabled,
+	messageText
+} from '$lib/services/rag-answer';
+import { RagRetrievalService, getRagPool } from '$lib/services/rag-retrieval';
+import { resolveRagAccess } from '$lib/services/rag-access';
+import { RagAnswerCache, type RagAskCachedPayload } from '$lib/services/rag-answer-cache';
+import { recordAnswer, toAnswerChunks, type RagAnswerChunk } from '$lib/services/rag-feedback';
+import { getRagConfig } from '$lib/services/rag-config';
+import { logEvent } from '$lib/services/ops-logger';
+import { COHERE_API_KEY, VECTOR_DATABASE_URL } from '$env/static/private';
+
+/**
+ * Streaming variant of /rag/ask. Server-sent events, in order:
+ *   { sources }     retrieved chunks with their S# tags
+ *   { chunk }       answer tokens
+ *   { citations }   spans linking each [S#] tag in the answer to its chunk, with offsets into
+ *                   the concatenated chunk text
+ *   { validation }  whether RAG_VALIDATION_PROMPT ran and changed the answer (with the new answer and citations)
+ *   { done: true, answer_id }  answer_id is what /rag/feedback rates; cached: true when the
+ *                              answer came from the answer cache
+ *
+ * A cached answer is sent as a single chunk; pass cache: false in the body to bypass the cache.
+ */
+export const POST: RequestHandler = async (event) => {
+	const session = await event.locals.auth();
+	if (!session) {
+		return new Response('Unauthorized', { status: 401 });
+	}
+
+	if (!COHERE_API_KEY || !VECTOR_DATABASE_URL) {
+		return new Response('Missing COHERE_API_KEY or VECTOR_DATABASE_URL', { status: 500 });
+	}
+
+	let body: { question?: string; filters?: Record<string, string>; cache?: boolean };
+	try {
+		body = await event.request.json();
+	} catch {
+		return new Response(JSON.stringify({ error: 'Invalid JSON body' }), {
+			status: 400,
+			headers: { 'Content-Type': 'application/json' }
+		});
+	}
+
+	const { question, filters, cache } = body;
+	if (!question || typeof question !== 'string') {
+		return new Response(JSON.stringify({ error: 'question is required' }), {
+			status: 400,
+			headers: { 'Content-Type': 'application/json' }
+		});
+	}
+
+	logEvent({
+		user_email: session.user?.email ?? undefined,
+		user_name: session.user?.name ?? undefined,
+		event_type: 'rag_query',
+		event_action: 'ask_stream',
+		route: '/rag/ask/stream',
+		metadata: { questionLength: question.length, hasFilters: !!filters }
+	});
+
+	const userEmail = session.user?.email ?? undefined;
+
+	const stream = new ReadableStream({
+		async start(controller) {
+			const encoder = new TextEncoder();
+			const send = (data: Record<string, unknown>) =>
+				controller.enqueue(encoder.encode(`data: ${JSON.stringify(data)}\n\n`));
+
+			const answerId = crypto.randomUUID();
+			const record = (answer: string, chunks: RagAnswerChunk[], cachedAnswer = false) =>
+				void recordAnswer(getRagPool(VECTOR_DATABASE_URL), {
+					id: answerId,
+					source: 'rag_ask',
+					user_email: userEmail,
+					question,
+					answer,
+					filters: filters || {},
+					chunks,
+					cached: cachedAnswer
+				});
+
+			try {
+				const access = await resolveRagAccess(getRagPool(VECTOR_DATABASE_URL), userEmail);
+
+				const answerCache = new RagAnswerCache(
+					VECTOR_DATABASE_URL,
+					COHERE_API_KEY,
+					'rag_ask',
+					access
+				);
+				const useCache = answerCache.enabled && cache !== false;
+				const cached = useCache
+					? await answerCache.lookup<RagAskCachedPayload>(question, filters || {})
+					: null;
+				if (cached?.hit) {
+					answerCache.logHit(question, cached, userEmail);
+					const { answer, payload } = cached.hit;
+					send({ sources: payload.sources });
+					send({ chunk: answer });
+					send({ citations: findCitations(answer, payload.sources) });
+					send({ validation: { applied: false, changed: false } });
+					record(answer, payload.chunks ?? [], true);
+					send({ done: true, answer_id: answerId, cached: true });
+					return;
+				}
+
+				const retrieval = new RagRetrievalService(
+					VECTOR_DATABASE_URL,
+					COHERE_API_KEY,
+					getRagConfig(),
+					access
+				);
+				const { context, sources, chunks } = await retrieval.retrieve(
+					question,
+					filters || {},
+					userEmail,
+					[],
+					useCache ? { cache_hit: false } : {}
+				);
+
+				send({ sources });
+
+				if (!context || chunks.length === 0) {
+					send({ chunk: RAG_NO_ANSWER });
+					send({ citations: [] });
+					send({ validation: { applied: false, changed: false } });
+					record(RAG_NO_ANSWER, []);
+					send({ done: true, answer_id: answerId });
+					return;
+				}
+
+				const cohere = new CohereClientV2({ token: COHERE_API_KEY });
+				const chatStream = await cohere.chatStream({
+					model: RAG_CHAT_MODEL,
+					messages: buildAnswerMessages(context, question)
+				});
+
+				let draft = '';
+				for await (const chatEvent of chatStream) {
+					if (chatEvent.type === 'content-delta') {
+						const delta = chatEvent.delta as { message?: { content?: { text?: string } } };
+						const text = delta?.message?.content?.text;
+						if (text) {
+							draft += text;
+							send({ chunk: text });
+						}
+					}
+				}
+
+				const answer = draft.trim() || RAG_NO_ANSWER;
+				if (!draft.trim()) {
+					send({ chunk: RAG_NO_ANSWER });
+				}
+				// Offsets must match the text the client assembled, untrimmed
+				send({ citations: findCitations(draft.trim() ? draft : answer, sources) });
+
+				let finalAnswer = answer;
+				if (!isValidationEnabled()) {
+					send({ validation: { applied: false, changed: false } });
+				} else {
+					const validation = await cohere.chat({
+						model: RAG_CHAT_MODEL,
+						messages: buildValidationMessages(context, answer)
+					});
+					const validated = messageText(validation.message).trim();
+					if (validated && validated !== answer) {
+						finalAnswer = validated;
+						send({
+							validation: {
+								applied: true,
+								changed: true,
+								answer: validated,
+								citations: findCitations(validated, sources)
+							}
+						});
+					} else {
+						send({ validation: { applied: true, changed: false } });
+					}
+				}
+
+				// "Not in the documents" may stop being true as documents are added, so it isn't cached
+				if (useCache && finalAnswer !== RAG_NO_ANSWER) {
+					void answerCache.store<RagAskCachedPayload>(
+						question,
+						cached?.embedding ?? null,
+						filters || {},
+						{
+							answer: finalAnswer,
+							payload: { sources, chunks: toAnswerChunks(chunks) },
+							docIds: chunks.map((chunk) => chunk.doc_id)
+						}
+					);
+				}
+				record(finalAnswer, toAnswerChunks(chunks));
+
+				send({ done: true, answer_id: answerId });
+			} catch (error: unknown) {
+				const errorMessage = error instanceof Error ? error.message : 'Streaming error';
+				console.error('[RAG Ask Stream] Error:', error);
+				send({ error: errorMessage });
+			} finally {
+				controller.close();
+			}
+		}
+	});
+
+	return new Response(stream, {
+		headers: {
+			'Content-Type': 'text/event-stream',
+			'Cache-Control': 'no-cache',
+			Connection: 'keep-alive'
+		}
+	});
+};
@@ -0,0 +1,96 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import {
+	RAG_DOCUMENT_FILTERS,
+	RagDocumentService,
+	readDocumentUpload,
+	type RagDocumentFilters
+} from '$lib/services/rag-documents';
+import { resolveRagAccess } from '$lib/services/rag-access';
+import { getRagPool } from '$lib/services/rag-retrieval';
+import { isOpsAllowed } from '$lib/services/ops-access';
+import { logEvent } from '$lib/services/ops-logger';
+import { AppError } from '$lib/utils/errors';
+import { COHERE_API_KEY, VECTOR_DATABASE_URL } from '$env/static/private';
+
+/**
+ * RAG corpus documents.
+ *   GET  ?product=&version=&tenant_id=&source_type=&search=&limit=&offset=  – any signed-in user
+ *   POST multipart (file or content, id, format, title, product, ...) or JSON – ops allowlist
+ */
+export const GET: RequestHandler = async (event) => {
+	const session = await event.locals.auth();
+	if (!session) {
+		return json({ error: 'Unauthorized' }, { status: 401 });
+	}
+
+	if (!COHERE_API_KEY || !VECTOR_DATABASE_URL) {
+		return json({ error: 'Missing COHERE_API_KEY or VECTOR_DATABASE_URL' }, { status: 500 });
+	}
+
+	const params = event.url.searchParams;
+	const filters: RagDocumentFilters = { search: params.get('search') || undefined };
+	for (const field of RAG_DOCUMENT_FILTERS) {
+		filters[field] = params.get(field) || undefined;
+	}
+
+	try {
+		const access = await resolveRagAccess(getRagPool(VECTOR_DATABASE_URL), session.user?.email);
+		const service = new RagDocumentService(VECTOR_DATABASE_URL, COHERE_API_KEY, access);
+		const result = await service.listDocuments(filters, {
+			limit: Number(params.get('limit')),
+			offset: Number(params.get('offset'))
+		});
+		return json(result);
+	} catch (error: unknown) {
+		console.error('[RAG Documents] List error:', error);
+		return json(
+			{ error: error instanceof Error ? error.message : 'Internal error' },
+			{ status: 500 }
+		);
+	}
+};
+
+export const POST: RequestHandler = async (event) => {
+	const session = await event.locals.auth();
+	if (!session || !isOpsAllowed(session.user?.email)) {
+		return json({ error: 'Forbidden' }, { status: 403 });
+	}
+
+	if (!COHERE_API_KEY || !VECTOR_DATABASE_URL) {
+		return json({ error: 'Missing COHERE_API_KEY or VECTOR_DATABASE_URL' }, { status: 500 });
+	}
+
+	try {
+		const isJson = event.request.headers.get('content-type')?.includes('application/json');
+		const body = isJson ? await event.request.json() : await event.request.formData();
+		const upload = await readDocumentUpload(body);
+
+		const access = await resolveRagAccess(getRagPool(VECTOR_DATABASE_URL), session.user?.email);
+		const service = new RagDocumentService(VECTOR_DATABASE_URL, COHERE_API_KEY, access);
+		const result = await service.uploadDocument(upload);
+
+		logEvent({
+			user_email: session.user?.email ?? undefined,
+			user_name: session.user?.name ?? undefined,
+			event_type: 'rag_document',
+			event_action: 'upload',
+			route: '/rag/documents',
+			metadata: { ...result }
+		});
+
+		return json(
+			{ result, document: await service.getDocument(result.id) },
+			{ status: result.status === 'indexed' ? 201 : 200 }
+		);
+	} catch (error: unknown) {
+		if (error instanceof AppError) {
+			return json({ error: error.message }, { status: error.statusCode ?? 500 });
+		}
+		console.error('[RAG Documents] Upload error:', error);
+		return json(
+			{ error: error instanceof Error ? error.message : 'Internal error' },
+			{ status: 500 }
+		);
+	}
+};
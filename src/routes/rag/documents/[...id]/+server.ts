@@ -0,0 +1,116 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { RagDocumentService, readDocumentFields } from '$lib/services/rag-documents';
+import { resolveRagAccess } from '$lib/services/rag-access';
+import { getRagPool } from '$lib/services/rag-retrieval';
+import { isOpsAllowed } from '$lib/services/ops-access';
+import { logEvent } from '$lib/services/ops-logger';
+import { AppError } from '$lib/utils/errors';
+import { COHERE_API_KEY, VECTOR_DATABASE_URL } from '$env/static/private';
+
+// Document ids are file paths (e.g. taleo/api.json), hence the rest parameter
+const errorResponse = (error: unknown, label: string) => {
+	if (error instanceof AppError) {
+		return json({ error: error.message }, { status: error.statusCode ?? 500 });
+	}
+	console.error(`[RAG Documents] ${label} error:`, error);
+	return json(
+		{ error: error instanceof Error ? error.message : 'Internal error' },
+		{ status: 500 }
+	);
+};
+
+export const GET: RequestHandler = async (event) => {
+	const session = await event.locals.auth();
+	if (!session) {
+		return json({ error: 'Unauthorized' }, { status: 401 });
+	}
+
+	if (!COHERE_API_KEY || !VECTOR_DATABASE_URL) {
+		return json({ error: 'Missing COHERE_API_KEY or VECTOR_DATABASE_URL' }, { status: 500 });
+	}
+
+	try {
+		const access = await resolveRagAccess(getRagPool(VECTOR_DATABASE_URL), session.user?.email);
+		const service = new RagDocumentService(VECTOR_DATABASE_URL, COHERE_API_KEY, access);
+		const document = await service.getDocument(event.params.id);
+		if (!document) {
+			return json({ error: 'Document not found' }, { status: 404 });
+		}
+		return json({ document });
+	} catch (error: unknown) {
+		return errorResponse(error, 'Get');
+	}
+};
+
+/**
+ * Update title, source_type, external_url, version, product, language or tenant_id.
+ * null or '' clears a field; omitted fields are left alone.
+ */
+export const PATCH: RequestHandler = async (event) => {
+	const session = await event.locals.auth();
+	if (!session || !isOpsAllowed(session.user?.email)) {
+		return json({ error: 'Forbidden' }, { status: 403 });
+	}
+
+	if (!COHERE_API_KEY || !VECTOR_DATABASE_URL) {
+		return json({ error: 'Missing COHERE_API_KEY or VECTOR_DATABASE_URL' }, { status: 500 });
+	}
+
+	let body: Record<string, unknown>;
+	try {
+		body = await event.request.json();
+	} catch {
+		return json({ error: 'Invalid JSON body' }, { status: 400 });
+	}
+
+	try {
+		const fields = readDocumentFields(body);
+		const access = await resolveRagAccess(getRagPool(VECTOR_DATABASE_URL), session.user?.email);
+		const service = new RagDocumentService(VECTOR_DATABASE_URL, COHERE_API_KEY, access);
+		const document = await service.updateDocument(event.params.id, fields);
+
+		logEvent({
+			user_email: session.user?.email ?? undefined,
+			user_name: session.user?.name ?? undefined,
+			event_type: 'rag_document',
+			event_action: 'update',
+			route: '/rag/documents',
+			metadata: { id: event.params.id, fields: Object.keys(fields) }
+		});
+
+		return json({ document });
+	} catch (error: unknown) {
+		return errorResponse(error, 'Update');
+	}
+};
+
+export const DELETE: RequestHandler = async (event) => {
+	const session = await event.locals.auth();
+	if (!session || !isOpsAllowed(session.user?.email)) {
+		return json({ error: 'Forbidden' }, { status: 403 });
+	}
+
+	if (!COHERE_API_KEY || !VECTOR_DATABASE_URL) {
+		return json({ error: 'Missing COHERE_API_KEY or VECTOR_DATABASE_URL' }, { status: 500 });
+	}
+
+	try {
+		const access = await resolveRagAccess(getRagPool(VECTOR_DATABASE_URL), session.user?.email);
+		const service = new RagDocumentService(VECTOR_DATABASE_URL, COHERE_API_KEY, access);
+		await service.deleteDocument(event.params.id);
+
+		logEvent({
+			user_email: session.user?.email ?? undefined,
+			user_name: session.user?.name ?? undefined,
+			event_type: 'rag_document',
+			event_action: 'delete',
+			route: '/rag/documents',
+			metadata: { id: event.params.id }
+		});
+
+		return json({ deleted: event.params.id });
+	} catch (error: unknown) {
+		return errorResponse(error, 'Delete');
+	}
+};
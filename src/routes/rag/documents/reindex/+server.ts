@@ -0,0 +1,59 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { RagDocumentService } from '$lib/services/rag-documents';
+import type { RagIndexResult } from '$lib/services/rag-indexer';
+import { resolveRagAccess } from '$lib/services/rag-access';
+import { getRagPool } from '$lib/services/rag-retrieval';
+import { isOpsAllowed } from '$lib/services/ops-access';
+import { logEvent } from '$lib/services/ops-logger';
+import { COHERE_API_KEY, VECTOR_DATABASE_URL } from '$env/static/private';
+
+const MAX_REINDEX_IDS = 50;
+
+/**
+ * Re-index documents from their stored source: POST { ids: string[] }.
+ * Runs sequentially and reports each document separately, so one failure doesn't hide the rest.
+ */
+export const POST: RequestHandler = async (event) => {
+	const session = await event.locals.auth();
+	if (!session || !isOpsAllowed(session.user?.email)) {
+		return json({ error: 'Forbidden' }, { status: 403 });
+	}
+
+	if (!COHERE_API_KEY || !VECTOR_DATABASE_URL) {
+		return json({ error: 'Missing COHERE_API_KEY or VECTOR_DATABASE_URL' }, { status: 500 });
+	}
+
+	let ids: string[];
+	try {
+		const body = await event.request.json();
+		ids = Array.isArray(body?.ids) ? body.ids.filter((id: unknown) => typeof id === 'string') : [];
+	} catch {
+		return json({ error: 'Invalid JSON body' }, { status: 400 });
+	}
+	if (ids.length === 0 || ids.length > MAX_REINDEX_IDS) {
+		return json({ error: `ids must list 1–${MAX_REINDEX_IDS} document ids` }, { status: 400 });
+	}
+
+	const access = await resolveRagAccess(getRagPool(VECTOR_DATABASE_URL), session.user?.email);
+	const service = new RagDocumentService(VECTOR_DATABASE_URL, COHERE_API_KEY, access);
+	const results: Array<RagIndexResult | { id: string; error: string }> = [];
+	for (const id of ids) {
+		try {
+			results.push(await service.reindexDocument(id));
+		} catch (error: unknown) {
+			results.push({ id, error: error instanceof Error ? error.message : 'Re-index failed' });
+		}
+	}
+
+	logEvent({
+		user_email: session.user?.email ?? undefined,
+		user_name: session.user?.name ?? undefined,
+		event_type: 'rag_document',
+		event_action: 'reindex',
+		route: '/rag/documents/reindex',
+		metadata: { ids, failed: results.filter((r) => 'error' in r).length }
+	});
+
+	return json({ results });
+};
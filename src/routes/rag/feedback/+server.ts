@@ -0,0 +1,60 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { RagFeedbackService, parseRating } from '$lib/services/rag-feedback';
+import { logEvent } from '$lib/services/ops-logger';
+import { AppError } from '$lib/utils/errors';
+import { VECTOR_DATABASE_URL } from '$env/static/private';
+
+/**
+ * Rate an answer: POST { answer_id, rating: 'up' | 'down', comment? }.
+ * Users can only rate answers they were served.
+ */
+export const POST: RequestHandler = async (event) => {
+	const session = await event.locals.auth();
+	const email = session?.user?.email;
+	if (!session || !email) {
+		return json({ error: 'Unauthorized' }, { status: 401 });
+	}
+
+	if (!VECTOR_DATABASE_URL) {
+		return json({ error: 'Missing VECTOR_DATABASE_URL' }, { status: 500 });
+	}
+
+	let body: { answer_id?: unknown; rating?: unknown; comment?: unknown };
+	try {
+		body = await event.request.json();
+	} catch {
+		return json({ error: 'Invalid JSON body' }, { status: 400 });
+	}
+	const rating = parseRating(body?.rating);
+	if (typeof body?.answer_id !== 'string' || !body.answer_id || rating === null) {
+		return json({ error: "answer_id and rating ('up' or 'down') are required" }, { status: 400 });
+	}
+	const comment = typeof body.comment === 'string' ? body.comment : undefined;
+
+	try {
+		await new RagFeedbackService(VECTOR_DATABASE_URL).rateAnswer(
+			body.answer_id,
+			email,
+			rating,
+			comment
+		);
+	} catch (error: unknown) {
+		if (error instanceof AppError) {
+			return json({ error: error.message }, { status: error.statusCode ?? 500 });
+		}
+		console.error('[RAG Feedback]', error);
+		return json({ error: 'Saving feedback failed' }, { status: 500 });
+	}
+
+	logEvent({
+		user_email: email,
+		user_name: session.user?.name ?? undefined,
+		event_type: 'rag_feedback',
+		event_action: rating === 1 ? 'up' : 'down',
+		route: '/rag/feedback',
+		metadata: { answer_id: body.answer_id, has_comment: Boolean(comment?.trim()) }
+	});
+
+	return json({ ok: true });
+};